@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+
+// DELETE /api/characters/[id] - Delete a saved character profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createClient()
+
+    const { error } = await supabase
+      .from('character_profiles')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('Error deleting character profile:', err)
+    return NextResponse.json(
+      { error: 'Failed to delete character profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { validateCharacterProfile } from '@/lib/characters'
+import type { CreateCharacterProfileRequest, CharacterProfile } from '@/types/database'
+
+// GET /api/characters - List all saved character profiles
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: characters, error } = await supabase
+      .from('character_profiles')
+      .select('*')
+      .order('name')
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(characters as CharacterProfile[])
+  } catch (err) {
+    console.error('Error fetching character profiles:', err)
+    return NextResponse.json(
+      { error: 'Failed to fetch character profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/characters - Save a new character profile
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateCharacterProfileRequest = await request.json()
+
+    const validationError = validateCharacterProfile(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('character_profiles')
+      .insert({
+        name: body.name.trim(),
+        skills: body.skills,
+        default_skill_level: body.defaultSkillLevel,
+        implants: body.implants ?? [],
+        manufacturing_slots: body.manufacturingSlots,
+        reaction_slots: body.reactionSlots,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(data as CharacterProfile)
+  } catch (err) {
+    console.error('Error creating character profile:', err)
+    return NextResponse.json(
+      { error: 'Failed to create character profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { pruneHttpCache } from '@/lib/http'
+import { getProjectMarket } from '@/lib/markets'
+import { repriceProject, type RepriceDiff } from '@/lib/reprice'
+import { getWarnings, runWithWarnings } from '@/lib/warnings'
+import type { Component, Project, RawMaterial } from '@/types/database'
+
+export interface CronRepriceResponse {
+  repriced: { projectId: string; name: string; diff: RepriceDiff; errors?: string[]; warnings?: string[] }[]
+  inactive: number                // Projects with every item collected
+  failed: { projectId: string; name: string; error: string }[]
+}
+
+// GET /api/cron/reprice - Re-appraise every active project, leaving collected items alone
+export async function GET(request: NextRequest) {
+  try {
+    // Schedulers send the secret as a bearer token (Vercel Cron does this with CRON_SECRET)
+    const secret = process.env.CRON_SECRET
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*, raw_materials(*), components(*)')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const projects = data as (Project & { raw_materials: RawMaterial[]; components: Component[] })[]
+    const response: CronRepriceResponse = { repriced: [], inactive: 0, failed: [] }
+
+    // One project at a time keeps the price sources' rate limits in reach
+    for (const project of projects) {
+      const active = [...project.raw_materials, ...project.components].some(item => !item.collected)
+      if (!active) {
+        response.inactive++
+        continue
+      }
+
+      try {
+        // Warnings are collected per project
+        const entry = await runWithWarnings(async () => {
+          const { diff, errors } = await repriceProject(supabase, project, getProjectMarket(project), {
+            skipCollected: true,
+          })
+          return {
+            projectId: project.id,
+            name: project.name,
+            diff,
+            errors: errors.length > 0 ? errors : undefined,
+            warnings: getWarnings(),
+          }
+        })
+        response.repriced.push(entry)
+      } catch (err) {
+        console.error(`Error repricing project ${project.id}:`, err)
+        response.failed.push({
+          projectId: project.id,
+          name: project.name,
+          error: err instanceof Error ? err.message : 'Failed to reprice project',
+        })
+      }
+    }
+
+    // Drop cached API responses that are too old to serve even as stale data
+    try {
+      await pruneHttpCache()
+    } catch (err) {
+      console.error('Error pruning HTTP cache:', err)
+    }
+
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('Error repricing projects:', err)
+    return NextResponse.json(
+      { error: 'Failed to reprice projects' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pruneScans, runQueuedScans } from '@/lib/profitability'
+
+export interface CronScanResponse {
+  ran: number                     // Queued scans, and scans taken over from a silent worker
+}
+
+// GET /api/cron/scan - Run profitability scans no instance is working on
+export async function GET(request: NextRequest) {
+  try {
+    // Schedulers send the secret as a bearer token (Vercel Cron does this with CRON_SECRET)
+    const secret = process.env.CRON_SECRET
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const response: CronScanResponse = { ran: await runQueuedScans() }
+
+    // Drop finished scans whose prices are too old to serve
+    try {
+      await pruneScans()
+    } catch (err) {
+      console.error('Error pruning scans:', err)
+    }
+
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('Error running queued scans:', err)
+    return NextResponse.json(
+      { error: 'Failed to run queued scans' },
+      { status: 500 }
+    )
+  }
+}
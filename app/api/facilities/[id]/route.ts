@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+
+// DELETE /api/facilities/[id] - Delete a saved facility profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createClient()
+
+    const { error } = await supabase
+      .from('facility_profiles')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('Error deleting facility profile:', err)
+    return NextResponse.json(
+      { error: 'Failed to delete facility profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { validateFacilityProfile } from '@/lib/facilities'
+import type { CreateFacilityProfileRequest, FacilityProfile } from '@/types/database'
+
+// GET /api/facilities - List all saved facility profiles
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: facilities, error } = await supabase
+      .from('facility_profiles')
+      .select('*')
+      .order('name')
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(facilities as FacilityProfile[])
+  } catch (err) {
+    console.error('Error fetching facility profiles:', err)
+    return NextResponse.json(
+      { error: 'Failed to fetch facility profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/facilities - Save a new facility profile
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateFacilityProfileRequest = await request.json()
+
+    const validationError = validateFacilityProfile(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('facility_profiles')
+      .insert({
+        name: body.name.trim(),
+        activity: body.activity,
+        structure_type: body.structureType,
+        rig_type: body.rigType,
+        rigs: body.rigs ?? [],
+        system_name: body.systemName.trim(),
+        security_type: body.securityType,
+        facility_tax: body.facilityTax,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(data as FacilityProfile)
+  } catch (err) {
+    console.error('Error creating facility profile:', err)
+    return NextResponse.json(
+      { error: 'Failed to create facility profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getBlueprintSearchFilterOptions } from '@/lib/blueprint-search'
+
+export type BlueprintFiltersResponse = ReturnType<typeof getBlueprintSearchFilterOptions>
+
+// GET /api/industry/blueprints/filters - Categories and market groups the blueprint search can filter by
+export async function GET() {
+  try {
+    const response: BlueprintFiltersResponse = getBlueprintSearchFilterOptions()
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Blueprint filters error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load blueprint filters' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,26 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { searchBlueprints } from '@/lib/blueprints'
+import { searchBlueprints, type BlueprintActivity, type BlueprintSearchFilters } from '@/lib/blueprint-search'
+import { canBeInvented } from '@/lib/invention'
+import { canBeReverseEngineered } from '@/lib/reverse-engineering'
+import type { TechLevel } from '@/lib/tech-level'
 
+export interface BlueprintSearchItem {
+  blueprintTypeId: number
+  blueprintName: string
+  productTypeId: number
+  productName: string
+  isReaction: boolean
+  isInventable: boolean
+  isReverseEngineered: boolean
+  techLevel: TechLevel
+  marketGroupPath: string[]
+}
+
+// GET /api/industry/blueprints/search?q=...&activity=&techLevel=&categoryId=&marketGroup= - Ranked blueprint matches
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const query = searchParams.get('q') || ''
   const limit = parseInt(searchParams.get('limit') || '20')
-  
-  if (query.length < 2) {
+
+  const filters: BlueprintSearchFilters = {}
+  const activity = searchParams.get('activity')
+  if (activity) {
+    if (activity !== 'manufacturing' && activity !== 'reaction') {
+      return NextResponse.json(
+        { error: 'activity must be manufacturing or reaction' },
+        { status: 400 }
+      )
+    }
+    filters.activity = activity as BlueprintActivity
+  }
+  const techLevel = searchParams.get('techLevel')
+  if (techLevel) {
+    if (!['1', '2', '3'].includes(techLevel)) {
+      return NextResponse.json(
+        { error: 'techLevel must be 1, 2 or 3' },
+        { status: 400 }
+      )
+    }
+    filters.techLevel = Number(techLevel) as TechLevel
+  }
+  const categoryId = searchParams.get('categoryId')
+  if (categoryId) {
+    if (!Number.isInteger(Number(categoryId))) {
+      return NextResponse.json(
+        { error: 'categoryId must be a whole number' },
+        { status: 400 }
+      )
+    }
+    filters.categoryId = Number(categoryId)
+  }
+  const marketGroup = searchParams.get('marketGroup')
+  if (marketGroup) {
+    filters.marketGroup = marketGroup.split(' > ')
+  }
+
+  // Without filters a query is needed; with them an empty query lists the filtered blueprints
+  const hasFilters = Object.keys(filters).length > 0
+  if (query.trim().length < 2 && !hasFilters) {
     return NextResponse.json([])
   }
-  
-  const results = searchBlueprints(query, Math.min(limit, 50))
-  
+
+  const results = searchBlueprints(query, filters, Math.min(Math.max(limit || 20, 1), 50))
+
   // Return simplified results for autocomplete
-  const simplifiedResults = results.map(bp => ({
+  const simplifiedResults: BlueprintSearchItem[] = results.map(bp => ({
     blueprintTypeId: bp.blueprintTypeId,
     blueprintName: bp.blueprintName,
     productTypeId: bp.productTypeId,
     productName: bp.productName,
-    isReaction: bp.activityId === 11 // ACTIVITY_REACTION
+    isReaction: bp.isReaction,
+    isInventable: canBeInvented(bp.blueprintTypeId),
+    isReverseEngineered: canBeReverseEngineered(bp.blueprintTypeId),
+    techLevel: bp.techLevel,
+    marketGroupPath: bp.marketGroupPath
   }))
-  
+
   return NextResponse.json(simplifiedResults)
 }
-
@@ -1,20 +1,88 @@
 import { NextRequest, NextResponse } from 'next/server'
 import {
   calculateRecursiveBuild,
+  calculateBuildPlan,
+  calculateBatchBuild,
   getBlueprint,
+  getBlueprintByProduct,
   getStructureBonus,
-  getRigBonus,
+  getReactionStructureBonus,
+  getGenericRig,
+  getCatalogRig,
   getSecurityMultiplier,
   getDefaultSettings,
   getGroupName,
   getTypeInfo,
+  getTypeName,
+  getPackagedVolume,
+  getFacilityActivity,
+  getStepFacility,
+  calculateStepJobCost,
+  type Facility,
   type IndustrySettings,
+  type BlueprintData,
+  type BuildTarget,
+  type BatchSaving,
+  type MaterialRequirement,
 } from '@/lib/blueprints'
-import { getSystemCostIndex, getJobBaseCosts } from '@/lib/esi'
-import { createAppraisal } from '@/lib/janice'
+import { getSystemCostIndex, getAdjustedPrices } from '@/lib/esi'
+import { calculateScienceJobCost, getEstimatedItemValue, type JobCostBreakdown } from '@/lib/job-cost'
+import { calculateInvention, canBeInvented, hasInventionData, type DecryptorType, type InventionResult } from '@/lib/invention'
+import {
+  calculateReverseEngineering,
+  canBeReverseEngineered,
+  getReverseEngineeringData,
+  hasReverseEngineeringData,
+  RELIC_QUALITIES,
+  type RelicQuality,
+  type ReverseEngineeringResult,
+} from '@/lib/reverse-engineering'
+import { resolveFacilityProfile } from '@/lib/facilities'
+import { toCharacterSkills } from '@/lib/characters'
+import { getMarketFees } from '@/lib/skills'
+import { optimizeMakeOrBuy, type MakeOrBuyChoice, type MakeOrBuyDecision } from '@/lib/make-or-buy'
+import { priceBuildTree, type PricedBuildTreeNode } from '@/lib/build-tree'
+import { scheduleBuild, DEFAULT_SLOTS, type Schedule } from '@/lib/scheduler'
+import {
+  getPlanetaryTier,
+  hasPlanetSchematics,
+  isPlanetaryCommodity,
+  planPlanetaryChain,
+  type PlanetaryPlan,
+} from '@/lib/planetary'
+import {
+  costIndexSensitivity,
+  materialPriceSensitivity,
+  meSensitivity,
+  sensitivityRange,
+  type SensitivitySeries,
+} from '@/lib/sensitivity'
+import { createClient } from '@/utils/supabase/server'
+import type { CharacterProfile, FacilityProfile } from '@/types/database'
+import { getPrices, type PriceSource } from '@/lib/pricing'
+import { addWarning, getWarnings, runWithWarnings } from '@/lib/warnings'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
 
-export interface CalculateRequest {
+export interface CalculateTarget {
   blueprintTypeId: number
+  quantity: number     // Number of BPCs
+  runs?: number        // Runs per BPC
+  blueprintMe?: number
+  blueprintTe?: number
+  invention?: boolean
+  decryptor?: DecryptorType
+  relicQuality?: RelicQuality
+}
+
+export interface CalculateRequest {
+  blueprintTypeId?: number     // Single build; ignored when targets is given
+  targets?: CalculateTarget[]  // Plan several builds at once with pooled components
+  batchMode?: boolean          // Batch component jobs across all BPCs (respects max runs)
+  slots?: {                    // Job slots for the timeline (defaults to one character with max skills)
+    characters?: number
+    manufacturing?: number     // Per character
+    reaction?: number          // Per character
+  }
   quantity: number
   runs?: number
   blueprintMe?: number
@@ -22,9 +90,32 @@ export interface CalculateRequest {
   systemName?: string  // Changed from systemId to systemName
   facilityTax?: number
   structureType?: 'npc_station' | 'raitaru' | 'azbel' | 'sotiyo'
-  rigType?: 'none' | 't1' | 't2'
+  rigType?: 'none' | 't1' | 't2'     // Generic rig applied to every product
+  rigs?: string[]                    // Rig catalog keys; replaces rigType when given
+  reactionStructureType?: 'athanor' | 'tatara'
+  reactionRigType?: 'none' | 't1' | 't2'
+  reactionRigs?: string[]            // Rig catalog keys; replaces reactionRigType when given
   securityType?: 'highsec' | 'lowsec' | 'nullsec' | 'wormhole'
-  calculateReactions?: boolean
+  calculateReactions?: boolean  // Expand reaction inputs down to moon goo
+  invention?: boolean          // Include invention (T2) or reverse engineering (T3) cost
+  decryptor?: DecryptorType
+  relicQuality?: RelicQuality  // Relic used to reverse engineer T3 blueprints (default intact)
+  facilityRouting?: {          // Route steps to saved facility profiles (by profile id)
+    byGroup?: Record<string, string>    // Product groupId -> facility profile id
+    byProduct?: Record<string, string>  // Product typeId -> facility profile id
+  }
+  characterId?: string         // Saved character profile: skills, implants and job slots
+  makeOrBuy?: {
+    optimize?: boolean                          // Buy every component that is cheaper to buy
+    pinned?: Record<string, MakeOrBuyChoice>    // Component typeId -> decision the optimizer must keep
+  }
+  planetary?: {                // Expand P1-P4 materials through planet schematics
+    expand?: boolean
+    inputTier?: 0 | 1          // Stop at extracted P0 (default) or bought P1
+    taxRate?: number           // Customs office tax percentage (default 10)
+  }
+  sensitivity?: boolean        // Profit against cost index, ME and material prices
+  market?: MarketSettings      // Hubs and price variants for buy and sell prices (default Jita immediate)
 }
 
 export interface MaterialWithPrice {
@@ -37,6 +128,7 @@ export interface MaterialWithPrice {
   totalBuyPrice: number
   totalSellPrice: number
   groupName?: string
+  priceSource?: PriceSource  // Where the prices came from (unset when no source had them)
 }
 
 export interface ComponentMaterial {
@@ -55,12 +147,68 @@ export interface ComponentItem {
   totalBuyPrice: number
   totalSellPrice: number
   groupName?: string
+  priceSource?: PriceSource // Where the prices came from (unset when no source had them)
   buildCost?: number        // Cost to build this component (materials + job cost)
   shouldBuy?: boolean       // True if buying is cheaper than building
   savings?: number          // Amount saved by choosing the cheaper option
   materialsBreakdown?: ComponentMaterial[]  // Materials required to build this component
 }
 
+export interface FacilityTotal {
+  facilityId: string
+  facilityName: string
+  jobs: number
+  time: number      // Summed job time in seconds
+  duration: string
+  jobCost: number
+}
+
+export interface InventionSummary {
+  t1BlueprintTypeId: number       // T1 blueprint, or the relic for reverse engineering
+  t1BlueprintName: string
+  relicQuality?: RelicQuality     // Set for reverse engineered T3 BPCs
+  probability: number
+  runsPerBpc: number
+  bpcsNeeded: number
+  expectedAttempts: number
+  me: number
+  te: number
+  decryptorName: string
+  materials: MaterialWithPrice[]  // Datacores and decryptors for all expected attempts
+  materialsCost: number
+  jobCost: number
+  jobCostBreakdown: JobCostBreakdown
+  totalCost: number
+  costPerBpc: number
+}
+
+export interface TargetAllocation {
+  blueprintTypeId: number
+  blueprintName: string
+  productTypeId: number
+  productName: string
+  quantity: number
+  runs: number
+  materialsCost: number   // Raw materials bought while planning this target
+  jobCosts: number
+  inventionCost: number
+  excessCredit: number    // Share of the plan's excess value, by materials cost
+  totalCost: number
+  costPerUnit: number
+  estimatedProfit: number
+  invention?: InventionSummary
+}
+
+export interface BatchSavingItem extends BatchSaving {
+  value: number           // (naive - batch) quantity at buy price
+}
+
+export interface BatchSavings {
+  materials: BatchSavingItem[]   // Raw materials
+  excess: BatchSavingItem[]      // Leftover components
+  materialsValue: number
+  excessValue: number
+}
 
 export interface CalculateResponse {
   blueprint: {
@@ -80,6 +228,7 @@ export interface CalculateResponse {
     sellPrice: number
     totalBuyPrice: number
     totalSellPrice: number
+    priceSource?: PriceSource
     duration: string
   }[]
   excessMaterials: MaterialWithPrice[]
@@ -87,41 +236,155 @@ export interface CalculateResponse {
     materialsCostBuy: number
     materialsCostSell: number
     jobCosts: number
+    inventionCost: number
+    planetaryTax: number          // Customs taxes of the expanded PI chain
     excessValue: number
     totalCost: number
     costPerUnit: number
+    marketFees: number            // Sales tax and broker fee on the outputs (needs a character)
     estimatedProfit: number
   }
   buildSteps: {
     blueprintName: string
+    productTypeId: number
     productName: string
+    groupId: number | null
+    groupName?: string
     runs: number
+    jobs: number
     quantity: number
     excess: number
     duration: string
     jobCost: number
+    jobCostBreakdown: JobCostBreakdown  // EIV, system cost, role bonus, facility tax, SCC surcharge
+    isReaction: boolean
+    facilityId: string
+    facilityName: string
   }[]
+  facilityTotals: FacilityTotal[]
+  targets: TargetAllocation[]     // Cost allocation per target (one entry for single builds)
+  batchSavings?: BatchSavings     // Batch mode: savings against multiplying one BPC
+  buildTree?: PricedBuildTreeNode[]  // One tree per target with rolled-up costs (not in batch mode)
+  schedule: Schedule & {          // Jobs on slots; stepIndex refers to buildSteps
+    eta: string                   // Formatted makespan
+    criticalPathDuration: string
+  }
+  makeOrBuy: {
+    optimized: boolean            // Components decided "buy" are bought (pinned buys always are)
+    decisions: MakeOrBuyDecision[]
+  }
+  invention?: InventionSummary
+  planetary?: PlanetaryPlan       // PI chain that replaced P1-P4 materials
+  sensitivity?: SensitivitySeries[]
   systemCostIndex: number
+  reactionCostIndex: number
+  market: MarketSettings          // Hubs and price variants the prices were read from
+  warnings?: string[]             // Stale or fallback data the result was built with
 }
 
 export async function POST(request: NextRequest) {
+  return runWithWarnings(() => calculate(request))
+}
+
+async function calculate(request: NextRequest) {
   try {
     const body: CalculateRequest = await request.json()
     
+    // A single build is a plan with one target
+    const isPlan = Array.isArray(body.targets)
+    const requestedTargets: CalculateTarget[] = body.targets ?? [{
+      blueprintTypeId: body.blueprintTypeId!,
+      quantity: body.quantity ?? 1,
+      runs: body.runs,
+      blueprintMe: body.blueprintMe,
+      blueprintTe: body.blueprintTe,
+      invention: body.invention,
+      decryptor: body.decryptor,
+      relicQuality: body.relicQuality,
+    }]
+    
     // Validate required fields
-    if (!body.blueprintTypeId) {
+    if (requestedTargets.length === 0 || requestedTargets.some(t => !t.blueprintTypeId)) {
       return NextResponse.json(
-        { error: 'blueprintTypeId is required' },
+        { error: isPlan ? 'Every target needs a blueprintTypeId' : 'blueprintTypeId is required' },
+        { status: 400 }
+      )
+    }
+    if (requestedTargets.some(t => !Number.isInteger(t.quantity) || t.quantity < 1)) {
+      return NextResponse.json(
+        { error: 'Target quantity must be a positive whole number of BPCs' },
         { status: 400 }
       )
     }
     
-    // Check blueprint exists
-    const blueprint = getBlueprint(body.blueprintTypeId)
-    if (!blueprint) {
+    // Check blueprints exist
+    const targetBlueprints: BlueprintData[] = []
+    for (const target of requestedTargets) {
+      const targetBlueprint = getBlueprint(target.blueprintTypeId)
+      if (!targetBlueprint) {
+        return NextResponse.json(
+          { error: isPlan ? `Blueprint not found: ${target.blueprintTypeId}` : 'Blueprint not found' },
+          { status: 404 }
+        )
+      }
+      targetBlueprints.push(targetBlueprint)
+    }
+    const blueprint = targetBlueprints[0]
+    
+    // Reject relic qualities the T3 blueprint cannot be reverse engineered from
+    const badRelic = requestedTargets.find(t => t.relicQuality !== undefined && (
+      !RELIC_QUALITIES.includes(t.relicQuality) ||
+      (t.invention && canBeReverseEngineered(t.blueprintTypeId) &&
+        !getReverseEngineeringData(t.blueprintTypeId)?.relics.some(r => r.quality === t.relicQuality))
+    ))
+    if (badRelic) {
+      return NextResponse.json(
+        { error: `No ${badRelic.relicQuality} relic for blueprint ${badRelic.blueprintTypeId}` },
+        { status: 400 }
+      )
+    }
+    
+    // Reject unknown rig catalog keys
+    const unknownRig = [...(body.rigs ?? []), ...(body.reactionRigs ?? [])]
+      .find(key => !getCatalogRig(key))
+    if (unknownRig) {
       return NextResponse.json(
-        { error: 'Blueprint not found' },
-        { status: 404 }
+        { error: `Unknown rig: ${unknownRig}` },
+        { status: 400 }
+      )
+    }
+    
+    // Reject pins that are neither build nor buy
+    const pinned: Record<number, MakeOrBuyChoice> = {}
+    for (const [typeId, choice] of Object.entries(body.makeOrBuy?.pinned ?? {})) {
+      if (choice !== 'build' && choice !== 'buy') {
+        return NextResponse.json(
+          { error: `Pinned decision for ${typeId} must be "build" or "buy"` },
+          { status: 400 }
+        )
+      }
+      pinned[Number(typeId)] = choice
+    }
+    
+    // Reject PI chain options the planner does not support
+    const planetaryInputTier = body.planetary?.inputTier ?? 0
+    const planetaryTaxRate = body.planetary?.taxRate ?? 10
+    if ((planetaryInputTier !== 0 && planetaryInputTier !== 1) || !(planetaryTaxRate >= 0 && planetaryTaxRate <= 100)) {
+      return NextResponse.json(
+        { error: 'planetary.inputTier must be 0 or 1 and planetary.taxRate a percentage from 0 to 100' },
+        { status: 400 }
+      )
+    }
+    if (body.planetary?.expand && !hasPlanetSchematics()) {
+      addWarning('Planet schematics are missing, PI materials are not expanded: run `npm run update-sde` to generate data/planet-schematics.json')
+    }
+    
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
       )
     }
     
@@ -137,87 +400,306 @@ export async function POST(request: NextRequest) {
       structureBonus: body.structureType 
         ? getStructureBonus(body.structureType)
         : defaults.structureBonus,
-      rigBonus: body.rigType
-        ? getRigBonus(body.rigType)
-        : defaults.rigBonus,
+      rigs: body.rigs
+        ? body.rigs.map(key => getCatalogRig(key)!)
+        : body.rigType
+          ? [getGenericRig(body.rigType)]
+          : defaults.rigs,
       securityMultiplier: body.securityType
         ? getSecurityMultiplier(body.securityType)
         : defaults.securityMultiplier,
       componentMe: defaults.componentMe,
       componentTe: defaults.componentTe,
+      calculateReactions: body.calculateReactions ?? defaults.calculateReactions,
+      reactionStructureBonus: body.reactionStructureType
+        ? getReactionStructureBonus(body.reactionStructureType)
+        : defaults.reactionStructureBonus,
+      reactionRigs: body.reactionRigs
+        ? body.reactionRigs.map(key => getCatalogRig(key)!)
+        : body.reactionRigType
+          ? [getGenericRig(body.reactionRigType)]
+          : defaults.reactionRigs,
+      reactionCostIndex: defaults.reactionCostIndex,
     }
     
-    // Fetch system cost index from eve-industry.org
+    // Fetch system cost indices from ESI (1=Manufacturing, 11=Reactions)
+    // Both are needed since reaction steps can appear under a manufacturing build
     const systemName = body.systemName ?? 'Jita'
     const isReaction = blueprint.activityId === 11
-    const activityId = isReaction ? 11 : 1 // 1=Manufacturing, 11=Reactions
     
+    // An index that could not be fetched keeps the default
+    const [manufacturingIndex, reactionIndex] = await Promise.all([
+      getSystemCostIndex(systemName, 1),
+      getSystemCostIndex(systemName, 11),
+    ])
+    settings.systemCostIndex = manufacturingIndex ?? settings.systemCostIndex
+    settings.reactionCostIndex = reactionIndex ?? settings.reactionCostIndex
+    
+    // ESI adjusted prices set the estimated item value (EIV) that job costs are charged on
+    let adjustedPrices = new Map<number, number>()
     try {
-      settings.systemCostIndex = await getSystemCostIndex(systemName, activityId)
+      adjustedPrices = await getAdjustedPrices()
     } catch (error) {
-      console.warn('Failed to fetch system cost index, using default:', error)
+      addWarning(`Failed to fetch adjusted prices, job costs will be zero: ${error instanceof Error ? error.message : error}`)
     }
     
-    // Calculate recursive build first to get all blueprint IDs
-    const result = calculateRecursiveBuild(body.blueprintTypeId, settings, new Map())
+    // Resolve saved facility profiles referenced by the routing rules
+    if (body.facilityRouting) {
+      const byGroup = body.facilityRouting.byGroup ?? {}
+      const byProduct = body.facilityRouting.byProduct ?? {}
+      const profileIds = Array.from(new Set([...Object.values(byGroup), ...Object.values(byProduct)]))
+      
+      if (profileIds.length > 0) {
+        const supabase = createClient()
+        const { data: profiles, error } = await supabase
+          .from('facility_profiles')
+          .select('*')
+          .in('id', profileIds)
+        
+        if (error) {
+          return NextResponse.json({ error: error.message }, { status: 500 })
+        }
+        
+        const missing = profileIds.filter(id => !profiles?.some(p => p.id === id))
+        if (missing.length > 0) {
+          return NextResponse.json(
+            { error: `Facility profile not found: ${missing.join(', ')}` },
+            { status: 400 }
+          )
+        }
+        
+        // A product routed to a profile of the other activity can never run there
+        const activityById = new Map((profiles as FacilityProfile[]).map(p => [p.id, p.activity]))
+        const mismatched = Object.entries(byProduct).filter(([typeId, profileId]) => {
+          const productBp = getBlueprintByProduct(Number(typeId))
+          return productBp && getFacilityActivity(productBp.activityId) !== activityById.get(profileId)
+        })
+        if (mismatched.length > 0) {
+          return NextResponse.json(
+            {
+              error: `Facility profile activity does not match the routed product: ${mismatched
+                .map(([typeId, profileId]) => `${getTypeName(Number(typeId))} -> ${profileId}`)
+                .join(', ')}`
+            },
+            { status: 400 }
+          )
+        }
+        
+        const facilities: Record<string, Facility> = {}
+        for (const facility of await Promise.all((profiles as FacilityProfile[]).map(resolveFacilityProfile))) {
+          facilities[facility.id] = facility
+        }
+        
+        settings.facilityRouting = {
+          facilities,
+          byGroup: Object.fromEntries(Object.entries(byGroup).map(([k, v]) => [Number(k), v])),
+          byProduct: Object.fromEntries(Object.entries(byProduct).map(([k, v]) => [Number(k), v])),
+        }
+      }
+    }
     
-    // Get job base costs from eve-industry.org for all blueprints
-    const blueprintIds = result.buildSteps.map(step => step.blueprintTypeId)
-    let jobBaseCosts = new Map<number, number>()
-    try {
-      jobBaseCosts = await getJobBaseCosts(blueprintIds)
-    } catch (error) {
-      console.warn('Failed to fetch job base costs:', error)
+    // Load the selected character; its skills shorten job times and raise invention chance
+    let characterProfile: CharacterProfile | null = null
+    if (body.characterId) {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('character_profiles')
+        .select('*')
+        .eq('id', body.characterId)
+        .maybeSingle()
+      
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+      if (!data) {
+        return NextResponse.json(
+          { error: `Character profile not found: ${body.characterId}` },
+          { status: 400 }
+        )
+      }
+      characterProfile = data as CharacterProfile
+      settings.character = toCharacterSkills(characterProfile)
     }
     
-    // Recalculate job costs using actual base costs from API
-    let totalJobCost = 0
-    for (const step of result.buildSteps) {
-      const baseCost = jobBaseCosts.get(step.blueprintTypeId) || 0
-      // Job cost formula: base_cost * system_cost_index * runs * (1 - structure_bonus) * (1 + facility_tax)
-      step.jobCost = baseCost * settings.systemCostIndex * step.runs * 
-                     (1 - settings.structureBonus.jobCostBonus) * 
-                     (1 + settings.facilityTax)
-      totalJobCost += step.jobCost
+    // Without the generated recipes no blueprint can be invented, which would otherwise go unnoticed
+    const uninvented = requestedTargets.some(target => target.invention &&
+      !canBeInvented(target.blueprintTypeId) && !canBeReverseEngineered(target.blueprintTypeId))
+    if (uninvented && !hasInventionData()) {
+      addWarning('Invention data is missing, invention costs are left out: run `npm run update-sde` to generate data/invention.json')
+    }
+    if (uninvented && !hasReverseEngineeringData()) {
+      addWarning('Reverse engineering data is missing, T3 relic costs are left out: run `npm run update-sde` to generate data/reverse-engineering.json')
     }
     
-    // Get prices for all materials from Janice (including components)
+    // Invention (T2) or reverse engineering (T3): the BPC's ME/TE replace the blueprint ME/TE
+    const inventions: (InventionResult | ReverseEngineeringResult | null)[] = requestedTargets.map(target => {
+      if (!target.invention) return null
+      
+      const totalRuns = (target.runs ?? settings.runs) * target.quantity
+      const options = {
+        decryptor: target.decryptor,
+        skillLevels: settings.character?.skills,
+        defaultSkillLevel: settings.character?.defaultSkillLevel,
+      }
+      if (canBeInvented(target.blueprintTypeId)) {
+        return calculateInvention(target.blueprintTypeId, totalRuns, options)
+      }
+      if (canBeReverseEngineered(target.blueprintTypeId)) {
+        return calculateReverseEngineering(target.blueprintTypeId, totalRuns, {
+          ...options,
+          relicQuality: target.relicQuality,
+        })
+      }
+      return null
+    })
+    const buildTargets: BuildTarget[] = requestedTargets.map((target, i) => ({
+      blueprintTypeId: target.blueprintTypeId,
+      quantity: target.quantity,
+      runs: target.runs ?? settings.runs,
+      blueprintMe: inventions[i]?.me ?? target.blueprintMe ?? defaults.blueprintMe,
+      blueprintTe: inventions[i]?.te ?? target.blueprintTe ?? defaults.blueprintTe,
+    }))
+    
+    // Make-or-buy pins: pinned builds shape the tree that gets explored, pinned buys are
+    // applied together with the optimizer's decisions once prices are known
+    const makeOrBuyChoices: Record<number, MakeOrBuyChoice> = Object.fromEntries(
+      Object.entries(pinned).filter(([, choice]) => choice === 'build')
+    )
+    settings.makeOrBuy = makeOrBuyChoices
+    
+    // Calculate the build first to get all blueprint IDs
+    // Plans pool components across targets; single builds keep the per-BPC multiply
+    // unless batch mode plans component jobs across all BPCs
+    const runBuild = () => {
+      if (body.batchMode) {
+        const batch = calculateBatchBuild(buildTargets, settings, adjustedPrices)
+        return { result: batch, targetResults: batch.targets, savings: batch }
+      }
+      if (isPlan) {
+        const plan = calculateBuildPlan(buildTargets, settings, adjustedPrices)
+        return { result: plan, targetResults: plan.targets, savings: null }
+      }
+      settings.blueprintMe = buildTargets[0].blueprintMe
+      settings.blueprintTe = buildTargets[0].blueprintTe
+      const single = calculateRecursiveBuild(blueprint.blueprintTypeId, settings, adjustedPrices)
+      return { result: single, targetResults: [single], savings: null }
+    }
+    const explored = runBuild()
+    
+    // Planetary Industry: P1-P4 raw materials are replaced by the P0/P1 inputs of their chain
+    const planPlanetary = (rawMaterials: MaterialRequirement[]): PlanetaryPlan | undefined => {
+      const expandable = rawMaterials.filter(m =>
+        isPlanetaryCommodity(m.typeId) && getPlanetaryTier(m.typeId) > planetaryInputTier)
+      if (!body.planetary?.expand || expandable.length === 0) return undefined
+      return planPlanetaryChain(
+        expandable.map(m => ({ typeId: m.typeId, quantity: m.adjustedQuantity })),
+        { inputTier: planetaryInputTier, taxRate: planetaryTaxRate / 100 }
+      )
+    }
+    
+    // Get prices for all materials (including components) from the configured price sources
     // Build a map of typeId -> name for all items we need prices for
     const itemsForPricing = new Map<number, string>()
-    result.rawMaterials.forEach(m => itemsForPricing.set(m.typeId, m.name))
-    result.excessMaterials.forEach(m => itemsForPricing.set(m.typeId, m.name))
-    result.buildSteps.forEach(step => itemsForPricing.set(step.productTypeId, step.productName))
-    itemsForPricing.set(blueprint.productTypeId, blueprint.productName)
+    explored.result.rawMaterials.forEach(m => itemsForPricing.set(m.typeId, m.name))
+    planPlanetary(explored.result.rawMaterials)?.inputs.forEach(m => itemsForPricing.set(m.typeId, m.name))
+    explored.result.excessMaterials.forEach(m => itemsForPricing.set(m.typeId, m.name))
+    explored.result.buildSteps.forEach(step => itemsForPricing.set(step.productTypeId, step.productName))
+    targetBlueprints.forEach(bp => itemsForPricing.set(bp.productTypeId, bp.productName))
+    inventions.forEach(invention => invention?.materials.forEach(m => itemsForPricing.set(m.typeId, m.name)))
+    explored.savings?.materialSavings.forEach(m => itemsForPricing.set(m.typeId, m.name))
+    explored.savings?.excessSavings.forEach(m => itemsForPricing.set(m.typeId, m.name))
     
-    // Create item list for Janice appraisal using item names (Janice expects names, not type IDs)
-    const itemList = Array.from(itemsForPricing.values()).map(name => `${name} x1`).join('\n')
+    const priceMap = await getPrices(
+      Array.from(itemsForPricing, ([typeId, name]) => ({ typeId, name })),
+      market
+    )
     
-    let priceMap = new Map<number, { buy: number; sell: number }>()
-    try {
-      const appraisal = await createAppraisal(itemList)
-      for (const item of appraisal.items) {
-        priceMap.set(item.typeId, {
-          buy: item.buyPrice,
-          sell: item.sellPrice
+    // Make-or-buy: decide every component bottom-up on the fully built tree (buying at
+    // the sell side of the market settings), then recalculate with the purchases so materials, jobs and excess follow the plan
+    const targetProductIds = new Set(targetBlueprints.map(bp => bp.productTypeId))
+    const makeOrBuy = optimizeMakeOrBuy(
+      explored.result.buildSteps,
+      typeId => priceMap.get(typeId)?.sell || 0,
+      pinned,
+      targetProductIds
+    )
+    const purchases = makeOrBuy.filter(d => d.decision === 'buy' && (body.makeOrBuy?.optimize || d.pinned))
+    for (const purchase of purchases) makeOrBuyChoices[purchase.typeId] = 'buy'
+    const { result, targetResults, savings } = purchases.length > 0 ? runBuild() : explored
+    
+    let totalJobCost = 0
+    const facilityTotalsMap = new Map<string, FacilityTotal>()
+    for (const step of result.buildSteps) {
+      const facility = getStepFacility(settings, step.productTypeId, step.activityId)
+      totalJobCost += step.jobCost
+      
+      const facilityTotal = facilityTotalsMap.get(facility.id) ?? {
+        facilityId: facility.id,
+        facilityName: facility.name,
+        jobs: 0,
+        time: 0,
+        duration: '',
+        jobCost: 0
+      }
+      facilityTotal.jobs += step.jobs ?? 1
+      facilityTotal.time += step.time
+      facilityTotal.jobCost += step.jobCost
+      facilityTotalsMap.set(facility.id, facilityTotal)
+    }
+    const facilityTotals = Array.from(facilityTotalsMap.values()).map(total => ({
+      ...total,
+      duration: formatDuration(total.time)
+    }))
+    
+    // Lay the jobs out on the available slots for a wall-clock ETA
+    // (the selected character's slots replace the defaults)
+    const schedule = scheduleBuild(result.buildSteps, {
+      characters: body.slots?.characters ?? DEFAULT_SLOTS.characters,
+      manufacturing: body.slots?.manufacturing
+        ?? characterProfile?.manufacturing_slots
+        ?? DEFAULT_SLOTS.manufacturing,
+      reaction: body.slots?.reaction
+        ?? characterProfile?.reaction_slots
+        ?? DEFAULT_SLOTS.reaction,
+    })
+    
+    // Expand PI materials of the final plan and merge the chain inputs into the raw materials
+    const planetary = planPlanetary(result.rawMaterials)
+    const expandedPlanetary = new Set(planetary?.steps.map(step => step.typeId))
+    const rawMaterials = result.rawMaterials
+      .filter(m => !expandedPlanetary.has(m.typeId))
+      .map(m => ({ typeId: m.typeId, name: m.name, quantity: m.adjustedQuantity, volume: m.volume, groupName: m.groupName }))
+    for (const input of planetary?.inputs ?? []) {
+      const volume = getPackagedVolume(input.typeId) * input.quantity
+      const existing = rawMaterials.find(m => m.typeId === input.typeId)
+      if (existing) {
+        existing.quantity += input.quantity
+        existing.volume += volume
+      } else {
+        rawMaterials.push({
+          typeId: input.typeId,
+          name: input.name,
+          quantity: input.quantity,
+          volume,
+          groupName: getGroupName(input.typeId) || undefined
         })
       }
-    } catch (error) {
-      console.warn('Failed to fetch prices from Janice:', error)
     }
     
     // Build response with prices
-    const materials: MaterialWithPrice[] = result.rawMaterials.map(m => {
+    const materials: MaterialWithPrice[] = rawMaterials.map(m => {
       const prices = priceMap.get(m.typeId) || { buy: 0, sell: 0 }
       return {
         typeId: m.typeId,
         name: m.name,
-        quantity: m.adjustedQuantity,
+        quantity: m.quantity,
         volume: m.volume,
         buyPrice: prices.buy,
         sellPrice: prices.sell,
-        totalBuyPrice: prices.buy * m.adjustedQuantity,
-        totalSellPrice: prices.sell * m.adjustedQuantity,
-        groupName: m.groupName
+        totalBuyPrice: prices.buy * m.quantity,
+        totalSellPrice: prices.sell * m.quantity,
+        groupName: m.groupName,
+        priceSource: priceMap.get(m.typeId)?.source
       }
     })
     
@@ -232,7 +714,67 @@ export async function POST(request: NextRequest) {
         sellPrice: prices.sell,
         totalBuyPrice: prices.buy * m.quantity,
         totalSellPrice: prices.sell * m.quantity,
-        groupName: getGroupName(m.typeId) || undefined
+        groupName: getGroupName(m.typeId) || undefined,
+        priceSource: priceMap.get(m.typeId)?.source
+      }
+    })
+    
+    // Invention cost: relics/datacores/decryptors plus one job per expected attempt
+    // (reverse engineering jobs use the invention cost index too, falling back to the manufacturing index)
+    let inventionCostIndex = settings.systemCostIndex
+    if (inventions.some(invention => invention)) {
+      inventionCostIndex = await getSystemCostIndex(systemName, 8) ?? settings.systemCostIndex // 8 = Invention
+    }
+    
+    const inventionSummaries: (InventionSummary | undefined)[] = inventions.map((invention, i) => {
+      if (!invention) return undefined
+      
+      const inventionMaterials: MaterialWithPrice[] = invention.materials.map(m => {
+        const prices = priceMap.get(m.typeId) || { buy: 0, sell: 0 }
+        return {
+          typeId: m.typeId,
+          name: m.name,
+          quantity: m.quantity,
+          volume: getPackagedVolume(m.typeId) * m.quantity,
+          buyPrice: prices.buy,
+          sellPrice: prices.sell,
+          totalBuyPrice: prices.buy * m.quantity,
+          totalSellPrice: prices.sell * m.quantity,
+          groupName: getGroupName(m.typeId) || undefined,
+          priceSource: priceMap.get(m.typeId)?.source
+        }
+      })
+      const inventionMaterialsCost = inventionMaterials.reduce((sum, m) => sum + m.totalBuyPrice, 0)
+      
+      // Invention job cost: charged on 2% of the T2/T3 product's EIV per attempt
+      const inventionJobCost = calculateScienceJobCost(
+        getEstimatedItemValue(targetBlueprints[i], 1, adjustedPrices),
+        invention.expectedAttempts,
+        {
+          costIndex: inventionCostIndex,
+          jobCostBonus: settings.structureBonus.jobCostBonus,
+          facilityTax: settings.facilityTax,
+        }
+      )
+      
+      const inventionTotal = inventionMaterialsCost + inventionJobCost.total
+      return {
+        t1BlueprintTypeId: invention.t1BlueprintTypeId,
+        t1BlueprintName: invention.t1BlueprintName,
+        relicQuality: 'relicQuality' in invention ? invention.relicQuality : undefined,
+        probability: invention.probability,
+        runsPerBpc: invention.runsPerBpc,
+        bpcsNeeded: invention.bpcsNeeded,
+        expectedAttempts: invention.expectedAttempts,
+        me: invention.me,
+        te: invention.te,
+        decryptorName: invention.decryptor.name,
+        materials: inventionMaterials,
+        materialsCost: inventionMaterialsCost,
+        jobCost: inventionJobCost.total,
+        jobCostBreakdown: inventionJobCost,
+        totalCost: inventionTotal,
+        costPerBpc: invention.bpcsNeeded > 0 ? inventionTotal / invention.bpcsNeeded : 0
       }
     })
     
@@ -240,62 +782,170 @@ export async function POST(request: NextRequest) {
     const materialsCostBuy = materials.reduce((sum, m) => sum + m.totalBuyPrice, 0)
     const materialsCostSell = materials.reduce((sum, m) => sum + m.totalSellPrice, 0)
     const excessValue = excessMaterials.reduce((sum, m) => sum + m.totalBuyPrice, 0)
-    const totalCost = materialsCostBuy + totalJobCost - excessValue
-    const costPerUnit = totalCost / settings.quantity
-    
-    // Output product
-    const productPrices = priceMap.get(blueprint.productTypeId) || { buy: 0, sell: 0 }
-    const outputs = [{
-      typeId: blueprint.productTypeId,
-      name: blueprint.productName,
-      quantity: settings.quantity,
-      volume: 0, // TODO: Get from type info
-      buyPrice: productPrices.buy,
-      sellPrice: productPrices.sell,
-      totalBuyPrice: productPrices.buy * settings.quantity,
-      totalSellPrice: productPrices.sell * settings.quantity,
-      duration: formatDuration(result.totalTime)
-    }]
+    const inventionCost = inventionSummaries.reduce((sum, summary) => sum + (summary?.totalCost ?? 0), 0)
+    const planetaryTax = planetary?.totalTax ?? 0
+    const totalCost = materialsCostBuy + totalJobCost + inventionCost + planetaryTax - excessValue
+    const totalQuantity = buildTargets.reduce((sum, target) => sum + target.quantity, 0)
+    const costPerUnit = totalCost / totalQuantity
     
-    const estimatedProfit = productPrices.sell * settings.quantity - totalCost
+    // Output products
+    const outputs = targetBlueprints.map((bp, i) => {
+      const productPrices = priceMap.get(bp.productTypeId) || { buy: 0, sell: 0 }
+      const quantity = buildTargets[i].quantity
+      return {
+        typeId: bp.productTypeId,
+        name: bp.productName,
+        quantity,
+        volume: getPackagedVolume(bp.productTypeId) * quantity,
+        buyPrice: productPrices.buy,
+        sellPrice: productPrices.sell,
+        totalBuyPrice: productPrices.buy * quantity,
+        totalSellPrice: productPrices.sell * quantity,
+        priceSource: priceMap.get(bp.productTypeId)?.sellSource ?? priceMap.get(bp.productTypeId)?.source,
+        // Wall-clock time until the target's own jobs finish
+        duration: formatDuration(Math.max(0, ...schedule.jobs
+          .filter(job => result.buildSteps[job.stepIndex].blueprintTypeId === bp.blueprintTypeId)
+          .map(job => job.end)))
+      }
+    })
+    
+    // Selling the outputs costs sales tax and broker fee, reduced by the character's skills
+    const fees = settings.character ? getMarketFees(settings.character) : null
+    const feeRate = fees ? fees.salesTax + fees.brokerFee : 0
+    const outputsValue = outputs.reduce((sum, o) => sum + o.totalSellPrice, 0)
+    const marketFees = outputsValue * feeRate
+    const estimatedProfit = outputsValue - marketFees - totalCost
+    
+    // Expanded PI goods are charged to targets by market value, scaled to the chain's
+    // cost (inputs and customs taxes)
+    const planetaryValue = result.rawMaterials
+      .filter(m => expandedPlanetary.has(m.typeId))
+      .reduce((sum, m) => sum + (priceMap.get(m.typeId)?.buy || 0) * m.adjustedQuantity, 0)
+    const planetaryCost = (planetary?.inputs ?? [])
+      .reduce((sum, m) => sum + (priceMap.get(m.typeId)?.buy || 0) * m.quantity, 0) + planetaryTax
+    const planetaryScale = planetaryValue > 0 ? planetaryCost / planetaryValue : 0
+    
+    // Allocate costs to targets: each pays for the materials and jobs started while
+    // planning it, and the excess credit is split by share of materials cost
+    const targets: TargetAllocation[] = targetBlueprints.map((bp, i) => {
+      const target = buildTargets[i]
+      const targetMaterialsCost = targetResults[i].rawMaterials.reduce((sum, m) =>
+        sum + (priceMap.get(m.typeId)?.buy || 0) * m.adjustedQuantity *
+          (expandedPlanetary.has(m.typeId) ? planetaryScale : 1), 0)
+      const targetJobCosts = targetResults[i].buildSteps.reduce((sum, step) => sum + step.jobCost, 0)
+      const targetInventionCost = inventionSummaries[i]?.totalCost ?? 0
+      const excessCredit = materialsCostBuy > 0 ? excessValue * targetMaterialsCost / materialsCostBuy : 0
+      const targetTotalCost = targetMaterialsCost + targetJobCosts + targetInventionCost - excessCredit
+      return {
+        blueprintTypeId: bp.blueprintTypeId,
+        blueprintName: bp.blueprintName,
+        productTypeId: bp.productTypeId,
+        productName: bp.productName,
+        quantity: target.quantity,
+        runs: target.runs,
+        materialsCost: targetMaterialsCost,
+        jobCosts: targetJobCosts,
+        inventionCost: targetInventionCost,
+        excessCredit,
+        totalCost: targetTotalCost,
+        costPerUnit: targetTotalCost / target.quantity,
+        estimatedProfit: outputs[i].totalSellPrice * (1 - feeRate) - targetTotalCost,
+        invention: inventionSummaries[i]
+      }
+    })
+    
+    // Batch mode: value what batching saves against the naive multiply
+    let batchSavings: BatchSavings | undefined
+    if (savings) {
+      const withValue = (items: BatchSaving[]): BatchSavingItem[] => items.map(item => ({
+        ...item,
+        value: (item.naiveQuantity - item.batchQuantity) * (priceMap.get(item.typeId)?.buy || 0)
+      }))
+      const materialsSaved = withValue(savings.materialSavings)
+      const excessSaved = withValue(savings.excessSavings)
+      batchSavings = {
+        materials: materialsSaved,
+        excess: excessSaved,
+        materialsValue: materialsSaved.reduce((sum, item) => sum + item.value, 0),
+        excessValue: excessSaved.reduce((sum, item) => sum + item.value, 0)
+      }
+    }
+    
+    // Build trees with costs rolled up per node, priced like the target allocation above
+    // (batch mode pools component jobs across targets, so it has no trees)
+    const buildTree = targetResults.every(r => r.tree)
+      ? targetResults.map(r => priceBuildTree(r.tree!, typeId =>
+          (priceMap.get(typeId)?.buy || 0) * (expandedPlanetary.has(typeId) ? planetaryScale : 1)))
+      : undefined
+    
+    // Sensitivity: profit as the cost index, ME (single builds without invention) or material prices move
+    let sensitivity: SensitivitySeries[] | undefined
+    if (body.sensitivity) {
+      const jobs = result.buildSteps.map(step => {
+        const facility = getStepFacility(settings, step.productTypeId, step.activityId)
+        return {
+          estimatedItemValue: getEstimatedItemValue(getBlueprint(step.blueprintTypeId)!, step.runs, adjustedPrices),
+          costIndex: facility.costIndex,
+          jobCostBonus: facility.structureBonus.jobCostBonus,
+        }
+      })
+      const maxIndex = Math.max(0.1, ...jobs.map(job => job.costIndex * 2))
+      const sellRatio = materialsCostBuy > 0 ? materialsCostSell / materialsCostBuy : 1
+      sensitivity = [
+        costIndexSensitivity(estimatedProfit, jobs, sensitivityRange(0, maxIndex, 10)),
+        materialPriceSensitivity(estimatedProfit, materialsCostBuy, materialsCostSell,
+          sensitivityRange(0.8, Math.max(1.2, sellRatio + 0.05), 10), market),
+      ]
+      if (!isPlan && !inventions[0]) {
+        // Rebuild at each ME; only the change in materials and job cost moves the profit
+        sensitivity.push(meSensitivity(estimatedProfit, buildTargets[0].blueprintMe, me => {
+          const build = calculateRecursiveBuild(blueprint.blueprintTypeId, { ...settings, blueprintMe: me }, adjustedPrices)
+          return build.totalJobCost + build.rawMaterials.reduce((sum, m) =>
+            sum + (priceMap.get(m.typeId)?.buy || 0) * m.adjustedQuantity, 0)
+        }))
+      }
+    }
     
     // Build steps for display
     const buildSteps = result.buildSteps.map(step => ({
       blueprintName: step.blueprintName,
+      productTypeId: step.productTypeId,
       productName: step.productName,
+      groupId: getTypeInfo(step.productTypeId)?.groupId ?? null,
+      groupName: getGroupName(step.productTypeId) || undefined,
       runs: step.runs,
+      jobs: step.jobs ?? 1,
       quantity: step.producedQuantity,
       excess: step.excessQuantity,
       duration: formatDuration(step.time),
-      jobCost: step.jobCost
+      jobCost: step.jobCost,
+      jobCostBreakdown: calculateStepJobCost(
+        getBlueprint(step.blueprintTypeId)!,
+        step.runs,
+        getStepFacility(settings, step.productTypeId, step.activityId),
+        adjustedPrices
+      ),
+      isReaction: step.activityId === 11,
+      facilityId: step.facilityId,
+      facilityName: step.facilityName
     }))
     
     // Extract components from build steps (intermediate items that are built)
-    // Exclude the main product and aggregate duplicates
-    // Also calculate build cost for each component and track materials breakdown
+    // Exclude the target products and aggregate duplicates
+    // Also track the materials breakdown of each component
     const componentMap = new Map<number, { 
       name: string; 
       quantity: number; 
       groupName?: string;
-      buildCost: number;  // Material cost + job cost to build
       materialsBreakdown: Map<number, { typeId: number; name: string; quantity: number }>;
     }>()
     
     for (const step of result.buildSteps) {
-      if (step.productTypeId === blueprint.productTypeId) continue
-      
-      // Calculate material cost for this build step
-      let materialCost = 0
-      for (const mat of step.materials) {
-        const matPrice = priceMap.get(mat.typeId)?.sell || 0
-        materialCost += matPrice * mat.adjustedQuantity
-      }
-      const stepBuildCost = materialCost + step.jobCost
+      if (targetProductIds.has(step.productTypeId)) continue
       
       const existing = componentMap.get(step.productTypeId)
       if (existing) {
         existing.quantity += step.producedQuantity
-        existing.buildCost += stepBuildCost
         // Aggregate materials
         for (const mat of step.materials) {
           const existingMat = existing.materialsBreakdown.get(mat.typeId)
@@ -327,24 +977,25 @@ export async function POST(request: NextRequest) {
           name: step.productName,
           quantity: step.producedQuantity,
           groupName: getGroupName(step.productTypeId) || undefined,
-          buildCost: stepBuildCost,
           materialsBreakdown
         })
       }
     }
     
+    const decisionsByType = new Map(makeOrBuy.map(decision => [decision.typeId, decision]))
     const components: ComponentItem[] = Array.from(componentMap.entries()).map(([typeId, data]) => {
-      const typeInfo = getTypeInfo(typeId)
       const prices = priceMap.get(typeId) || { buy: 0, sell: 0 }
-      const unitVolume = typeInfo?.volume || 0
+      const unitVolume = getPackagedVolume(typeId)
       const volume = unitVolume * data.quantity
       const totalSellPrice = prices.sell * data.quantity
       
-      // Compare: is it cheaper to buy this component or build it?
-      const shouldBuy = totalSellPrice > 0 && totalSellPrice < data.buildCost
+      // The optimizer's build cost already uses the cheapest choice for every sub-component
+      const decision = decisionsByType.get(typeId)
+      const buildCost = (decision?.buildCost ?? 0) * data.quantity
+      const shouldBuy = decision?.decision === 'buy'
       const savings = shouldBuy 
-        ? data.buildCost - totalSellPrice  // Savings from buying
-        : totalSellPrice - data.buildCost  // Savings from building (or 0 if no price)
+        ? buildCost - totalSellPrice  // Savings from buying
+        : totalSellPrice - buildCost  // Savings from building (or 0 if no price)
       
       return {
         typeId,
@@ -356,7 +1007,8 @@ export async function POST(request: NextRequest) {
         totalBuyPrice: prices.buy * data.quantity,
         totalSellPrice,
         groupName: data.groupName,
-        buildCost: data.buildCost,
+        priceSource: priceMap.get(typeId)?.source,
+        buildCost,
         shouldBuy,
         savings: Math.abs(savings),
         materialsBreakdown: Array.from(data.materialsBreakdown.values())
@@ -378,13 +1030,35 @@ export async function POST(request: NextRequest) {
         materialsCostBuy,
         materialsCostSell,
         jobCosts: totalJobCost,
+        inventionCost,
+        planetaryTax,
         excessValue,
         totalCost,
         costPerUnit,
+        marketFees,
         estimatedProfit
       },
       buildSteps,
-      systemCostIndex: settings.systemCostIndex
+      facilityTotals,
+      targets,
+      batchSavings,
+      buildTree,
+      schedule: {
+        ...schedule,
+        eta: formatDuration(schedule.makespan),
+        criticalPathDuration: formatDuration(schedule.criticalPathTime)
+      },
+      makeOrBuy: {
+        optimized: body.makeOrBuy?.optimize ?? false,
+        decisions: makeOrBuy
+      },
+      invention: inventionSummaries.find(summary => summary),
+      planetary,
+      sensitivity,
+      systemCostIndex: isReaction ? settings.reactionCostIndex : settings.systemCostIndex,
+      reactionCostIndex: settings.reactionCostIndex,
+      market,
+      warnings: getWarnings(),
     }
     
     return NextResponse.json(response)
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPackagedVolume, getTypeName } from '@/lib/blueprints'
+import { getCompressedOres, isMineral, optimizeCompression, type CompressionYield } from '@/lib/compression'
+import { hasReprocessingData } from '@/lib/reprocessing'
+import { getPrices, type ItemPrice, type PriceSource } from '@/lib/pricing'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import { getWarnings, runWithWarnings } from '@/lib/warnings'
+
+export interface CompressionRequest {
+  minerals: { typeId: number; quantity: number }[]
+  reprocessingRate?: number    // Percentage (e.g. 72.4)
+  market?: MarketSettings      // Ores and minerals are bought at its sell side (default Jita immediate)
+}
+
+export interface CompressionOreItem {
+  typeId: number
+  name: string
+  batches: number
+  quantity: number
+  volume: number
+  buyPrice: number
+  sellPrice: number
+  totalBuyPrice: number
+  totalSellPrice: number
+  priceSource?: PriceSource
+}
+
+export interface CompressionMineral extends CompressionYield {
+  sellPrice: number
+  priceSource?: PriceSource
+}
+
+export interface CompressionResponse {
+  reprocessingRate: number     // Percentage
+  ores: CompressionOreItem[]
+  minerals: CompressionMineral[]
+  oreCost: number              // Compressed ores at the market's sell side
+  uncoveredCost: number        // Minerals no ore covers, bought outright either way
+  mineralsCost: number         // All needed minerals bought outright at the market's sell side
+  surplusValue: number         // Extra minerals from rounding up to whole batches
+  savings: number              // mineralsCost - (oreCost + uncoveredCost)
+  warnings?: string[]          // Stale or missing prices
+}
+
+// POST /api/industry/compression - Cheapest compressed ore mix for a mineral list
+export async function POST(request: NextRequest) {
+  return runWithWarnings(() => planCompression(request))
+}
+
+async function planCompression(request: NextRequest) {
+  try {
+    const body: CompressionRequest = await request.json()
+
+    if (!Array.isArray(body.minerals)) {
+      return NextResponse.json(
+        { error: 'minerals must be an array of { typeId, quantity }' },
+        { status: 400 }
+      )
+    }
+    // Ore yields come from the reprocessing data; without it no ore can be chosen
+    if (!hasReprocessingData()) {
+      return NextResponse.json(
+        { error: 'Reprocessing data is missing: run `npm run update-sde` to generate data/reprocessing.json' },
+        { status: 503 }
+      )
+    }
+    const reprocessingRate = body.reprocessingRate ?? 72.4
+    if (!(reprocessingRate > 0 && reprocessingRate <= 100)) {
+      return NextResponse.json(
+        { error: 'reprocessingRate must be a percentage above 0 and up to 100' },
+        { status: 400 }
+      )
+    }
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
+    const minerals = new Map<number, number>()
+    for (const m of body.minerals) {
+      if (isMineral(m.typeId) && m.quantity > 0) {
+        minerals.set(m.typeId, (minerals.get(m.typeId) ?? 0) + Math.ceil(m.quantity))
+      }
+    }
+
+    // Buying compressed ore and minerals from sell orders, so both use the market's sell side
+    const itemsForPricing = [
+      ...getCompressedOres().map(ore => ore.typeId),
+      ...minerals.keys(),
+    ]
+    const priceMap = minerals.size > 0
+      ? await getPrices(itemsForPricing.map(typeId => ({ typeId, name: getTypeName(typeId) })), market)
+      : new Map<number, ItemPrice>()
+
+    const plan = optimizeCompression(
+      minerals,
+      typeId => priceMap.get(typeId)?.sell ?? 0,
+      reprocessingRate / 100
+    )
+
+    const ores: CompressionOreItem[] = plan.ores.map(ore => {
+      const prices = priceMap.get(ore.typeId) ?? { buy: 0, sell: 0 }
+      return {
+        typeId: ore.typeId,
+        name: ore.name,
+        batches: ore.batches,
+        quantity: ore.quantity,
+        volume: getPackagedVolume(ore.typeId) * ore.quantity,  // Hauled volume
+        buyPrice: prices.buy,
+        sellPrice: prices.sell,
+        totalBuyPrice: prices.buy * ore.quantity,
+        totalSellPrice: prices.sell * ore.quantity,
+        priceSource: priceMap.get(ore.typeId)?.source,
+      }
+    })
+
+    const mineralPrice = (typeId: number) => priceMap.get(typeId)?.sell ?? 0
+    const mineralsCost = Array.from(minerals.entries())
+      .reduce((sum, [typeId, quantity]) => sum + mineralPrice(typeId) * quantity, 0)
+    const uncoveredCost = plan.uncovered
+      .reduce((sum, typeId) => sum + mineralPrice(typeId) * (minerals.get(typeId) ?? 0), 0)
+    const surplusValue = plan.yields.reduce((sum, y) => sum + mineralPrice(y.typeId) * y.surplus, 0)
+
+    const response: CompressionResponse = {
+      reprocessingRate,
+      ores,
+      minerals: plan.yields.map(y => ({
+        ...y,
+        sellPrice: mineralPrice(y.typeId),
+        priceSource: priceMap.get(y.typeId)?.source,
+      })),
+      oreCost: plan.oreCost,
+      uncoveredCost,
+      mineralsCost,
+      surplusValue,
+      savings: mineralsCost - (plan.oreCost + uncoveredCost),
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Compression calculation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate ore compression' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getPlanetaryCommodities,
+  getPlanetaryTier,
+  hasPlanetSchematics,
+  isPlanetaryCommodity,
+  planPlanetaryChain,
+  type PlanetaryInput,
+  type PlanetaryPlan,
+  type PlanetaryTarget,
+} from '@/lib/planetary'
+import { getTypeName } from '@/lib/blueprints'
+import { getPrices, type PriceSource } from '@/lib/pricing'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import { getWarnings, runWithWarnings } from '@/lib/warnings'
+
+export interface PlanetaryRequest {
+  targets: PlanetaryTarget[]   // P2-P4 commodities and units wanted
+  inputTier?: 0 | 1            // Extract P0 (default) or buy P1
+  taxRate?: number             // Customs office tax percentage (default 10)
+  hours?: number               // Production window for factory counts (default 24)
+  singlePlanet?: boolean
+  market?: MarketSettings      // Inputs at its buy side, targets at its sell side (default Jita immediate)
+}
+
+export interface PricedPlanetaryInput extends PlanetaryInput {
+  buyPrice: number
+  totalBuyPrice: number
+  priceSource?: PriceSource    // Unset for extracted P0
+}
+
+export interface PlanetaryResponse extends Omit<PlanetaryPlan, 'inputs'> {
+  inputs: PricedPlanetaryInput[]
+  outputs: {
+    typeId: number
+    name: string
+    tier: number
+    quantity: number
+    sellPrice: number
+    totalSellPrice: number
+    priceSource?: PriceSource
+  }[]
+  inputsCost: number           // Bought inputs at the market's buy side (P0 is extracted for free)
+  outputsValue: number         // Targets at the market's sell side
+  totalCost: number            // inputsCost + customs taxes
+  profit: number
+  warnings?: string[]          // Stale or missing prices
+}
+
+// GET /api/industry/planetary - List P2-P4 commodities for the planner
+export async function GET() {
+  try {
+    return NextResponse.json(getPlanetaryCommodities(2))
+  } catch (error) {
+    console.error('Planetary commodities error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load planetary commodities' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/industry/planetary - Plan the PI chain for a list of P2-P4 commodities
+export async function POST(request: NextRequest) {
+  return runWithWarnings(() => planPlanetary(request))
+}
+
+async function planPlanetary(request: NextRequest) {
+  try {
+    const body: PlanetaryRequest = await request.json()
+
+    if (!hasPlanetSchematics()) {
+      return NextResponse.json(
+        { error: 'Planet schematics are missing: run `npm run update-sde` to generate data/planet-schematics.json' },
+        { status: 503 }
+      )
+    }
+    if (!Array.isArray(body.targets) || body.targets.length === 0) {
+      return NextResponse.json(
+        { error: 'targets must be a non-empty array of { typeId, quantity }' },
+        { status: 400 }
+      )
+    }
+    const badTarget = body.targets.find(t =>
+      !isPlanetaryCommodity(t.typeId) || getPlanetaryTier(t.typeId) < 2)
+    if (badTarget) {
+      return NextResponse.json(
+        { error: `Not a P2-P4 commodity: ${badTarget.typeId}` },
+        { status: 400 }
+      )
+    }
+    if (body.targets.some(t => !Number.isInteger(t.quantity) || t.quantity < 1)) {
+      return NextResponse.json(
+        { error: 'Target quantity must be a positive whole number' },
+        { status: 400 }
+      )
+    }
+    const inputTier = body.inputTier ?? 0
+    if (inputTier !== 0 && inputTier !== 1) {
+      return NextResponse.json(
+        { error: 'inputTier must be 0 or 1' },
+        { status: 400 }
+      )
+    }
+    const taxRate = body.taxRate ?? 10
+    if (!(taxRate >= 0 && taxRate <= 100)) {
+      return NextResponse.json(
+        { error: 'taxRate must be a percentage from 0 to 100' },
+        { status: 400 }
+      )
+    }
+    const hours = body.hours ?? 24
+    if (!(hours > 0)) {
+      return NextResponse.json(
+        { error: 'hours must be above 0' },
+        { status: 400 }
+      )
+    }
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
+    const plan = planPlanetaryChain(body.targets, {
+      inputTier,
+      taxRate: taxRate / 100, // Convert percentage to decimal
+      hours,
+      singlePlanet: body.singlePlanet,
+    })
+
+    // Bought inputs at the market's buy side, targets at its sell side
+    const itemsForPricing = new Map<number, string>()
+    plan.inputs.forEach(input => itemsForPricing.set(input.typeId, input.name))
+    body.targets.forEach(t => itemsForPricing.set(t.typeId, getTypeName(t.typeId)))
+
+    const priceMap = await getPrices(
+      Array.from(itemsForPricing, ([typeId, name]) => ({ typeId, name })),
+      market
+    )
+
+    const inputs: PricedPlanetaryInput[] = plan.inputs.map(input => {
+      // Extracted P0 costs nothing but the customs taxes further up the chain
+      const price = input.tier > 0 ? priceMap.get(input.typeId) : undefined
+      const buyPrice = price?.buy ?? 0
+      return { ...input, buyPrice, totalBuyPrice: buyPrice * input.quantity, priceSource: price?.source }
+    })
+
+    const targetTotals = new Map<number, number>()
+    body.targets.forEach(t => targetTotals.set(t.typeId, (targetTotals.get(t.typeId) ?? 0) + t.quantity))
+    const outputs = Array.from(targetTotals.entries()).map(([typeId, quantity]) => {
+      const sellPrice = priceMap.get(typeId)?.sell ?? 0
+      return {
+        typeId,
+        name: getTypeName(typeId),
+        tier: getPlanetaryTier(typeId),
+        quantity,
+        sellPrice,
+        totalSellPrice: sellPrice * quantity,
+        priceSource: priceMap.get(typeId)?.source,
+      }
+    })
+
+    const inputsCost = inputs.reduce((sum, input) => sum + input.totalBuyPrice, 0)
+    const outputsValue = outputs.reduce((sum, output) => sum + output.totalSellPrice, 0)
+    const totalCost = inputsCost + plan.totalTax
+
+    const response: PlanetaryResponse = {
+      ...plan,
+      inputs,
+      outputs,
+      inputsCost,
+      outputsValue,
+      totalCost,
+      profit: outputsValue - totalCost,
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Planetary planning error:', error)
+    return NextResponse.json(
+      { error: 'Failed to plan planetary production' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdjustedPrices } from '@/lib/esi'
+import { createAppraisal } from '@/lib/janice'
+import { getPrices, type ItemPrice, type PriceSource } from '@/lib/pricing'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import { addWarning, getWarnings, runWithWarnings } from '@/lib/warnings'
+import {
+  getOreYield,
+  getReprocessingYield,
+  getScrapmetalYield,
+  hasReprocessingData,
+  reprocessItem,
+  refineryImplants,
+  refineryRigs,
+  refineryStructures,
+  type RefineryProfile,
+} from '@/lib/reprocessing'
+import structures from '@/data/structures.json'
+
+export interface ReprocessRequest {
+  items: string                // Pasted item list (Eve Online copy format)
+  profile?: Partial<Omit<RefineryProfile, 'taxRate'>> & {
+    tax?: number               // Percentage
+  }
+  market?: MarketSettings      // Items and materials are valued at its buy side (default Jita immediate)
+}
+
+export interface ReprocessMaterial {
+  typeId: number
+  name: string
+  quantity: number
+  price: number                // Buy side of the market
+  value: number
+  priceSource?: PriceSource
+}
+
+export interface ReprocessItemResult {
+  typeId: number
+  name: string
+  quantity: number
+  reprocessable: boolean
+  batches: number
+  leftover: number             // Units short of a full batch, returned unprocessed
+  yieldRate: number
+  asIsValue: number            // Selling the item at the market's buy side
+  materialsValue: number       // Selling its materials at the market's buy side
+  tax: number
+  reprocessValue: number       // materialsValue - tax + leftover value
+  materials: ReprocessMaterial[]
+}
+
+export interface ReprocessResponse {
+  profile: RefineryProfile
+  yields: {
+    ore: number                // Ore, moon ore and ice
+    scrapmetal: number         // Everything else
+  }
+  items: ReprocessItemResult[]
+  materials: ReprocessMaterial[]
+  totals: {
+    asIsValue: number
+    materialsValue: number
+    tax: number
+    reprocessValue: number
+    difference: number         // reprocessValue - asIsValue
+  }
+  failures: string | null
+  warnings?: string[]          // Stale prices or adjusted prices
+}
+
+function isSkillLevel(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 5
+}
+
+// POST /api/industry/reprocess - Reprocess a pasted item list with a refinery profile
+export async function POST(request: NextRequest) {
+  return runWithWarnings(() => reprocess(request))
+}
+
+async function reprocess(request: NextRequest) {
+  try {
+    const body: ReprocessRequest = await request.json()
+
+    if (!body.items?.trim()) {
+      return NextResponse.json(
+        { error: 'items is required' },
+        { status: 400 }
+      )
+    }
+    if (!hasReprocessingData()) {
+      return NextResponse.json(
+        { error: 'Reprocessing data is missing: run `npm run update-sde` to generate data/reprocessing.json' },
+        { status: 503 }
+      )
+    }
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
+    const input = body.profile ?? {}
+    const profile: RefineryProfile = {
+      structure: input.structure ?? 'npc_station',
+      rig: input.rig ?? 'none',
+      security: input.security ?? 'highsec',
+      implant: input.implant ?? 'none',
+      reprocessing: input.reprocessing ?? 5,
+      reprocessingEfficiency: input.reprocessingEfficiency ?? 5,
+      oreProcessing: input.oreProcessing ?? 5,
+      scrapmetalProcessing: input.scrapmetalProcessing ?? 5,
+      taxRate: (input.tax ?? 0) / 100, // Convert percentage to decimal
+    }
+
+    if (!(profile.structure in refineryStructures) || !(profile.rig in refineryRigs) ||
+        !(profile.security in structures.reprocessing.securityModifiers) || !(profile.implant in refineryImplants)) {
+      return NextResponse.json(
+        { error: 'Unknown structure, rig, security or implant in profile' },
+        { status: 400 }
+      )
+    }
+    if (![profile.reprocessing, profile.reprocessingEfficiency, profile.oreProcessing, profile.scrapmetalProcessing]
+        .every(isSkillLevel)) {
+      return NextResponse.json(
+        { error: 'Skill levels must be whole numbers from 0 to 5' },
+        { status: 400 }
+      )
+    }
+    if (!(profile.taxRate >= 0 && profile.taxRate <= 1)) {
+      return NextResponse.json(
+        { error: 'tax must be a percentage from 0 to 100' },
+        { status: 400 }
+      )
+    }
+
+    // Janice parses the pasted list and prices the items as-is at the market's buy side
+    const appraisal = await createAppraisal(body.items, false, market.buy)
+    const reprocessed = appraisal.items.map(item => ({
+      item,
+      result: reprocessItem(item.typeId, item.quantity, getReprocessingYield(profile, item.typeId)),
+    }))
+
+    // Price the yielded materials at the market's buy side; tax is charged on CCP's estimated value
+    const materialNames = new Map<number, string>()
+    reprocessed.forEach(({ result }) => result?.materials.forEach(m => materialNames.set(m.typeId, m.name)))
+
+    let priceMap = new Map<number, ItemPrice>()
+    let adjustedPrices = new Map<number, number>()
+    if (materialNames.size > 0) {
+      const [materialPrices, adjusted] = await Promise.all([
+        getPrices(Array.from(materialNames, ([typeId, name]) => ({ typeId, name })), market),
+        profile.taxRate > 0
+          ? getAdjustedPrices().catch(error => {
+              addWarning(`Failed to fetch adjusted prices, reprocessing tax not applied: ${error instanceof Error ? error.message : error}`)
+              return new Map<number, number>()
+            })
+          : Promise.resolve(new Map<number, number>()),
+      ])
+      priceMap = materialPrices
+      adjustedPrices = adjusted
+    }
+
+    const items: ReprocessItemResult[] = reprocessed.map(({ item, result }) => {
+      const asIsValue = item.buyPrice * item.quantity
+      if (!result) {
+        return {
+          typeId: item.typeId,
+          name: item.itemName,
+          quantity: item.quantity,
+          reprocessable: false,
+          batches: 0,
+          leftover: item.quantity,
+          yieldRate: 0,
+          asIsValue,
+          materialsValue: 0,
+          tax: 0,
+          reprocessValue: asIsValue,
+          materials: [],
+        }
+      }
+
+      const materials: ReprocessMaterial[] = result.materials.map(m => {
+        const price = priceMap.get(m.typeId)?.buy || 0
+        return { ...m, price, value: price * m.quantity, priceSource: priceMap.get(m.typeId)?.source }
+      })
+      const materialsValue = materials.reduce((sum, m) => sum + m.value, 0)
+      const tax = result.materials.reduce((sum, m) =>
+        sum + (adjustedPrices.get(m.typeId) || 0) * m.quantity, 0) * profile.taxRate
+      return {
+        typeId: item.typeId,
+        name: item.itemName,
+        quantity: item.quantity,
+        reprocessable: true,
+        batches: result.batches,
+        leftover: result.leftover,
+        yieldRate: result.yieldRate,
+        asIsValue,
+        materialsValue,
+        tax,
+        reprocessValue: materialsValue - tax + item.buyPrice * result.leftover,
+        materials,
+      }
+    })
+
+    // Combined output, largest value first
+    const combined = new Map<number, ReprocessMaterial>()
+    for (const m of items.flatMap(i => i.materials)) {
+      const existing = combined.get(m.typeId)
+      combined.set(m.typeId, existing
+        ? { ...existing, quantity: existing.quantity + m.quantity, value: existing.value + m.value }
+        : { ...m })
+    }
+
+    const asIsValue = items.reduce((sum, i) => sum + i.asIsValue, 0)
+    const reprocessValue = items.reduce((sum, i) => sum + i.reprocessValue, 0)
+    const response: ReprocessResponse = {
+      profile,
+      yields: {
+        ore: getOreYield(profile),
+        scrapmetal: getScrapmetalYield(profile),
+      },
+      items,
+      materials: Array.from(combined.values()).sort((a, b) => b.value - a.value),
+      totals: {
+        asIsValue,
+        materialsValue: items.reduce((sum, i) => sum + i.materialsValue, 0),
+        tax: items.reduce((sum, i) => sum + i.tax, 0),
+        reprocessValue,
+        difference: reprocessValue - asIsValue,
+      },
+      failures: appraisal.failures,
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Reprocessing calculation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate reprocessing' },
+      { status: 500 }
+    )
+  }
+}
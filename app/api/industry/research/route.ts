@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBlueprint, getStructureBonus, industryStructures } from '@/lib/blueprints'
+import { DEFAULT_COST_INDEX, getSystemCostIndex, getAdjustedPrices } from '@/lib/esi'
+import { getEstimatedItemValue } from '@/lib/job-cost'
+import {
+  getResearchData,
+  hasResearchData,
+  calculateResearch,
+  calculateCopying,
+  calculateMaterialSavings,
+  calculateTimeSavings,
+  MAX_RESEARCH_LEVEL,
+  type ResearchResult,
+  type CopyResult,
+  type MaterialSaving,
+  type ScienceFacility,
+} from '@/lib/research'
+import { toCharacterSkills } from '@/lib/characters'
+import { getActivityTimeModifier, type CharacterSkills } from '@/lib/skills'
+import { createClient } from '@/utils/supabase/server'
+import { getPrices, type PriceSource } from '@/lib/pricing'
+import { addWarning, getWarnings, runWithWarnings } from '@/lib/warnings'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import type { CharacterProfile } from '@/types/database'
+
+export interface ResearchRequest {
+  blueprintTypeId: number
+  meFrom?: number              // 0-10
+  meTo?: number
+  teFrom?: number              // 0-20 in steps of 2
+  teTo?: number
+  copies?: number              // BPCs to copy (0 to skip)
+  runsPerCopy?: number
+  plannedRuns?: number         // Manufacturing runs the research should pay off over
+  systemName?: string
+  structureType?: keyof typeof industryStructures
+  facilityTax?: number         // Percentage
+  characterId?: string         // Saved character profile for research/copy skills
+  market?: MarketSettings      // Saved materials are valued at its buy side (default Jita immediate)
+}
+
+export interface ResearchMaterialSaving extends MaterialSaving {
+  price: number                // Buy price per unit
+  value: number                // saved * price
+  priceSource?: PriceSource
+}
+
+export interface ResearchResponse {
+  blueprint: {
+    blueprintTypeId: number
+    blueprintName: string
+    productTypeId: number
+    productName: string
+    maxRunsPerCopy: number     // 0 means unlimited
+  }
+  me: ResearchResult & { duration: string }
+  te: ResearchResult & { duration: string }
+  copy: (CopyResult & { duration: string }) | null
+  roi: {
+    plannedRuns: number
+    materials: ResearchMaterialSaving[]
+    materialsValue: number     // Materials saved over the planned runs
+    timeSaved: number          // Manufacturing seconds saved over the planned runs
+    timeSavedDuration: string
+    researchCost: number       // ME + TE research job costs
+    netSavings: number
+    roi: number | null         // netSavings / researchCost, null without a research cost
+    breakEvenRuns: number | null
+  }
+  costIndices: {
+    teResearch: number
+    meResearch: number
+    copying: number
+  }
+  warnings?: string[]          // Stale cost indices or prices
+}
+
+function isLevel(value: number, max: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= max
+}
+
+// POST /api/industry/research - Calculate BPC copying and ME/TE research
+export async function POST(request: NextRequest) {
+  return runWithWarnings(() => planResearch(request))
+}
+
+async function planResearch(request: NextRequest) {
+  try {
+    const body: ResearchRequest = await request.json()
+
+    if (!body.blueprintTypeId) {
+      return NextResponse.json(
+        { error: 'blueprintTypeId is required' },
+        { status: 400 }
+      )
+    }
+
+    const blueprint = getBlueprint(body.blueprintTypeId)
+    if (!blueprint || blueprint.activityId !== 1) {
+      return NextResponse.json(
+        { error: 'Manufacturing blueprint not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!hasResearchData()) {
+      return NextResponse.json(
+        { error: 'Research data is missing: run `npm run update-sde` to generate data/research.json' },
+        { status: 503 }
+      )
+    }
+    const research = getResearchData(blueprint.blueprintTypeId)
+    if (!research) {
+      return NextResponse.json(
+        { error: 'No research data for this blueprint' },
+        { status: 404 }
+      )
+    }
+
+    const meFrom = body.meFrom ?? 0
+    const meTo = body.meTo ?? MAX_RESEARCH_LEVEL
+    const teFrom = body.teFrom ?? 0
+    const teTo = body.teTo ?? MAX_RESEARCH_LEVEL * 2
+    if (!isLevel(meFrom, MAX_RESEARCH_LEVEL) || !isLevel(meTo, MAX_RESEARCH_LEVEL) || meFrom > meTo) {
+      return NextResponse.json(
+        { error: 'ME levels must be whole numbers from 0 to 10, with meFrom <= meTo' },
+        { status: 400 }
+      )
+    }
+    if (!isLevel(teFrom, MAX_RESEARCH_LEVEL * 2) || !isLevel(teTo, MAX_RESEARCH_LEVEL * 2) ||
+        teFrom % 2 !== 0 || teTo % 2 !== 0 || teFrom > teTo) {
+      return NextResponse.json(
+        { error: 'TE levels must be even numbers from 0 to 20, with teFrom <= teTo' },
+        { status: 400 }
+      )
+    }
+
+    const copies = body.copies ?? 0
+    const runsPerCopy = body.runsPerCopy ?? (research.maxProductionLimit || 1)
+    const plannedRuns = body.plannedRuns ?? 100
+    if (!Number.isInteger(copies) || copies < 0 || !Number.isInteger(runsPerCopy) || runsPerCopy < 1 ||
+        !Number.isInteger(plannedRuns) || plannedRuns < 1) {
+      return NextResponse.json(
+        { error: 'copies, runsPerCopy and plannedRuns must be positive whole numbers' },
+        { status: 400 }
+      )
+    }
+
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json({ error: marketError }, { status: 400 })
+    }
+
+    // Load the selected character for research and copy time skills
+    let character: CharacterSkills | undefined
+    if (body.characterId) {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('character_profiles')
+        .select('*')
+        .eq('id', body.characterId)
+        .maybeSingle()
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+      if (!data) {
+        return NextResponse.json(
+          { error: `Character profile not found: ${body.characterId}` },
+          { status: 400 }
+        )
+      }
+      character = toCharacterSkills(data as CharacterProfile)
+    }
+
+    // Cost indices for TE research (3), ME research (4) and copying (5)
+    const systemName = body.systemName ?? 'Jita'
+    const [teIndex, meIndex, copyIndex] = (await Promise.all([
+      getSystemCostIndex(systemName, 3),
+      getSystemCostIndex(systemName, 4),
+      getSystemCostIndex(systemName, 5),
+    ])).map(costIndex => costIndex ?? DEFAULT_COST_INDEX)
+
+    // Research and copy jobs are charged on the EIV of one manufacturing run
+    let productValue = 0
+    try {
+      productValue = getEstimatedItemValue(blueprint, 1, await getAdjustedPrices())
+    } catch (error) {
+      addWarning(`Failed to fetch adjusted prices, job costs will be zero: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const structureBonus = getStructureBonus(body.structureType ?? 'npc_station')
+    const facility = (costIndex: number): ScienceFacility => ({
+      timeBonus: structureBonus.teBonus,
+      jobCostBonus: structureBonus.jobCostBonus,
+      costIndex,
+      facilityTax: (body.facilityTax ?? 0) / 100, // Convert percentage to decimal
+    })
+
+    const me = calculateResearch(
+      research.researchMeTime, meFrom, meTo, productValue, facility(meIndex),
+      getActivityTimeModifier(character, 'me_research')
+    )
+    // TE research levels are 2% each
+    const te = calculateResearch(
+      research.researchTeTime, teFrom / 2, teTo / 2, productValue, facility(teIndex),
+      getActivityTimeModifier(character, 'te_research')
+    )
+    const copy = copies > 0
+      ? calculateCopying(
+          research, copies, runsPerCopy, productValue, facility(copyIndex),
+          getActivityTimeModifier(character, 'copying')
+        )
+      : null
+
+    // ROI: materials saved by the researched ME over the planned runs, priced at the market's buy side
+    const savings = calculateMaterialSavings(blueprint, meFrom, meTo, plannedRuns, structureBonus.meBonus)
+    const priceMap = await getPrices(savings.map(m => ({ typeId: m.typeId, name: m.name })), market)
+
+    const materials: ResearchMaterialSaving[] = savings.map(m => {
+      const price = priceMap.get(m.typeId)?.buy || 0
+      return { ...m, price, value: m.saved * price, priceSource: priceMap.get(m.typeId)?.source }
+    })
+    const materialsValue = materials.reduce((sum, m) => sum + m.value, 0)
+    const timeSaved = calculateTimeSavings(blueprint, teFrom, teTo, plannedRuns, structureBonus.teBonus)
+    const researchCost = me.jobCost + te.jobCost
+    const savedPerRun = materialsValue / plannedRuns
+
+    const response: ResearchResponse = {
+      blueprint: {
+        blueprintTypeId: blueprint.blueprintTypeId,
+        blueprintName: blueprint.blueprintName,
+        productTypeId: blueprint.productTypeId,
+        productName: blueprint.productName,
+        maxRunsPerCopy: research.maxProductionLimit,
+      },
+      me: { ...me, duration: formatDuration(me.time) },
+      te: { ...te, duration: formatDuration(te.time) },
+      copy: copy ? { ...copy, duration: formatDuration(copy.time) } : null,
+      roi: {
+        plannedRuns,
+        materials,
+        materialsValue,
+        timeSaved,
+        timeSavedDuration: formatDuration(timeSaved),
+        researchCost,
+        netSavings: materialsValue - researchCost,
+        roi: researchCost > 0 ? (materialsValue - researchCost) / researchCost : null,
+        breakEvenRuns: savedPerRun > 0 ? Math.ceil(researchCost / savedPerRun) : null,
+      },
+      costIndices: {
+        teResearch: teIndex,
+        meResearch: meIndex,
+        copying: copyIndex,
+      },
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Research calculation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate research' },
+      { status: 500 }
+    )
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) {
+    return `${days}D ${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
+  }
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBlueprint, getStructureBonus, industryStructures } from '@/lib/blueprints'
+import { DEFAULT_COST_INDEX, getSystemCostIndex, getAdjustedPrices } from '@/lib/esi'
+import { calculateScienceJobCost, getEstimatedItemValue } from '@/lib/job-cost'
+import { decryptors, type DecryptorType } from '@/lib/invention'
+import {
+  compareRelics,
+  canBeReverseEngineered,
+  hasReverseEngineeringData,
+  type RelicQuality,
+} from '@/lib/reverse-engineering'
+import { toCharacterSkills } from '@/lib/characters'
+import type { CharacterSkills } from '@/lib/skills'
+import { createClient } from '@/utils/supabase/server'
+import { getPrices, type PriceSource } from '@/lib/pricing'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import { addWarning, getWarnings, runWithWarnings } from '@/lib/warnings'
+import type { CharacterProfile } from '@/types/database'
+
+export interface ReverseEngineeringRequest {
+  blueprintTypeId: number      // T3 blueprint
+  decryptor?: DecryptorType
+  systemName?: string
+  structureType?: keyof typeof industryStructures
+  facilityTax?: number         // Percentage
+  characterId?: string         // Saved character profile for encryption and science skills
+  market?: MarketSettings      // Relics, datacores and decryptors are bought at its buy side (default Jita immediate)
+}
+
+export interface RelicMaterial {
+  typeId: number
+  name: string
+  quantity: number             // Per BPC, over the expected attempts
+  buyPrice: number
+  totalBuyPrice: number
+  priceSource?: PriceSource
+}
+
+export interface RelicOption {
+  relicQuality: RelicQuality
+  relicTypeId: number
+  relicName: string
+  probability: number
+  runsPerBpc: number
+  expectedAttempts: number     // Attempts per successful BPC
+  me: number
+  te: number
+  materials: RelicMaterial[]   // Relics, datacores and decryptors per BPC
+  materialsCost: number
+  jobCost: number
+  costPerBpc: number
+  costPerRun: number
+}
+
+export interface ReverseEngineeringResponse {
+  blueprint: {
+    blueprintTypeId: number
+    blueprintName: string
+    productTypeId: number
+    productName: string
+  }
+  decryptorName: string
+  options: RelicOption[]
+  cheapest: RelicQuality | null  // Lowest cost per manufacturing run
+  costIndex: number
+  warnings?: string[]            // Stale cost index or prices
+}
+
+// POST /api/industry/reverse-engineering - Compare relic qualities for a T3 blueprint
+export async function POST(request: NextRequest) {
+  return runWithWarnings(() => compareRelicOptions(request))
+}
+
+async function compareRelicOptions(request: NextRequest) {
+  try {
+    const body: ReverseEngineeringRequest = await request.json()
+
+    if (!body.blueprintTypeId) {
+      return NextResponse.json(
+        { error: 'blueprintTypeId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!hasReverseEngineeringData()) {
+      return NextResponse.json(
+        { error: 'Reverse engineering data is missing: run `npm run update-sde` to generate data/reverse-engineering.json' },
+        { status: 503 }
+      )
+    }
+
+    const blueprint = getBlueprint(body.blueprintTypeId)
+    if (!blueprint || !canBeReverseEngineered(blueprint.blueprintTypeId)) {
+      return NextResponse.json(
+        { error: 'Blueprint is not reverse engineered from relics' },
+        { status: 404 }
+      )
+    }
+    if (body.decryptor && !(body.decryptor in decryptors)) {
+      return NextResponse.json(
+        { error: `Unknown decryptor: ${body.decryptor}` },
+        { status: 400 }
+      )
+    }
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
+    // Load the selected character for encryption and science skills
+    let character: CharacterSkills | undefined
+    if (body.characterId) {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('character_profiles')
+        .select('*')
+        .eq('id', body.characterId)
+        .maybeSingle()
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+      if (!data) {
+        return NextResponse.json(
+          { error: `Character profile not found: ${body.characterId}` },
+          { status: 400 }
+        )
+      }
+      character = toCharacterSkills(data as CharacterProfile)
+    }
+
+    // One successful BPC per relic quality, so costs are expected values per BPC
+    const results = compareRelics(blueprint.blueprintTypeId, 1, {
+      decryptor: body.decryptor,
+      skillLevels: character?.skills,
+      defaultSkillLevel: character?.defaultSkillLevel,
+    })
+
+    // Reverse engineering jobs use the invention cost index, falling back to the manufacturing index
+    const systemName = body.systemName ?? 'Jita'
+    const costIndex = await getSystemCostIndex(systemName, 8) ??
+      await getSystemCostIndex(systemName, 1) ??
+      DEFAULT_COST_INDEX
+    let productValue = 0
+    try {
+      productValue = getEstimatedItemValue(blueprint, 1, await getAdjustedPrices())
+    } catch (error) {
+      addWarning(`Failed to fetch adjusted prices, job costs will be zero: ${error instanceof Error ? error.message : error}`)
+    }
+    const structureBonus = getStructureBonus(body.structureType ?? 'npc_station')
+    const facilityTax = (body.facilityTax ?? 0) / 100 // Convert percentage to decimal
+
+    // Relics, datacores and decryptors at the market's buy side
+    const itemsForPricing = new Map<number, string>()
+    results.forEach(r => r.materials.forEach(m => itemsForPricing.set(m.typeId, m.name)))
+    const priceMap = await getPrices(
+      Array.from(itemsForPricing, ([typeId, name]) => ({ typeId, name })),
+      market
+    )
+
+    const options: RelicOption[] = results.map(r => {
+      const materials: RelicMaterial[] = r.materials.map(m => {
+        const buyPrice = priceMap.get(m.typeId)?.buy || 0
+        return { ...m, buyPrice, totalBuyPrice: buyPrice * m.quantity, priceSource: priceMap.get(m.typeId)?.source }
+      })
+      const materialsCost = materials.reduce((sum, m) => sum + m.totalBuyPrice, 0)
+      // Same job cost as invention: charged on 2% of the T3 product's EIV per attempt
+      const jobCost = calculateScienceJobCost(productValue, r.expectedAttempts, {
+        costIndex,
+        jobCostBonus: structureBonus.jobCostBonus,
+        facilityTax,
+      }).total
+      const costPerBpc = materialsCost + jobCost
+
+      return {
+        relicQuality: r.relicQuality,
+        relicTypeId: r.t1BlueprintTypeId,
+        relicName: r.t1BlueprintName,
+        probability: r.probability,
+        runsPerBpc: r.runsPerBpc,
+        expectedAttempts: r.expectedAttempts,
+        me: r.me,
+        te: r.te,
+        materials,
+        materialsCost,
+        jobCost,
+        costPerBpc,
+        costPerRun: r.runsPerBpc > 0 ? costPerBpc / r.runsPerBpc : 0,
+      }
+    })
+
+    const priced = options.filter(o => o.probability > 0)
+    const cheapest = priced.length > 0
+      ? priced.reduce((best, o) => o.costPerRun < best.costPerRun ? o : best).relicQuality
+      : null
+
+    const response: ReverseEngineeringResponse = {
+      blueprint: {
+        blueprintTypeId: blueprint.blueprintTypeId,
+        blueprintName: blueprint.blueprintName,
+        productTypeId: blueprint.productTypeId,
+        productName: blueprint.productName,
+      },
+      decryptorName: decryptors[body.decryptor ?? 'none'].name,
+      options,
+      cheapest,
+      costIndex,
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Reverse engineering calculation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate reverse engineering' },
+      { status: 500 }
+    )
+  }
+}
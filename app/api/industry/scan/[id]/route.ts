@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getScanJob, summarizeScan, SCAN_SORTS, type ScanSort } from '@/lib/profitability'
+import type { ScanResponse } from '@/app/api/industry/scan/route'
+
+// GET /api/industry/scan/[id] - Progress of a scan, and its ranked results once done
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getScanJob(id)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Scan not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    const sort = (request.nextUrl.searchParams.get('sort') ?? 'profit') as ScanSort
+    if (!SCAN_SORTS.includes(sort)) {
+      return NextResponse.json(
+        { error: `sort must be one of ${SCAN_SORTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const limit = Number(request.nextUrl.searchParams.get('limit') ?? 100)
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive whole number' },
+        { status: 400 }
+      )
+    }
+
+    const response: ScanResponse = summarizeScan(job, sort, limit)
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Scan status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scan' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { getDefaultSettings, type IndustrySettings } from '@/lib/blueprints'
+import { getSystemCostIndex } from '@/lib/esi'
+import { resolveFacilityProfile } from '@/lib/facilities'
+import {
+  getScanBlueprints,
+  getScanFilterOptions,
+  runScan,
+  startScan,
+  summarizeScan,
+  SCAN_SORTS,
+  type ScanSort,
+  type ScanSummary,
+} from '@/lib/profitability'
+import { DEFAULT_MARKET, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import type { TechLevel } from '@/lib/tech-level'
+import { createClient } from '@/utils/supabase/server'
+import type { FacilityProfile } from '@/types/database'
+
+export interface ScanRequest {
+  categoryIds?: number[]
+  groupIds?: number[]
+  techLevels?: TechLevel[]
+  includeReactions?: boolean
+  facilityId?: string          // Saved manufacturing facility profile (defaults to a Raitaru with T1 rigs)
+  reactionFacilityId?: string  // Saved reaction facility profile (defaults to a Tatara with T1 rigs)
+  systemName?: string          // Cost indices when no facility profile is given (default Jita)
+  runs?: number                // Runs per product (default 1)
+  blueprintMe?: number         // T1 blueprints; T2/T3 use the invented BPC (default 10)
+  blueprintTe?: number         // Default 20
+  invention?: boolean          // Charge T2/T3 their invention cost (default true)
+  market?: MarketSettings      // Hubs and price variants for material and product prices (default Jita immediate)
+  sort?: ScanSort              // Default profit
+  limit?: number               // Results returned (default 100)
+}
+
+export type ScanResponse = ScanSummary
+
+// GET /api/industry/scan - Categories and groups the scanner can filter on
+export async function GET() {
+  try {
+    return NextResponse.json(getScanFilterOptions())
+  } catch (error) {
+    console.error('Scan filter options error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load scan filters' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/industry/scan - Start (or reuse a cached) profitability scan
+export async function POST(request: NextRequest) {
+  try {
+    const body: ScanRequest = await request.json()
+
+    const sort = body.sort ?? 'profit'
+    if (!SCAN_SORTS.includes(sort)) {
+      return NextResponse.json(
+        { error: `sort must be one of ${SCAN_SORTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const limit = body.limit ?? 100
+    const runs = body.runs ?? 1
+    if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(runs) || runs < 1) {
+      return NextResponse.json(
+        { error: 'limit and runs must be positive whole numbers' },
+        { status: 400 }
+      )
+    }
+    const blueprintMe = body.blueprintMe ?? 10
+    const blueprintTe = body.blueprintTe ?? 20
+    if (blueprintMe < 0 || blueprintMe > 10 || blueprintTe < 0 || blueprintTe > 20) {
+      return NextResponse.json(
+        { error: 'blueprintMe must be 0-10 and blueprintTe 0-20' },
+        { status: 400 }
+      )
+    }
+    if (body.techLevels?.some(level => level !== 1 && level !== 2 && level !== 3)) {
+      return NextResponse.json(
+        { error: 'techLevels may only contain 1, 2 and 3' },
+        { status: 400 }
+      )
+    }
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
+    const filters = {
+      categoryIds: [...(body.categoryIds ?? [])].sort((a, b) => a - b),
+      groupIds: [...(body.groupIds ?? [])].sort((a, b) => a - b),
+      techLevels: [...(body.techLevels ?? [])].sort(),
+      includeReactions: body.includeReactions ?? false,
+    }
+    const blueprints = getScanBlueprints(filters)
+    if (blueprints.length === 0) {
+      return NextResponse.json(
+        { error: 'No blueprints match the filters' },
+        { status: 400 }
+      )
+    }
+
+    // Scans with the same inputs share one job and its cached results
+    const systemName = body.systemName ?? 'Jita'
+    const invention = body.invention ?? true
+    const key = JSON.stringify({
+      filters,
+      facilityId: body.facilityId ?? null,
+      reactionFacilityId: body.reactionFacilityId ?? null,
+      systemName,
+      runs,
+      blueprintMe,
+      blueprintTe,
+      invention,
+      market,
+    })
+
+    const defaults = getDefaultSettings()
+    const settings: IndustrySettings = {
+      ...defaults,
+      blueprintMe,
+      blueprintTe,
+      runs,
+    }
+
+    // Resolve the chosen facility profiles; without one the defaults run in systemName
+    let inventionSystem = systemName
+    const profileIds = [body.facilityId, body.reactionFacilityId].filter((id): id is string => !!id)
+    if (profileIds.length > 0) {
+      const supabase = createClient()
+      const { data: profiles, error } = await supabase
+        .from('facility_profiles')
+        .select('*')
+        .in('id', profileIds)
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+
+      const findProfile = (id: string | undefined, activity: FacilityProfile['activity']) =>
+        id ? (profiles as FacilityProfile[]).find(p => p.id === id && p.activity === activity) : undefined
+      const manufacturingProfile = findProfile(body.facilityId, 'manufacturing')
+      const reactionProfile = findProfile(body.reactionFacilityId, 'reaction')
+      if ((body.facilityId && !manufacturingProfile) || (body.reactionFacilityId && !reactionProfile)) {
+        return NextResponse.json(
+          { error: 'Facility profile not found for its activity' },
+          { status: 400 }
+        )
+      }
+
+      if (manufacturingProfile) {
+        const facility = await resolveFacilityProfile(manufacturingProfile)
+        settings.structureBonus = facility.structureBonus
+        settings.rigs = facility.rigs
+        settings.securityMultiplier = facility.securityMultiplier
+        settings.systemCostIndex = facility.costIndex
+        settings.facilityTax = facility.facilityTax
+        inventionSystem = manufacturingProfile.system_name
+      }
+      if (reactionProfile) {
+        const facility = await resolveFacilityProfile(reactionProfile)
+        settings.reactionStructureBonus = facility.structureBonus
+        settings.reactionRigs = facility.rigs
+        settings.reactionCostIndex = facility.costIndex
+      }
+    }
+
+    // An index that could not be fetched keeps the default
+    if (!body.facilityId || !body.reactionFacilityId) {
+      const [manufacturingIndex, reactionIndex] = await Promise.all([
+        getSystemCostIndex(systemName, 1),
+        getSystemCostIndex(systemName, 11),
+      ])
+      if (!body.facilityId) settings.systemCostIndex = manufacturingIndex ?? settings.systemCostIndex
+      if (!body.reactionFacilityId) settings.reactionCostIndex = reactionIndex ?? settings.reactionCostIndex
+    }
+
+    // Invention falls back to the manufacturing index
+    let inventionCostIndex = settings.systemCostIndex
+    if (invention) {
+      inventionCostIndex = await getSystemCostIndex(inventionSystem, 8) ?? settings.systemCostIndex // 8 = Invention
+    }
+
+    const job = await startScan(key, { filters, settings, inventionCostIndex, invention, market }, blueprints.length)
+
+    // The scan runs once the response is sent; runScan does nothing when another
+    // instance is already running it, and GET /api/cron/scan picks up any it drops
+    const pending = job.status === 'queued' || job.status === 'running'
+    if (pending) after(() => runScan(job.id))
+
+    // 202 while the scan is still queued or running in the background
+    const response: ScanResponse = summarizeScan(job, sort, limit)
+    return NextResponse.json(
+      response,
+      { status: pending ? 202 : 200 }
+    )
+  } catch (error) {
+    console.error('Profitability scan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start profitability scan' },
+      { status: 500 }
+    )
+  }
+}
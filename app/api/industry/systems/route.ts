@@ -40,6 +40,9 @@ export async function POST(request: NextRequest) {
     }
     
     const costIndex = await getSystemCostIndex(systemName, activityId)
+    if (costIndex === null) {
+      return NextResponse.json({ error: `No cost index available for ${systemName}` }, { status: 502 })
+    }
     
     return NextResponse.json({ 
       systemName, 
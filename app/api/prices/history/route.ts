@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { getProjectValueHistory, getTypePriceHistory, type PriceHistoryPoint } from '@/lib/price-history'
+import type { PriceSnapshot } from '@/types/database'
+
+export interface PriceHistoryResponse {
+  snapshots: PriceSnapshot[]
+  points: PriceHistoryPoint[]    // projectId: total value per appraisal; typeId: unit price per appraisal
+}
+
+// GET /api/prices/history?projectId=...|typeId=...&days=30 - Price snapshots of a project or a type
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const projectId = searchParams.get('projectId')
+    const typeId = searchParams.get('typeId')
+    const days = searchParams.get('days')
+
+    if (!projectId === !typeId) {
+      return NextResponse.json(
+        { error: 'Pass either projectId or typeId' },
+        { status: 400 }
+      )
+    }
+    if (typeId !== null && !(Number(typeId) > 0)) {
+      return NextResponse.json(
+        { error: 'typeId must be a positive number' },
+        { status: 400 }
+      )
+    }
+    if (days !== null && !(Number(days) > 0)) {
+      return NextResponse.json(
+        { error: 'days must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    let query = supabase
+      .from('price_snapshots')
+      .select('*')
+      .order('recorded_at', { ascending: true })
+
+    query = projectId ? query.eq('project_id', projectId) : query.eq('type_id', Number(typeId))
+    if (days !== null) {
+      query = query.gte('recorded_at', new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000).toISOString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const snapshots = data as PriceSnapshot[]
+    const response: PriceHistoryResponse = {
+      snapshots,
+      points: projectId ? getProjectValueHistory(snapshots) : getTypePriceHistory(snapshots),
+    }
+
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('Error fetching price history:', err)
+    return NextResponse.json(
+      { error: 'Failed to fetch price history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { getCategoryId, getPackagedVolume, getTypeInfo } from '@/lib/blueprints'
+import { HAULING_SHIPS, planHauling, type CourierRates, type HaulingPlan, type HaulingShip } from '@/lib/logistics'
+import { addWarning, getWarnings, runWithWarnings } from '@/lib/warnings'
+import type { AdditionalCost, RawMaterial } from '@/types/database'
+
+export interface HaulingRequest {
+  ship: HaulingShip
+  rates?: Partial<CourierRates>      // Overrides of the ship's default courier rates
+  priceBasis?: 'buy' | 'sell' | 'split'  // Price used as collateral (default sell: the cost to replace)
+  includeCollected?: boolean         // Also haul items already marked collected
+  addCost?: boolean                  // Record the total reward as an additional cost
+}
+
+export interface HaulingResponse extends HaulingPlan {
+  cost?: AdditionalCost              // Set when addCost was requested
+  warnings?: string[]                // Items hauled at their assembled volume
+}
+
+const CATEGORY_SHIP = 6
+
+const RATE_FIELDS: (keyof CourierRates)[] = ['capacity', 'maxCollateral', 'ratePerM3', 'collateralRate', 'minReward']
+
+// POST /api/projects/[id]/hauling - Plan courier trips for a project's raw materials
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return runWithWarnings(() => planProjectHauling(request, params))
+}
+
+async function planProjectHauling(request: NextRequest, params: Promise<{ id: string }>) {
+  try {
+    const { id: projectId } = await params
+    const body: HaulingRequest = await request.json()
+
+    if (!HAULING_SHIPS.includes(body.ship)) {
+      return NextResponse.json(
+        { error: `ship must be one of ${HAULING_SHIPS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    for (const field of RATE_FIELDS) {
+      const value = body.rates?.[field]
+      if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value < 0)) {
+        return NextResponse.json(
+          { error: `rates.${field} must be a non-negative number` },
+          { status: 400 }
+        )
+      }
+    }
+    if (body.rates?.capacity === 0) {
+      return NextResponse.json(
+        { error: 'rates.capacity must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
+    const priceBasis = body.priceBasis ?? 'sell'
+    if (!['buy', 'sell', 'split'].includes(priceBasis)) {
+      return NextResponse.json(
+        { error: 'priceBasis must be buy, sell or split' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .single()
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: rawMaterials, error: materialsError } = await supabase
+      .from('raw_materials')
+      .select('*')
+      .eq('project_id', projectId)
+
+    if (materialsError) {
+      return NextResponse.json(
+        { error: materialsError.message },
+        { status: 500 }
+      )
+    }
+
+    // Hauled volume is packaged; the SDE knows it for ships that were stored assembled
+    const items = (rawMaterials as RawMaterial[])
+      .filter(item => body.includeCollected || !item.collected)
+      .map(item => {
+        const typeInfo = getTypeInfo(item.type_id)
+        // Packaged volumes come from invVolumes; without it a ship counts at its far larger assembled volume
+        if (typeInfo && typeInfo.packagedVolume === undefined && getCategoryId(item.type_id) === CATEGORY_SHIP) {
+          addWarning(`No packaged volume for ${item.item_name}, hauled at its assembled volume: run \`npm run update-sde\` to add invVolumes to data/inv-types.json`)
+        }
+        return {
+          typeId: item.type_id,
+          name: item.item_name,
+          quantity: item.quantity,
+          unitVolume: typeInfo ? getPackagedVolume(item.type_id) : (item.volume ?? 0),
+          unitValue: item[`${priceBasis}_price`] ?? 0,
+        }
+      })
+
+    const plan = planHauling(items, body.ship, body.rates)
+    const response: HaulingResponse = { ...plan }
+
+    if (body.addCost && plan.totalReward > 0) {
+      const trips = plan.trips.length
+      const { data: cost, error: costError } = await supabase
+        .from('additional_costs')
+        .insert({
+          project_id: projectId,
+          note: `Freight: ${trips} ${plan.shipName} trip${trips === 1 ? '' : 's'} (${Math.round(plan.totalVolume).toLocaleString('en-US')} m³)`,
+          amount: plan.totalReward,
+        })
+        .select()
+        .single()
+
+      if (costError) {
+        return NextResponse.json(
+          { error: costError.message },
+          { status: 500 }
+        )
+      }
+      response.cost = cost
+    }
+
+    return NextResponse.json({
+      ...response,
+      warnings: getWarnings(),
+    })
+  } catch (error) {
+    console.error('Hauling plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to plan hauling' },
+      { status: 500 }
+    )
+  }
+}
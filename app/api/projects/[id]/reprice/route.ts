@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { getProjectMarket, isSameMarketSide, toProjectMarketColumns, validateMarketSettings, type MarketSettings } from '@/lib/markets'
+import { repriceProject, type RepriceDiff } from '@/lib/reprice'
+import { getWarnings, runWithWarnings } from '@/lib/warnings'
+
+export interface RepriceRequest {
+  market?: MarketSettings    // Move the project to other hubs (default: the project's market)
+  skipCollected?: boolean    // Keep the stored prices of collected items (default false)
+}
+
+export interface RepriceResponse {
+  market: MarketSettings
+  diff: RepriceDiff
+  errors?: string[]          // Items whose new prices could not be saved
+  warnings?: string[]        // Price sources that failed or served stale data
+}
+
+// POST /api/projects/[id]/reprice - Re-appraise a project's items at current prices
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return runWithWarnings(() => reprice(request, params))
+}
+
+async function reprice(request: NextRequest, params: Promise<{ id: string }>) {
+  try {
+    const { id: projectId } = await params
+    // The body is optional
+    const body: RepriceRequest = await request.json().catch(() => ({}))
+
+    if (body.market !== undefined) {
+      const marketError = validateMarketSettings(body.market)
+      if (marketError) {
+        return NextResponse.json(
+          { error: marketError },
+          { status: 400 }
+        )
+      }
+    }
+
+    const supabase = createClient()
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*, raw_materials(*), components(*)')
+      .eq('id', projectId)
+      .single()
+
+    if (projectError || !project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const stored = getProjectMarket(project)
+    const market = body.market ?? stored
+
+    const { diff, errors } = await repriceProject(supabase, project, market, {
+      skipCollected: body.skipCollected === true,
+    })
+
+    if (!isSameMarketSide(market.buy, stored.buy) || !isSameMarketSide(market.sell, stored.sell)) {
+      const { error: marketError } = await supabase
+        .from('projects')
+        .update(toProjectMarketColumns(market))
+        .eq('id', projectId)
+
+      if (marketError) {
+        errors.push(`Market: ${marketError.message}`)
+      }
+    }
+
+    const response: RepriceResponse = {
+      market,
+      diff,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: getWarnings(),
+    }
+
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('Error repricing project:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to reprice project' },
+      { status: 500 }
+    )
+  }
+}
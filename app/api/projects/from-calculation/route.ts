@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
 import type { CalculateResponse } from '@/app/api/industry/calculate/route'
+import { DEFAULT_MARKET, toProjectMarketColumns } from '@/lib/markets'
+import { toPriceSnapshots } from '@/lib/price-history'
 
 interface CreateFromCalculationRequest {
   calculation: CalculateResponse
@@ -23,14 +25,17 @@ export async function POST(request: NextRequest) {
     const supabase = createClient()
 
     // Auto-generate project name: "2x Chimera" or "1x Chimera"
-    const projectName = quantity === 1
-      ? calculation.blueprint.productName
-      : `${quantity}x ${calculation.blueprint.productName}`
+    // Build plans list every target: "5x Muninn, 10x Scimitar"
+    const projectName = calculation.targets?.length > 1
+      ? calculation.targets.map(t => `${t.quantity}x ${t.productName}`).join(', ')
+      : quantity === 1
+        ? calculation.blueprint.productName
+        : `${quantity}x ${calculation.blueprint.productName}`
 
     // Create the project
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .insert({ name: projectName })
+      .insert({ name: projectName, ...toProjectMarketColumns(calculation.market ?? DEFAULT_MARKET) })
       .select()
       .single()
 
@@ -45,6 +50,7 @@ export async function POST(request: NextRequest) {
 
     // Insert raw materials from calculation
     if (calculation.materials.length > 0) {
+      const sources = new Map(calculation.materials.map(material => [material.typeId, material.priceSource]))
       const rawMaterialsData = calculation.materials.map((material) => ({
         project_id: project.id,
         item_name: material.name,
@@ -66,6 +72,15 @@ export async function POST(request: NextRequest) {
       if (rawError) {
         console.error('Error inserting raw materials:', rawError)
         insertionErrors.push(`Raw materials: ${rawError.message}`)
+      } else {
+        // Start the price history; a failed snapshot is not worth losing the project over
+        const { error: snapshotError } = await supabase
+          .from('price_snapshots')
+          .insert(toPriceSnapshots(rawMaterialsData.map(item => ({ ...item, source: sources.get(item.type_id) ?? null }))))
+
+        if (snapshotError) {
+          console.error('Error recording price snapshots:', snapshotError)
+        }
       }
     }
 
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
-import { createAppraisal } from '@/lib/janice'
+import { createMarketAppraisal } from '@/lib/pricing'
+import { DEFAULT_MARKET, toProjectMarketColumns, validateMarketSettings } from '@/lib/markets'
 import { getGroupNamesBatch } from '@/lib/sde'
+import { toPriceSnapshots } from '@/lib/price-history'
 import type { CreateProjectRequest, Project } from '@/types/database'
 
 // GET /api/projects - List all projects
@@ -41,15 +43,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const market = body.market ?? DEFAULT_MARKET
+    const marketError = validateMarketSettings(market)
+    if (marketError) {
+      return NextResponse.json(
+        { error: marketError },
+        { status: 400 }
+      )
+    }
+
     const supabase = createClient()
 
-    // Parse items through Janice API (in parallel)
+    // Parse items through Janice API (in parallel), priced at the project's hubs
     const [rawMaterialsResult, componentsResult] = await Promise.all([
       rawMaterialsInput?.trim()
-        ? createAppraisal(rawMaterialsInput)
+        ? createMarketAppraisal(rawMaterialsInput, market)
         : Promise.resolve({ items: [], totals: { buyPrice: 0, sellPrice: 0, splitPrice: 0 }, failures: null }),
       componentsInput?.trim()
-        ? createAppraisal(componentsInput)
+        ? createMarketAppraisal(componentsInput, market)
         : Promise.resolve({ items: [], totals: { buyPrice: 0, sellPrice: 0, splitPrice: 0 }, failures: null }),
     ])
 
@@ -66,7 +77,7 @@ export async function POST(request: NextRequest) {
     // Create the project
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .insert({ name: name.trim() })
+      .insert({ name: name.trim(), ...toProjectMarketColumns(market) })
       .select()
       .single()
 
@@ -101,6 +112,15 @@ export async function POST(request: NextRequest) {
       if (rawError) {
         console.error('Error inserting raw materials:', rawError)
         insertionErrors.push(`Raw materials: ${rawError.message}`)
+      } else {
+        // Start the price history; a failed snapshot is not worth losing the project over
+        const { error: snapshotError } = await supabase
+          .from('price_snapshots')
+          .insert(toPriceSnapshots(rawMaterialsData.map(item => ({ ...item, source: 'janice' }))))
+
+        if (snapshotError) {
+          console.error('Error recording price snapshots:', snapshotError)
+        }
       }
     }
 
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
@@ -8,14 +8,40 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
 import { BlueprintSearch } from "@/components/industry/blueprint-search"
 import { SystemSearch } from "@/components/industry/system-search"
 import { GroupedMaterials } from "@/components/industry/grouped-materials"
 import { ComponentsList } from "@/components/industry/components-list"
 import { BuildSteps } from "@/components/industry/build-steps"
+import { BuildTimeline } from "@/components/industry/build-timeline"
 import { CostSummary } from "@/components/industry/cost-summary"
-import { ArrowLeft, Calculator, Loader2, Factory, FlaskConical, FolderPlus, ShoppingCart, Hammer } from "lucide-react"
-import type { CalculateResponse, MaterialWithPrice } from "@/app/api/industry/calculate/route"
+import { InventionDetails } from "@/components/industry/invention-details"
+import { RelicComparison } from "@/components/industry/relic-comparison"
+import { PlanetaryChain } from "@/components/industry/planetary-chain"
+import { FacilityProfiles } from "@/components/industry/facility-profiles"
+import { CharacterProfiles } from "@/components/industry/character-profiles"
+import { MakeOrBuy } from "@/components/industry/make-or-buy"
+import { BuildTree } from "@/components/industry/build-tree"
+import { FacilityRouting, type FacilityRoutingState } from "@/components/industry/facility-routing"
+import { RigPicker } from "@/components/industry/rig-picker"
+import { BuildPlan, type PlanTarget } from "@/components/industry/build-plan"
+import { TargetAllocation } from "@/components/industry/target-allocation"
+import { BatchSavings } from "@/components/industry/batch-savings"
+import { CompressedOres } from "@/components/industry/compressed-ores"
+import { ScenarioComparison, type Scenario, type ScenarioSettings } from "@/components/industry/scenario-comparison"
+import { SensitivityChart } from "@/components/industry/sensitivity-chart"
+import { MarketSelect } from "@/components/market-select"
+import { DataWarnings } from "@/components/data-warnings"
+import { ArrowLeft, Calculator, Loader2, Factory, FlaskConical, FolderPlus, ShoppingCart, Hammer, ListPlus, Columns3 } from "lucide-react"
+import type { CalculateResponse } from "@/app/api/industry/calculate/route"
+import type { ReverseEngineeringRequest } from "@/app/api/industry/reverse-engineering/route"
+import type { CompressionResponse } from "@/app/api/industry/compression/route"
+import type { CharacterProfile, FacilityProfile } from "@/types/database"
+import type { DecryptorType } from "@/lib/invention"
+import type { RelicQuality } from "@/lib/reverse-engineering"
+import type { MakeOrBuyChoice } from "@/lib/make-or-buy"
+import { DEFAULT_MARKET, type MarketSettings } from "@/lib/markets"
 
 interface BlueprintResult {
   blueprintTypeId: number
@@ -23,6 +49,8 @@ interface BlueprintResult {
   productTypeId: number
   productName: string
   isReaction: boolean
+  isInventable?: boolean
+  isReverseEngineered?: boolean
 }
 
 const STRUCTURE_OPTIONS = [
@@ -43,6 +71,32 @@ const RIG_OPTIONS = [
   { value: "t2", label: "T2 Rig (2.4% ME, 24% TE)" },
 ]
 
+const DECRYPTOR_OPTIONS = [
+  { value: "none", label: "No Decryptor" },
+  { value: "accelerant", label: "Accelerant (+20%, +1 run, ME+2, TE+10)" },
+  { value: "attainment", label: "Attainment (+80%, +4 runs, ME-1, TE+4)" },
+  { value: "augmentation", label: "Augmentation (-40%, +9 runs, ME-2, TE+2)" },
+  { value: "optimized_attainment", label: "Optimized Attainment (+90%, +2 runs, ME+1, TE-2)" },
+  { value: "optimized_augmentation", label: "Optimized Augmentation (-10%, +7 runs, ME+2)" },
+  { value: "parity", label: "Parity (+50%, +3 runs, ME+1, TE-2)" },
+  { value: "process", label: "Process (+10%, ME+3, TE+6)" },
+  { value: "symmetry", label: "Symmetry (+2 runs, ME+1, TE+8)" },
+]
+
+const PLANETARY_INPUT_OPTIONS = [
+  { value: "0", label: "Extract P0" },
+  { value: "1", label: "Buy P1" },
+]
+
+const RELIC_OPTIONS = [
+  { value: "intact", label: "Intact" },
+  { value: "malfunctioning", label: "Malfunctioning" },
+  { value: "wrecked", label: "Wrecked" },
+]
+
+// Saved scenarios for every blueprint, kept in the browser
+const SCENARIOS_STORAGE_KEY = "eve-tracker-scenarios"
+
 // Convert security value to type
 function getSecurityType(security: number | null): 'highsec' | 'lowsec' | 'nullsec' {
   if (security === null) return 'highsec'
@@ -70,39 +124,209 @@ export default function IndustryCalculatorPage() {
   const [systemName, setSystemName] = useState("3t7-m8")
   const [systemSecurity, setSystemSecurity] = useState<number | null>(-0.5)
   const [facilityTax, setFacilityTax] = useState(0)
+  const [reprocessingRate, setReprocessingRate] = useState(72.4)
   const [structureType, setStructureType] = useState("sotiyo")
   const [rigType, setRigType] = useState("t1")
   const [reactionStructure, setReactionStructure] = useState("tatara")
   const [reactionRig, setReactionRig] = useState("t1")
+  const [useRigCatalog, setUseRigCatalog] = useState(false)
+  const [catalogRigs, setCatalogRigs] = useState<string[]>([])
+  const [catalogReactionRigs, setCatalogReactionRigs] = useState<string[]>([])
+  const [calculateReactions, setCalculateReactions] = useState(false)
+  const [expandPlanetary, setExpandPlanetary] = useState(false)
+  const [planetaryInputTier, setPlanetaryInputTier] = useState("0")
+  const [customsTax, setCustomsTax] = useState(10)
+  const [market, setMarket] = useState<MarketSettings>(DEFAULT_MARKET)
+  const [includeInvention, setIncludeInvention] = useState(true)
+  const [decryptor, setDecryptor] = useState<DecryptorType>("none")
+  const [relicQuality, setRelicQuality] = useState<RelicQuality>("intact")
   const [showBuyRecommendations, setShowBuyRecommendations] = useState(false)
+  const [pinned, setPinned] = useState<Record<number, MakeOrBuyChoice>>({})
+  const [facilities, setFacilities] = useState<FacilityProfile[]>([])
+  const [facilityRouting, setFacilityRouting] = useState<FacilityRoutingState>({ byGroup: {}, byProduct: {} })
+  const [planTargets, setPlanTargets] = useState<PlanTarget[]>([])
+  const [batchMode, setBatchMode] = useState(false)
+  const [characters, setCharacters] = useState(1)
+  const [manufacturingSlots, setManufacturingSlots] = useState(11)
+  const [reactionSlots, setReactionSlots] = useState(11)
+  const [characterProfiles, setCharacterProfiles] = useState<CharacterProfile[]>([])
+  const [characterId, setCharacterId] = useState("")
   
   const [isCalculating, setIsCalculating] = useState(false)
   const [isCreatingProject, setIsCreatingProject] = useState(false)
   const [result, setResult] = useState<CalculateResponse | null>(null)
+  const [resultSettings, setResultSettings] = useState<ScenarioSettings | null>(null)
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [compression, setCompression] = useState<CompressionResponse | null>(null)
   const [error, setError] = useState("")
 
-  const handleCalculate = async () => {
+  useEffect(() => {
+    async function fetchFacilities() {
+      try {
+        const response = await fetch("/api/facilities")
+        if (response.ok) {
+          const data = await response.json()
+          setFacilities(data)
+        }
+      } catch (err) {
+        console.error("Failed to fetch facilities:", err)
+      }
+    }
+
+    async function fetchCharacters() {
+      try {
+        const response = await fetch("/api/characters")
+        if (response.ok) {
+          const data = await response.json()
+          setCharacterProfiles(data)
+        }
+      } catch (err) {
+        console.error("Failed to fetch characters:", err)
+      }
+    }
+
+    fetchFacilities()
+    fetchCharacters()
+
+    try {
+      const saved = localStorage.getItem(SCENARIOS_STORAGE_KEY)
+      if (saved) setScenarios(JSON.parse(saved))
+    } catch (err) {
+      console.error("Failed to load scenarios:", err)
+    }
+  }, [])
+
+  const updateScenarios = (update: (prev: Scenario[]) => Scenario[]) => {
+    setScenarios((prev) => {
+      const next = update(prev)
+      localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(next))
+      return next
+    })
+  }
+
+  // Compressed ore alternative for the minerals in the result
+  useEffect(() => {
+    if (!result) return
+
+    const debounce = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/industry/compression", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            minerals: result.materials.map((m) => ({ typeId: m.typeId, quantity: m.quantity })),
+            reprocessingRate,
+          }),
+        })
+        setCompression(response.ok ? await response.json() : null)
+      } catch (err) {
+        console.error("Failed to optimize compression:", err)
+      }
+    }, 300)
+
+    return () => clearTimeout(debounce)
+  }, [result, reprocessingRate])
+
+  const handleCharacterChange = (id: string) => {
+    setCharacterId(id)
+    // Start from the character's own slot counts
+    const character = characterProfiles.find((c) => c.id === id)
+    setManufacturingSlots(character?.manufacturing_slots ?? 11)
+    setReactionSlots(character?.reaction_slots ?? 11)
+  }
+
+  const handleCharacterRemoved = (id: string) => {
+    setCharacterProfiles((prev) => prev.filter((c) => c.id !== id))
+    if (characterId === id) handleCharacterChange("")
+  }
+
+  const handleFacilityRemoved = (facilityId: string) => {
+    setFacilities((prev) => prev.filter((f) => f.id !== facilityId))
+    // Drop routing rules pointing at the deleted facility
+    setFacilityRouting((prev) => ({
+      byGroup: Object.fromEntries(Object.entries(prev.byGroup).filter(([, id]) => id !== facilityId)),
+      byProduct: Object.fromEntries(Object.entries(prev.byProduct).filter(([, id]) => id !== facilityId)),
+    }))
+  }
+
+  const handleAddToPlan = () => {
     if (!selectedBlueprint) return
 
+    setPlanTargets((prev) => [...prev, {
+      blueprintTypeId: selectedBlueprint.blueprintTypeId,
+      productName: selectedBlueprint.productName,
+      quantity,
+      runs,
+      blueprintMe,
+      blueprintTe,
+      invention: canInvent && includeInvention,
+      decryptor,
+      relicQuality: selectedBlueprint.isReverseEngineered ? relicQuality : undefined,
+    }])
+  }
+
+  // Buy mode is applied by the server, so toggling it recalculates
+  const handleCalculate = async (optimize = showBuyRecommendations) => {
+    if (!selectedBlueprint && planTargets.length === 0) return
+
     setIsCalculating(true)
     setError("")
     setResult(null)
+    setResultSettings(null)
+
+    // Settings the result was calculated with, for saving it as a scenario
+    const settings: ScenarioSettings = {
+      systemName,
+      systemSecurity,
+      structureType,
+      rigType,
+      reactionStructure,
+      reactionRig,
+      blueprintMe,
+      blueprintTe,
+      facilityTax,
+      quantity,
+      runs,
+      market,
+    }
 
     try {
       const response = await fetch("/api/industry/calculate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          blueprintTypeId: selectedBlueprint.blueprintTypeId,
+          blueprintTypeId: selectedBlueprint?.blueprintTypeId,
+          // The plan replaces the single blueprint when it has targets
+          targets: planTargets.length > 0 ? planTargets : undefined,
+          batchMode,
+          slots: { characters, manufacturing: manufacturingSlots, reaction: reactionSlots },
           quantity,
           runs,
           blueprintMe,
           blueprintTe,
           systemName,
           facilityTax,
-          structureType: selectedBlueprint.isReaction ? reactionStructure : structureType,
-          rigType: selectedBlueprint.isReaction ? reactionRig : rigType,
+          structureType,
+          rigType,
+          reactionStructureType: reactionStructure,
+          reactionRigType: reactionRig,
+          rigs: useRigCatalog ? catalogRigs : undefined,
+          reactionRigs: useRigCatalog ? catalogReactionRigs : undefined,
           securityType: getSecurityType(systemSecurity),
+          calculateReactions: !isReaction && calculateReactions,
+          planetary: {
+            expand: expandPlanetary,
+            inputTier: Number(planetaryInputTier),
+            taxRate: customsTax,
+          },
+          invention: canInvent && includeInvention,
+          decryptor,
+          relicQuality: selectedBlueprint?.isReverseEngineered ? relicQuality : undefined,
+          facilityRouting,
+          characterId: characterId || undefined,
+          makeOrBuy: { optimize, pinned },
+          sensitivity: true,
+          market,
         }),
       })
 
@@ -113,6 +337,7 @@ export default function IndustryCalculatorPage() {
 
       const data: CalculateResponse = await response.json()
       setResult(data)
+      setResultSettings(settings)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Calculation failed")
     } finally {
@@ -120,6 +345,38 @@ export default function IndustryCalculatorPage() {
     }
   }
 
+  const handleSaveScenario = () => {
+    if (!result || !resultSettings) return
+
+    updateScenarios((prev) => [...prev, {
+      id: crypto.randomUUID(),
+      name: `${resultSettings.systemName} #${prev.filter((s) => s.blueprintTypeId === result.blueprint.blueprintTypeId).length + 1}`,
+      blueprintTypeId: result.blueprint.blueprintTypeId,
+      savedAt: new Date().toISOString(),
+      settings: resultSettings,
+      totalCost: result.costs.totalCost,
+      costPerUnit: result.costs.costPerUnit,
+      estimatedProfit: result.costs.estimatedProfit,
+      buildTime: result.schedule.makespan,
+    }])
+  }
+
+  const handleLoadScenario = (scenario: Scenario) => {
+    const settings = scenario.settings
+    setSystemName(settings.systemName)
+    setSystemSecurity(settings.systemSecurity)
+    setStructureType(settings.structureType)
+    setRigType(settings.rigType)
+    setReactionStructure(settings.reactionStructure)
+    setReactionRig(settings.reactionRig)
+    setBlueprintMe(settings.blueprintMe)
+    setBlueprintTe(settings.blueprintTe)
+    setFacilityTax(settings.facilityTax)
+    setQuantity(settings.quantity)
+    setRuns(settings.runs)
+    setMarket(settings.market ?? DEFAULT_MARKET)
+  }
+
   const handleCreateProject = async () => {
     if (!result) return
 
@@ -151,50 +408,15 @@ export default function IndustryCalculatorPage() {
   }
 
   const isReaction = selectedBlueprint?.isReaction || false
+  const canInvent = (selectedBlueprint?.isInventable || selectedBlueprint?.isReverseEngineered) ?? false
+  const isInventing = canInvent && includeInvention
+  const blueprintScenarios = scenarios.filter((s) => s.blueprintTypeId === selectedBlueprint?.blueprintTypeId)
 
-  // Check if there are any buy recommendations available
+  // Show the buy mode toggle when something is cheaper to buy (or buy mode is on)
   const hasBuyRecommendations = useMemo(() => {
-    if (!result?.components) return false
-    return result.components.some(c => c.shouldBuy)
-  }, [result?.components])
-
-  // Calculate adjusted materials when buy mode is active
-  // Subtracts materials needed for components that should be bought
-  const adjustedMaterials = useMemo((): MaterialWithPrice[] => {
-    if (!result?.materials || !showBuyRecommendations || !result.components) {
-      return result?.materials || []
-    }
-
-    // Create a map of material adjustments from components that should be bought
-    const materialsToSubtract = new Map<number, number>()
-    
-    for (const component of result.components) {
-      if (component.shouldBuy && component.materialsBreakdown) {
-        for (const mat of component.materialsBreakdown) {
-          const current = materialsToSubtract.get(mat.typeId) || 0
-          materialsToSubtract.set(mat.typeId, current + mat.quantity)
-        }
-      }
-    }
-
-    // Subtract from raw materials
-    return result.materials
-      .map(mat => {
-        const subtractQty = materialsToSubtract.get(mat.typeId) || 0
-        const newQty = Math.max(0, mat.quantity - subtractQty)
-        
-        if (newQty === 0) return null
-        
-        return {
-          ...mat,
-          quantity: newQty,
-          volume: (mat.volume / mat.quantity) * newQty,
-          totalBuyPrice: mat.buyPrice * newQty,
-          totalSellPrice: mat.sellPrice * newQty,
-        }
-      })
-      .filter((mat): mat is MaterialWithPrice => mat !== null)
-  }, [result?.materials, result?.components, showBuyRecommendations])
+    if (!result) return false
+    return result.makeOrBuy.optimized || result.makeOrBuy.decisions.some(d => d.decision === "buy")
+  }, [result])
 
   return (
     <div className="min-h-screen bg-background">
@@ -265,6 +487,15 @@ export default function IndustryCalculatorPage() {
                   </div>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="batchMode"
+                    checked={batchMode}
+                    onCheckedChange={(checked) => setBatchMode(checked === true)}
+                  />
+                  <Label htmlFor="batchMode">Batch component jobs across all BPCs</Label>
+                </div>
+
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
                     <Label htmlFor="me">Base ME</Label>
@@ -274,6 +505,7 @@ export default function IndustryCalculatorPage() {
                       min={0}
                       max={10}
                       value={blueprintMe}
+                      disabled={isInventing}
                       onChange={(e) => setBlueprintMe(Math.min(10, Math.max(0, parseInt(e.target.value) || 0)))}
                     />
                   </div>
@@ -285,10 +517,51 @@ export default function IndustryCalculatorPage() {
                       min={0}
                       max={20}
                       value={blueprintTe}
+                      disabled={isInventing}
                       onChange={(e) => setBlueprintTe(Math.min(20, Math.max(0, parseInt(e.target.value) || 0)))}
                     />
                   </div>
                 </div>
+
+                {/* Invention - only for T2 blueprints, reverse engineering for T3 */}
+                {canInvent && (
+                  <div className="space-y-3 rounded-md border border-dashed p-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="invention"
+                        checked={includeInvention}
+                        onCheckedChange={(checked) => setIncludeInvention(checked === true)}
+                      />
+                      <Label htmlFor="invention">
+                        {selectedBlueprint?.isReverseEngineered
+                          ? "Reverse engineer BPCs from relics"
+                          : "Invent BPCs (ME/TE from invention)"}
+                      </Label>
+                    </div>
+                    {includeInvention && selectedBlueprint?.isReverseEngineered && (
+                      <div className="space-y-1.5">
+                        <Label htmlFor="relicQuality">Relic</Label>
+                        <Select
+                          id="relicQuality"
+                          value={relicQuality}
+                          onChange={(e) => setRelicQuality(e.target.value as RelicQuality)}
+                          options={RELIC_OPTIONS}
+                        />
+                      </div>
+                    )}
+                    {includeInvention && (
+                      <div className="space-y-1.5">
+                        <Label htmlFor="decryptor">Decryptor</Label>
+                        <Select
+                          id="decryptor"
+                          value={decryptor}
+                          onChange={(e) => setDecryptor(e.target.value as DecryptorType)}
+                          options={DECRYPTOR_OPTIONS}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -329,6 +602,118 @@ export default function IndustryCalculatorPage() {
                     onChange={(e) => setFacilityTax(parseFloat(e.target.value) || 0)}
                   />
                 </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="reprocessingRate">Ore Reprocessing Rate %</Label>
+                  <Input
+                    id="reprocessingRate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={reprocessingRate}
+                    onChange={(e) => setReprocessingRate(Math.min(100, parseFloat(e.target.value) || 0))}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="expandPlanetary"
+                    checked={expandPlanetary}
+                    onCheckedChange={(checked) => setExpandPlanetary(checked === true)}
+                  />
+                  <Label htmlFor="expandPlanetary">Make PI materials on planets</Label>
+                </div>
+                {expandPlanetary && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="planetaryInputTier">PI Inputs</Label>
+                      <Select
+                        id="planetaryInputTier"
+                        value={planetaryInputTier}
+                        onChange={(e) => setPlanetaryInputTier(e.target.value)}
+                        options={PLANETARY_INPUT_OPTIONS}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="customsTax">Customs Tax %</Label>
+                      <Input
+                        id="customsTax"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.1}
+                        value={customsTax}
+                        onChange={(e) => setCustomsTax(Math.min(100, parseFloat(e.target.value) || 0))}
+                      />
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Market */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Market</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <MarketSelect value={market} onChange={setMarket} />
+              </CardContent>
+            </Card>
+
+            {/* Job Slots */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Character & Job Slots</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="character">Character</Label>
+                  <Select
+                    id="character"
+                    value={characterId}
+                    onChange={(e) => handleCharacterChange(e.target.value)}
+                    options={[
+                      { value: "", label: "No character" },
+                      ...characterProfiles.map((c) => ({ value: c.id, label: c.name })),
+                    ]}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="characters">Characters</Label>
+                    <Input
+                      id="characters"
+                      type="number"
+                      min={1}
+                      value={characters}
+                      onChange={(e) => setCharacters(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="manufacturingSlots">Mfg slots</Label>
+                    <Input
+                      id="manufacturingSlots"
+                      type="number"
+                      min={1}
+                      max={11}
+                      value={manufacturingSlots}
+                      onChange={(e) => setManufacturingSlots(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="reactionSlots">Reaction slots</Label>
+                    <Input
+                      id="reactionSlots"
+                      type="number"
+                      min={1}
+                      max={11}
+                      value={reactionSlots}
+                      onChange={(e) => setReactionSlots(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                </div>
               </CardContent>
             </Card>
 
@@ -338,7 +723,7 @@ export default function IndustryCalculatorPage() {
                 <CardTitle className="text-base">Structure & Rig Setup</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {!isReaction ? (
+                {!isReaction && (
                   <>
                     <div className="space-y-1.5">
                       <Label htmlFor="structure">Industry Structure</Label>
@@ -349,17 +734,30 @@ export default function IndustryCalculatorPage() {
                         options={STRUCTURE_OPTIONS}
                       />
                     </div>
-                    <div className="space-y-1.5">
-                      <Label htmlFor="rig">Industry Rig</Label>
-                      <Select
-                        id="rig"
-                        value={rigType}
-                        onChange={(e) => setRigType(e.target.value)}
-                        options={RIG_OPTIONS}
+                    {useRigCatalog ? (
+                      <RigPicker activity="manufacturing" value={catalogRigs} onChange={setCatalogRigs} />
+                    ) : (
+                      <div className="space-y-1.5">
+                        <Label htmlFor="rig">Industry Rig</Label>
+                        <Select
+                          id="rig"
+                          value={rigType}
+                          onChange={(e) => setRigType(e.target.value)}
+                          options={RIG_OPTIONS}
+                        />
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="calculateReactions"
+                        checked={calculateReactions}
+                        onCheckedChange={(checked) => setCalculateReactions(checked === true)}
                       />
+                      <Label htmlFor="calculateReactions">Build reactions down to moon goo</Label>
                     </div>
                   </>
-                ) : (
+                )}
+                {(isReaction || calculateReactions) && (
                   <>
                     <div className="space-y-1.5">
                       <Label htmlFor="reactionStructure">Reaction Structure</Label>
@@ -370,24 +768,67 @@ export default function IndustryCalculatorPage() {
                         options={REACTION_STRUCTURE_OPTIONS}
                       />
                     </div>
-                    <div className="space-y-1.5">
-                      <Label htmlFor="reactionRig">Reaction Rig</Label>
-                      <Select
-                        id="reactionRig"
-                        value={reactionRig}
-                        onChange={(e) => setReactionRig(e.target.value)}
-                        options={RIG_OPTIONS}
-                      />
-                    </div>
+                    {useRigCatalog ? (
+                      <RigPicker activity="reaction" value={catalogReactionRigs} onChange={setCatalogReactionRigs} />
+                    ) : (
+                      <div className="space-y-1.5">
+                        <Label htmlFor="reactionRig">Reaction Rig</Label>
+                        <Select
+                          id="reactionRig"
+                          value={reactionRig}
+                          onChange={(e) => setReactionRig(e.target.value)}
+                          options={RIG_OPTIONS}
+                        />
+                      </div>
+                    )}
                   </>
                 )}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="useRigCatalog"
+                    checked={useRigCatalog}
+                    onCheckedChange={(checked) => setUseRigCatalog(checked === true)}
+                  />
+                  <Label htmlFor="useRigCatalog">Fit group-specific rigs</Label>
+                </div>
               </CardContent>
             </Card>
 
+            {/* Saved Facilities */}
+            <FacilityProfiles
+              facilities={facilities}
+              onFacilityAdded={(facility) => setFacilities((prev) => [...prev, facility])}
+              onFacilityRemoved={handleFacilityRemoved}
+            />
+
+            {/* Saved Characters */}
+            <CharacterProfiles
+              characters={characterProfiles}
+              onCharacterAdded={(character) => setCharacterProfiles((prev) => [...prev, character])}
+              onCharacterRemoved={handleCharacterRemoved}
+            />
+
+            {/* Build Plan */}
+            <BuildPlan
+              targets={planTargets}
+              onRemove={(index) => setPlanTargets((prev) => prev.filter((_, i) => i !== index))}
+              onClear={() => setPlanTargets([])}
+            />
+
+            <Button
+              variant="outline"
+              onClick={handleAddToPlan}
+              disabled={!selectedBlueprint}
+              className="w-full"
+            >
+              <ListPlus className="size-4" />
+              Add to Build Plan
+            </Button>
+
             {/* Calculate Button */}
             <Button
-              onClick={handleCalculate}
-              disabled={!selectedBlueprint || isCalculating}
+              onClick={() => handleCalculate()}
+              disabled={(!selectedBlueprint && planTargets.length === 0) || isCalculating}
               className="w-full h-12 text-lg font-semibold"
             >
               {isCalculating ? (
@@ -398,7 +839,7 @@ export default function IndustryCalculatorPage() {
               ) : (
                 <>
                   <Calculator className="size-5" />
-                  Calculate Recipe
+                  {planTargets.length > 0 ? "Calculate Plan" : "Calculate Recipe"}
                 </>
               )}
             </Button>
@@ -414,10 +855,14 @@ export default function IndustryCalculatorPage() {
           <div className="space-y-4">
             {result ? (
               <>
+                <DataWarnings warnings={result.warnings} />
+
                 {/* Action Bar */}
                 <div className="flex items-center justify-between gap-4">
                   <h2 className="text-lg font-semibold">
-                    {quantity === 1 ? result.blueprint.productName : `${quantity}x ${result.blueprint.productName}`}
+                    {result.targets.length > 1
+                      ? `Build plan (${result.targets.length} targets)`
+                      : quantity === 1 ? result.blueprint.productName : `${quantity}x ${result.blueprint.productName}`}
                   </h2>
                   <div className="flex items-center gap-3">
                     {/* Buy Mode Toggle - only show if there are buy recommendations */}
@@ -425,7 +870,11 @@ export default function IndustryCalculatorPage() {
                       <Button
                         variant={showBuyRecommendations ? "default" : "outline"}
                         size="sm"
-                        onClick={() => setShowBuyRecommendations(!showBuyRecommendations)}
+                        onClick={() => {
+                          setShowBuyRecommendations(!showBuyRecommendations)
+                          handleCalculate(!showBuyRecommendations)
+                        }}
+                        disabled={isCalculating}
                         className="gap-2"
                       >
                         {showBuyRecommendations ? (
@@ -441,6 +890,18 @@ export default function IndustryCalculatorPage() {
                         )}
                       </Button>
                     )}
+                    {result.targets.length === 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleSaveScenario}
+                        disabled={!resultSettings}
+                        className="gap-2"
+                      >
+                        <Columns3 className="size-4" />
+                        Save Scenario
+                      </Button>
+                    )}
                     <Button
                       onClick={handleCreateProject}
                       disabled={isCreatingProject}
@@ -465,9 +926,52 @@ export default function IndustryCalculatorPage() {
                 <CostSummary
                   costs={result.costs}
                   systemCostIndex={result.systemCostIndex}
-                  quantity={quantity}
+                  quantity={result.outputs.reduce((sum, o) => sum + o.quantity, 0)}
                 />
 
+                {/* Saved scenarios side by side */}
+                <ScenarioComparison
+                  scenarios={blueprintScenarios}
+                  onLoad={handleLoadScenario}
+                  onRemove={(id) => updateScenarios((prev) => prev.filter((s) => s.id !== id))}
+                />
+
+                {/* Profit against cost index, ME and material prices */}
+                {result.sensitivity && (
+                  <SensitivityChart series={result.sensitivity} />
+                )}
+
+                {/* Batching savings */}
+                {result.batchSavings && (
+                  <BatchSavings savings={result.batchSavings} />
+                )}
+
+                {/* Per-target cost allocation */}
+                {result.targets.length > 1 && (
+                  <TargetAllocation targets={result.targets} />
+                )}
+
+                {/* Invention */}
+                {result.invention && (
+                  <InventionDetails invention={result.invention} />
+                )}
+
+                {/* Relic choice for reverse engineered T3 BPCs */}
+                {result.invention?.relicQuality && (
+                  <RelicComparison
+                    request={{
+                      blueprintTypeId: result.blueprint.blueprintTypeId,
+                      decryptor,
+                      systemName,
+                      structureType: structureType as ReverseEngineeringRequest["structureType"],
+                      facilityTax,
+                      characterId: characterId || undefined,
+                    }}
+                    selected={relicQuality}
+                    onSelect={setRelicQuality}
+                  />
+                )}
+
                 {/* Output Products */}
                 {result.outputs.length > 0 && (
                   <Card>
@@ -516,10 +1020,23 @@ export default function IndustryCalculatorPage() {
                 {/* Raw Materials (cannot be built) */}
                 <GroupedMaterials
                   title="Raw Materials"
-                  materials={adjustedMaterials}
-                  isAdjusted={showBuyRecommendations && hasBuyRecommendations}
+                  materials={result.materials}
+                  isAdjusted={result.makeOrBuy.optimized}
                 />
 
+                {/* Minerals as compressed ore */}
+                {compression && (
+                  <CompressedOres
+                    ores={compression.ores}
+                    comparison={compression}
+                  />
+                )}
+
+                {/* PI chain that replaced P1-P4 materials */}
+                {result.planetary && (
+                  <PlanetaryChain plan={result.planetary} />
+                )}
+
                 {/* Components (intermediate items that are built) */}
                 {result.components && result.components.length > 0 && (
                   <ComponentsList
@@ -529,6 +1046,22 @@ export default function IndustryCalculatorPage() {
                   />
                 )}
 
+                {/* Make or Buy */}
+                <MakeOrBuy
+                  decisions={result.makeOrBuy.decisions}
+                  pinned={pinned}
+                  onPinnedChange={setPinned}
+                />
+
+                {/* Build Tree */}
+                {result.buildTree && (
+                  <BuildTree
+                    trees={result.buildTree}
+                    pinned={pinned}
+                    onPinnedChange={setPinned}
+                  />
+                )}
+
                 {/* Excess Materials */}
                 {result.excessMaterials.length > 0 && (
                   <GroupedMaterials
@@ -537,8 +1070,20 @@ export default function IndustryCalculatorPage() {
                   />
                 )}
 
+                {/* Facilities */}
+                <FacilityRouting
+                  steps={result.buildSteps}
+                  facilityTotals={result.facilityTotals}
+                  facilities={facilities}
+                  routing={facilityRouting}
+                  onRoutingChange={setFacilityRouting}
+                />
+
                 {/* Build Steps */}
                 <BuildSteps steps={result.buildSteps} />
+
+                {/* Timeline */}
+                <BuildTimeline schedule={result.schedule} steps={result.buildSteps} />
               </>
             ) : (
               <Card className="border-dashed">
@@ -5,7 +5,7 @@ import Link from "next/link"
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { LogoutButton } from "@/components/logout-button"
-import { Plus, Loader2, FolderOpen, Calendar, Calculator } from "lucide-react"
+import { Plus, Loader2, FolderOpen, Calendar, Calculator, Microscope, Recycle, Globe, TrendingUp } from "lucide-react"
 import type { Project } from "@/types/database"
 
 export default function Home() {
@@ -45,6 +45,30 @@ export default function Home() {
                 Industry Calculator
               </Link>
             </Button>
+            <Button variant="outline" asChild>
+              <Link href="/research">
+                <Microscope className="size-4" />
+                Research
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/reprocess">
+                <Recycle className="size-4" />
+                Reprocess
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/planetary">
+                <Globe className="size-4" />
+                Planetary
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/scanner">
+                <TrendingUp className="size-4" />
+                Scanner
+              </Link>
+            </Button>
             <Button asChild>
               <Link href="/projects/new">
                 <Plus className="size-4" />
@@ -0,0 +1,344 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { DataWarnings } from "@/components/data-warnings"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { PlanetaryChain } from "@/components/industry/planetary-chain"
+import { ArrowLeft, Loader2, Globe, Plus, X } from "lucide-react"
+import type { PlanetaryResponse } from "@/app/api/industry/planetary/route"
+
+interface Commodity {
+  typeId: number
+  name: string
+  tier: number
+}
+
+interface Target {
+  typeId: number
+  quantity: number
+}
+
+const INPUT_TIER_OPTIONS = [
+  { value: "0", label: "Extract P0" },
+  { value: "1", label: "Buy P1" },
+]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}ISK ${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}ISK ${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}ISK ${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}ISK ${absValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+export default function PlanetaryPlannerPage() {
+  const [commodities, setCommodities] = useState<Commodity[]>([])
+  const [targets, setTargets] = useState<Target[]>([])
+  const [selectedTypeId, setSelectedTypeId] = useState("")
+  const [targetQuantity, setTargetQuantity] = useState(100)
+  const [inputTier, setInputTier] = useState("0")
+  const [taxRate, setTaxRate] = useState(10)
+  const [hours, setHours] = useState(24)
+  const [singlePlanet, setSinglePlanet] = useState(false)
+
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [result, setResult] = useState<PlanetaryResponse | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    async function fetchCommodities() {
+      try {
+        const response = await fetch("/api/industry/planetary")
+        if (response.ok) {
+          const data: Commodity[] = await response.json()
+          setCommodities(data)
+          if (data.length > 0) setSelectedTypeId(data[0].typeId.toString())
+        }
+      } catch (err) {
+        console.error("Failed to fetch planetary commodities:", err)
+      }
+    }
+
+    fetchCommodities()
+  }, [])
+
+  const commodityName = (typeId: number) =>
+    commodities.find((c) => c.typeId === typeId)?.name ?? `Type ${typeId}`
+
+  const handleAddTarget = () => {
+    const typeId = Number(selectedTypeId)
+    if (!typeId || targetQuantity < 1) return
+    setTargets((prev) => {
+      const existing = prev.find((t) => t.typeId === typeId)
+      if (existing) {
+        return prev.map((t) => t.typeId === typeId ? { ...t, quantity: t.quantity + targetQuantity } : t)
+      }
+      return [...prev, { typeId, quantity: targetQuantity }]
+    })
+  }
+
+  const handleCalculate = async () => {
+    if (targets.length === 0) return
+
+    setIsCalculating(true)
+    setError("")
+    setResult(null)
+
+    try {
+      const response = await fetch("/api/industry/planetary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          targets,
+          inputTier: Number(inputTier),
+          taxRate,
+          hours,
+          singlePlanet,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Calculation failed")
+      }
+
+      const data: PlanetaryResponse = await response.json()
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Calculation failed")
+    } finally {
+      setIsCalculating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Background pattern */}
+      <div className="fixed inset-0 -z-10 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/5 via-background to-background" />
+
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <header className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/">
+              <ArrowLeft className="size-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <Globe className="size-8 text-primary" />
+              Planetary Industry
+            </h1>
+            <p className="text-muted-foreground">
+              Plan P2-P4 production: inputs per cycle, factories and customs taxes
+            </p>
+          </div>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-[400px_1fr]">
+          {/* Settings Panel */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Products</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="commodity">Commodity</Label>
+                  <Select
+                    id="commodity"
+                    value={selectedTypeId}
+                    onChange={(e) => setSelectedTypeId(e.target.value)}
+                    options={commodities.map((c) => ({ value: c.typeId.toString(), label: `P${c.tier} ${c.name}` }))}
+                  />
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1.5">
+                    <Label htmlFor="targetQuantity">Units</Label>
+                    <Input
+                      id="targetQuantity"
+                      type="number"
+                      min={1}
+                      value={targetQuantity}
+                      onChange={(e) => setTargetQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleAddTarget} disabled={!selectedTypeId}>
+                    <Plus className="size-4" />
+                    Add
+                  </Button>
+                </div>
+
+                {targets.length > 0 && (
+                  <div className="space-y-1">
+                    {targets.map((t) => (
+                      <div key={t.typeId} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+                        <span>{t.quantity.toLocaleString()} x {commodityName(t.typeId)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-6"
+                          onClick={() => setTargets((prev) => prev.filter((p) => p.typeId !== t.typeId))}
+                        >
+                          <X className="size-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Production</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="inputTier">Inputs</Label>
+                    <Select
+                      id="inputTier"
+                      value={inputTier}
+                      onChange={(e) => setInputTier(e.target.value)}
+                      options={INPUT_TIER_OPTIONS}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="hours">Hours</Label>
+                    <Input
+                      id="hours"
+                      type="number"
+                      min={1}
+                      value={hours}
+                      onChange={(e) => setHours(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="taxRate">Customs Tax %</Label>
+                  <Input
+                    id="taxRate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={taxRate}
+                    onChange={(e) => setTaxRate(Math.min(100, parseFloat(e.target.value) || 0))}
+                  />
+                </div>
+
+                {inputTier === "0" && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="singlePlanet"
+                      checked={singlePlanet}
+                      onCheckedChange={(checked) => setSinglePlanet(checked === true)}
+                    />
+                    <Label htmlFor="singlePlanet">Extract and build on one planet</Label>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={handleCalculate}
+              disabled={targets.length === 0 || isCalculating}
+              className="w-full h-12 text-lg font-semibold"
+            >
+              {isCalculating ? (
+                <>
+                  <Loader2 className="size-5 animate-spin" />
+                  Calculating...
+                </>
+              ) : (
+                <>
+                  <Globe className="size-5" />
+                  Plan Production
+                </>
+              )}
+            </Button>
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+
+          {/* Results Panel */}
+          <div className="space-y-4">
+            {result ? (
+              <>
+                <DataWarnings warnings={result.warnings} />
+
+                <Card className="bg-gradient-to-br from-card to-accent/20">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Summary</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-3">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Bought inputs:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.inputsCost)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Customs taxes:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.totalTax)}</span>
+                        </div>
+                        <div className="border-t pt-3 flex justify-between">
+                          <span className="font-semibold">Profit:</span>
+                          <span className={`font-bold text-lg tabular-nums ${result.profit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {formatISK(result.profit)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="space-y-3 sm:border-l sm:pl-4">
+                        {result.outputs.map((output) => (
+                          <div key={output.typeId} className="flex justify-between">
+                            <span className="text-muted-foreground">{output.quantity.toLocaleString()} x {output.name}:</span>
+                            <span className="font-semibold tabular-nums">{formatISK(output.totalSellPrice)}</span>
+                          </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground">
+                          Products at Jita sell, bought inputs at Jita buy. Extracted P0 is free.
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <PlanetaryChain plan={result} />
+              </>
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <Globe className="size-16 text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Plan Yet</h3>
+                  <p className="text-muted-foreground text-center max-w-md">
+                    Add the P2-P4 commodities you want to make, then click &quot;Plan Production&quot; to see the inputs, factories and customs taxes.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
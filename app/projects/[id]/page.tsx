@@ -8,11 +8,25 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ItemList } from "@/components/item-list"
 import { GroupedItemList } from "@/components/grouped-item-list"
 import { PriceSummary } from "@/components/price-summary"
+import { PriceHistoryChart } from "@/components/price-history-chart"
 import { AdditionalCosts } from "@/components/additional-costs"
+import { HaulingPlanner } from "@/components/hauling-planner"
 import { TotalCost } from "@/components/total-cost"
-import { ArrowLeft, Loader2, AlertCircle, Trash2, ShoppingCart, Hammer } from "lucide-react"
+import { DataWarnings } from "@/components/data-warnings"
+import { ArrowLeft, Loader2, AlertCircle, Trash2, ShoppingCart, Hammer, RefreshCw } from "lucide-react"
+import { formatMarketSide, getProjectMarket, isSameMarketSide } from "@/lib/markets"
+import type { RepriceResponse } from "@/app/api/projects/[id]/reprice/route"
 import type { ProjectWithDetails, AdditionalCost, RawMaterial, Component } from "@/types/database"
 
+function formatISKChange(value: number): string {
+  const sign = value > 0 ? "+" : value < 0 ? "-" : "±"
+  const absValue = Math.abs(value)
+  if (absValue >= 1e9) return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  if (absValue >= 1e6) return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  if (absValue >= 1e3) return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  return `${sign}${absValue.toFixed(2)}`
+}
+
 export default function ProjectDetailPage() {
   const params = useParams()
   const router = useRouter()
@@ -22,6 +36,10 @@ export default function ProjectDetailPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState("")
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isRepricing, setIsRepricing] = useState(false)
+  const [reprice, setReprice] = useState<RepriceResponse | null>(null)
+  const [repriceError, setRepriceError] = useState("")
+  const [historyVersion, setHistoryVersion] = useState(0)
   const [showBuyRecommendations, setShowBuyRecommendations] = useState(false)
 
   // Calculate buy recommendations for components
@@ -50,16 +68,30 @@ export default function ProjectDetailPage() {
       return project?.raw_materials || []
     }
 
-    // Create a map of material adjustments from components that should be bought
+    // Remove the demand of bought components from the tree: a bought component no longer
+    // needs its materials, and sub-components it used shrink in proportion, down to raw materials.
+    // Remaining demand per component keeps nested purchases from being subtracted twice.
+    const componentsByType = new Map(project.components.map(comp => [comp.type_id, comp]))
+    const remaining = new Map(project.components.map(comp => [comp.type_id, comp.quantity]))
     const materialsToSubtract = new Map<number, number>()
     
+    const removeDemand = (typeId: number, quantity: number) => {
+      const comp = componentsByType.get(typeId)
+      if (!comp) {
+        materialsToSubtract.set(typeId, (materialsToSubtract.get(typeId) || 0) + quantity)
+        return
+      }
+      const removed = Math.min(quantity, remaining.get(typeId) || 0)
+      if (removed <= 0 || comp.quantity <= 0) return
+      remaining.set(typeId, (remaining.get(typeId) || 0) - removed)
+      for (const mat of comp.materials_breakdown ?? []) {
+        removeDemand(mat.typeId, mat.quantity * removed / comp.quantity)
+      }
+    }
+    
     for (const comp of project.components) {
-      const shouldBuy = componentBuyRecommendations.recommendations.get(comp.id)
-      if (shouldBuy && comp.materials_breakdown) {
-        for (const mat of comp.materials_breakdown) {
-          const current = materialsToSubtract.get(mat.typeId) || 0
-          materialsToSubtract.set(mat.typeId, current + mat.quantity)
-        }
+      if (componentBuyRecommendations.recommendations.get(comp.id)) {
+        removeDemand(comp.type_id, remaining.get(comp.type_id) || 0)
       }
     }
 
@@ -67,7 +99,7 @@ export default function ProjectDetailPage() {
     return project.raw_materials
       .map(mat => {
         const subtractQty = materialsToSubtract.get(mat.type_id) || 0
-        const newQty = Math.max(0, mat.quantity - subtractQty)
+        const newQty = Math.max(0, Math.round(mat.quantity - subtractQty))
         
         if (newQty === 0) return null
         
@@ -154,6 +186,25 @@ export default function ProjectDetailPage() {
     })
   }
 
+  const handleReprice = async () => {
+    setIsRepricing(true)
+    setRepriceError("")
+    try {
+      const response = await fetch(`/api/projects/${projectId}/reprice`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to reprice project")
+      }
+      setReprice(data)
+      setHistoryVersion((v) => v + 1)
+      await fetchProject()
+    } catch (err) {
+      setRepriceError(err instanceof Error ? err.message : "Failed to reprice project")
+    } finally {
+      setIsRepricing(false)
+    }
+  }
+
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this project? This action cannot be undone.")) {
       return
@@ -200,6 +251,9 @@ export default function ProjectDetailPage() {
     )
   }
 
+  // Hubs the stored prices were read from
+  const market = getProjectMarket(project)
+
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="mx-auto max-w-6xl space-y-8">
@@ -214,6 +268,9 @@ export default function ProjectDetailPage() {
               <h1 className="text-3xl font-bold tracking-tight">{project.name}</h1>
               <p className="text-muted-foreground">
                 Created {new Date(project.created_at).toLocaleDateString()}
+                {isSameMarketSide(market.buy, market.sell)
+                  ? ` · ${formatMarketSide(market.buy)} prices`
+                  : ` · Buy at ${formatMarketSide(market.buy)}, sell at ${formatMarketSide(market.sell)}`}
               </p>
             </div>
           </div>
@@ -239,6 +296,20 @@ export default function ProjectDetailPage() {
                 )}
               </Button>
             )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleReprice}
+              disabled={isRepricing}
+              title="Re-appraise every item at current prices"
+            >
+              {isRepricing ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <RefreshCw className="size-4" />
+              )}
+              Reprice
+            </Button>
             <Button
               variant="destructive"
               size="sm"
@@ -255,6 +326,28 @@ export default function ProjectDetailPage() {
           </div>
         </header>
 
+        {/* Result of the last reprice */}
+        {repriceError && (
+          <Alert variant="destructive">
+            <AlertCircle className="size-4" />
+            <AlertDescription>{repriceError}</AlertDescription>
+          </Alert>
+        )}
+        {reprice && (
+          <Alert>
+            <RefreshCw className="size-4" />
+            <AlertDescription>
+              {reprice.diff.items.length} item{reprice.diff.items.length === 1 ? "" : "s"} repriced
+              {" · "}Materials buy {formatISKChange(reprice.diff.rawMaterials.change.buy)}
+              {", "}sell {formatISKChange(reprice.diff.rawMaterials.change.sell)}
+              {reprice.diff.buildCost.before > 0 && ` · Build cost ${formatISKChange(reprice.diff.buildCost.change)}`}
+              {reprice.diff.unpriced.length > 0 && ` · No price for ${reprice.diff.unpriced.join(", ")}`}
+              {reprice.errors && ` · Not saved: ${reprice.errors.join("; ")}`}
+            </AlertDescription>
+          </Alert>
+        )}
+        <DataWarnings warnings={reprice?.warnings} />
+
         {/* Item Lists - Stacked vertically for better table view */}
         <div className="space-y-6">
           <GroupedItemList
@@ -275,9 +368,23 @@ export default function ProjectDetailPage() {
           />
         </div>
 
-        {/* Price Summary */}
-        <PriceSummary
-          rawMaterials={adjustedRawMaterials}
+        {/* Price Summary and how it moved */}
+        <div className="grid gap-6 lg:grid-cols-2">
+          <PriceSummary
+            rawMaterials={adjustedRawMaterials}
+            market={market}
+          />
+          <PriceHistoryChart
+            projectId={projectId}
+            market={market}
+            refreshKey={historyVersion}
+          />
+        </div>
+
+        {/* Hauling */}
+        <HaulingPlanner
+          projectId={projectId}
+          onCostAdded={handleCostAdded}
         />
 
         {/* Additional Costs */}
@@ -292,6 +399,7 @@ export default function ProjectDetailPage() {
         <TotalCost
           rawMaterials={adjustedRawMaterials}
           additionalCosts={project.additional_costs}
+          market={market}
         />
       </div>
     </div>
@@ -8,14 +8,18 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { ArrowLeft, Loader2, AlertCircle, Package, Boxes } from "lucide-react"
+import { MarketSelect } from "@/components/market-select"
+import { ArrowLeft, Loader2, AlertCircle, Package, Boxes, Store } from "lucide-react"
 import Link from "next/link"
+import { DEFAULT_MARKET, type MarketSettings } from "@/lib/markets"
+import type { CreateProjectRequest } from "@/types/database"
 
 export default function NewProjectPage() {
   const router = useRouter()
   const [name, setName] = useState("")
   const [rawMaterials, setRawMaterials] = useState("")
   const [components, setComponents] = useState("")
+  const [market, setMarket] = useState<MarketSettings>(DEFAULT_MARKET)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
 
@@ -36,14 +40,16 @@ export default function NewProjectPage() {
     setIsLoading(true)
 
     try {
+      const request: CreateProjectRequest = {
+        name: name.trim(),
+        rawMaterialsInput: rawMaterials,
+        componentsInput: components,
+        market,
+      }
       const response = await fetch("/api/projects", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: name.trim(),
-          rawMaterialsInput: rawMaterials,
-          componentsInput: components,
-        }),
+        body: JSON.stringify(request),
       })
 
       const data = await response.json()
@@ -102,6 +108,21 @@ export default function NewProjectPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Store className="size-5 text-muted-foreground" />
+                <CardTitle>Market</CardTitle>
+              </div>
+              <CardDescription>
+                Hub and price variant for buy and sell prices, stored with the project
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MarketSelect value={market} onChange={setMarket} disabled={isLoading} />
+            </CardContent>
+          </Card>
+
           <div className="grid gap-6 lg:grid-cols-2">
             <Card>
               <CardHeader>
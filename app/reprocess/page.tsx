@@ -0,0 +1,455 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { DataWarnings } from "@/components/data-warnings"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { ArrowLeft, Loader2, Recycle } from "lucide-react"
+import type { ReprocessResponse } from "@/app/api/industry/reprocess/route"
+
+const STRUCTURE_OPTIONS = [
+  { value: "npc_station", label: "NPC Station" },
+  { value: "citadel", label: "Citadel / Engineering Complex" },
+  { value: "athanor", label: "Athanor (+2%)" },
+  { value: "tatara", label: "Tatara (+5.5%)" },
+]
+
+const RIG_OPTIONS = [
+  { value: "none", label: "No Rig" },
+  { value: "t1", label: "T1 Reprocessing Rig" },
+  { value: "t2", label: "T2 Reprocessing Rig" },
+]
+
+const SECURITY_OPTIONS = [
+  { value: "highsec", label: "High Sec" },
+  { value: "lowsec", label: "Low Sec (+6%)" },
+  { value: "nullsec", label: "Null Sec (+12%)" },
+  { value: "wormhole", label: "Wormhole (+12%)" },
+]
+
+const IMPLANT_OPTIONS = [
+  { value: "none", label: "No Implant" },
+  { value: "rx801", label: "RX-801 (+1%)" },
+  { value: "rx802", label: "RX-802 (+2%)" },
+  { value: "rx804", label: "RX-804 (+4%)" },
+]
+
+const SKILL_FIELDS = [
+  { key: "reprocessing", label: "Reprocessing" },
+  { key: "reprocessingEfficiency", label: "Reprocessing Efficiency" },
+  { key: "oreProcessing", label: "Ore Processing" },
+  { key: "scrapmetalProcessing", label: "Scrapmetal Processing" },
+] as const
+
+type SkillKey = typeof SKILL_FIELDS[number]["key"]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}ISK ${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}ISK ${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}ISK ${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}ISK ${absValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+export default function ReprocessingCalculatorPage() {
+  const [items, setItems] = useState("")
+  const [structure, setStructure] = useState("npc_station")
+  const [rig, setRig] = useState("none")
+  const [security, setSecurity] = useState("highsec")
+  const [implant, setImplant] = useState("none")
+  const [skills, setSkills] = useState<Record<SkillKey, number>>({
+    reprocessing: 5,
+    reprocessingEfficiency: 5,
+    oreProcessing: 5,
+    scrapmetalProcessing: 5,
+  })
+  const [tax, setTax] = useState(0)
+
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [result, setResult] = useState<ReprocessResponse | null>(null)
+  const [error, setError] = useState("")
+
+  // NPC stations take no rigs
+  const rigsAllowed = structure !== "npc_station"
+
+  const handleCalculate = async () => {
+    if (!items.trim()) return
+
+    setIsCalculating(true)
+    setError("")
+    setResult(null)
+
+    try {
+      const response = await fetch("/api/industry/reprocess", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items,
+          profile: {
+            structure,
+            rig: rigsAllowed ? rig : "none",
+            security,
+            implant,
+            ...skills,
+            tax,
+          },
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Calculation failed")
+      }
+
+      const data: ReprocessResponse = await response.json()
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Calculation failed")
+    } finally {
+      setIsCalculating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Background pattern */}
+      <div className="fixed inset-0 -z-10 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/5 via-background to-background" />
+
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <header className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/">
+              <ArrowLeft className="size-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <Recycle className="size-8 text-primary" />
+              Reprocessing
+            </h1>
+            <p className="text-muted-foreground">
+              See what ore, loot and modules reprocess into, and whether that beats selling them as-is
+            </p>
+          </div>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-[400px_1fr]">
+          {/* Settings Panel */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Items</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="items" className="sr-only">
+                  Items
+                </Label>
+                <Textarea
+                  id="items"
+                  placeholder={`Compressed Veldspar 10000
+Scordite 5000
+Heavy Missile Launcher II 4
+...`}
+                  className="min-h-[200px] font-mono text-sm"
+                  value={items}
+                  onChange={(e) => setItems(e.target.value)}
+                  disabled={isCalculating}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Paste from your inventory or type &quot;Item Name Quantity&quot; per line
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Refinery</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="structure">Structure</Label>
+                  <Select
+                    id="structure"
+                    value={structure}
+                    onChange={(e) => setStructure(e.target.value)}
+                    options={STRUCTURE_OPTIONS}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rig">Rig</Label>
+                    <Select
+                      id="rig"
+                      value={rigsAllowed ? rig : "none"}
+                      onChange={(e) => setRig(e.target.value)}
+                      options={RIG_OPTIONS}
+                      disabled={!rigsAllowed}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="security">Security</Label>
+                    <Select
+                      id="security"
+                      value={security}
+                      onChange={(e) => setSecurity(e.target.value)}
+                      options={SECURITY_OPTIONS}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="implant">Implant</Label>
+                    <Select
+                      id="implant"
+                      value={implant}
+                      onChange={(e) => setImplant(e.target.value)}
+                      options={IMPLANT_OPTIONS}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="tax">Tax %</Label>
+                    <Input
+                      id="tax"
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.1}
+                      value={tax}
+                      onChange={(e) => setTax(parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                </div>
+
+                {!rigsAllowed && (
+                  <p className="text-xs text-muted-foreground">
+                    Security only affects yield in structures with a reprocessing rig.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Skills</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                {SKILL_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1.5">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={skills[field.key]}
+                      onChange={(e) => setSkills({
+                        ...skills,
+                        [field.key]: Math.min(5, Math.max(0, parseInt(e.target.value) || 0)),
+                      })}
+                    />
+                  </div>
+                ))}
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  Ore Processing is the skill for the ore, moon ore or ice you are refining.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={handleCalculate}
+              disabled={!items.trim() || isCalculating}
+              className="w-full h-12 text-lg font-semibold"
+            >
+              {isCalculating ? (
+                <>
+                  <Loader2 className="size-5 animate-spin" />
+                  Calculating...
+                </>
+              ) : (
+                <>
+                  <Recycle className="size-5" />
+                  Calculate Reprocessing
+                </>
+              )}
+            </Button>
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+
+          {/* Results Panel */}
+          <div className="space-y-4">
+            {result ? (
+              <>
+                <DataWarnings warnings={result.warnings} />
+
+                {/* Totals */}
+                <Card className="bg-gradient-to-br from-card to-accent/20">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Reprocess or Sell?</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-3">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Sell as-is:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.totals.asIsValue)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Materials:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.totals.materialsValue)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Reprocessing tax:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.totals.tax)}</span>
+                        </div>
+                        <div className="border-t pt-3 flex justify-between">
+                          <span className="font-semibold">
+                            {result.totals.difference >= 0 ? "Reprocessing gains:" : "Reprocessing loses:"}
+                          </span>
+                          <span className={`font-bold text-lg tabular-nums ${result.totals.difference >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {formatISK(Math.abs(result.totals.difference))}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="space-y-3 sm:border-l sm:pl-4">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Ore yield:</span>
+                          <span className="font-semibold tabular-nums">{(result.yields.ore * 100).toFixed(2)}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Scrapmetal yield:</span>
+                          <span className="font-semibold tabular-nums">{(result.yields.scrapmetal * 100).toFixed(2)}%</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Values use Jita buy. Tax is charged on the estimated value of the output.
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Per item */}
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Items</CardTitle>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="pb-2 font-medium">Item</th>
+                          <th className="pb-2 font-medium text-right">Quantity</th>
+                          <th className="pb-2 font-medium text-right">Yield</th>
+                          <th className="pb-2 font-medium text-right">As-is</th>
+                          <th className="pb-2 font-medium text-right">Reprocessed</th>
+                          <th className="pb-2 font-medium text-right">Best</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.items.map((item) => (
+                          <tr key={item.typeId} className="border-b border-border/50 hover:bg-accent/30">
+                            <td className="py-1.5">
+                              {item.name}
+                              {item.reprocessable && item.leftover > 0 && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {item.leftover.toLocaleString()} left over (partial batch)
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-1.5 text-right tabular-nums">{item.quantity.toLocaleString()}</td>
+                            <td className="py-1.5 text-right tabular-nums">
+                              {item.reprocessable ? `${(item.yieldRate * 100).toFixed(1)}%` : "-"}
+                            </td>
+                            <td className="py-1.5 text-right tabular-nums">{formatISK(item.asIsValue)}</td>
+                            <td className="py-1.5 text-right tabular-nums">
+                              {item.reprocessable ? formatISK(item.reprocessValue) : "-"}
+                            </td>
+                            <td className="py-1.5 text-right">
+                              {!item.reprocessable ? (
+                                <span className="text-muted-foreground">Sell</span>
+                              ) : item.reprocessValue > item.asIsValue ? (
+                                <span className="text-green-600 font-semibold">Reprocess</span>
+                              ) : (
+                                <span className="font-semibold">Sell</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+
+                {/* Output materials */}
+                {result.materials.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">Materials</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="pb-2 font-medium">Material</th>
+                            <th className="pb-2 font-medium text-right">Quantity</th>
+                            <th className="pb-2 font-medium text-right">Price</th>
+                            <th className="pb-2 font-medium text-right">Value</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.materials.map((m) => (
+                            <tr key={m.typeId} className="border-b border-border/50 hover:bg-accent/30">
+                              <td className="py-1.5">{m.name}</td>
+                              <td className="py-1.5 text-right tabular-nums">{m.quantity.toLocaleString()}</td>
+                              <td className="py-1.5 text-right tabular-nums">{formatISK(m.price)}</td>
+                              <td className="py-1.5 text-right tabular-nums">{formatISK(m.value)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {result.failures && (
+                  <p className="text-xs text-muted-foreground">
+                    Could not parse: {result.failures}
+                  </p>
+                )}
+              </>
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <Recycle className="size-16 text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Calculation Yet</h3>
+                  <p className="text-muted-foreground text-center max-w-md">
+                    Paste the items you want to refine, set up your refinery, then click &quot;Calculate Reprocessing&quot; to compare reprocessing against selling as-is.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
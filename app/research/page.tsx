@@ -0,0 +1,538 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { DataWarnings } from "@/components/data-warnings"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { BlueprintSearch } from "@/components/industry/blueprint-search"
+import { SystemSearch } from "@/components/industry/system-search"
+import { ArrowLeft, Loader2, Microscope, Copy } from "lucide-react"
+import type { ResearchResponse } from "@/app/api/industry/research/route"
+import type { ResearchResult } from "@/lib/research"
+import type { CharacterProfile } from "@/types/database"
+
+interface BlueprintResult {
+  blueprintTypeId: number
+  blueprintName: string
+  productTypeId: number
+  productName: string
+  isReaction: boolean
+  isInventable?: boolean
+  isReverseEngineered?: boolean
+}
+
+const STRUCTURE_OPTIONS = [
+  { value: "npc_station", label: "NPC Station" },
+  { value: "raitaru", label: "Raitaru (15% TE)" },
+  { value: "azbel", label: "Azbel (20% TE)" },
+  { value: "sotiyo", label: "Sotiyo (30% TE)" },
+]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}ISK ${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}ISK ${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}ISK ${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}ISK ${absValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  }
+  return `${minutes}m`
+}
+
+function ResearchLevels({ title, research, levelLabel }: {
+  title: string
+  research: ResearchResult & { duration: string }
+  levelLabel: (level: number) => string
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span>{title}</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {research.duration} · {formatISK(research.jobCost)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {research.levels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to research.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Level</th>
+                <th className="pb-2 font-medium text-right">Time</th>
+                <th className="pb-2 font-medium text-right">Job cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {research.levels.map((l) => (
+                <tr key={l.level} className="border-b border-border/50">
+                  <td className="py-1.5">{levelLabel(l.level)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatDuration(l.time)}</td>
+                  <td className="py-1.5 text-right tabular-nums">{formatISK(l.jobCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function ResearchCalculatorPage() {
+  const [selectedBlueprint, setSelectedBlueprint] = useState<BlueprintResult | null>(null)
+  const [meFrom, setMeFrom] = useState(0)
+  const [meTo, setMeTo] = useState(10)
+  const [teFrom, setTeFrom] = useState(0)
+  const [teTo, setTeTo] = useState(20)
+  const [copies, setCopies] = useState(0)
+  const [runsPerCopy, setRunsPerCopy] = useState(1)
+  const [plannedRuns, setPlannedRuns] = useState(100)
+  const [systemName, setSystemName] = useState("Jita")
+  const [structureType, setStructureType] = useState("npc_station")
+  const [facilityTax, setFacilityTax] = useState(0)
+  const [characterProfiles, setCharacterProfiles] = useState<CharacterProfile[]>([])
+  const [characterId, setCharacterId] = useState("")
+
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [result, setResult] = useState<ResearchResponse | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    async function fetchCharacters() {
+      try {
+        const response = await fetch("/api/characters")
+        if (response.ok) {
+          const data = await response.json()
+          setCharacterProfiles(data)
+        }
+      } catch (err) {
+        console.error("Failed to fetch characters:", err)
+      }
+    }
+
+    fetchCharacters()
+  }, [])
+
+  const handleCalculate = async () => {
+    if (!selectedBlueprint) return
+
+    setIsCalculating(true)
+    setError("")
+    setResult(null)
+
+    try {
+      const response = await fetch("/api/industry/research", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          blueprintTypeId: selectedBlueprint.blueprintTypeId,
+          meFrom,
+          meTo,
+          teFrom,
+          teTo,
+          copies,
+          runsPerCopy,
+          plannedRuns,
+          systemName,
+          structureType,
+          facilityTax,
+          characterId: characterId || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Calculation failed")
+      }
+
+      const data: ResearchResponse = await response.json()
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Calculation failed")
+    } finally {
+      setIsCalculating(false)
+    }
+  }
+
+  // Keep levels in range and TE on even steps
+  const clampMe = (value: string) => Math.min(10, Math.max(0, parseInt(value) || 0))
+  const clampTe = (value: string) => {
+    const te = Math.min(20, Math.max(0, parseInt(value) || 0))
+    return te - (te % 2)
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Background pattern */}
+      <div className="fixed inset-0 -z-10 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/5 via-background to-background" />
+
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <header className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/">
+              <ArrowLeft className="size-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <Microscope className="size-8 text-primary" />
+              Research & Copying
+            </h1>
+            <p className="text-muted-foreground">
+              Plan ME/TE research and BPC copy jobs, and see when research pays for itself
+            </p>
+          </div>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-[400px_1fr]">
+          {/* Settings Panel */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Blueprint</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <BlueprintSearch
+                  selectedBlueprint={selectedBlueprint}
+                  onSelect={setSelectedBlueprint}
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="meFrom">ME from</Label>
+                    <Input
+                      id="meFrom"
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={meFrom}
+                      onChange={(e) => setMeFrom(clampMe(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="meTo">ME to</Label>
+                    <Input
+                      id="meTo"
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={meTo}
+                      onChange={(e) => setMeTo(clampMe(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="teFrom">TE from</Label>
+                    <Input
+                      id="teFrom"
+                      type="number"
+                      min={0}
+                      max={20}
+                      step={2}
+                      value={teFrom}
+                      onChange={(e) => setTeFrom(clampTe(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="teTo">TE to</Label>
+                    <Input
+                      id="teTo"
+                      type="number"
+                      min={0}
+                      max={20}
+                      step={2}
+                      value={teTo}
+                      onChange={(e) => setTeTo(clampTe(e.target.value))}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="copies">Copies</Label>
+                    <Input
+                      id="copies"
+                      type="number"
+                      min={0}
+                      value={copies}
+                      onChange={(e) => setCopies(Math.max(0, parseInt(e.target.value) || 0))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="runsPerCopy">Runs per copy</Label>
+                    <Input
+                      id="runsPerCopy"
+                      type="number"
+                      min={1}
+                      value={runsPerCopy}
+                      onChange={(e) => setRunsPerCopy(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="plannedRuns">Planned manufacturing runs</Label>
+                  <Input
+                    id="plannedRuns"
+                    type="number"
+                    min={1}
+                    value={plannedRuns}
+                    onChange={(e) => setPlannedRuns(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Location & Character</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="system">System</Label>
+                  <SystemSearch
+                    value={systemName}
+                    onChange={(name) => setSystemName(name)}
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="structureType">Structure</Label>
+                  <Select
+                    id="structureType"
+                    value={structureType}
+                    onChange={(e) => setStructureType(e.target.value)}
+                    options={STRUCTURE_OPTIONS}
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="facilityTax">Facility Tax %</Label>
+                  <Input
+                    id="facilityTax"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={facilityTax}
+                    onChange={(e) => setFacilityTax(parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="character">Character</Label>
+                  <Select
+                    id="character"
+                    value={characterId}
+                    onChange={(e) => setCharacterId(e.target.value)}
+                    options={[
+                      { value: "", label: "No character (untrained)" },
+                      ...characterProfiles.map((c) => ({ value: c.id, label: c.name })),
+                    ]}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={handleCalculate}
+              disabled={!selectedBlueprint || isCalculating}
+              className="w-full h-12 text-lg font-semibold"
+            >
+              {isCalculating ? (
+                <>
+                  <Loader2 className="size-5 animate-spin" />
+                  Calculating...
+                </>
+              ) : (
+                <>
+                  <Microscope className="size-5" />
+                  Calculate Research
+                </>
+              )}
+            </Button>
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+
+          {/* Results Panel */}
+          <div className="space-y-4">
+            {result ? (
+              <>
+                <DataWarnings warnings={result.warnings} />
+
+                <h2 className="text-lg font-semibold">{result.blueprint.blueprintName}</h2>
+
+                {/* Return on research */}
+                <Card className="bg-gradient-to-br from-card to-accent/20">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">
+                      Return over {result.roi.plannedRuns.toLocaleString()} runs
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-3">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Materials saved:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.roi.materialsValue)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Research job costs:</span>
+                          <span className="font-semibold tabular-nums">{formatISK(result.roi.researchCost)}</span>
+                        </div>
+                        <div className="border-t pt-3 flex justify-between">
+                          <span className="font-semibold">Net savings:</span>
+                          <span className={`font-bold text-lg tabular-nums ${result.roi.netSavings >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {formatISK(result.roi.netSavings)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="space-y-3 sm:border-l sm:pl-4">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">ROI:</span>
+                          <span className="font-semibold tabular-nums">
+                            {result.roi.roi !== null ? `${(result.roi.roi * 100).toFixed(1)}%` : "-"}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Break-even:</span>
+                          <span className="font-semibold tabular-nums">
+                            {result.roi.breakEvenRuns !== null ? `${result.roi.breakEvenRuns.toLocaleString()} runs` : "-"}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Build time saved:</span>
+                          <span className="font-semibold tabular-nums">{result.roi.timeSavedDuration}</span>
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <div className="grid gap-4 xl:grid-cols-2">
+                  <ResearchLevels
+                    title={`ME ${meFrom} → ${meTo}`}
+                    research={result.me}
+                    levelLabel={(level) => `ME ${level}`}
+                  />
+                  <ResearchLevels
+                    title={`TE ${teFrom} → ${teTo}`}
+                    research={result.te}
+                    levelLabel={(level) => `TE ${level * 2}`}
+                  />
+                </div>
+
+                {/* Copy job */}
+                {result.copy && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Copy className="size-4" />
+                        Copy Job
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Copies:</span>
+                        <span className="tabular-nums">
+                          {result.copy.copies} x {result.copy.runsPerCopy} runs
+                          {result.blueprint.maxRunsPerCopy > 0 && ` (max ${result.blueprint.maxRunsPerCopy})`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Time:</span>
+                        <span className="tabular-nums">{result.copy.duration}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Job cost:</span>
+                        <span className="tabular-nums">{formatISK(result.copy.jobCost)}</span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Materials saved */}
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Materials Saved</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="pb-2 font-medium">Material</th>
+                          <th className="pb-2 font-medium text-right">ME {meFrom}</th>
+                          <th className="pb-2 font-medium text-right">ME {meTo}</th>
+                          <th className="pb-2 font-medium text-right">Saved</th>
+                          <th className="pb-2 font-medium text-right">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.roi.materials.map((m) => (
+                          <tr key={m.typeId} className="border-b border-border/50 hover:bg-accent/30">
+                            <td className="py-1.5">{m.name}</td>
+                            <td className="py-1.5 text-right tabular-nums">{m.quantityBefore.toLocaleString()}</td>
+                            <td className="py-1.5 text-right tabular-nums">{m.quantityAfter.toLocaleString()}</td>
+                            <td className="py-1.5 text-right tabular-nums">{m.saved.toLocaleString()}</td>
+                            <td className="py-1.5 text-right tabular-nums">{formatISK(m.value)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+
+                <p className="text-xs text-muted-foreground">
+                  Cost indices in {systemName}: TE {(result.costIndices.teResearch * 100).toFixed(2)}% ·
+                  ME {(result.costIndices.meResearch * 100).toFixed(2)}% ·
+                  Copying {(result.costIndices.copying * 100).toFixed(2)}%
+                </p>
+              </>
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <Microscope className="size-16 text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Calculation Yet</h3>
+                  <p className="text-muted-foreground text-center max-w-md">
+                    Select a blueprint and the levels you want to research, then click &quot;Calculate Research&quot; to see job times, costs and the return on research.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,466 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { SystemSearch } from "@/components/industry/system-search"
+import { ArrowLeft, Loader2, TrendingUp } from "lucide-react"
+import type { ScanResponse } from "@/app/api/industry/scan/route"
+import type { ScanSort } from "@/lib/profitability"
+import { formatMarketSide } from "@/lib/markets"
+import type { FacilityProfile } from "@/types/database"
+
+interface FilterOptions {
+  categories: { id: number; name: string; count: number }[]
+  groups: { id: number; name: string; categoryId: number; count: number }[]
+}
+
+const TECH_LEVEL_OPTIONS = [
+  { value: "", label: "All" },
+  { value: "1", label: "Tech I" },
+  { value: "2", label: "Tech II" },
+  { value: "3", label: "Tech III" },
+]
+
+const SORT_OPTIONS = [
+  { value: "profit", label: "Profit" },
+  { value: "margin", label: "Margin" },
+  { value: "iskPerHour", label: "ISK per hour" },
+  { value: "volume", label: "Market volume" },
+]
+
+// How often a running scan is polled
+const POLL_INTERVAL = 2000
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}${absValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+export default function ProfitabilityScannerPage() {
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ categories: [], groups: [] })
+  const [facilities, setFacilities] = useState<FacilityProfile[]>([])
+  const [categoryId, setCategoryId] = useState("")
+  const [groupId, setGroupId] = useState("")
+  const [techLevel, setTechLevel] = useState("")
+  const [includeReactions, setIncludeReactions] = useState(false)
+  const [facilityId, setFacilityId] = useState("")
+  const [reactionFacilityId, setReactionFacilityId] = useState("")
+  const [systemName, setSystemName] = useState("Jita")
+  const [runs, setRuns] = useState(1)
+  const [blueprintMe, setBlueprintMe] = useState(10)
+  const [blueprintTe, setBlueprintTe] = useState(20)
+  const [invention, setInvention] = useState(true)
+  const [sort, setSort] = useState<ScanSort>("profit")
+
+  const [isStarting, setIsStarting] = useState(false)
+  const [scan, setScan] = useState<ScanResponse | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        const [filtersResponse, facilitiesResponse] = await Promise.all([
+          fetch("/api/industry/scan"),
+          fetch("/api/facilities"),
+        ])
+        if (filtersResponse.ok) {
+          setFilterOptions(await filtersResponse.json())
+        }
+        if (facilitiesResponse.ok) {
+          setFacilities(await facilitiesResponse.json())
+        }
+      } catch (err) {
+        console.error("Failed to fetch scanner options:", err)
+      }
+    }
+
+    fetchOptions()
+  }, [])
+
+  // Poll a queued or running scan until its status changes; once done, re-rank whenever the sort changes
+  const scanId = scan?.id
+  const scanStatus = scan?.status
+  useEffect(() => {
+    if (!scanId || scanStatus === "failed") return
+
+    async function fetchScan() {
+      try {
+        const response = await fetch(`/api/industry/scan/${scanId}?sort=${sort}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Scan failed")
+        }
+        setScan(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Scan failed")
+        setScan(null)
+      }
+    }
+
+    if (scanStatus === "queued" || scanStatus === "running") {
+      const timer = setInterval(fetchScan, POLL_INTERVAL)
+      return () => clearInterval(timer)
+    }
+    fetchScan()
+  }, [scanId, scanStatus, sort])
+
+  const groupOptions = filterOptions.groups.filter((g) => !categoryId || g.categoryId === Number(categoryId))
+
+  const handleScan = async () => {
+    setIsStarting(true)
+    setError("")
+    setScan(null)
+
+    try {
+      const response = await fetch("/api/industry/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          categoryIds: categoryId ? [Number(categoryId)] : undefined,
+          groupIds: groupId ? [Number(groupId)] : undefined,
+          techLevels: techLevel ? [Number(techLevel)] : undefined,
+          includeReactions,
+          facilityId: facilityId || undefined,
+          reactionFacilityId: reactionFacilityId || undefined,
+          systemName,
+          runs,
+          blueprintMe,
+          blueprintTe,
+          invention,
+          sort,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Scan failed")
+      }
+      setScan(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Scan failed")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const isRunning = isStarting || scan?.status === "queued" || scan?.status === "running"
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Background pattern */}
+      <div className="fixed inset-0 -z-10 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/5 via-background to-background" />
+
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <header className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/">
+              <ArrowLeft className="size-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <TrendingUp className="size-8 text-primary" />
+              Profitability Scanner
+            </h1>
+            <p className="text-muted-foreground">
+              Rank every blueprint by profit, margin, ISK per hour and market volume
+            </p>
+          </div>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-[400px_1fr]">
+          {/* Settings Panel */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Products</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="category">Category</Label>
+                  <Select
+                    id="category"
+                    value={categoryId}
+                    onChange={(e) => {
+                      setCategoryId(e.target.value)
+                      setGroupId("")
+                    }}
+                    options={[
+                      { value: "", label: "All categories" },
+                      ...filterOptions.categories.map((c) => ({ value: c.id.toString(), label: `${c.name} (${c.count})` })),
+                    ]}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="group">Group</Label>
+                  <Select
+                    id="group"
+                    value={groupId}
+                    onChange={(e) => setGroupId(e.target.value)}
+                    options={[
+                      { value: "", label: "All groups" },
+                      ...groupOptions.map((g) => ({ value: g.id.toString(), label: `${g.name} (${g.count})` })),
+                    ]}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="techLevel">Tech Level</Label>
+                  <Select
+                    id="techLevel"
+                    value={techLevel}
+                    onChange={(e) => setTechLevel(e.target.value)}
+                    options={TECH_LEVEL_OPTIONS}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="includeReactions"
+                    checked={includeReactions}
+                    onCheckedChange={(checked) => setIncludeReactions(checked === true)}
+                  />
+                  <Label htmlFor="includeReactions">Include reaction formulas</Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Facility</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="facility">Manufacturing</Label>
+                  <Select
+                    id="facility"
+                    value={facilityId}
+                    onChange={(e) => setFacilityId(e.target.value)}
+                    options={[
+                      { value: "", label: "Raitaru, T1 rigs" },
+                      ...facilities
+                        .filter((f) => f.activity === "manufacturing")
+                        .map((f) => ({ value: f.id, label: `${f.name} (${f.system_name})` })),
+                    ]}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="reactionFacility">Reactions</Label>
+                  <Select
+                    id="reactionFacility"
+                    value={reactionFacilityId}
+                    onChange={(e) => setReactionFacilityId(e.target.value)}
+                    options={[
+                      { value: "", label: "Tatara, T1 rigs" },
+                      ...facilities
+                        .filter((f) => f.activity === "reaction")
+                        .map((f) => ({ value: f.id, label: `${f.name} (${f.system_name})` })),
+                    ]}
+                  />
+                </div>
+                {(!facilityId || !reactionFacilityId) && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="system">System</Label>
+                    <SystemSearch value={systemName} onChange={(name) => setSystemName(name)} />
+                    <p className="text-xs text-muted-foreground">Cost indices for the default facilities</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Blueprints</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="runs">Runs</Label>
+                    <Input
+                      id="runs"
+                      type="number"
+                      min={1}
+                      value={runs}
+                      onChange={(e) => setRuns(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="blueprintMe">T1 ME</Label>
+                    <Input
+                      id="blueprintMe"
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={blueprintMe}
+                      onChange={(e) => setBlueprintMe(Math.min(10, Math.max(0, parseInt(e.target.value) || 0)))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="blueprintTe">T1 TE</Label>
+                    <Input
+                      id="blueprintTe"
+                      type="number"
+                      min={0}
+                      max={20}
+                      step={2}
+                      value={blueprintTe}
+                      onChange={(e) => setBlueprintTe(Math.min(20, Math.max(0, parseInt(e.target.value) || 0)))}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="invention"
+                    checked={invention}
+                    onCheckedChange={(checked) => setInvention(checked === true)}
+                  />
+                  <Label htmlFor="invention">Include T2/T3 invention costs</Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={handleScan}
+              disabled={isRunning}
+              className="w-full h-12 text-lg font-semibold"
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="size-5 animate-spin" />
+                  Scanning...
+                </>
+              ) : (
+                <>
+                  <TrendingUp className="size-5" />
+                  Scan Blueprints
+                </>
+              )}
+            </Button>
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+
+          {/* Results Panel */}
+          <div className="space-y-4">
+            {scan ? (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center justify-between gap-4">
+                    <span>
+                      {scan.status === "queued"
+                        ? "Waiting to start"
+                        : scan.status === "running"
+                          ? `Scanning ${scan.progress.done.toLocaleString()} / ${scan.progress.total.toLocaleString()}`
+                          : scan.status === "failed"
+                            ? "Scan failed"
+                            : `Top ${scan.results.length} of ${scan.total.toLocaleString()} products`}
+                    </span>
+                    <div className="w-44">
+                      <Select
+                        value={sort}
+                        onChange={(e) => setSort(e.target.value as ScanSort)}
+                        options={SORT_OPTIONS}
+                      />
+                    </div>
+                  </CardTitle>
+                  {scan.status === "running" && (
+                    <div className="h-2 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-primary transition-all"
+                        style={{ width: `${(scan.progress.done / Math.max(1, scan.progress.total)) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  {scan.status === "done" && (
+                    <p className="text-sm text-muted-foreground">
+                      Materials at {formatMarketSide(scan.market.buy)} buy, products at {formatMarketSide(scan.market.sell)} sell, priced {new Date(scan.completedAt!).toLocaleTimeString()}
+                      {scan.skipped > 0 && ` · ${scan.skipped.toLocaleString()} blueprints skipped (missing prices or no build)`}
+                    </p>
+                  )}
+                  {scan.error && <p className="text-sm text-destructive">{scan.error}</p>}
+                </CardHeader>
+                {scan.status === "done" && (
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="pb-2 font-medium">#</th>
+                            <th className="pb-2 font-medium">Product</th>
+                            <th className="pb-2 font-medium text-right">Cost</th>
+                            <th className="pb-2 font-medium text-right">Profit</th>
+                            <th className="pb-2 font-medium text-right">Margin</th>
+                            <th className="pb-2 font-medium text-right">ISK/h</th>
+                            <th className="pb-2 font-medium text-right">Volume</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {scan.results.map((result, idx) => (
+                            <tr key={result.blueprintTypeId} className="border-b border-border/50 hover:bg-accent/30">
+                              <td className="py-2 text-muted-foreground tabular-nums">{idx + 1}</td>
+                              <td className="py-2">
+                                <div className="font-medium">
+                                  {result.productName}
+                                  <span className="ml-1.5 text-xs text-muted-foreground">T{result.techLevel}</span>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {result.producedQuantity.toLocaleString()} units · {result.groupName ?? "Unknown group"}
+                                </div>
+                              </td>
+                              <td className="py-2 text-right tabular-nums">
+                                {formatISK(result.totalCost)}
+                                {result.inventionCost > 0 && (
+                                  <div className="text-xs text-muted-foreground">incl. {formatISK(result.inventionCost)} invention</div>
+                                )}
+                              </td>
+                              <td className={`py-2 text-right tabular-nums font-semibold ${result.profit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                                {formatISK(result.profit)}
+                              </td>
+                              <td className="py-2 text-right tabular-nums">{(result.margin * 100).toFixed(1)}%</td>
+                              <td className="py-2 text-right tabular-nums">{formatISK(result.iskPerHour)}</td>
+                              <td className="py-2 text-right tabular-nums">{result.marketVolume.toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <TrendingUp className="size-16 text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Scan Yet</h3>
+                  <p className="text-muted-foreground text-center max-w-md">
+                    Pick the products and facility, then click &quot;Scan Blueprints&quot; to rank everything you can build.
+                    Large scans run in the background and are cached for an hour.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+
+interface DataWarningsProps {
+  warnings?: string[]       // From the API response; nothing is shown when empty
+}
+
+export function DataWarnings({ warnings }: DataWarningsProps) {
+  if (!warnings || warnings.length === 0) return null
+
+  return (
+    <Alert className="border-yellow-500/30 [&>svg]:text-yellow-500">
+      <AlertTriangle className="size-4" />
+      <AlertTitle>Some data is stale or missing</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-0.5">
+          {warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2, Plus, Truck, AlertTriangle } from "lucide-react"
+import { haulingShips, getCourierRates, HAULING_SHIPS, type CourierRates, type HaulingShip } from "@/lib/logistics"
+import type { HaulingRequest, HaulingResponse } from "@/app/api/projects/[id]/hauling/route"
+import type { AdditionalCost } from "@/types/database"
+
+interface HaulingPlannerProps {
+  projectId: string
+  onCostAdded: (cost: AdditionalCost) => void
+}
+
+type PriceBasis = NonNullable<HaulingRequest["priceBasis"]>
+
+const SHIP_OPTIONS = HAULING_SHIPS.map((ship) => ({ value: ship, label: haulingShips[ship].name }))
+
+const PRICE_BASIS_OPTIONS = [
+  { value: "sell", label: "Sell price" },
+  { value: "split", label: "Split price" },
+  { value: "buy", label: "Buy price" },
+]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  if (absValue >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatVolume(value: number): string {
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} m³`
+}
+
+export function HaulingPlanner({ projectId, onCostAdded }: HaulingPlannerProps) {
+  const [ship, setShip] = useState<HaulingShip>("freighter")
+  const [rates, setRates] = useState<CourierRates>(getCourierRates("freighter"))
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>("sell")
+  const [includeCollected, setIncludeCollected] = useState(false)
+  const [plan, setPlan] = useState<HaulingResponse | null>(null)
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [isAdding, setIsAdding] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleShipChange = (value: HaulingShip) => {
+    setShip(value)
+    setRates(getCourierRates(value))
+    setPlan(null)
+  }
+
+  const setRate = (field: keyof CourierRates, value: string) => {
+    setRates((prev) => ({ ...prev, [field]: Math.max(0, parseFloat(value) || 0) }))
+    setPlan(null)
+  }
+
+  const requestPlan = async (addCost: boolean) => {
+    const request: HaulingRequest = { ship, rates, priceBasis, includeCollected, addCost }
+    const response = await fetch(`/api/projects/${projectId}/hauling`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to plan hauling")
+    }
+    return data as HaulingResponse
+  }
+
+  const handlePlan = async () => {
+    setIsPlanning(true)
+    setError("")
+    try {
+      setPlan(await requestPlan(false))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to plan hauling")
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const handleAddCost = async () => {
+    setIsAdding(true)
+    setError("")
+    try {
+      const data = await requestPlan(true)
+      setPlan(data)
+      if (data.cost) onCostAdded(data.cost)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add freight cost")
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="size-5" />
+          Hauling
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="haulingShip">Ship</Label>
+            <Select
+              id="haulingShip"
+              value={ship}
+              onChange={(e) => handleShipChange(e.target.value as HaulingShip)}
+              options={SHIP_OPTIONS}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="priceBasis">Collateral at</Label>
+            <Select
+              id="priceBasis"
+              value={priceBasis}
+              onChange={(e) => {
+                setPriceBasis(e.target.value as PriceBasis)
+                setPlan(null)
+              }}
+              options={PRICE_BASIS_OPTIONS}
+            />
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <Checkbox
+              id="includeCollected"
+              checked={includeCollected}
+              onCheckedChange={(checked) => {
+                setIncludeCollected(checked === true)
+                setPlan(null)
+              }}
+            />
+            <Label htmlFor="includeCollected">Include collected items</Label>
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-5">
+          <div className="space-y-1.5">
+            <Label htmlFor="capacity">Capacity (m³)</Label>
+            <Input id="capacity" type="number" min={1} value={rates.capacity} onChange={(e) => setRate("capacity", e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="maxCollateral">Max collateral</Label>
+            <Input id="maxCollateral" type="number" min={0} value={rates.maxCollateral} onChange={(e) => setRate("maxCollateral", e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="ratePerM3">ISK per m³</Label>
+            <Input id="ratePerM3" type="number" min={0} value={rates.ratePerM3} onChange={(e) => setRate("ratePerM3", e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="collateralRate">Collateral %</Label>
+            <Input
+              id="collateralRate"
+              type="number"
+              min={0}
+              step={0.1}
+              value={+(rates.collateralRate * 100).toFixed(4)}
+              onChange={(e) => {
+                setRates((prev) => ({ ...prev, collateralRate: Math.max(0, parseFloat(e.target.value) || 0) / 100 }))
+                setPlan(null)
+              }}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="minReward">Min reward</Label>
+            <Input id="minReward" type="number" min={0} value={rates.minReward} onChange={(e) => setRate("minReward", e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Reward per contract = max(min reward, volume × ISK per m³ + collateral × collateral %)
+        </p>
+
+        <div className="flex gap-2">
+          <Button onClick={handlePlan} disabled={isPlanning || isAdding} className="gap-2">
+            {isPlanning ? <Loader2 className="size-4 animate-spin" /> : <Truck className="size-4" />}
+            Plan Trips
+          </Button>
+          {plan && plan.totalReward > 0 && (
+            <Button variant="outline" onClick={handleAddCost} disabled={isPlanning || isAdding} className="gap-2">
+              {isAdding ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+              Add Freight Cost
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {plan && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-4">
+              <div className="rounded-md bg-muted/50 px-3 py-2">
+                <div className="text-xs text-muted-foreground">Trips</div>
+                <div className="font-semibold">{plan.trips.length}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 px-3 py-2">
+                <div className="text-xs text-muted-foreground">Volume</div>
+                <div className="font-semibold tabular-nums">{formatVolume(plan.totalVolume)}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 px-3 py-2">
+                <div className="text-xs text-muted-foreground">Collateral</div>
+                <div className="font-semibold tabular-nums">{formatISK(plan.totalCollateral)} ISK</div>
+              </div>
+              <div className="rounded-md bg-muted/50 px-3 py-2">
+                <div className="text-xs text-muted-foreground">Freight cost</div>
+                <div className="font-semibold tabular-nums">{formatISK(plan.totalReward)} ISK</div>
+              </div>
+            </div>
+
+            {plan.oversized.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-amber-600">
+                <AlertTriangle className="size-4 shrink-0" />
+                Too large or valuable for one {plan.shipName} contract: {plan.oversized.map((item) => item.name).join(", ")}
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="pb-2 font-medium">Trip</th>
+                    <th className="pb-2 font-medium">Cargo</th>
+                    <th className="pb-2 font-medium text-right">Volume</th>
+                    <th className="pb-2 font-medium text-right">Collateral</th>
+                    <th className="pb-2 font-medium text-right">Reward</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.trips.map((trip, i) => (
+                    <tr key={i} className="border-b border-border/50 align-top">
+                      <td className="py-2 font-medium">{i + 1}</td>
+                      <td className="py-2 text-muted-foreground">
+                        {trip.items.map((item) => `${item.quantity.toLocaleString()} × ${item.name}`).join(", ")}
+                      </td>
+                      <td className="py-2 text-right tabular-nums">{formatVolume(trip.volume)}</td>
+                      <td className="py-2 text-right tabular-nums">{formatISK(trip.collateral)}</td>
+                      <td className="py-2 text-right tabular-nums font-medium">{formatISK(trip.reward)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
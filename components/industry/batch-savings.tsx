@@ -0,0 +1,95 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Layers } from "lucide-react"
+import type { BatchSavings as BatchSavingsData, BatchSavingItem } from "@/app/api/industry/calculate/route"
+
+interface BatchSavingsProps {
+  savings: BatchSavingsData
+}
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function SavingsRows({ items }: { items: BatchSavingItem[] }) {
+  return (
+    <>
+      {items.map((item) => (
+        <tr key={item.typeId} className="border-b border-border/50 hover:bg-accent/30">
+          <td className="py-2 font-medium">{item.name}</td>
+          <td className="py-2 text-right tabular-nums text-muted-foreground">{item.naiveQuantity.toLocaleString()}</td>
+          <td className="py-2 text-right tabular-nums">{item.batchQuantity.toLocaleString()}</td>
+          <td className="py-2 text-right tabular-nums text-green-600">ISK {formatISK(item.value)}</td>
+        </tr>
+      ))}
+    </>
+  )
+}
+
+export function BatchSavings({ savings }: BatchSavingsProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Layers className="size-5 text-primary" />
+          Batching Savings
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Component jobs planned across all BPCs, compared with multiplying one BPC
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 text-sm">
+          <div>
+            <div className="text-muted-foreground">Materials saved</div>
+            <div className="font-semibold tabular-nums">ISK {formatISK(savings.materialsValue)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Excess avoided</div>
+            <div className="font-semibold tabular-nums">ISK {formatISK(savings.excessValue)}</div>
+          </div>
+        </div>
+
+        {savings.materials.length + savings.excess.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="pb-2 font-medium">Item</th>
+                  <th className="pb-2 font-medium text-right">Per BPC</th>
+                  <th className="pb-2 font-medium text-right">Batched</th>
+                  <th className="pb-2 font-medium text-right">Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                <SavingsRows items={savings.materials} />
+                {savings.excess.length > 0 && (
+                  <tr>
+                    <td colSpan={4} className="pt-3 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                      Excess components
+                    </td>
+                  </tr>
+                )}
+                <SavingsRows items={savings.excess} />
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Batching makes no difference for this build.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
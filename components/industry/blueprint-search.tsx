@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useRef } from "react"
 import { Input } from "@/components/ui/input"
-import { Search, Loader2, FlaskConical, Hammer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select } from "@/components/ui/select"
+import { Search, Loader2, FlaskConical, Hammer, Star, History, SlidersHorizontal } from "lucide-react"
+import type { BlueprintFiltersResponse } from "@/app/api/industry/blueprints/filters/route"
 
 interface BlueprintResult {
   blueprintTypeId: number
@@ -10,6 +13,8 @@ interface BlueprintResult {
   productTypeId: number
   productName: string
   isReaction: boolean
+  isInventable?: boolean
+  isReverseEngineered?: boolean
 }
 
 interface BlueprintSearchProps {
@@ -17,15 +22,72 @@ interface BlueprintSearchProps {
   selectedBlueprint: BlueprintResult | null
 }
 
+interface SearchFilters {
+  activity: string
+  techLevel: string
+  categoryId: string
+  marketGroup: string
+}
+
+const FAVORITES_STORAGE_KEY = "eve-tracker-blueprint-favorites"
+const RECENTS_STORAGE_KEY = "eve-tracker-blueprint-recents"
+const MAX_RECENTS = 8
+
+const EMPTY_FILTERS: SearchFilters = { activity: "", techLevel: "", categoryId: "", marketGroup: "" }
+
+const ACTIVITY_OPTIONS = [
+  { value: "", label: "Any activity" },
+  { value: "manufacturing", label: "Manufacturing" },
+  { value: "reaction", label: "Reactions" },
+]
+
+const TECH_LEVEL_OPTIONS = [
+  { value: "", label: "Any tech level" },
+  { value: "1", label: "Tech I" },
+  { value: "2", label: "Tech II" },
+  { value: "3", label: "Tech III" },
+]
+
+function loadBlueprints(key: string): BlueprintResult[] {
+  try {
+    const saved = localStorage.getItem(key)
+    return saved ? JSON.parse(saved) : []
+  } catch (err) {
+    console.error("Failed to load saved blueprints:", err)
+    return []
+  }
+}
+
 export function BlueprintSearch({ onSelect, selectedBlueprint }: BlueprintSearchProps) {
   const [query, setQuery] = useState("")
   const [results, setResults] = useState<BlueprintResult[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isOpen, setIsOpen] = useState(false)
+  const [showFilters, setShowFilters] = useState(false)
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+  const [filterOptions, setFilterOptions] = useState<BlueprintFiltersResponse | null>(null)
+  const [favorites, setFavorites] = useState<BlueprintResult[]>([])
+  const [recents, setRecents] = useState<BlueprintResult[]>([])
   const containerRef = useRef<HTMLDivElement>(null)
 
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  // Favorites and recent picks are shared by every page with a blueprint search
+  useEffect(() => {
+    setFavorites(loadBlueprints(FAVORITES_STORAGE_KEY))
+    setRecents(loadBlueprints(RECENTS_STORAGE_KEY))
+  }, [])
+
+  useEffect(() => {
+    if (!showFilters || filterOptions) return
+    fetch("/api/industry/blueprints/filters")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setFilterOptions(data))
+      .catch((error) => console.error("Failed to load blueprint filters:", error))
+  }, [showFilters, filterOptions])
+
   useEffect(() => {
-    if (query.length < 2) {
+    if (query.trim().length < 2 && !hasFilters) {
       setResults([])
       return
     }
@@ -33,7 +95,11 @@ export function BlueprintSearch({ onSelect, selectedBlueprint }: BlueprintSearch
     const debounce = setTimeout(async () => {
       setIsLoading(true)
       try {
-        const response = await fetch(`/api/industry/blueprints/search?q=${encodeURIComponent(query)}`)
+        const params = new URLSearchParams({ q: query })
+        for (const [key, value] of Object.entries(filters)) {
+          if (value) params.set(key, value)
+        }
+        const response = await fetch(`/api/industry/blueprints/search?${params}`)
         if (response.ok) {
           const data = await response.json()
           setResults(data)
@@ -47,7 +113,7 @@ export function BlueprintSearch({ onSelect, selectedBlueprint }: BlueprintSearch
     }, 300)
 
     return () => clearTimeout(debounce)
-  }, [query])
+  }, [query, filters, hasFilters])
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -59,50 +125,153 @@ export function BlueprintSearch({ onSelect, selectedBlueprint }: BlueprintSearch
     return () => document.removeEventListener("mousedown", handleClickOutside)
   }, [])
 
+  const updateFavorites = (next: BlueprintResult[]) => {
+    setFavorites(next)
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(next))
+  }
+
+  const toggleFavorite = (bp: BlueprintResult) => {
+    const isFavorite = favorites.some((f) => f.blueprintTypeId === bp.blueprintTypeId)
+    updateFavorites(isFavorite
+      ? favorites.filter((f) => f.blueprintTypeId !== bp.blueprintTypeId)
+      : [...favorites, bp])
+  }
+
   const handleSelect = (bp: BlueprintResult) => {
+    const nextRecents = [bp, ...recents.filter((r) => r.blueprintTypeId !== bp.blueprintTypeId)].slice(0, MAX_RECENTS)
+    setRecents(nextRecents)
+    localStorage.setItem(RECENTS_STORAGE_KEY, JSON.stringify(nextRecents))
+
     onSelect(bp)
     setQuery("")
     setResults([])
     setIsOpen(false)
   }
 
+  const setFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  // Favorites and recents stand in for results until something is searched
+  const isBrowsing = query.trim().length < 2 && !hasFilters
+  const sections = isBrowsing
+    ? [
+        { title: "Favorites", icon: Star, items: favorites },
+        { title: "Recent", icon: History, items: recents },
+      ].filter((section) => section.items.length > 0)
+    : [{ title: "", icon: Search, items: results }]
+
+  const renderRow = (bp: BlueprintResult) => {
+    const isFavorite = favorites.some((f) => f.blueprintTypeId === bp.blueprintTypeId)
+    return (
+      <div key={bp.blueprintTypeId} className="flex items-center hover:bg-accent transition-colors">
+        <button
+          onClick={() => handleSelect(bp)}
+          className="flex min-w-0 flex-1 items-center gap-3 px-3 py-2 text-left"
+        >
+          {bp.isReaction ? (
+            <FlaskConical className="size-4 text-purple-500 shrink-0" />
+          ) : (
+            <Hammer className="size-4 text-blue-500 shrink-0" />
+          )}
+          <div className="min-w-0">
+            <div className="font-medium truncate">{bp.productName}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {bp.blueprintName}
+            </div>
+          </div>
+        </button>
+        <button
+          onClick={() => toggleFavorite(bp)}
+          className="px-3 py-2 text-muted-foreground hover:text-amber-500"
+          title={isFavorite ? "Remove from favorites" : "Add to favorites"}
+        >
+          <Star className={`size-4 ${isFavorite ? "fill-amber-400 text-amber-500" : ""}`} />
+        </button>
+      </div>
+    )
+  }
+
   return (
     <div ref={containerRef} className="relative">
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
-        <Input
-          type="text"
-          placeholder={selectedBlueprint ? selectedBlueprint.productName : "Search blueprints..."}
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          onFocus={() => results.length > 0 && setIsOpen(true)}
-          className="pl-9 pr-9"
-        />
-        {isLoading && (
-          <Loader2 className="absolute right-3 top-1/2 size-4 -translate-y-1/2 animate-spin text-muted-foreground" />
-        )}
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder={selectedBlueprint ? selectedBlueprint.productName : "Search blueprints..."}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onFocus={() => setIsOpen(true)}
+            className="pl-9 pr-9"
+          />
+          {isLoading && (
+            <Loader2 className="absolute right-3 top-1/2 size-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <Button
+          variant={hasFilters ? "default" : "outline"}
+          size="icon"
+          onClick={() => setShowFilters(!showFilters)}
+          title="Filters"
+        >
+          <SlidersHorizontal className="size-4" />
+        </Button>
       </div>
 
-      {isOpen && results.length > 0 && (
-        <div className="absolute top-full left-0 right-0 z-50 mt-1 max-h-80 overflow-auto rounded-md border bg-popover shadow-lg">
-          {results.map((bp) => (
+      {showFilters && (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <Select
+            value={filters.activity}
+            onChange={(e) => setFilter("activity", e.target.value)}
+            options={ACTIVITY_OPTIONS}
+          />
+          <Select
+            value={filters.techLevel}
+            onChange={(e) => setFilter("techLevel", e.target.value)}
+            options={TECH_LEVEL_OPTIONS}
+          />
+          <Select
+            value={filters.categoryId}
+            onChange={(e) => setFilter("categoryId", e.target.value)}
+            options={[
+              { value: "", label: "Any category" },
+              ...(filterOptions?.categories ?? []).map((c) => ({ value: String(c.id), label: `${c.name} (${c.count})` })),
+            ]}
+          />
+          {filterOptions && filterOptions.marketGroups.length > 0 && (
+            <Select
+              value={filters.marketGroup}
+              onChange={(e) => setFilter("marketGroup", e.target.value)}
+              options={[
+                { value: "", label: "Any market group" },
+                ...filterOptions.marketGroups.map((g) => ({ value: g.name, label: `${g.name} (${g.count})` })),
+              ]}
+            />
+          )}
+          {hasFilters && (
             <button
-              key={bp.blueprintTypeId}
-              onClick={() => handleSelect(bp)}
-              className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-accent transition-colors"
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="col-span-2 text-left text-xs text-muted-foreground hover:text-foreground"
             >
-              {bp.isReaction ? (
-                <FlaskConical className="size-4 text-purple-500 shrink-0" />
-              ) : (
-                <Hammer className="size-4 text-blue-500 shrink-0" />
-              )}
-              <div className="min-w-0">
-                <div className="font-medium truncate">{bp.productName}</div>
-                <div className="text-xs text-muted-foreground truncate">
-                  {bp.blueprintName}
-                </div>
-              </div>
+              Clear filters
             </button>
+          )}
+        </div>
+      )}
+
+      {isOpen && sections.some((section) => section.items.length > 0) && (
+        <div className="absolute top-full left-0 right-0 z-50 mt-1 max-h-80 overflow-auto rounded-md border bg-popover shadow-lg">
+          {sections.map((section) => (
+            <div key={section.title}>
+              {section.title && (
+                <div className="flex items-center gap-1.5 px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                  <section.icon className="size-3" />
+                  {section.title}
+                </div>
+              )}
+              {section.items.map(renderRow)}
+            </div>
           ))}
         </div>
       )}
@@ -126,4 +295,3 @@ export function BlueprintSearch({ onSelect, selectedBlueprint }: BlueprintSearch
     </div>
   )
 }
-
@@ -0,0 +1,60 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ListChecks, Trash2 } from "lucide-react"
+import type { CalculateTarget } from "@/app/api/industry/calculate/route"
+
+export interface PlanTarget extends CalculateTarget {
+  productName: string
+}
+
+interface BuildPlanProps {
+  targets: PlanTarget[]
+  onRemove: (index: number) => void
+  onClear: () => void
+}
+
+export function BuildPlan({ targets, onRemove, onClear }: BuildPlanProps) {
+  if (targets.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ListChecks className="size-4 text-primary" />
+            Build Plan
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Targets are calculated together and share components
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {targets.map((target, idx) => (
+          <div
+            key={idx}
+            className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{target.productName}</div>
+              <div className="text-xs text-muted-foreground">
+                {target.quantity} BPC × {target.runs} runs
+                {target.invention
+                  ? target.relicQuality ? ` · ${target.relicQuality} relic` : " · invented"
+                  : ` · ME ${target.blueprintMe} / TE ${target.blueprintTe}`}
+              </div>
+            </div>
+            <Button variant="ghost" size="icon-sm" onClick={() => onRemove(idx)}>
+              <Trash2 className="size-3.5 text-destructive" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,17 +2,21 @@
 
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
-import { ChevronDown } from "lucide-react"
+import { ChevronDown, FlaskConical } from "lucide-react"
 import { useState } from "react"
+import type { JobCostBreakdown } from "@/lib/job-cost"
 
 interface BuildStep {
   blueprintName: string
   productName: string
   runs: number
+  jobs?: number
   quantity: number
   excess: number
   duration: string
   jobCost: number
+  jobCostBreakdown?: JobCostBreakdown
+  isReaction?: boolean
 }
 
 interface BuildStepsProps {
@@ -66,10 +70,18 @@ export function BuildSteps({ steps }: BuildStepsProps) {
                   {steps.map((step, idx) => (
                     <tr key={idx} className="border-b border-border/50 hover:bg-accent/30">
                       <td className="py-2">
-                        <div className="font-medium">{step.productName}</div>
+                        <div className="font-medium flex items-center gap-1.5">
+                          {step.isReaction && <FlaskConical className="size-3.5 text-purple-500 shrink-0" />}
+                          {step.productName}
+                        </div>
                         <div className="text-xs text-muted-foreground">{step.blueprintName}</div>
                       </td>
-                      <td className="py-2 text-right tabular-nums">{step.runs}</td>
+                      <td className="py-2 text-right tabular-nums">
+                        {step.runs}
+                        {!!step.jobs && step.jobs > 1 && (
+                          <div className="text-xs text-muted-foreground">{step.jobs} jobs</div>
+                        )}
+                      </td>
                       <td className="py-2 text-right tabular-nums">{step.quantity}</td>
                       <td className="py-2 text-right tabular-nums text-amber-600">
                         {step.excess > 0 ? `+${step.excess}` : "—"}
@@ -79,6 +91,14 @@ export function BuildSteps({ steps }: BuildStepsProps) {
                       </td>
                       <td className="py-2 text-right tabular-nums">
                         ISK {formatISK(step.jobCost)}
+                        {step.jobCostBreakdown && (
+                          <div
+                            className="text-xs text-muted-foreground"
+                            title={`System ${formatISK(step.jobCostBreakdown.systemCost)} − bonus ${formatISK(step.jobCostBreakdown.roleBonus)} + tax ${formatISK(step.jobCostBreakdown.facilityTax)} + SCC ${formatISK(step.jobCostBreakdown.sccSurcharge)}`}
+                          >
+                            EIV {formatISK(step.jobCostBreakdown.estimatedItemValue)}
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
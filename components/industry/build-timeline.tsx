@@ -0,0 +1,120 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { ChevronDown } from "lucide-react"
+import type { CalculateResponse } from "@/app/api/industry/calculate/route"
+
+interface BuildTimelineProps {
+  schedule: CalculateResponse["schedule"]
+  steps: CalculateResponse["buildSteps"]
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) {
+    return `${days}D ${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`
+  }
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`
+}
+
+export function BuildTimeline({ schedule, steps }: BuildTimelineProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  // One row per slot that has jobs, manufacturing first
+  const rows = useMemo(() => {
+    const map = new Map<string, { label: string; isReaction: boolean; slot: number; jobs: typeof schedule.jobs }>()
+    for (const job of schedule.jobs) {
+      const key = `${job.isReaction ? "r" : "m"}${job.slot}`
+      const row = map.get(key) ?? {
+        label: `${job.isReaction ? "Reaction" : "Manufacturing"} ${job.slot + 1}`,
+        isReaction: job.isReaction,
+        slot: job.slot,
+        jobs: [],
+      }
+      row.jobs.push(job)
+      map.set(key, row)
+    }
+    return Array.from(map.values()).sort((a, b) =>
+      a.isReaction === b.isReaction ? a.slot - b.slot : a.isReaction ? 1 : -1
+    )
+  }, [schedule])
+
+  if (schedule.jobs.length === 0) return null
+
+  const makespan = schedule.makespan || 1
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-accent/30 transition-colors">
+            <CardTitle className="flex items-center justify-between text-lg">
+              <span>Timeline (ETA {schedule.eta})</span>
+              <ChevronDown className={`size-5 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 grid-cols-2 sm:grid-cols-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Completion ETA</div>
+                <div className="font-semibold tabular-nums">{schedule.eta}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Critical path</div>
+                <div className="font-semibold tabular-nums">{schedule.criticalPathDuration}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">One slot</div>
+                <div className="font-semibold tabular-nums">{formatDuration(schedule.sequentialTime)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Slots</div>
+                <div className="font-semibold tabular-nums">
+                  {schedule.manufacturingSlots} mfg / {schedule.reactionSlots} react
+                </div>
+              </div>
+            </div>
+
+            <div className="text-sm">
+              <span className="text-muted-foreground">Critical path: </span>
+              {schedule.criticalPath.map((stepIndex) => steps[stepIndex]?.productName).join(" → ")}
+            </div>
+
+            <div className="space-y-1">
+              {rows.map((row) => (
+                <div key={row.label} className="grid grid-cols-[110px_1fr] items-center gap-2">
+                  <span className="text-xs text-muted-foreground truncate">{row.label}</span>
+                  <div className="relative h-6 rounded bg-muted/50">
+                    {row.jobs.map((job) => (
+                      <div
+                        key={`${job.stepIndex}-${job.jobIndex}`}
+                        className={`absolute inset-y-0.5 rounded-sm ${
+                          job.isReaction ? "bg-purple-500/70" : "bg-blue-500/70"
+                        } ${job.isCritical ? "ring-2 ring-amber-500" : ""}`}
+                        style={{
+                          left: `${(job.start / makespan) * 100}%`,
+                          width: `${Math.max(((job.end - job.start) / makespan) * 100, 0.5)}%`,
+                        }}
+                        title={`${job.productName} × ${job.runs.toLocaleString(undefined, { maximumFractionDigits: 1 })} runs · ${formatDuration(job.start)} → ${formatDuration(job.end)}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Critical path jobs are outlined. Hover a bar for its start and end.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Button } from "@/components/ui/button"
+import { ChevronDown, ChevronRight, GitFork, Hammer, Pin, ShoppingCart } from "lucide-react"
+import type { PricedBuildTreeNode } from "@/lib/build-tree"
+import type { MakeOrBuyChoice } from "@/lib/make-or-buy"
+
+interface BuildTreeProps {
+  trees: PricedBuildTreeNode[]    // One per target
+  pinned: Record<number, MakeOrBuyChoice>
+  onPinnedChange: (pinned: Record<number, MakeOrBuyChoice>) => void
+}
+
+interface BuildTreeRowProps {
+  node: PricedBuildTreeNode
+  depth: number
+  pinned: Record<number, MakeOrBuyChoice>
+  onToggle: (node: PricedBuildTreeNode) => void
+}
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  if (absValue >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function BuildTreeRow({ node, depth, pinned, onToggle }: BuildTreeRowProps) {
+  // Top two levels start expanded
+  const [isOpen, setIsOpen] = useState(depth < 2)
+  const hasChildren = node.children.length > 0
+  const isTarget = depth === 0
+  const pin = pinned[node.typeId]
+  // A pin not yet recalculated shows what the node will become
+  const isPending = pin !== undefined && (pin === "build") !== node.isBuilt
+
+  return (
+    <div>
+      <div
+        className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-3 border-b border-border/50 py-1.5 text-sm hover:bg-accent/30"
+        style={{ paddingLeft: `${depth * 1.25}rem` }}
+      >
+        <div className="flex min-w-0 items-center gap-1.5">
+          {hasChildren ? (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => setIsOpen(!isOpen)}
+              aria-label={isOpen ? "Collapse" : "Expand"}
+            >
+              {isOpen ? <ChevronDown className="size-4" /> : <ChevronRight className="size-4" />}
+            </button>
+          ) : (
+            <span className="size-4 shrink-0" />
+          )}
+          {node.isBuilt
+            ? <Hammer className="size-3.5 shrink-0 text-blue-600" />
+            : <ShoppingCart className="size-3.5 shrink-0 text-green-600" />}
+          <span className={`truncate ${isTarget ? "font-semibold" : "font-medium"}`}>{node.name}</span>
+          {pin && <Pin className="size-3 shrink-0 text-primary" />}
+        </div>
+
+        <div className="w-32 text-right tabular-nums text-muted-foreground">
+          <div>{formatQuantity(node.quantity)}</div>
+          {node.runs > 0 && (
+            <div className="text-xs">
+              {formatQuantity(node.runs)} runs
+              {node.excessQuantity > 0 && ` · +${formatQuantity(node.excessQuantity)} excess`}
+            </div>
+          )}
+          {node.fromExcess > 0 && (
+            <div className="text-xs text-amber-600">{formatQuantity(node.fromExcess)} from excess</div>
+          )}
+        </div>
+
+        <div className="w-28 text-right tabular-nums">
+          <div className="font-medium">ISK {formatISK(node.cost)}</div>
+          {node.isBuilt && node.marketValue > 0 && (
+            <div
+              className={`text-xs ${node.cost <= node.marketValue ? "text-green-600" : "text-red-600"}`}
+              title="Market value of the consumed quantity"
+            >
+              buy {formatISK(node.marketValue)}
+            </div>
+          )}
+          {node.isBuilt && node.jobCosts > 0 && (
+            <div className="text-xs text-muted-foreground" title="Jobs in this subtree">
+              jobs {formatISK(node.jobCosts)}
+            </div>
+          )}
+        </div>
+
+        <div className="w-20 text-right">
+          {!isTarget && node.canBuild && (
+            <Button
+              variant={isPending ? "default" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onToggle(node)}
+              title={isPending ? "Recalculate to apply" : undefined}
+            >
+              {(isPending ? !node.isBuilt : node.isBuilt) ? "Buy" : "Build"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {hasChildren && isOpen && node.children.map((child) => (
+        <BuildTreeRow
+          key={child.typeId}
+          node={child}
+          depth={depth + 1}
+          pinned={pinned}
+          onToggle={onToggle}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function BuildTree({ trees, pinned, onPinnedChange }: BuildTreeProps) {
+  const [isOpen, setIsOpen] = useState(true)
+
+  if (trees.length === 0) return null
+
+  const handleToggle = (node: PricedBuildTreeNode) => {
+    const next = { ...pinned }
+    const pin = pinned[node.typeId]
+    const isPending = pin !== undefined && (pin === "build") !== node.isBuilt
+    if (isPending) {
+      // Toggling back undoes the pin
+      delete next[node.typeId]
+    } else {
+      next[node.typeId] = node.isBuilt ? "buy" : "build"
+    }
+    onPinnedChange(next)
+  }
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-accent/30 transition-colors">
+            <CardTitle className="flex items-center justify-between text-lg">
+              <span className="flex items-center gap-2">
+                <GitFork className="size-4" />
+                Build Tree
+              </span>
+              <ChevronDown className={`size-5 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Each node costs its job plus everything below it; units taken from excess are free.
+              Switching buy/build pins the choice for every node of that item, recalculate to apply.
+            </p>
+            <div className="overflow-x-auto">
+              <div className="min-w-[560px]">
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-3 border-b pb-2 text-left text-sm text-muted-foreground">
+                  <span className="font-medium">Item</span>
+                  <span className="w-32 font-medium text-right">Quantity</span>
+                  <span className="w-28 font-medium text-right">Cost</span>
+                  <span className="w-20" />
+                </div>
+                {trees.map((tree, i) => (
+                  <BuildTreeRow
+                    key={`${tree.typeId}-${i}`}
+                    node={tree}
+                    depth={0}
+                    pinned={pinned}
+                    onToggle={handleToggle}
+                  />
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { Plus, Trash2, Loader2, User } from "lucide-react"
+import { timeSkills, slotSkills, marketSkills, implants, getSlotCounts } from "@/lib/skills"
+import type { CharacterProfile } from "@/types/database"
+
+interface CharacterProfilesProps {
+  characters: CharacterProfile[]
+  onCharacterAdded: (character: CharacterProfile) => void
+  onCharacterRemoved: (characterId: string) => void
+}
+
+const LEVEL_OPTIONS = [0, 1, 2, 3, 4, 5].map((level) => ({ value: level.toString(), label: `Level ${level}` }))
+
+const IMPLANT_OPTIONS = [
+  { value: "", label: "No implant" },
+  ...Object.entries(implants).map(([value, implant]) => ({ value, label: implant.name })),
+]
+
+// Skills the form asks for; anything else (science, encryption) uses the default level
+const EDITABLE_SKILLS = [
+  ...Object.values(timeSkills),
+  ...Object.values(slotSkills),
+  ...Object.values(marketSkills),
+]
+
+export function CharacterProfiles({
+  characters,
+  onCharacterAdded,
+  onCharacterRemoved,
+}: CharacterProfilesProps) {
+  const [name, setName] = useState("")
+  const [skills, setSkills] = useState<Record<string, number>>(
+    Object.fromEntries(EDITABLE_SKILLS.map((skill) => [skill.typeId.toString(), 5]))
+  )
+  const [defaultSkillLevel, setDefaultSkillLevel] = useState(4)
+  const [implant, setImplant] = useState("")
+  const [manufacturingSlots, setManufacturingSlots] = useState(11)
+  const [reactionSlots, setReactionSlots] = useState(11)
+  const [isAdding, setIsAdding] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState("")
+
+  const handleSkillChange = (typeId: number, level: number) => {
+    const next = { ...skills, [typeId.toString()]: level }
+    setSkills(next)
+
+    // Keep the slot counts in step with Mass Production/Mass Reactions
+    const slots = getSlotCounts({ skills: next, defaultSkillLevel, implants: [] })
+    setManufacturingSlots(slots.manufacturing)
+    setReactionSlots(slots.reaction)
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) return
+
+    setIsAdding(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/characters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          skills,
+          defaultSkillLevel,
+          implants: implant ? [implant] : [],
+          manufacturingSlots,
+          reactionSlots,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save character")
+      }
+
+      onCharacterAdded(data)
+      setName("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save character")
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleDelete = async (characterId: string) => {
+    setDeletingId(characterId)
+
+    try {
+      const response = await fetch(`/api/characters/${characterId}`, { method: "DELETE" })
+
+      if (response.ok) {
+        onCharacterRemoved(characterId)
+      }
+    } catch (err) {
+      console.error("Failed to delete character:", err)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Saved Characters</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {characters.length > 0 ? (
+          <div className="space-y-2">
+            {characters.map((character) => (
+              <div
+                key={character.id}
+                className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <User className="size-4 text-primary shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{character.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {character.manufacturing_slots} mfg / {character.reaction_slots} react slots · other skills {character.default_skill_level}
+                      {character.implants?.length ? ` · ${character.implants.length} implant` : ""}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleDelete(character.id)}
+                  disabled={deletingId === character.id}
+                >
+                  {deletingId === character.id ? (
+                    <Loader2 className="size-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="size-3.5 text-destructive" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            No saved characters yet
+          </p>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="characterName">Name</Label>
+            <Input
+              id="characterName"
+              placeholder="e.g. Main industrialist"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isAdding}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {EDITABLE_SKILLS.map((skill) => (
+              <div key={skill.typeId} className="space-y-1.5">
+                <Label htmlFor={`skill-${skill.typeId}`} className="text-xs">{skill.name}</Label>
+                <Select
+                  id={`skill-${skill.typeId}`}
+                  value={(skills[skill.typeId.toString()] ?? defaultSkillLevel).toString()}
+                  onChange={(e) => handleSkillChange(skill.typeId, parseInt(e.target.value))}
+                  options={LEVEL_OPTIONS}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="characterDefaultLevel" className="text-xs">Science & encryption skills</Label>
+              <Select
+                id="characterDefaultLevel"
+                value={defaultSkillLevel.toString()}
+                onChange={(e) => setDefaultSkillLevel(parseInt(e.target.value))}
+                options={LEVEL_OPTIONS}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="characterImplant" className="text-xs">Industry implant</Label>
+              <Select
+                id="characterImplant"
+                value={implant}
+                onChange={(e) => setImplant(e.target.value)}
+                options={IMPLANT_OPTIONS}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="characterMfgSlots" className="text-xs">Manufacturing slots</Label>
+              <Input
+                id="characterMfgSlots"
+                type="number"
+                min={1}
+                value={manufacturingSlots}
+                onChange={(e) => setManufacturingSlots(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="characterReactionSlots" className="text-xs">Reaction slots</Label>
+              <Input
+                id="characterReactionSlots"
+                type="number"
+                min={1}
+                value={reactionSlots}
+                onChange={(e) => setReactionSlots(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={isAdding || !name.trim()}
+          >
+            {isAdding ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Plus className="size-4" />
+            )}
+            Save Character
+          </Button>
+          {error && (
+            <p className="text-xs text-destructive">{error}</p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
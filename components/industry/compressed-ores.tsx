@@ -74,11 +74,19 @@ function SortHeader({ label, field, currentField, direction, onSort, className =
   )
 }
 
+interface CompressionComparison {
+  reprocessingRate: number  // Percentage
+  mineralsCost: number      // Buying the minerals outright
+  uncoveredCost: number     // Minerals no ore covers, bought outright either way
+  savings: number
+}
+
 interface CompressedOresProps {
   ores: OreItem[]
+  comparison?: CompressionComparison
 }
 
-export function CompressedOres({ ores }: CompressedOresProps) {
+export function CompressedOres({ ores, comparison }: CompressedOresProps) {
   const [copied, setCopied] = useState(false)
   const [sortField, setSortField] = useState<SortField>("total")
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc")
@@ -144,6 +152,7 @@ export function CompressedOres({ ores }: CompressedOresProps) {
               <CardTitle className="text-amber-500">Compressed Ore Purchase</CardTitle>
               <p className="text-sm text-muted-foreground">
                 {ores.length} ore types to buy and reprocess
+                {comparison && ` at ${comparison.reprocessingRate}%`}
               </p>
             </div>
           </div>
@@ -173,7 +182,25 @@ export function CompressedOres({ ores }: CompressedOresProps) {
           </div>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
+        {comparison && (
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+            <span className="text-muted-foreground">
+              Minerals outright: <span className="font-mono">{formatISK(comparison.mineralsCost)}</span>
+            </span>
+            {comparison.uncoveredCost > 0 && (
+              <span className="text-muted-foreground">
+                Minerals not in ore: <span className="font-mono">{formatISK(comparison.uncoveredCost)}</span>
+              </span>
+            )}
+            <span className="text-muted-foreground">
+              {comparison.savings >= 0 ? "Ore saves" : "Ore costs extra"}:{" "}
+              <span className={`font-mono font-semibold ${comparison.savings >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatISK(Math.abs(comparison.savings))}
+              </span>
+            </span>
+          </div>
+        )}
         <div className="rounded-lg border bg-card">
           {/* Header */}
           <div className="flex items-center gap-3 px-4 py-2 border-b bg-muted/30">
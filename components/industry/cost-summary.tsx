@@ -7,9 +7,12 @@ interface CostSummaryProps {
     materialsCostBuy: number
     materialsCostSell: number
     jobCosts: number
+    inventionCost?: number
+    planetaryTax?: number
     excessValue: number
     totalCost: number
     costPerUnit: number
+    marketFees?: number
     estimatedProfit: number
   }
   systemCostIndex: number
@@ -55,6 +58,18 @@ export function CostSummary({ costs, systemCostIndex, quantity }: CostSummaryPro
               <span className="text-muted-foreground">Total job costs:</span>
               <span className="font-semibold tabular-nums">{formatISK(costs.jobCosts)}</span>
             </div>
+            {!!costs.inventionCost && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Invention cost:</span>
+                <span className="font-semibold tabular-nums">{formatISK(costs.inventionCost)}</span>
+              </div>
+            )}
+            {!!costs.planetaryTax && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">PI customs taxes:</span>
+                <span className="font-semibold tabular-nums">{formatISK(costs.planetaryTax)}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-muted-foreground">Est. excess materials value:</span>
               <span className="font-semibold tabular-nums text-amber-600">
@@ -82,6 +97,12 @@ export function CostSummary({ costs, systemCostIndex, quantity }: CostSummaryPro
               <span className="text-muted-foreground">Quantity:</span>
               <span className="font-semibold tabular-nums">{quantity.toLocaleString()}</span>
             </div>
+            {!!costs.marketFees && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Sales tax & broker fees:</span>
+                <span className="font-semibold tabular-nums">{formatISK(costs.marketFees)}</span>
+              </div>
+            )}
             <div className="border-t pt-3 flex justify-between">
               <span className="font-semibold">Est. profit per unit:</span>
               <span className={`font-bold text-lg tabular-nums ${profitClass}`}>
@@ -0,0 +1,265 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import { SystemSearch } from "@/components/industry/system-search"
+import { RigPicker } from "@/components/industry/rig-picker"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Plus, Trash2, Loader2, Building2, FlaskConical } from "lucide-react"
+import structures from "@/data/structures.json"
+import type { FacilityProfile } from "@/types/database"
+
+interface FacilityProfilesProps {
+  facilities: FacilityProfile[]
+  onFacilityAdded: (facility: FacilityProfile) => void
+  onFacilityRemoved: (facilityId: string) => void
+}
+
+const ACTIVITY_OPTIONS = [
+  { value: "manufacturing", label: "Manufacturing" },
+  { value: "reaction", label: "Reactions" },
+]
+
+const INDUSTRY_STRUCTURE_OPTIONS = Object.entries(structures.industryStructures)
+  .map(([value, s]) => ({ value, label: s.name }))
+
+const REACTION_STRUCTURE_OPTIONS = Object.entries(structures.reactionStructures)
+  .map(([value, s]) => ({ value, label: s.name }))
+
+const RIG_OPTIONS = Object.entries(structures.rigs)
+  .map(([value, r]) => ({ value, label: r.name }))
+
+function getSecurityType(security: number | null): FacilityProfile["security_type"] {
+  if (security === null) return "highsec"
+  if (security >= 0.5) return "highsec"
+  if (security > 0) return "lowsec"
+  return "nullsec"
+}
+
+export function FacilityProfiles({
+  facilities,
+  onFacilityAdded,
+  onFacilityRemoved,
+}: FacilityProfilesProps) {
+  const [name, setName] = useState("")
+  const [activity, setActivity] = useState<FacilityProfile["activity"]>("manufacturing")
+  const [structureType, setStructureType] = useState("sotiyo")
+  const [rigType, setRigType] = useState("t1")
+  const [useRigCatalog, setUseRigCatalog] = useState(false)
+  const [catalogRigs, setCatalogRigs] = useState<string[]>([])
+  const [systemName, setSystemName] = useState("")
+  const [systemSecurity, setSystemSecurity] = useState<number | null>(null)
+  const [facilityTax, setFacilityTax] = useState(0)
+  const [isAdding, setIsAdding] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState("")
+
+  const handleActivityChange = (value: FacilityProfile["activity"]) => {
+    setActivity(value)
+    setStructureType(value === "reaction" ? "tatara" : "sotiyo")
+    setCatalogRigs([]) // Catalog rigs are activity-specific
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim() || !systemName.trim()) return
+
+    setIsAdding(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/facilities", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          activity,
+          structureType,
+          rigType,
+          rigs: useRigCatalog ? catalogRigs : [],
+          systemName,
+          securityType: getSecurityType(systemSecurity),
+          facilityTax,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save facility")
+      }
+
+      onFacilityAdded(data)
+      setName("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save facility")
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleDelete = async (facilityId: string) => {
+    setDeletingId(facilityId)
+
+    try {
+      const response = await fetch(`/api/facilities/${facilityId}`, { method: "DELETE" })
+
+      if (response.ok) {
+        onFacilityRemoved(facilityId)
+      }
+    } catch (err) {
+      console.error("Failed to delete facility:", err)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Saved Facilities</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {facilities.length > 0 ? (
+          <div className="space-y-2">
+            {facilities.map((facility) => (
+              <div
+                key={facility.id}
+                className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {facility.activity === "reaction" ? (
+                    <FlaskConical className="size-4 text-purple-500 shrink-0" />
+                  ) : (
+                    <Building2 className="size-4 text-blue-500 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{facility.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {facility.system_name} · {facility.structure_type} · {facility.rigs?.length ? `${facility.rigs.length} group rigs` : `${facility.rig_type} rig`} · {facility.facility_tax}% tax
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleDelete(facility.id)}
+                  disabled={deletingId === facility.id}
+                >
+                  {deletingId === facility.id ? (
+                    <Loader2 className="size-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="size-3.5 text-destructive" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            No saved facilities yet
+          </p>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="facilityName">Name</Label>
+              <Input
+                id="facilityName"
+                placeholder="e.g. Home Sotiyo"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isAdding}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="facilityActivity">Activity</Label>
+              <Select
+                id="facilityActivity"
+                value={activity}
+                onChange={(e) => handleActivityChange(e.target.value as FacilityProfile["activity"])}
+                options={ACTIVITY_OPTIONS}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="facilityStructure">Structure</Label>
+              <Select
+                id="facilityStructure"
+                value={structureType}
+                onChange={(e) => setStructureType(e.target.value)}
+                options={activity === "reaction" ? REACTION_STRUCTURE_OPTIONS : INDUSTRY_STRUCTURE_OPTIONS}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="facilityRig">Rig</Label>
+              <Select
+                id="facilityRig"
+                value={rigType}
+                onChange={(e) => setRigType(e.target.value)}
+                options={RIG_OPTIONS}
+                disabled={useRigCatalog}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="facilityUseRigCatalog"
+              checked={useRigCatalog}
+              onCheckedChange={(checked) => setUseRigCatalog(checked === true)}
+            />
+            <Label htmlFor="facilityUseRigCatalog">Fit group-specific rigs</Label>
+          </div>
+          {useRigCatalog && (
+            <RigPicker activity={activity} value={catalogRigs} onChange={setCatalogRigs} />
+          )}
+          <div className="grid grid-cols-[1fr_100px] gap-3">
+            <div className="space-y-1.5">
+              <Label>System</Label>
+              <SystemSearch
+                value={systemName}
+                onChange={(system, security) => {
+                  setSystemName(system)
+                  setSystemSecurity(security)
+                }}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="facilityTaxInput">Tax %</Label>
+              <Input
+                id="facilityTaxInput"
+                type="number"
+                min={0}
+                step={0.1}
+                value={facilityTax}
+                onChange={(e) => setFacilityTax(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={isAdding || !name.trim() || !systemName.trim()}
+          >
+            {isAdding ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Plus className="size-4" />
+            )}
+            Save Facility
+          </Button>
+          {error && (
+            <p className="text-xs text-destructive">{error}</p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Select } from "@/components/ui/select"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { ChevronDown } from "lucide-react"
+import type { CalculateResponse, FacilityTotal } from "@/app/api/industry/calculate/route"
+import type { FacilityProfile } from "@/types/database"
+
+export interface FacilityRoutingState {
+  byGroup: Record<string, string>    // Product groupId -> facility profile id
+  byProduct: Record<string, string>  // Product typeId -> facility profile id
+}
+
+interface FacilityRoutingProps {
+  steps: CalculateResponse["buildSteps"]
+  facilityTotals: FacilityTotal[]
+  facilities: FacilityProfile[]
+  routing: FacilityRoutingState
+  onRoutingChange: (routing: FacilityRoutingState) => void
+}
+
+function formatISK(value: number): string {
+  if (value >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (value >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (value >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+// Remove a key from a record without mutating it
+function without(record: Record<string, string>, key: string): Record<string, string> {
+  const next = { ...record }
+  delete next[key]
+  return next
+}
+
+export function FacilityRouting({
+  steps,
+  facilityTotals,
+  facilities,
+  routing,
+  onRoutingChange,
+}: FacilityRoutingProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  // Distinct product groups across the build, with the activity they run under
+  const groups = useMemo(() => {
+    const map = new Map<number, { groupId: number; groupName: string; isReaction: boolean; jobs: number }>()
+    for (const step of steps) {
+      if (step.groupId === null) continue
+      const existing = map.get(step.groupId)
+      if (existing) {
+        existing.jobs++
+      } else {
+        map.set(step.groupId, {
+          groupId: step.groupId,
+          groupName: step.groupName || `Group ${step.groupId}`,
+          isReaction: step.isReaction,
+          jobs: 1,
+        })
+      }
+    }
+    return Array.from(map.values()).sort((a, b) => a.groupName.localeCompare(b.groupName))
+  }, [steps])
+
+  const optionsFor = (isReaction: boolean, emptyLabel: string) => [
+    { value: "", label: emptyLabel },
+    ...facilities
+      .filter(f => (f.activity === "reaction") === isReaction)
+      .map(f => ({ value: f.id, label: `${f.name} (${f.system_name})` })),
+  ]
+
+  const setGroupFacility = (groupId: number, facilityId: string) => {
+    const key = groupId.toString()
+    onRoutingChange({
+      ...routing,
+      byGroup: facilityId ? { ...routing.byGroup, [key]: facilityId } : without(routing.byGroup, key),
+    })
+  }
+
+  const setStepFacility = (productTypeId: number, facilityId: string) => {
+    const key = productTypeId.toString()
+    onRoutingChange({
+      ...routing,
+      byProduct: facilityId ? { ...routing.byProduct, [key]: facilityId } : without(routing.byProduct, key),
+    })
+  }
+
+  if (steps.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Facilities</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Change the routing and recalculate to update ME, TE and job costs
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Totals by facility */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Facility</th>
+                <th className="pb-2 font-medium text-right">Jobs</th>
+                <th className="pb-2 font-medium text-right">Job Time</th>
+                <th className="pb-2 font-medium text-right">Job Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {facilityTotals.map((total) => (
+                <tr key={total.facilityId} className="border-b border-border/50 hover:bg-accent/30">
+                  <td className="py-2 font-medium">{total.facilityName}</td>
+                  <td className="py-2 text-right tabular-nums">{total.jobs}</td>
+                  <td className="py-2 text-right tabular-nums text-muted-foreground">{total.duration}</td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(total.jobCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {facilities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save facilities in the settings panel to route jobs to them.
+          </p>
+        ) : (
+          <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+            <CollapsibleTrigger asChild>
+              <button className="flex w-full items-center justify-between text-sm font-medium hover:text-foreground">
+                <span>Routing rules</span>
+                <ChevronDown className={`size-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+              </button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-4 pt-3">
+              <div className="space-y-2">
+                <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">By product group</div>
+                {groups.map((group) => (
+                  <div key={group.groupId} className="grid grid-cols-[1fr_220px] items-center gap-3">
+                    <span className="text-sm truncate">
+                      {group.groupName} <span className="text-muted-foreground">({group.jobs})</span>
+                    </span>
+                    <Select
+                      value={routing.byGroup[group.groupId.toString()] ?? ""}
+                      onChange={(e) => setGroupFacility(group.groupId, e.target.value)}
+                      options={optionsFor(group.isReaction, "Default facility")}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Per step</div>
+                {steps.map((step, idx) => (
+                  <div key={idx} className="grid grid-cols-[1fr_220px] items-center gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm truncate">{step.productName}</div>
+                      <div className="text-xs text-muted-foreground truncate">{step.facilityName}</div>
+                    </div>
+                    <Select
+                      value={routing.byProduct[step.productTypeId.toString()] ?? ""}
+                      onChange={(e) => setStepFacility(step.productTypeId, e.target.value)}
+                      options={optionsFor(step.isReaction, "Use group rule")}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
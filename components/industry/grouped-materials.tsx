@@ -9,6 +9,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible"
 import { Copy, Check, ChevronRight, ArrowUp, ArrowDown, ShoppingCart } from "lucide-react"
+import type { PriceSource } from "@/lib/pricing"
 
 // Category order for display - same as projects page
 const CATEGORY_ORDER = ["Minerals", "Planetary Industry", "Reactions", "Exploration", "Other"]
@@ -72,6 +73,7 @@ interface Material {
   totalBuyPrice: number
   totalSellPrice: number
   groupName?: string
+  priceSource?: PriceSource
 }
 
 type SortField = "name" | "quantity" | "volume" | "total"
@@ -323,7 +325,10 @@ function CategoryGroup({ category, materials }: CategoryGroupProps) {
                   {formatVolume(material.volume)}
                 </p>
               </div>
-              <div className="text-right shrink-0 w-28">
+              <div
+                className="text-right shrink-0 w-28"
+                title={material.priceSource ? `Price from ${material.priceSource}` : "No price found"}
+              >
                 <p className="text-sm font-mono tabular-nums text-muted-foreground">
                   {formatISK(material.totalSellPrice)}
                 </p>
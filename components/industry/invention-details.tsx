@@ -0,0 +1,98 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Microscope } from "lucide-react"
+import type { InventionSummary } from "@/app/api/industry/calculate/route"
+
+interface InventionDetailsProps {
+  invention: InventionSummary
+}
+
+function formatISK(value: number): string {
+  if (value >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (value >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (value >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export function InventionDetails({ invention }: InventionDetailsProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Microscope className="size-5 text-cyan-500" />
+          {invention.relicQuality ? "Reverse Engineering" : "Invention"}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          From {invention.t1BlueprintName} · {invention.decryptorName}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Success chance</div>
+            <div className="font-semibold tabular-nums">{(invention.probability * 100).toFixed(1)}%</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">BPCs needed</div>
+            <div className="font-semibold tabular-nums">
+              {invention.bpcsNeeded} × {invention.runsPerBpc} runs
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Expected attempts</div>
+            <div className="font-semibold tabular-nums">{invention.expectedAttempts.toFixed(1)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">BPC ME / TE</div>
+            <div className="font-semibold tabular-nums">{invention.me} / {invention.te}</div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Item</th>
+                <th className="pb-2 font-medium text-right">Quantity</th>
+                <th className="pb-2 font-medium text-right">Buy Price</th>
+                <th className="pb-2 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invention.materials.map((m) => (
+                <tr key={m.typeId} className="border-b border-border/50 hover:bg-accent/30">
+                  <td className="py-2 font-medium">{m.name}</td>
+                  <td className="py-2 text-right tabular-nums">
+                    {m.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                  </td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(m.buyPrice)}</td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(m.totalBuyPrice)}</td>
+                </tr>
+              ))}
+              <tr className="border-b border-border/50">
+                <td className="py-2 text-muted-foreground" colSpan={3}>
+                  {invention.relicQuality ? "Reverse engineering" : "Invention"} job costs
+                </td>
+                <td className="py-2 text-right tabular-nums">ISK {formatISK(invention.jobCost)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between border-t pt-3 text-sm">
+          <span className="font-semibold">
+            {invention.relicQuality ? "Reverse engineering" : "Invention"} cost per BPC:
+          </span>
+          <span className="font-bold tabular-nums">ISK {formatISK(invention.costPerBpc)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
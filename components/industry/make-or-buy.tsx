@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Select } from "@/components/ui/select"
+import { ChevronDown, Pin } from "lucide-react"
+import type { MakeOrBuyChoice, MakeOrBuyDecision } from "@/lib/make-or-buy"
+
+interface MakeOrBuyProps {
+  decisions: MakeOrBuyDecision[]
+  pinned: Record<number, MakeOrBuyChoice>
+  onPinnedChange: (pinned: Record<number, MakeOrBuyChoice>) => void
+}
+
+const PIN_OPTIONS = [
+  { value: "", label: "Auto" },
+  { value: "build", label: "Always build" },
+  { value: "buy", label: "Always buy" },
+]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  if (absValue >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export function MakeOrBuy({ decisions, pinned, onPinnedChange }: MakeOrBuyProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (decisions.length === 0) return null
+
+  const buyCount = decisions.filter((d) => d.decision === "buy").length
+
+  const handlePin = (typeId: number, value: string) => {
+    const next = { ...pinned }
+    if (value === "build" || value === "buy") {
+      next[typeId] = value
+    } else {
+      delete next[typeId]
+    }
+    onPinnedChange(next)
+  }
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-accent/30 transition-colors">
+            <CardTitle className="flex items-center justify-between text-lg">
+              <span>Make or Buy ({buyCount} to buy)</span>
+              <ChevronDown className={`size-5 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Build cost per unit uses the cheapest choice for every input. Pin a decision and recalculate to keep it.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="pb-2 font-medium">Component</th>
+                    <th className="pb-2 font-medium text-right">Buy / unit</th>
+                    <th className="pb-2 font-medium text-right">Build / unit</th>
+                    <th className="pb-2 font-medium text-right">Decision</th>
+                    <th className="pb-2 font-medium text-right w-36">Pin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decisions.map((d) => (
+                    <tr key={d.typeId} className="border-b border-border/50 hover:bg-accent/30">
+                      <td className="py-2 font-medium">
+                        <span className="flex items-center gap-1.5">
+                          {d.pinned && <Pin className="size-3 text-primary" />}
+                          {d.name}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right tabular-nums">
+                        {d.buyPrice > 0 ? `ISK ${formatISK(d.buyPrice)}` : "-"}
+                      </td>
+                      <td className="py-2 text-right tabular-nums">ISK {formatISK(d.buildCost)}</td>
+                      <td className={`py-2 text-right font-medium ${d.decision === "buy" ? "text-green-600" : "text-blue-600"}`}>
+                        {d.decision === "buy" ? "Buy" : "Build"}
+                      </td>
+                      <td className="py-1 pl-2">
+                        <Select
+                          value={pinned[d.typeId] ?? ""}
+                          onChange={(e) => handlePin(d.typeId, e.target.value)}
+                          options={PIN_OPTIONS}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
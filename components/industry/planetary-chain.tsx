@@ -0,0 +1,113 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Globe } from "lucide-react"
+import type { PlanetaryPlan } from "@/lib/planetary"
+
+interface PlanetaryChainProps {
+  plan: PlanetaryPlan
+}
+
+function formatISK(value: number): string {
+  if (value >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (value >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (value >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatCycle(seconds: number): string {
+  return seconds >= 3600 ? `${seconds / 3600}h` : `${seconds / 60}m`
+}
+
+export function PlanetaryChain({ plan }: PlanetaryChainProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Globe className="size-4" />
+          Planetary Industry Chain
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          From {plan.inputTier === 0 ? "extracted P0" : "bought P1"}, factory counts to finish within {plan.hours}h,
+          customs tax {(plan.taxRate * 100).toFixed(1)}%
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Commodity</th>
+                <th className="pb-2 font-medium">Per cycle</th>
+                <th className="pb-2 font-medium text-right">Cycles</th>
+                <th className="pb-2 font-medium text-right">Factories</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.steps.map((step) => (
+                <tr key={step.typeId} className="border-b border-border/50 align-top">
+                  <td className="py-1.5">
+                    <span className="font-medium">P{step.tier} {step.name}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {step.quantity.toLocaleString()} needed
+                      {step.excess > 0 && ` · ${step.excess.toLocaleString()} excess`}
+                    </span>
+                  </td>
+                  <td className="py-1.5 text-xs text-muted-foreground">
+                    {step.inputsPerCycle.map((input) => `${input.quantity.toLocaleString()} ${input.name}`).join(" + ")}
+                    {" → "}{step.outputPerCycle} / {formatCycle(step.cycleTime)}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">{step.cycles.toLocaleString()}</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {step.factories}
+                    <span className="block text-xs text-muted-foreground">{step.facility}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Inputs</h4>
+            <div className="space-y-1 text-sm">
+              {plan.inputs.map((input) => (
+                <div key={input.typeId} className="flex justify-between">
+                  <span>P{input.tier} {input.name}</span>
+                  <span className="tabular-nums">
+                    {input.quantity.toLocaleString()}
+                    <span className="text-xs text-muted-foreground"> ({Math.ceil(input.perHour).toLocaleString()}/h)</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="sm:border-l sm:pl-4">
+            <h4 className="text-sm font-semibold mb-2">Customs Taxes</h4>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Import:</span>
+                <span className="tabular-nums">ISK {formatISK(plan.importTax)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Export:</span>
+                <span className="tabular-nums">ISK {formatISK(plan.exportTax)}</span>
+              </div>
+              <div className="border-t pt-1 flex justify-between font-semibold">
+                <span>Total:</span>
+                <span className="tabular-nums">ISK {formatISK(plan.totalTax)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Loader2, Check } from "lucide-react"
+import type { ReverseEngineeringRequest, ReverseEngineeringResponse } from "@/app/api/industry/reverse-engineering/route"
+import type { RelicQuality } from "@/lib/reverse-engineering"
+
+interface RelicComparisonProps {
+  request: ReverseEngineeringRequest
+  selected: RelicQuality
+  onSelect: (quality: RelicQuality) => void
+}
+
+function formatISK(value: number): string {
+  if (value >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (value >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (value >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export function RelicComparison({ request, selected, onSelect }: RelicComparisonProps) {
+  const [comparison, setComparison] = useState<ReverseEngineeringResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Serialized so a new request object with the same settings does not refetch
+  const requestKey = JSON.stringify(request)
+
+  useEffect(() => {
+    async function fetchComparison() {
+      setIsLoading(true)
+      try {
+        const response = await fetch("/api/industry/reverse-engineering", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: requestKey,
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setComparison(data)
+        }
+      } catch (err) {
+        console.error("Failed to compare relics:", err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchComparison()
+  }, [requestKey])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          Relic Comparison
+          {isLoading && <Loader2 className="size-4 animate-spin text-muted-foreground" />}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Expected cost per T3 BPC with {comparison?.decryptorName ?? "the selected decryptor"}. Pick a relic and recalculate to use it.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {comparison && comparison.options.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="pb-2 font-medium">Relic</th>
+                  <th className="pb-2 font-medium text-right">Chance</th>
+                  <th className="pb-2 font-medium text-right">Runs</th>
+                  <th className="pb-2 font-medium text-right">Per BPC</th>
+                  <th className="pb-2 font-medium text-right">Per run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.options.map((o) => (
+                  <tr
+                    key={o.relicQuality}
+                    onClick={() => onSelect(o.relicQuality)}
+                    className={`border-b border-border/50 cursor-pointer hover:bg-accent/30 ${
+                      o.relicQuality === selected ? "bg-accent/50" : ""
+                    }`}
+                  >
+                    <td className="py-2 font-medium">
+                      <span className="flex items-center gap-1.5">
+                        {o.relicQuality === selected && <Check className="size-3 text-primary" />}
+                        {o.relicName}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right tabular-nums">{(o.probability * 100).toFixed(1)}%</td>
+                    <td className="py-2 text-right tabular-nums">{o.runsPerBpc}</td>
+                    <td className="py-2 text-right tabular-nums">ISK {formatISK(o.costPerBpc)}</td>
+                    <td className={`py-2 text-right tabular-nums ${
+                      o.relicQuality === comparison.cheapest ? "text-green-600 font-semibold" : ""
+                    }`}>
+                      ISK {formatISK(o.costPerRun)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !isLoading && <p className="text-sm text-muted-foreground">No relic data for this blueprint.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { Select } from "@/components/ui/select"
+import structures from "@/data/structures.json"
+
+interface RigPickerProps {
+  activity: "manufacturing" | "reaction"
+  value: string[]                      // Rig catalog keys
+  onChange: (rigs: string[]) => void
+}
+
+const TIER_OPTIONS = [
+  { value: "", label: "-" },
+  { value: "t1", label: "T1" },
+  { value: "t2", label: "T2" },
+]
+
+const RIG_CATALOG = structures.rigCatalog as Record<string, { family: string; activity: string }>
+
+// "advanced_medium_ship" -> "Advanced Medium Ship"
+function familyLabel(family: string): string {
+  return family
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ")
+}
+
+export function RigPicker({ activity, value, onChange }: RigPickerProps) {
+  const families = Array.from(new Set(
+    Object.values(RIG_CATALOG)
+      .filter((rig) => rig.activity === activity)
+      .map((rig) => rig.family)
+  ))
+
+  // Current tier for a family's ME or TE rig, or "" when not fitted
+  const tierFor = (family: string, kind: "me" | "te") => {
+    const key = value.find((k) => k.startsWith(`${family}_${kind}_`))
+    return key ? key.slice(key.lastIndexOf("_") + 1) : ""
+  }
+
+  const setTier = (family: string, kind: "me" | "te", tier: string) => {
+    const prefix = `${family}_${kind}_`
+    const next = value.filter((k) => !k.startsWith(prefix))
+    onChange(tier ? [...next, `${prefix}${tier}`] : next)
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="grid grid-cols-[1fr_64px_64px] gap-2 text-xs text-muted-foreground">
+        <span>Rig group</span>
+        <span>ME</span>
+        <span>TE</span>
+      </div>
+      {families.map((family) => (
+        <div key={family} className="grid grid-cols-[1fr_64px_64px] items-center gap-2">
+          <span className="text-sm truncate">{familyLabel(family)}</span>
+          <Select
+            value={tierFor(family, "me")}
+            onChange={(e) => setTier(family, "me", e.target.value)}
+            options={TIER_OPTIONS}
+          />
+          <Select
+            value={tierFor(family, "te")}
+            onChange={(e) => setTier(family, "te", e.target.value)}
+            options={TIER_OPTIONS}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
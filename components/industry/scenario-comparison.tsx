@@ -0,0 +1,143 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Columns3, RotateCcw, Trash2 } from "lucide-react"
+import type { MarketSettings } from "@/lib/markets"
+
+export interface ScenarioSettings {
+  systemName: string
+  systemSecurity: number | null
+  structureType: string
+  rigType: string
+  reactionStructure: string
+  reactionRig: string
+  blueprintMe: number
+  blueprintTe: number
+  facilityTax: number
+  quantity: number
+  runs: number
+  market?: MarketSettings         // Missing on scenarios saved before hubs were selectable
+}
+
+export interface Scenario {
+  id: string
+  name: string
+  blueprintTypeId: number
+  savedAt: string
+  settings: ScenarioSettings
+  totalCost: number
+  costPerUnit: number
+  estimatedProfit: number
+  buildTime: number               // Wall-clock seconds on the job slots
+}
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[]           // The first one is the baseline for the deltas
+  onLoad: (scenario: Scenario) => void
+  onRemove: (id: string) => void
+}
+
+interface Metric {
+  label: string
+  value: (scenario: Scenario) => number
+  format: (value: number) => string
+  higherIsBetter: boolean
+}
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}${absValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+function formatHours(seconds: number): string {
+  const sign = seconds < 0 ? "-" : ""
+  const hours = Math.abs(seconds) / 3600
+  return hours >= 24 ? `${sign}${(hours / 24).toFixed(1)}d` : `${sign}${hours.toFixed(1)}h`
+}
+
+const METRICS: Metric[] = [
+  { label: "Total cost", value: (s) => s.totalCost, format: formatISK, higherIsBetter: false },
+  { label: "Cost per unit", value: (s) => s.costPerUnit, format: formatISK, higherIsBetter: false },
+  { label: "Estimated profit", value: (s) => s.estimatedProfit, format: formatISK, higherIsBetter: true },
+  { label: "Build time", value: (s) => s.buildTime, format: formatHours, higherIsBetter: false },
+]
+
+export function ScenarioComparison({ scenarios, onLoad, onRemove }: ScenarioComparisonProps) {
+  if (scenarios.length === 0) return null
+
+  const baseline = scenarios[0]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Columns3 className="size-4" />
+          Scenarios
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Deltas against {baseline.name}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground align-top">
+                <th className="pb-2 font-medium" />
+                {scenarios.map((scenario) => (
+                  <th key={scenario.id} className="pb-2 font-medium text-right">
+                    <div className="text-foreground">{scenario.name}</div>
+                    <div className="text-xs font-normal">
+                      {scenario.settings.structureType} · {scenario.settings.rigType} rig · ME {scenario.settings.blueprintMe}
+                      {" · "}{scenario.settings.facilityTax}% tax
+                    </div>
+                    <div className="flex justify-end gap-1 pt-1">
+                      <Button variant="ghost" size="icon-sm" title="Load settings" onClick={() => onLoad(scenario)}>
+                        <RotateCcw className="size-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon-sm" title="Remove" onClick={() => onRemove(scenario.id)}>
+                        <Trash2 className="size-3.5 text-destructive" />
+                      </Button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map((metric) => (
+                <tr key={metric.label} className="border-b border-border/50">
+                  <td className="py-2 text-muted-foreground">{metric.label}</td>
+                  {scenarios.map((scenario, idx) => {
+                    const delta = metric.value(scenario) - metric.value(baseline)
+                    const isBetter = metric.higherIsBetter ? delta > 0 : delta < 0
+                    return (
+                      <td key={scenario.id} className="py-2 text-right tabular-nums">
+                        <div className="font-medium">{metric.format(metric.value(scenario))}</div>
+                        {idx > 0 && delta !== 0 && (
+                          <div className={`text-xs ${isBetter ? "text-green-600" : "text-red-600"}`}>
+                            {delta > 0 ? "+" : ""}{metric.format(delta)}
+                          </div>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Select } from "@/components/ui/select"
+import { LineChart } from "lucide-react"
+import type { SensitivitySeries, SensitivityVariable } from "@/lib/sensitivity"
+
+interface SensitivityChartProps {
+  series: SensitivitySeries[]
+}
+
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 12, right: 16, bottom: 28, left: 64 }
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  }
+  return `${sign}${absValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+}
+
+function formatX(variable: SensitivityVariable, x: number): string {
+  if (variable === "costIndex") return `${(x * 100).toFixed(1)}%`
+  if (variable === "materialPrice") return `${(x * 100).toFixed(0)}%`
+  return `ME ${x}`
+}
+
+export function SensitivityChart({ series }: SensitivityChartProps) {
+  const [variable, setVariable] = useState<SensitivityVariable>("costIndex")
+
+  const selected = series.find((s) => s.variable === variable) ?? series[0]
+  if (!selected || selected.points.length < 2) return null
+
+  const xs = selected.points.map((p) => p.x)
+  const profits = selected.points.map((p) => p.profit)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  // Keep the break-even line in view
+  const minY = Math.min(0, ...profits)
+  const maxY = Math.max(0, ...profits)
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const scaleX = (x: number) => PADDING.left + (maxX > minX ? (x - minX) / (maxX - minX) : 0.5) * plotWidth
+  const scaleY = (y: number) => PADDING.top + (maxY > minY ? (maxY - y) / (maxY - minY) : 0.5) * plotHeight
+
+  const path = selected.points.map((p) => `${scaleX(p.x)},${scaleY(p.profit)}`).join(" ")
+  const profitAt = (x: number) => {
+    const points = selected.points
+    const i = points.findIndex((p) => p.x >= x)
+    if (i === -1) return points[points.length - 1].profit
+    if (i === 0) return points[0].profit
+    const a = points[i - 1]
+    const b = points[i]
+    return a.profit + (b.profit - a.profit) * (x - a.x) / (b.x - a.x)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <LineChart className="size-4" />
+            Profit Sensitivity
+          </span>
+          <div className="w-48">
+            <Select
+              value={selected.variable}
+              onChange={(e) => setVariable(e.target.value as SensitivityVariable)}
+              options={series.map((s) => ({ value: s.variable, label: s.label }))}
+            />
+          </div>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Estimated profit as the {selected.label.toLowerCase()} changes, everything else fixed
+        </p>
+      </CardHeader>
+      <CardContent>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-xs">
+          {/* Axes */}
+          <line
+            x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom}
+            className="stroke-border"
+          />
+          <line
+            x1={PADDING.left} y1={scaleY(0)} x2={WIDTH - PADDING.right} y2={scaleY(0)}
+            className="stroke-muted-foreground/50" strokeDasharray="4 4"
+          />
+          <text x={PADDING.left - 6} y={scaleY(maxY) + 4} textAnchor="end" className="fill-muted-foreground">
+            {formatISK(maxY)}
+          </text>
+          <text x={PADDING.left - 6} y={scaleY(minY) + 4} textAnchor="end" className="fill-muted-foreground">
+            {formatISK(minY)}
+          </text>
+          <text x={PADDING.left} y={HEIGHT - 8} textAnchor="start" className="fill-muted-foreground">
+            {formatX(selected.variable, minX)}
+          </text>
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted-foreground">
+            {formatX(selected.variable, maxX)}
+          </text>
+
+          {/* Profit line */}
+          <polyline points={path} fill="none" className="stroke-primary" strokeWidth={2} />
+
+          {/* Markers (e.g. the sell side of the market settings) */}
+          {selected.markers.filter((m) => m.x >= minX && m.x <= maxX).map((marker) => (
+            <g key={marker.label}>
+              <line
+                x1={scaleX(marker.x)} y1={PADDING.top} x2={scaleX(marker.x)} y2={HEIGHT - PADDING.bottom}
+                className="stroke-amber-500/60" strokeDasharray="2 3"
+              />
+              <text x={scaleX(marker.x) + 4} y={PADDING.top + 10} className="fill-amber-600">
+                {marker.label}
+              </text>
+            </g>
+          ))}
+
+          {/* Current build */}
+          {selected.current >= minX && selected.current <= maxX && (
+            <g>
+              <circle
+                cx={scaleX(selected.current)}
+                cy={scaleY(profitAt(selected.current))}
+                r={4}
+                className="fill-primary"
+              />
+              <text
+                x={scaleX(selected.current)}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                className="fill-foreground font-medium"
+              >
+                {formatX(selected.variable, selected.current)}
+              </text>
+            </g>
+          )}
+        </svg>
+
+        <div className="mt-3 grid grid-cols-3 gap-2 text-sm sm:grid-cols-6">
+          {selected.points.filter((_, i) => i % 2 === 0).map((point) => (
+            <div key={point.x} className="rounded-md bg-muted/50 px-2 py-1">
+              <div className="text-xs text-muted-foreground">{formatX(selected.variable, point.x)}</div>
+              <div className={`tabular-nums font-medium ${point.profit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatISK(point.profit)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
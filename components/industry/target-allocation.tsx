@@ -0,0 +1,72 @@
+"use client"
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import type { TargetAllocation as TargetAllocationData } from "@/app/api/industry/calculate/route"
+
+interface TargetAllocationProps {
+  targets: TargetAllocationData[]
+}
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (absValue >= 1e9) {
+    return `${sign}${(absValue / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${sign}${(absValue / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${sign}${(absValue / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export function TargetAllocation({ targets }: TargetAllocationProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Cost Allocation</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Each target pays for the materials and jobs started for it; pooled excess is credited by materials share
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Target</th>
+                <th className="pb-2 font-medium text-right">Materials</th>
+                <th className="pb-2 font-medium text-right">Jobs</th>
+                <th className="pb-2 font-medium text-right">Invention</th>
+                <th className="pb-2 font-medium text-right">Total</th>
+                <th className="pb-2 font-medium text-right">Per Unit</th>
+                <th className="pb-2 font-medium text-right">Profit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {targets.map((target, idx) => (
+                <tr key={idx} className="border-b border-border/50 hover:bg-accent/30">
+                  <td className="py-2 font-medium">
+                    {target.quantity}x {target.productName}
+                  </td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(target.materialsCost)}</td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(target.jobCosts)}</td>
+                  <td className="py-2 text-right tabular-nums text-muted-foreground">
+                    {target.inventionCost > 0 ? `ISK ${formatISK(target.inventionCost)}` : "-"}
+                  </td>
+                  <td className="py-2 text-right tabular-nums font-medium">ISK {formatISK(target.totalCost)}</td>
+                  <td className="py-2 text-right tabular-nums">ISK {formatISK(target.costPerUnit)}</td>
+                  <td className={`py-2 text-right tabular-nums ${target.estimatedProfit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    ISK {formatISK(target.estimatedProfit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import {
+  marketHubs,
+  MARKET_HUBS,
+  PRICE_VARIANTS,
+  PRICE_VARIANT_LABELS,
+  type MarketHub,
+  type MarketSettings,
+  type PriceVariant,
+} from "@/lib/markets"
+
+interface MarketSelectProps {
+  value: MarketSettings
+  onChange: (market: MarketSettings) => void
+  disabled?: boolean
+}
+
+const HUB_OPTIONS = MARKET_HUBS.map((hub) => ({ value: hub, label: marketHubs[hub].name }))
+
+const VARIANT_OPTIONS = PRICE_VARIANTS.map((variant) => ({ value: variant, label: PRICE_VARIANT_LABELS[variant] }))
+
+const SIDES = [
+  { key: "buy", label: "Buy prices", hint: "Materials" },
+  { key: "sell", label: "Sell prices", hint: "Products" },
+] as const
+
+export function MarketSelect({ value, onChange, disabled }: MarketSelectProps) {
+  return (
+    <div className="space-y-3">
+      {SIDES.map((side) => (
+        <div key={side.key} className="space-y-1.5">
+          <Label htmlFor={`${side.key}Hub`}>
+            {side.label} <span className="text-xs font-normal text-muted-foreground">({side.hint})</span>
+          </Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              id={`${side.key}Hub`}
+              value={value[side.key].hub}
+              onChange={(e) => onChange({ ...value, [side.key]: { ...value[side.key], hub: e.target.value as MarketHub } })}
+              options={HUB_OPTIONS}
+              disabled={disabled}
+            />
+            <Select
+              value={value[side.key].variant}
+              onChange={(e) => onChange({ ...value, [side.key]: { ...value[side.key], variant: e.target.value as PriceVariant } })}
+              options={VARIANT_OPTIONS}
+              disabled={disabled}
+              title="Price variant"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
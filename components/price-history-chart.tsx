@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Loader2, TrendingUp } from "lucide-react"
+import { DEFAULT_MARKET, formatMarketSide, type MarketSettings } from "@/lib/markets"
+import type { PriceHistoryPoint } from "@/lib/price-history"
+import type { PriceHistoryResponse } from "@/app/api/prices/history/route"
+
+interface PriceHistoryChartProps {
+  projectId: string
+  market?: MarketSettings         // Hubs the prices were stored at (default Jita)
+  refreshKey?: number             // Change to refetch after a new appraisal
+}
+
+type PriceType = "buy" | "sell" | "split"
+
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 12, right: 16, bottom: 28, left: 64 }
+
+// Same colors as PriceSummary
+const SERIES: { key: PriceType; label: string; stroke: string; text: string }[] = [
+  { key: "buy", label: "Buy", stroke: "stroke-green-400", text: "text-green-400" },
+  { key: "sell", label: "Sell", stroke: "stroke-red-400", text: "text-red-400" },
+  { key: "split", label: "Split", stroke: "stroke-yellow-400", text: "text-yellow-400" },
+]
+
+function formatISK(value: number): string {
+  const absValue = Math.abs(value)
+  if (absValue >= 1e9) {
+    return `${(value / 1e9).toFixed(2)}B`
+  }
+  if (absValue >= 1e6) {
+    return `${(value / 1e6).toFixed(2)}M`
+  }
+  if (absValue >= 1e3) {
+    return `${(value / 1e3).toFixed(2)}K`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+function formatDrift(first: number, last: number): string {
+  if (first === 0) return "–"
+  const change = (last - first) / first * 100
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`
+}
+
+export function PriceHistoryChart({ projectId, market = DEFAULT_MARKET, refreshKey }: PriceHistoryChartProps) {
+  const [points, setPoints] = useState<PriceHistoryPoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/prices/history?projectId=${projectId}`)
+        if (response.ok) {
+          const data: PriceHistoryResponse = await response.json()
+          setPoints(data.points)
+        }
+      } catch (err) {
+        console.error("Failed to fetch price history:", err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [projectId, refreshKey])
+
+  const first = points[0]
+  const last = points[points.length - 1]
+
+  const times = points.map((p) => new Date(p.recordedAt).getTime())
+  const values = points.flatMap((p) => [p.buy, p.sell, p.split])
+  const minX = Math.min(...times)
+  const maxX = Math.max(...times)
+  const minY = Math.min(...values)
+  const maxY = Math.max(...values)
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const scaleX = (x: number) => PADDING.left + (maxX > minX ? (x - minX) / (maxX - minX) : 0.5) * plotWidth
+  const scaleY = (y: number) => PADDING.top + (maxY > minY ? (maxY - y) / (maxY - minY) : 0.5) * plotHeight
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="size-5" />
+          Cost Drift
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Raw material value at each appraisal ({formatMarketSide(market.buy)} buy, {formatMarketSide(market.sell)} sell)
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : points.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            {points.length === 0
+              ? "No price snapshots recorded for this project yet."
+              : `Prices recorded once (${formatDate(points[0].recordedAt)}). Reprice the project to add another point.`}
+          </p>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-xs">
+              {/* Axes */}
+              <line
+                x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom}
+                className="stroke-border"
+              />
+              <line
+                x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom}
+                className="stroke-border"
+              />
+              <text x={PADDING.left - 6} y={scaleY(maxY) + 4} textAnchor="end" className="fill-muted-foreground">
+                {formatISK(maxY)}
+              </text>
+              <text x={PADDING.left - 6} y={scaleY(minY) + 4} textAnchor="end" className="fill-muted-foreground">
+                {formatISK(minY)}
+              </text>
+              <text x={PADDING.left} y={HEIGHT - 8} textAnchor="start" className="fill-muted-foreground">
+                {formatDate(first.recordedAt)}
+              </text>
+              <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted-foreground">
+                {formatDate(last.recordedAt)}
+              </text>
+
+              {/* One line per price type, a dot per appraisal */}
+              {SERIES.map((series) => (
+                <g key={series.key}>
+                  <polyline
+                    points={points.map((p, i) => `${scaleX(times[i])},${scaleY(p[series.key])}`).join(" ")}
+                    fill="none"
+                    className={series.stroke}
+                    strokeWidth={2}
+                  />
+                  {points.map((p, i) => (
+                    <circle
+                      key={p.recordedAt}
+                      cx={scaleX(times[i])}
+                      cy={scaleY(p[series.key])}
+                      r={2.5}
+                      className={`${series.stroke} fill-background`}
+                    >
+                      <title>{`${series.label} ${formatISK(p[series.key])} ISK · ${new Date(p.recordedAt).toLocaleString()}`}</title>
+                    </circle>
+                  ))}
+                </g>
+              ))}
+            </svg>
+
+            <div className="mt-3 grid grid-cols-3 gap-2 text-sm">
+              {SERIES.map((series) => (
+                <div key={series.key} className="rounded-md bg-muted/50 px-2 py-1">
+                  <div className="text-xs text-muted-foreground">{series.label}</div>
+                  <div className={`font-mono font-medium ${series.text}`}>
+                    {formatISK(last[series.key])}
+                  </div>
+                  <div className="text-xs text-muted-foreground tabular-nums">
+                    {formatDrift(first[series.key], last[series.key])} since {formatDate(first.recordedAt)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,10 +4,12 @@ import { useState } from "react"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Copy, Check } from "lucide-react"
+import { DEFAULT_MARKET, formatMarketSide, isSameMarketSide, type MarketSettings } from "@/lib/markets"
 import type { RawMaterial } from "@/types/database"
 
 interface PriceSummaryProps {
   rawMaterials: RawMaterial[]
+  market?: MarketSettings         // Hubs the prices were stored at (default Jita)
 }
 
 function formatISKFull(amount: number): string {
@@ -73,7 +75,10 @@ function CopyablePrice({
   )
 }
 
-export function PriceSummary({ rawMaterials }: PriceSummaryProps) {
+export function PriceSummary({ rawMaterials, market = DEFAULT_MARKET }: PriceSummaryProps) {
+  const buyLabel = formatMarketSide(market.buy)
+  const sellLabel = formatMarketSide(market.sell)
+
   const calculateTotal = (priceType: PriceType): number => {
     return rawMaterials.reduce((sum, item) => {
       const price = item[`${priceType}_price`]
@@ -91,21 +96,23 @@ export function PriceSummary({ rawMaterials }: PriceSummaryProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Jita Prices</CardTitle>
+        <CardTitle>
+          {isSameMarketSide(market.buy, market.sell) ? `${buyLabel} Prices` : "Market Prices"}
+        </CardTitle>
       </CardHeader>
       <CardContent className="space-y-0">
         <CopyablePrice
-          label="Jita Buy"
+          label={`${buyLabel} Buy`}
           amount={totals.buy}
           colorClass="text-green-400"
         />
         <CopyablePrice
-          label="Jita Sell"
+          label={`${sellLabel} Sell`}
           amount={totals.sell}
           colorClass="text-red-400"
         />
         <CopyablePrice
-          label="Jita Split"
+          label={isSameMarketSide(market.buy, market.sell) ? `${buyLabel} Split` : "Split"}
           amount={totals.split}
           colorClass="text-yellow-400"
         />
@@ -4,11 +4,13 @@ import { useState } from "react"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Copy, Check } from "lucide-react"
+import { DEFAULT_MARKET, formatMarketSide, type MarketSettings } from "@/lib/markets"
 import type { RawMaterial, AdditionalCost } from "@/types/database"
 
 interface TotalCostProps {
   rawMaterials: RawMaterial[]
   additionalCosts: AdditionalCost[]
+  market?: MarketSettings         // Hubs the prices were stored at (default Jita)
 }
 
 function formatISKFull(amount: number): string {
@@ -31,7 +33,7 @@ function formatISKShort(amount: number): string {
   return amount.toFixed(2)
 }
 
-export function TotalCost({ rawMaterials, additionalCosts }: TotalCostProps) {
+export function TotalCost({ rawMaterials, additionalCosts, market = DEFAULT_MARKET }: TotalCostProps) {
   const [copied, setCopied] = useState(false)
 
   // Only raw materials count toward total cost (not components)
@@ -58,7 +60,7 @@ export function TotalCost({ rawMaterials, additionalCosts }: TotalCostProps) {
       <CardContent className="space-y-4">
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
-            <span className="text-muted-foreground">Jita Buy (Materials)</span>
+            <span className="text-muted-foreground">{formatMarketSide(market.buy)} Buy (Materials)</span>
             <span className="font-mono">{formatISKShort(materialsBuyTotal)} ISK</span>
           </div>
           <div className="flex justify-between">
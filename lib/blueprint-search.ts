@@ -0,0 +1,260 @@
+/**
+ * Blueprint search
+ * Token index over blueprint and product names with typo tolerance, filters, and ranking over every match
+ */
+
+import blueprintSearchData from '@/data/blueprint-search.json'
+import { getCategoryId, PRODUCT_CATEGORIES } from '@/lib/blueprints'
+import { getTechLevel, type TechLevel } from '@/lib/tech-level'
+
+export type BlueprintActivity = 'manufacturing' | 'reaction'
+
+export interface BlueprintSearchFilters {
+  activity?: BlueprintActivity
+  techLevel?: TechLevel
+  categoryId?: number
+  marketGroup?: string[]          // Market group path prefix (root first), e.g. ['Ships', 'Frigates']
+}
+
+export interface BlueprintSearchResult {
+  blueprintTypeId: number
+  blueprintName: string
+  productTypeId: number
+  productName: string
+  isReaction: boolean
+  techLevel: TechLevel
+  categoryId: number | null
+  marketGroupPath: string[]
+  score: number
+}
+
+// Generated by scripts/download-sde.ts; older files lack the filter fields
+interface BlueprintSearchEntry {
+  id: number
+  name: string
+  productId: number
+  productName: string
+  isReaction: boolean
+  techLevel?: number
+  categoryId?: number | null
+  marketGroupPath?: string[]
+}
+
+interface SearchIndex {
+  entries: (Omit<BlueprintSearchResult, 'score'> & { normalizedName: string })[]
+  tokens: Map<string, Set<number>>  // Token -> entry indexes
+}
+
+// Match weights per query token
+const EXACT_TOKEN = 1
+const PREFIX_TOKEN = 0.8
+const FUZZY_TOKEN = 0.5
+
+let index: SearchIndex | null = null
+
+/**
+ * Lowercase words of a name, punctuation removed
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean)
+}
+
+/**
+ * Typos allowed in a query token: none for short words, one for most, two for long ones
+ */
+function maxTypos(token: string): number {
+  if (token.length < 4) return 0
+  return token.length < 8 ? 1 : 2
+}
+
+/**
+ * Edit distance with adjacent transpositions, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      row.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = row
+  }
+  return prev[b.length]
+}
+
+/**
+ * Build the token index on first use
+ */
+function getIndex(): SearchIndex {
+  if (index) return index
+
+  const entries = (blueprintSearchData as BlueprintSearchEntry[]).map(entry => ({
+    blueprintTypeId: entry.id,
+    blueprintName: entry.name,
+    productTypeId: entry.productId,
+    productName: entry.productName,
+    isReaction: entry.isReaction,
+    techLevel: (entry.techLevel ?? getTechLevel(entry.id)) as TechLevel,
+    categoryId: entry.categoryId !== undefined ? entry.categoryId : getCategoryId(entry.productId),
+    marketGroupPath: entry.marketGroupPath ?? [],
+    normalizedName: tokenize(entry.productName).join(' '),
+  }))
+
+  const tokens = new Map<string, Set<number>>()
+  entries.forEach((entry, i) => {
+    for (const token of tokenize(`${entry.productName} ${entry.blueprintName}`)) {
+      const set = tokens.get(token) ?? new Set<number>()
+      set.add(i)
+      tokens.set(token, set)
+    }
+  })
+
+  index = { entries, tokens }
+  return index
+}
+
+/**
+ * Best match weight of a query token for every entry that has a matching token
+ */
+function matchToken(queryToken: string, tokens: Map<string, Set<number>>): Map<number, number> {
+  const matches = new Map<number, number>()
+  const typos = maxTypos(queryToken)
+
+  for (const [token, entryIndexes] of tokens) {
+    let weight = 0
+    if (token === queryToken) {
+      weight = EXACT_TOKEN
+    } else if (token.startsWith(queryToken)) {
+      weight = PREFIX_TOKEN
+    } else if (typos > 0) {
+      // Typos in the word, or in the part typed so far
+      const distance = Math.min(
+        editDistance(queryToken, token, typos),
+        editDistance(queryToken, token.slice(0, queryToken.length), typos)
+      )
+      if (distance <= typos) weight = FUZZY_TOKEN / distance
+    }
+    if (weight === 0) continue
+
+    for (const i of entryIndexes) {
+      if (weight > (matches.get(i) ?? 0)) matches.set(i, weight)
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Check an entry against the filters
+ */
+function matchesFilters(entry: SearchIndex['entries'][number], filters: BlueprintSearchFilters): boolean {
+  if (filters.activity && entry.isReaction !== (filters.activity === 'reaction')) return false
+  if (filters.techLevel && entry.techLevel !== filters.techLevel) return false
+  if (filters.categoryId !== undefined && entry.categoryId !== filters.categoryId) return false
+  if (filters.marketGroup?.length &&
+      !filters.marketGroup.every((name, i) => entry.marketGroupPath[i] === name)) return false
+  return true
+}
+
+/**
+ * Search blueprints by product or blueprint name
+ *
+ * Every query word must match a word of the name exactly, as a prefix, or within a typo
+ * or two. All matches are ranked before the limit applies: exact names first, then names
+ * starting with the query, then by match quality and shorter names.
+ * An empty query lists the filtered blueprints by name.
+ */
+export function searchBlueprints(
+  query: string,
+  filters: BlueprintSearchFilters = {},
+  limit: number = 20
+): BlueprintSearchResult[] {
+  const { entries, tokens } = getIndex()
+  const queryTokens = tokenize(query)
+  const normalizedQuery = queryTokens.join(' ')
+
+  let scores: Map<number, number>
+  if (queryTokens.length === 0) {
+    scores = new Map(entries.map((_, i) => [i, 0]))
+  } else {
+    // Entries must match every query token; their weights add up
+    scores = matchToken(queryTokens[0], tokens)
+    for (const queryToken of queryTokens.slice(1)) {
+      const matches = matchToken(queryToken, tokens)
+      for (const [i, score] of scores) {
+        const weight = matches.get(i)
+        if (weight === undefined) {
+          scores.delete(i)
+        } else {
+          scores.set(i, score + weight)
+        }
+      }
+    }
+  }
+
+  const results: BlueprintSearchResult[] = []
+  for (const [i, tokenScore] of scores) {
+    const { normalizedName, ...entry } = entries[i]
+    if (!matchesFilters(entries[i], filters)) continue
+
+    let score = tokenScore * 100
+    if (normalizedQuery && normalizedName === normalizedQuery) score += 1000
+    else if (normalizedQuery && normalizedName.startsWith(normalizedQuery)) score += 300
+    else if (normalizedQuery && normalizedName.includes(normalizedQuery)) score += 100
+    results.push({ ...entry, score })
+  }
+
+  results.sort((a, b) =>
+    b.score - a.score ||
+    a.productName.length - b.productName.length ||
+    a.productName.localeCompare(b.productName)
+  )
+
+  return results.slice(0, limit)
+}
+
+/**
+ * Categories and top market groups the search can filter by, with blueprint counts
+ */
+export function getBlueprintSearchFilterOptions(): {
+  categories: { id: number; name: string; count: number }[]
+  marketGroups: { path: string[]; name: string; count: number }[]
+} {
+  const categories = new Map<number, { id: number; name: string; count: number }>()
+  const marketGroups = new Map<string, { path: string[]; name: string; count: number }>()
+
+  for (const entry of getIndex().entries) {
+    if (entry.categoryId !== null) {
+      const category = categories.get(entry.categoryId) ??
+        { id: entry.categoryId, name: PRODUCT_CATEGORIES[entry.categoryId] ?? `Category ${entry.categoryId}`, count: 0 }
+      category.count++
+      categories.set(entry.categoryId, category)
+    }
+
+    // Root groups and their children (e.g. Ships, Ships > Frigates)
+    for (let depth = 1; depth <= Math.min(2, entry.marketGroupPath.length); depth++) {
+      const path = entry.marketGroupPath.slice(0, depth)
+      const key = path.join(' > ')
+      const group = marketGroups.get(key) ?? { path, name: key, count: 0 }
+      group.count++
+      marketGroups.set(key, group)
+    }
+  }
+
+  return {
+    categories: Array.from(categories.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    marketGroups: Array.from(marketGroups.values()).sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
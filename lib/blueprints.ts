@@ -8,6 +8,9 @@ import blueprintsByProductData from '@/data/blueprints-by-product.json'
 import invTypesData from '@/data/inv-types.json'
 import invGroupsData from '@/data/inv-groups.json'
 import structuresData from '@/data/structures.json'
+import { getJobTimeModifier, type CharacterSkills } from '@/lib/skills'
+import { calculateManufacturingJobCost, type JobCostBreakdown } from '@/lib/job-cost'
+import { addWarning } from '@/lib/warnings'
 
 // Type definitions
 export interface BlueprintMaterial {
@@ -24,12 +27,15 @@ export interface BlueprintData {
   time: number
   materials: BlueprintMaterial[]
   producedQuantity: number
+  maxProductionLimit?: number  // Max runs per job; missing or 0 means no limit
+  scienceSkills?: number[]     // Science skills that shorten manufacturing time (T2)
 }
 
 export interface TypeInfo {
   name: string
   groupId: number | null
   volume: number
+  packagedVolume?: number    // Only set where it differs from volume (ships, containers)
 }
 
 export interface StructureBonus {
@@ -43,6 +49,32 @@ export interface RigBonus {
   teBonus: number
 }
 
+export interface Rig extends RigBonus {
+  name: string
+  categories: number[]       // Product category IDs the rig affects
+  groups: number[]           // Product group IDs the rig affects
+  // A rig with no categories and no groups affects every product (legacy generic T1/T2 rig)
+}
+
+export type FacilityActivity = 'manufacturing' | 'reaction'
+
+export interface Facility {
+  id: string
+  name: string
+  activity: FacilityActivity // Only steps of this activity can run here
+  structureBonus: StructureBonus
+  rigs: Rig[]                // Only rigs covering a step's product apply to it
+  securityMultiplier: number
+  costIndex: number          // Cost index for the facility's activity in its system
+  facilityTax: number        // 0-1 (percentage as decimal)
+}
+
+export interface FacilityRouting {
+  facilities: Record<string, Facility>
+  byProduct: Record<number, string>  // Product typeId -> facility id (per-step override)
+  byGroup: Record<number, string>    // Product groupId -> facility id
+}
+
 export interface IndustrySettings {
   blueprintMe: number        // 0-10
   blueprintTe: number        // 0-20
@@ -51,10 +83,17 @@ export interface IndustrySettings {
   systemCostIndex: number    // From ESI
   facilityTax: number        // 0-1 (percentage as decimal)
   structureBonus: StructureBonus
-  rigBonus: RigBonus
+  rigs: Rig[]
   securityMultiplier: number // 1.0 for highsec, 1.9 for low, 2.1 for null
   componentMe: number        // Default ME for components (10)
   componentTe: number        // Default TE for components (20)
+  calculateReactions: boolean         // Expand reaction inputs of manufacturing builds
+  reactionStructureBonus: StructureBonus
+  reactionRigs: Rig[]
+  reactionCostIndex: number           // Activity 11 cost index
+  facilityRouting?: FacilityRouting   // Steps not routed here use the settings above
+  character?: CharacterSkills         // Skills and implants that shorten job time
+  makeOrBuy?: Record<number, 'build' | 'buy'>  // Component typeId -> forced choice (overrides the rules below)
 }
 
 export interface MaterialRequirement {
@@ -70,9 +109,13 @@ export interface MaterialRequirement {
 export interface BuildStep {
   blueprintTypeId: number
   blueprintName: string
+  activityId: number        // 1 = manufacturing, 11 = reaction
+  facilityId: string
+  facilityName: string
   productTypeId: number
   productName: string
   runs: number
+  jobs?: number             // Separate jobs the runs are split into (1 when missing)
   producedQuantity: number
   excessQuantity: number
   time: number              // In seconds
@@ -80,15 +123,72 @@ export interface BuildStep {
   materials: MaterialRequirement[]
 }
 
+export interface BuildTreeNode {
+  typeId: number
+  name: string
+  quantity: number          // Units the parent job consumes (the produced quantity for the target)
+  fromExcess: number        // Of those, units covered by earlier over-production
+  isBuilt: boolean          // False when bought (raw material or component set to buy)
+  canBuild: boolean         // Has a blueprint, so buy/build can be toggled
+  blueprintTypeId?: number
+  activityId?: number
+  runs: number              // 0 when bought or fully covered by excess
+  producedQuantity: number
+  excessQuantity: number    // Over-production this node's job leaves in the pool
+  time: number              // In seconds
+  jobCost: number
+  children: BuildTreeNode[] // One per material of the job, in blueprint order
+}
+
 export interface CalculationResult {
   targetBlueprint: BlueprintData
   rawMaterials: MaterialRequirement[]
   buildSteps: BuildStep[]
+  tree: BuildTreeNode       // The target product and everything its jobs consume
   totalTime: number
   totalJobCost: number
   excessMaterials: { typeId: number; name: string; quantity: number; volume: number }[]
 }
 
+export interface BuildTarget {
+  blueprintTypeId: number
+  quantity: number           // Number of BPCs
+  runs: number               // Runs per BPC
+  blueprintMe: number
+  blueprintTe: number
+}
+
+export interface TargetBuildResult {
+  target: BuildTarget
+  targetBlueprint: BlueprintData
+  rawMaterials: MaterialRequirement[]  // Bought for this target; pooled excess it consumed is free
+  buildSteps: BuildStep[]              // Jobs started while planning this target
+  tree?: BuildTreeNode                 // All BPCs of the target merged (not available in batch mode)
+  totalTime: number
+  totalJobCost: number
+}
+
+export interface BuildPlanResult {
+  targets: TargetBuildResult[]
+  rawMaterials: MaterialRequirement[]
+  buildSteps: BuildStep[]              // One step per blueprint and facility across all targets
+  totalTime: number
+  totalJobCost: number
+  excessMaterials: { typeId: number; name: string; quantity: number; volume: number }[]
+}
+
+export interface BatchSaving {
+  typeId: number
+  name: string
+  naiveQuantity: number     // Planning each BPC separately and multiplying
+  batchQuantity: number     // Planning component jobs across all BPCs
+}
+
+export interface BatchBuildResult extends BuildPlanResult {
+  materialSavings: BatchSaving[]  // Raw materials whose quantity changes with batching
+  excessSavings: BatchSaving[]    // Leftover components whose quantity changes with batching
+}
+
 // Cast imported JSON to typed data
 const blueprints = blueprintsData as Record<string, BlueprintData>
 const blueprintsByProduct = blueprintsByProductData as Record<string, number>
@@ -107,6 +207,13 @@ export function getBlueprint(blueprintTypeId: number): BlueprintData | null {
   return blueprints[blueprintTypeId.toString()] || null
 }
 
+/**
+ * Get every manufacturing and reaction blueprint
+ */
+export function getAllBlueprints(): BlueprintData[] {
+  return Object.values(blueprints)
+}
+
 /**
  * Get blueprint by product type ID (what it produces)
  */
@@ -123,6 +230,14 @@ export function getTypeInfo(typeId: number): TypeInfo | null {
   return invTypes[typeId.toString()] || null
 }
 
+/**
+ * Volume of one unit as hauled: packaged for ships and other types that repackage
+ */
+export function getPackagedVolume(typeId: number): number {
+  const typeInfo = getTypeInfo(typeId)
+  return typeInfo?.packagedVolume ?? typeInfo?.volume ?? 0
+}
+
 /**
  * Get type name by type ID
  */
@@ -141,6 +256,38 @@ export function getGroupName(typeId: number): string | null {
   return group?.name || null
 }
 
+/**
+ * Get category ID by type ID (via its group)
+ */
+export function getCategoryId(typeId: number): number | null {
+  const typeInfo = invTypes[typeId.toString()]
+  if (!typeInfo || typeInfo.groupId === null) return null
+  
+  return invGroups[typeInfo.groupId.toString()]?.categoryId ?? null
+}
+
+// Names of the categories manufactured products fall into, for category filters
+export const PRODUCT_CATEGORIES: Record<number, string> = {
+  4: 'Material',
+  6: 'Ship',
+  7: 'Module',
+  8: 'Charge',
+  17: 'Commodity',
+  18: 'Drone',
+  20: 'Implant',
+  22: 'Deployable',
+  23: 'Starbase',
+  32: 'Subsystem',
+  39: 'Infrastructure Upgrades',
+  40: 'Sovereignty Structures',
+  41: 'Planetary Industry',
+  43: 'Planetary Commodities',
+  46: 'Orbitals',
+  65: 'Structure',
+  66: 'Structure Module',
+  87: 'Fighter',
+}
+
 /**
  * Check if a type can be manufactured (has a blueprint)
  */
@@ -155,6 +302,7 @@ export function canBeBuilt(typeId: number): boolean {
  * EVE Online applies ME to the TOTAL materials needed, not per-run.
  * This means batch production is more efficient than individual jobs.
  * The minimum is the number of runs (at least 1 of each material per run).
+ * rigMeBonus must only include rigs covering the product (see getRigBonusForProduct).
  */
 export function calculateMaterialQuantity(
   baseQuantity: number,
@@ -178,7 +326,9 @@ export function calculateMaterialQuantity(
 
 /**
  * Calculate job time with TE bonus
- * Formula: baseTime * runs * (1 - totalTe)
+ * Formula: baseTime * runs * (1 - totalTe) * skillModifier
+ * rigTeBonus must only include rigs covering the product (see getRigBonusForProduct).
+ * skillModifier comes from the character's skills and implants (see getJobTimeModifier).
  */
 export function calculateJobTime(
   baseTime: number,
@@ -186,12 +336,13 @@ export function calculateJobTime(
   blueprintTe: number,
   structureTeBonus: number,
   rigTeBonus: number,
-  securityMultiplier: number = 1.0
+  securityMultiplier: number = 1.0,
+  skillModifier: number = 1.0
 ): number {
   // Total TE reduction
   const totalTeReduction = (blueprintTe / 100) + structureTeBonus + (rigTeBonus * securityMultiplier)
   
-  return Math.ceil(baseTime * runs * (1 - Math.min(totalTeReduction, 0.9))) // Cap at 90% reduction
+  return Math.ceil(baseTime * runs * (1 - Math.min(totalTeReduction, 0.9)) * skillModifier) // Cap at 90% reduction
 }
 
 /**
@@ -206,10 +357,14 @@ export function getDefaultSettings(): IndustrySettings {
     systemCostIndex: 0.05, // 5% default
     facilityTax: 0,
     structureBonus: { meBonus: 0.01, teBonus: 0.15, jobCostBonus: 0.03 }, // Raitaru defaults
-    rigBonus: { meBonus: 0.02, teBonus: 0.20 }, // T1 rig
+    rigs: [getGenericRig('t1')],
     securityMultiplier: 1.0, // Highsec
     componentMe: structures.defaultComponentME,
     componentTe: structures.defaultComponentTE,
+    calculateReactions: false,
+    reactionStructureBonus: { meBonus: 0, teBonus: 0.25, jobCostBonus: 0.04 }, // Tatara defaults
+    reactionRigs: [getGenericRig('t1')],
+    reactionCostIndex: 0.05,
   }
 }
 
@@ -225,6 +380,19 @@ export function getStructureBonus(structureType: keyof typeof structures.industr
   }
 }
 
+/**
+ * Get reaction structure bonus by structure type
+ * Refineries have no ME bonus of their own; only rigs reduce reaction inputs
+ */
+export function getReactionStructureBonus(structureType: keyof typeof structures.reactionStructures): StructureBonus {
+  const structure = structures.reactionStructures[structureType]
+  return {
+    meBonus: 0,
+    teBonus: structure.teBonus,
+    jobCostBonus: structure.jobCostBonus
+  }
+}
+
 /**
  * Get rig bonus by rig type
  */
@@ -236,6 +404,63 @@ export function getRigBonus(rigType: keyof typeof structures.rigs): RigBonus {
   }
 }
 
+/**
+ * Get a generic rig that applies to every product
+ */
+export function getGenericRig(rigType: keyof typeof structures.rigs): Rig {
+  const rig = structures.rigs[rigType]
+  return {
+    name: rig.name,
+    meBonus: rig.meBonus,
+    teBonus: rig.teBonus,
+    categories: [],
+    groups: []
+  }
+}
+
+/**
+ * Get a rig from the rig catalog by key (e.g. 'advanced_component_me_t1')
+ */
+export function getCatalogRig(rigKey: string): Rig | null {
+  const rig = (structures.rigCatalog as Record<string, typeof structures.rigCatalog[keyof typeof structures.rigCatalog]>)[rigKey]
+  if (!rig) return null
+  return {
+    name: rig.name,
+    meBonus: rig.meBonus,
+    teBonus: rig.teBonus,
+    categories: rig.categories,
+    groups: rig.groups
+  }
+}
+
+/**
+ * Check if a rig affects a product (by the product's group or category)
+ */
+export function rigAppliesTo(rig: Rig, productTypeId: number): boolean {
+  if (rig.categories.length === 0 && rig.groups.length === 0) return true
+  
+  const groupId = getTypeInfo(productTypeId)?.groupId
+  if (groupId != null && rig.groups.includes(groupId)) return true
+  
+  const categoryId = getCategoryId(productTypeId)
+  return categoryId !== null && rig.categories.includes(categoryId)
+}
+
+/**
+ * Get the rig bonus that applies to a product
+ * Rig bonuses of the same kind don't stack, so the strongest matching ME and TE bonus is used
+ */
+export function getRigBonusForProduct(rigs: Rig[], productTypeId: number): RigBonus {
+  let meBonus = 0
+  let teBonus = 0
+  for (const rig of rigs) {
+    if (!rigAppliesTo(rig, productTypeId)) continue
+    meBonus = Math.max(meBonus, rig.meBonus)
+    teBonus = Math.max(teBonus, rig.teBonus)
+  }
+  return { meBonus, teBonus }
+}
+
 /**
  * Get security multiplier
  */
@@ -243,17 +468,122 @@ export function getSecurityMultiplier(securityType: keyof typeof structures.secu
   return structures.securityMultipliers[securityType]
 }
 
+// Ids of the implicit facilities built from IndustrySettings
+export const DEFAULT_FACILITY_ID = 'default'
+export const DEFAULT_REACTION_FACILITY_ID = 'default-reaction'
+
+/**
+ * Get the facility activity that runs a blueprint activity
+ */
+export function getFacilityActivity(activityId: number): FacilityActivity {
+  return activityId === ACTIVITY_REACTION ? 'reaction' : 'manufacturing'
+}
+
+/**
+ * Resolve the facility a build step runs in
+ * Per-product routing wins over per-group routing; anything unrouted, or routed to a
+ * facility of the other activity, falls back to the manufacturing or reaction settings
+ */
+export function getStepFacility(
+  settings: IndustrySettings,
+  productTypeId: number,
+  activityId: number
+): Facility {
+  const activity = getFacilityActivity(activityId)
+  const routing = settings.facilityRouting
+  if (routing) {
+    const groupId = getTypeInfo(productTypeId)?.groupId
+    const facilityId = routing.byProduct[productTypeId] ??
+      (groupId != null ? routing.byGroup[groupId] : undefined)
+    const facility = facilityId ? routing.facilities[facilityId] : undefined
+    if (facility?.activity === activity) return facility
+    if (facility) {
+      addWarning(`${getTypeName(productTypeId)} is a ${activity} step and cannot run in ${facility.name} (${facility.activity}); using the default ${activity} facility`)
+    }
+  }
+
+  if (activity === 'reaction') {
+    return {
+      id: DEFAULT_REACTION_FACILITY_ID,
+      name: 'Reaction Facility',
+      activity,
+      structureBonus: settings.reactionStructureBonus,
+      rigs: settings.reactionRigs,
+      securityMultiplier: settings.securityMultiplier,
+      costIndex: settings.reactionCostIndex,
+      facilityTax: settings.facilityTax
+    }
+  }
+
+  return {
+    id: DEFAULT_FACILITY_ID,
+    name: 'Manufacturing Facility',
+    activity,
+    structureBonus: settings.structureBonus,
+    rigs: settings.rigs,
+    securityMultiplier: settings.securityMultiplier,
+    costIndex: settings.systemCostIndex,
+    facilityTax: settings.facilityTax
+  }
+}
+
+/**
+ * Determine if a component should be built rather than bought:
+ * - Manufacturing builds don't recurse into reactions (reaction outputs are treated as raw materials)
+ *   unless calculateReactions is set, in which case the full chain is expanded down to moon goo
+ * - Reaction builds only recurse into other reactions
+ * - A make-or-buy choice for the component wins over all of the above
+ */
+function shouldBuildComponent(
+  buildActivityId: number,
+  componentBp: BlueprintData | null,
+  settings: IndustrySettings
+): componentBp is BlueprintData {
+  if (!componentBp) return false
+  
+  const choice = settings.makeOrBuy?.[componentBp.productTypeId]
+  if (choice) return choice === 'build'
+  
+  const isBuildReaction = buildActivityId === ACTIVITY_REACTION
+  const isComponentReaction = componentBp.activityId === ACTIVITY_REACTION
+  return (
+    (isBuildReaction && isComponentReaction) ||  // Reactions can recurse into reactions
+    (!isBuildReaction && !isComponentReaction) || // Manufacturing can recurse into manufacturing
+    (settings.calculateReactions && isComponentReaction) // Opt-in: manufacturing into reactions
+  )
+}
+
+/**
+ * Job cost of running a blueprint in a facility, with each term of CCP's formula
+ */
+export function calculateStepJobCost(
+  bp: BlueprintData,
+  runs: number,
+  facility: Facility,
+  adjustedPrices: Map<number, number>
+): JobCostBreakdown {
+  return calculateManufacturingJobCost(bp, runs, {
+    costIndex: facility.costIndex,
+    jobCostBonus: facility.structureBonus.jobCostBonus,
+    facilityTax: facility.facilityTax,
+  }, adjustedPrices)
+}
+
 /**
  * Recursively calculate all materials needed for a blueprint
  * Expands intermediate components that can be built
  * 
  * settings.quantity = number of BPCs
  * settings.runs = runs per BPC
+ * 
+ * Pass a shared excessTracker to pool component over-production across builds.
+ * The BPC multiply below scales the whole tracker, so shared trackers need quantity = 1.
  */
 export function calculateRecursiveBuild(
   blueprintTypeId: number,
   settings: IndustrySettings,
-  adjustedPrices: Map<number, number> = new Map()
+  adjustedPrices: Map<number, number> = new Map(),
+  excessTracker: Map<number, number> = new Map()
 ): CalculationResult {
   const blueprint = getBlueprint(blueprintTypeId)
   if (!blueprint) {
@@ -266,35 +596,39 @@ export function calculateRecursiveBuild(
   
   const rawMaterials: Map<number, MaterialRequirement> = new Map()
   const buildSteps: BuildStep[] = []
-  const excessTracker: Map<number, number> = new Map()
 
-  // Recursive function to process a blueprint
+  // Recursive function to process a blueprint, returning the materials its job consumes
   function processBlueprintRecursive(
     bp: BlueprintData,
     runs: number,
     isTopLevel: boolean,
     me: number,
     te: number
-  ): void {
+  ): { children: BuildTreeNode[]; time: number; jobCost: number } {
     const stepMaterials: MaterialRequirement[] = []
+    const children: BuildTreeNode[] = []
+    
+    // Each step runs in its own facility (reaction steps default to the refinery settings)
+    // and only the facility's rigs covering this product's group apply
+    const facility = getStepFacility(settings, bp.productTypeId, bp.activityId)
+    const rigBonus = getRigBonusForProduct(facility.rigs, bp.productTypeId)
     
     for (const mat of bp.materials) {
       const adjustedQty = calculateMaterialQuantity(
         mat.quantity,
         runs,
         me,
-        settings.structureBonus.meBonus,
-        settings.rigBonus.meBonus,
-        settings.securityMultiplier
+        facility.structureBonus.meBonus,
+        rigBonus.meBonus,
+        facility.securityMultiplier
       )
       
-      const typeInfo = getTypeInfo(mat.typeId)
       const materialReq: MaterialRequirement = {
         typeId: mat.typeId,
         name: getTypeName(mat.typeId),
         baseQuantity: mat.quantity * runs,
         adjustedQuantity: adjustedQty,
-        volume: (typeInfo?.volume || 0) * adjustedQty,
+        volume: getPackagedVolume(mat.typeId) * adjustedQty,
         groupName: getGroupName(mat.typeId) || undefined,
         isRawMaterial: !canBeBuilt(mat.typeId)
       }
@@ -303,24 +637,35 @@ export function calculateRecursiveBuild(
       
       // Check if this material can be built
       const componentBp = getBlueprintByProduct(mat.typeId)
-      
-      // Determine if we should recurse into this component:
-      // - If top-level is manufacturing, don't recurse into reactions (treat reaction outputs as raw materials)
-      // - If top-level is reaction, only recurse into other reactions
-      const isTopLevelReaction = blueprint!.activityId === ACTIVITY_REACTION
       const isComponentReaction = componentBp?.activityId === ACTIVITY_REACTION
-      const shouldRecurse = componentBp && (
-        (isTopLevelReaction && isComponentReaction) ||  // Reactions can recurse into reactions
-        (!isTopLevelReaction && !isComponentReaction)   // Manufacturing can only recurse into manufacturing
-      )
+      const node: BuildTreeNode = {
+        typeId: mat.typeId,
+        name: materialReq.name,
+        quantity: adjustedQty,
+        fromExcess: 0,
+        isBuilt: false,
+        canBuild: componentBp !== null,
+        runs: 0,
+        producedQuantity: 0,
+        excessQuantity: 0,
+        time: 0,
+        jobCost: 0,
+        children: []
+      }
+      children.push(node)
       
-      if (shouldRecurse && componentBp) {
+      if (shouldBuildComponent(blueprint!.activityId, componentBp, settings)) {
+        node.isBuilt = true
+        node.blueprintTypeId = componentBp.blueprintTypeId
+        node.activityId = componentBp.activityId
+        
         // Check excess from previous builds
         let needed = adjustedQty
         const excess = excessTracker.get(mat.typeId) || 0
         if (excess > 0) {
           const used = Math.min(excess, needed)
           needed -= used
+          node.fromExcess = used
           excessTracker.set(mat.typeId, excess - used)
         }
         
@@ -335,13 +680,20 @@ export function calculateRecursiveBuild(
           }
           
           // Recursively process component (using default component ME/TE)
-          processBlueprintRecursive(
+          // Reaction formulas cannot be researched, so they always run at ME/TE 0
+          const job = processBlueprintRecursive(
             componentBp,
             componentRuns,
             false,
-            settings.componentMe,
-            settings.componentTe
+            isComponentReaction ? 0 : settings.componentMe,
+            isComponentReaction ? 0 : settings.componentTe
           )
+          node.runs = componentRuns
+          node.producedQuantity = produced
+          node.excessQuantity = newExcess
+          node.time = job.time
+          node.jobCost = job.jobCost
+          node.children = job.children
         }
       } else {
         // Raw material - add to final list
@@ -349,7 +701,7 @@ export function calculateRecursiveBuild(
         if (existing) {
           existing.adjustedQuantity += adjustedQty
           existing.baseQuantity += mat.quantity * runs
-          existing.volume = (typeInfo?.volume || 0) * existing.adjustedQuantity
+          existing.volume = getPackagedVolume(mat.typeId) * existing.adjustedQuantity
         } else {
           rawMaterials.set(mat.typeId, { ...materialReq })
         }
@@ -361,20 +713,14 @@ export function calculateRecursiveBuild(
       bp.time,
       runs,
       te,
-      settings.structureBonus.teBonus,
-      settings.rigBonus.teBonus,
-      settings.securityMultiplier
+      facility.structureBonus.teBonus,
+      rigBonus.teBonus,
+      facility.securityMultiplier,
+      getJobTimeModifier(settings.character, bp)
     )
     
-    // Calculate job cost (base job cost * system index * (1 - structure bonus))
-    const baseJobCost = stepMaterials.reduce((sum, mat) => {
-      const adjustedPrice = adjustedPrices.get(mat.typeId) || 0
-      return sum + (adjustedPrice * mat.adjustedQuantity)
-    }, 0)
-    
-    const jobCost = baseJobCost * settings.systemCostIndex * 0.02 * runs * 
-                    (1 - settings.structureBonus.jobCostBonus) * 
-                    (1 + settings.facilityTax)
+    // Calculate job cost
+    const jobCost = calculateStepJobCost(bp, runs, facility, adjustedPrices).total
     
     const totalProduced = runs * bp.producedQuantity
     // For top-level, there's no excess from the BPC itself (you get exactly what runs produce)
@@ -386,6 +732,9 @@ export function calculateRecursiveBuild(
     buildSteps.unshift({
       blueprintTypeId: bp.blueprintTypeId,
       blueprintName: bp.blueprintName,
+      activityId: bp.activityId,
+      facilityId: facility.id,
+      facilityName: facility.name,
       productTypeId: bp.productTypeId,
       productName: bp.productName,
       runs,
@@ -395,16 +744,34 @@ export function calculateRecursiveBuild(
       jobCost,
       materials: stepMaterials
     })
+    
+    return { children, time: jobTime, jobCost }
   }
   
   // Start recursive calculation for ONE BPC
-  processBlueprintRecursive(
+  const topLevel = processBlueprintRecursive(
     blueprint, 
     runsPerBpc, 
     true, 
     settings.blueprintMe, 
     settings.blueprintTe
   )
+  const tree: BuildTreeNode = {
+    typeId: blueprint.productTypeId,
+    name: blueprint.productName,
+    quantity: runsPerBpc * blueprint.producedQuantity,
+    fromExcess: 0,
+    isBuilt: true,
+    canBuild: true,
+    blueprintTypeId: blueprint.blueprintTypeId,
+    activityId: blueprint.activityId,
+    runs: runsPerBpc,
+    producedQuantity: runsPerBpc * blueprint.producedQuantity,
+    excessQuantity: 0,
+    time: topLevel.time,
+    jobCost: topLevel.jobCost,
+    children: topLevel.children
+  }
   
   // Multiply all raw materials by number of BPCs
   if (numberOfBpcs > 1) {
@@ -423,6 +790,7 @@ export function calculateRecursiveBuild(
     const topLevelStep = buildSteps.find(s => s.blueprintTypeId === blueprint.blueprintTypeId)
     if (topLevelStep) {
       topLevelStep.runs *= numberOfBpcs
+      topLevelStep.jobs = numberOfBpcs
       topLevelStep.producedQuantity *= numberOfBpcs
       topLevelStep.excessQuantity *= numberOfBpcs
       topLevelStep.time *= numberOfBpcs
@@ -438,6 +806,7 @@ export function calculateRecursiveBuild(
     for (const step of buildSteps) {
       if (step.blueprintTypeId !== blueprint.blueprintTypeId) {
         step.runs *= numberOfBpcs
+        step.jobs = numberOfBpcs
         step.producedQuantity *= numberOfBpcs
         step.excessQuantity *= numberOfBpcs
         step.time *= numberOfBpcs
@@ -449,6 +818,8 @@ export function calculateRecursiveBuild(
         }
       }
     }
+    
+    scaleBuildTree(tree, numberOfBpcs)
   }
   
   // Convert excess tracker to array
@@ -458,7 +829,7 @@ export function calculateRecursiveBuild(
       typeId,
       name: getTypeName(typeId),
       quantity,
-      volume: (getTypeInfo(typeId)?.volume || 0) * quantity
+      volume: getPackagedVolume(typeId) * quantity
     }))
   
   // Calculate totals
@@ -469,6 +840,7 @@ export function calculateRecursiveBuild(
     targetBlueprint: blueprint,
     rawMaterials: Array.from(rawMaterials.values()),
     buildSteps,
+    tree,
     totalTime,
     totalJobCost,
     excessMaterials
@@ -476,31 +848,456 @@ export function calculateRecursiveBuild(
 }
 
 /**
- * Search blueprints by name (for autocomplete)
+ * Multiply every quantity, run, time and cost in a build tree (for repeated BPCs)
+ */
+function scaleBuildTree(node: BuildTreeNode, factor: number): void {
+  node.quantity *= factor
+  node.fromExcess *= factor
+  node.runs *= factor
+  node.producedQuantity *= factor
+  node.excessQuantity *= factor
+  node.time *= factor
+  node.jobCost *= factor
+  node.children.forEach(child => scaleBuildTree(child, factor))
+}
+
+/**
+ * Add one build tree into another of the same product
+ * Children are matched by type ID, so repeated BPCs of a target collapse into one tree.
  */
-export function searchBlueprints(query: string, limit: number = 20): BlueprintData[] {
-  const lowerQuery = query.toLowerCase()
-  const results: BlueprintData[] = []
+function mergeBuildTree(into: BuildTreeNode, node: BuildTreeNode): void {
+  into.quantity += node.quantity
+  into.fromExcess += node.fromExcess
+  into.runs += node.runs
+  into.producedQuantity += node.producedQuantity
+  into.excessQuantity += node.excessQuantity
+  into.time += node.time
+  into.jobCost += node.jobCost
+  if (node.isBuilt && !into.isBuilt) {
+    into.isBuilt = true
+    into.blueprintTypeId = node.blueprintTypeId
+    into.activityId = node.activityId
+  }
+  for (const child of node.children) {
+    const existing = into.children.find(c => c.typeId === child.typeId)
+    if (existing) {
+      mergeBuildTree(existing, child)
+    } else {
+      into.children.push(child)
+    }
+  }
+}
+
+/**
+ * Combine build steps that run the same blueprint in the same facility
+ */
+function mergeBuildSteps(steps: BuildStep[]): BuildStep[] {
+  const merged = new Map<string, BuildStep>()
+  
+  for (const step of steps) {
+    const key = `${step.blueprintTypeId}:${step.facilityId}`
+    const existing = merged.get(key)
+    if (!existing) {
+      merged.set(key, { ...step, materials: step.materials.map(mat => ({ ...mat })) })
+      continue
+    }
+    
+    existing.runs += step.runs
+    existing.jobs = (existing.jobs ?? 1) + (step.jobs ?? 1)
+    existing.producedQuantity += step.producedQuantity
+    existing.excessQuantity += step.excessQuantity
+    existing.time += step.time
+    existing.jobCost += step.jobCost
+    for (const mat of step.materials) {
+      const existingMat = existing.materials.find(m => m.typeId === mat.typeId)
+      if (existingMat) {
+        existingMat.baseQuantity += mat.baseQuantity
+        existingMat.adjustedQuantity += mat.adjustedQuantity
+        existingMat.volume += mat.volume
+      } else {
+        existing.materials.push({ ...mat })
+      }
+    }
+  }
+  
+  return Array.from(merged.values())
+}
+
+/**
+ * Add materials into a running total keyed by type ID
+ */
+function addMaterials(totals: Map<number, MaterialRequirement>, materials: MaterialRequirement[]): void {
+  for (const mat of materials) {
+    const existing = totals.get(mat.typeId)
+    if (existing) {
+      existing.baseQuantity += mat.baseQuantity
+      existing.adjustedQuantity += mat.adjustedQuantity
+      existing.volume += mat.volume
+    } else {
+      totals.set(mat.typeId, { ...mat })
+    }
+  }
+}
+
+/**
+ * Scale a material requirement by a share (for per-target allocation)
+ */
+function scaleMaterial(mat: MaterialRequirement, share: number): MaterialRequirement {
+  return {
+    ...mat,
+    baseQuantity: mat.baseQuantity * share,
+    adjustedQuantity: mat.adjustedQuantity * share,
+    volume: mat.volume * share
+  }
+}
+
+/**
+ * Plan several builds at once with pooled components
+ * 
+ * Targets are planned in order, one BPC at a time, against a single excessTracker,
+ * so component over-production from one BPC or target feeds the next.
+ * Each target is charged for the materials and jobs started while planning it.
+ */
+export function calculateBuildPlan(
+  targets: BuildTarget[],
+  settings: IndustrySettings,
+  adjustedPrices: Map<number, number> = new Map()
+): BuildPlanResult {
+  const excessTracker: Map<number, number> = new Map()
+  const targetBlueprintIds = new Set(targets.map(t => t.blueprintTypeId))
+  const allRawMaterials: Map<number, MaterialRequirement> = new Map()
+  const allBuildSteps: BuildStep[] = []
+  const targetResults: TargetBuildResult[] = []
+  
+  // Top-level steps never leave excess; component steps report what is left in the pool
+  const setExcess = (steps: BuildStep[]) => {
+    for (const step of steps) {
+      step.excessQuantity = targetBlueprintIds.has(step.blueprintTypeId)
+        ? 0
+        : excessTracker.get(step.productTypeId) || 0
+    }
+  }
+  
+  for (const target of targets) {
+    const targetBlueprint = getBlueprint(target.blueprintTypeId)
+    if (!targetBlueprint) {
+      throw new Error(`Blueprint ${target.blueprintTypeId} not found`)
+    }
+    
+    const targetSettings: IndustrySettings = {
+      ...settings,
+      quantity: 1,
+      runs: target.runs,
+      blueprintMe: target.blueprintMe,
+      blueprintTe: target.blueprintTe
+    }
+    
+    const rawMaterials: Map<number, MaterialRequirement> = new Map()
+    const buildSteps: BuildStep[] = []
+    let tree: BuildTreeNode | undefined
+    for (let i = 0; i < target.quantity; i++) {
+      const result = calculateRecursiveBuild(target.blueprintTypeId, targetSettings, adjustedPrices, excessTracker)
+      addMaterials(rawMaterials, result.rawMaterials)
+      buildSteps.push(...result.buildSteps)
+      if (tree) {
+        mergeBuildTree(tree, result.tree)
+      } else {
+        tree = result.tree
+      }
+    }
+    
+    addMaterials(allRawMaterials, Array.from(rawMaterials.values()))
+    allBuildSteps.push(...buildSteps)
+    
+    const targetSteps = mergeBuildSteps(buildSteps)
+    setExcess(targetSteps)
+    targetResults.push({
+      target,
+      targetBlueprint,
+      rawMaterials: Array.from(rawMaterials.values()),
+      buildSteps: targetSteps,
+      tree,
+      totalTime: targetSteps.reduce((sum, step) => sum + step.time, 0),
+      totalJobCost: targetSteps.reduce((sum, step) => sum + step.jobCost, 0)
+    })
+  }
+  
+  const buildSteps = mergeBuildSteps(allBuildSteps)
+  setExcess(buildSteps)
+  
+  const excessMaterials = Array.from(excessTracker.entries())
+    .filter(([, qty]) => qty > 0)
+    .map(([typeId, quantity]) => ({
+      typeId,
+      name: getTypeName(typeId),
+      quantity,
+      volume: getPackagedVolume(typeId) * quantity
+    }))
+  
+  return {
+    targets: targetResults,
+    rawMaterials: Array.from(allRawMaterials.values()),
+    buildSteps,
+    totalTime: buildSteps.reduce((sum, step) => sum + step.time, 0),
+    totalJobCost: buildSteps.reduce((sum, step) => sum + step.jobCost, 0),
+    excessMaterials
+  }
+}
+
+/**
+ * Split runs into the fewest jobs allowed by the blueprint's max runs, as evenly as possible
+ */
+export function splitRuns(runs: number, maxRuns?: number): number[] {
+  if (!maxRuns || runs <= maxRuns) return [runs]
+  
+  const jobs = Math.ceil(runs / maxRuns)
+  const base = Math.floor(runs / jobs)
+  const remainder = runs % jobs
+  return Array.from({ length: jobs }, (_, i) => base + (i < remainder ? 1 : 0))
+}
+
+/**
+ * Order the blueprints reachable from the targets so every component comes after all of its consumers
+ */
+function orderComponents(targetBlueprints: BlueprintData[], settings: IndustrySettings): BlueprintData[] {
+  const visited = new Set<number>()
+  const postOrder: BlueprintData[] = []
+  
+  function visit(bp: BlueprintData): void {
+    if (visited.has(bp.blueprintTypeId)) return
+    visited.add(bp.blueprintTypeId)
+    for (const mat of bp.materials) {
+      const componentBp = getBlueprintByProduct(mat.typeId)
+      if (shouldBuildComponent(bp.activityId, componentBp, settings)) {
+        visit(componentBp)
+      }
+    }
+    postOrder.push(bp)
+  }
+  
+  targetBlueprints.forEach(visit)
+  return postOrder.reverse()
+}
+
+/**
+ * Plan builds with component jobs batched across all BPCs and targets
+ * 
+ * Each BPC is still its own top-level job, but component demand is summed first and
+ * then built in as few jobs as the component blueprint's max runs allow, so ME rounding
+ * applies per real job and excess is shared. Whether a component is built follows the
+ * activity of the job consuming it (see shouldBuildComponent).
+ * 
+ * Per-target results are allocated by each target's share of every component's demand,
+ * so their quantities can be fractional. Savings compare against calculateRecursiveBuild.
+ */
+export function calculateBatchBuild(
+  targets: BuildTarget[],
+  settings: IndustrySettings,
+  adjustedPrices: Map<number, number> = new Map()
+): BatchBuildResult {
+  const targetBlueprints = targets.map(target => {
+    const bp = getBlueprint(target.blueprintTypeId)
+    if (!bp) {
+      throw new Error(`Blueprint ${target.blueprintTypeId} not found`)
+    }
+    return bp
+  })
+  
+  // Demand per component product, split by target for cost allocation
+  const demand: Map<number, number[]> = new Map()
+  const rawMaterials: Map<number, MaterialRequirement> = new Map()
+  const targetRawMaterials = targets.map(() => new Map<number, MaterialRequirement>())
+  const targetBuildSteps: BuildStep[][] = targets.map(() => [])
+  const buildSteps: BuildStep[] = []
+  const excessTracker: Map<number, number> = new Map()
+  
+  // Plan one step made of several jobs, sending its materials to components or raw materials
+  // shares[i] is target i's share of the step
+  function planStep(
+    bp: BlueprintData,
+    jobRuns: number[],
+    me: number,
+    te: number,
+    shares: number[],
+    excess: number
+  ): void {
+    const facility = getStepFacility(settings, bp.productTypeId, bp.activityId)
+    const rigBonus = getRigBonusForProduct(facility.rigs, bp.productTypeId)
+    const runs = jobRuns.reduce((sum, r) => sum + r, 0)
+    
+    const stepMaterials: MaterialRequirement[] = bp.materials.map(mat => {
+      // ME rounding applies per job
+      const adjustedQty = jobRuns.reduce((sum, r) => sum + calculateMaterialQuantity(
+        mat.quantity,
+        r,
+        me,
+        facility.structureBonus.meBonus,
+        rigBonus.meBonus,
+        facility.securityMultiplier
+      ), 0)
+      return {
+        typeId: mat.typeId,
+        name: getTypeName(mat.typeId),
+        baseQuantity: mat.quantity * runs,
+        adjustedQuantity: adjustedQty,
+        volume: getPackagedVolume(mat.typeId) * adjustedQty,
+        groupName: getGroupName(mat.typeId) || undefined,
+        isRawMaterial: !canBeBuilt(mat.typeId)
+      }
+    })
+    
+    for (const mat of stepMaterials) {
+      const componentBp = getBlueprintByProduct(mat.typeId)
+      if (shouldBuildComponent(bp.activityId, componentBp, settings)) {
+        const componentDemand = demand.get(mat.typeId) ?? targets.map(() => 0)
+        shares.forEach((share, i) => { componentDemand[i] += mat.adjustedQuantity * share })
+        demand.set(mat.typeId, componentDemand)
+      } else {
+        addMaterials(rawMaterials, [mat])
+        shares.forEach((share, i) => {
+          if (share > 0) addMaterials(targetRawMaterials[i], [scaleMaterial(mat, share)])
+        })
+      }
+    }
+    
+    const time = jobRuns.reduce((sum, r) => sum + calculateJobTime(
+      bp.time,
+      r,
+      te,
+      facility.structureBonus.teBonus,
+      rigBonus.teBonus,
+      facility.securityMultiplier,
+      getJobTimeModifier(settings.character, bp)
+    ), 0)
+    
+    const step: BuildStep = {
+      blueprintTypeId: bp.blueprintTypeId,
+      blueprintName: bp.blueprintName,
+      activityId: bp.activityId,
+      facilityId: facility.id,
+      facilityName: facility.name,
+      productTypeId: bp.productTypeId,
+      productName: bp.productName,
+      runs,
+      jobs: jobRuns.length,
+      producedQuantity: runs * bp.producedQuantity,
+      excessQuantity: excess,
+      time,
+      jobCost: calculateStepJobCost(bp, runs, facility, adjustedPrices).total,
+      materials: stepMaterials
+    }
+    buildSteps.push(step)
+    
+    // Each target gets its share of the step
+    shares.forEach((share, i) => {
+      if (share <= 0) return
+      targetBuildSteps[i].push({
+        ...step,
+        runs: step.runs * share,
+        producedQuantity: step.producedQuantity * share,
+        excessQuantity: step.excessQuantity * share,
+        time: step.time * share,
+        jobCost: step.jobCost * share,
+        materials: step.materials.map(mat => scaleMaterial(mat, share))
+      })
+    })
+  }
+  
+  // Top-level jobs: every BPC is its own job
+  targets.forEach((target, i) => {
+    const shares = targets.map((_, j) => (j === i ? 1 : 0))
+    const jobRuns = new Array<number>(target.quantity).fill(target.runs)
+    planStep(targetBlueprints[i], jobRuns, target.blueprintMe, target.blueprintTe, shares, 0)
+  })
   
-  for (const bp of Object.values(blueprints)) {
-    if (results.length >= limit) break
+  // Components, once all of their consumers have added demand
+  for (const bp of orderComponents(targetBlueprints, settings)) {
+    const componentDemand = demand.get(bp.productTypeId)
+    if (!componentDemand) continue
     
-    if (bp.blueprintName.toLowerCase().includes(lowerQuery) ||
-        bp.productName.toLowerCase().includes(lowerQuery)) {
-      results.push(bp)
+    // Demand is whole units; shares only split it between targets
+    const needed = Math.round(componentDemand.reduce((sum, qty) => sum + qty, 0))
+    if (needed <= 0) continue
+    
+    const runs = Math.ceil(needed / bp.producedQuantity)
+    const excess = runs * bp.producedQuantity - needed
+    if (excess > 0) {
+      excessTracker.set(bp.productTypeId, excess)
+    }
+    
+    // Blueprints newer than the generated SDE data have no run limit; say so rather than
+    // silently planning one oversized job
+    if (bp.maxProductionLimit === undefined && runs > 1) {
+      addWarning(`Max runs per job unknown for ${bp.blueprintName}, planned as one job: run \`npm run update-sde\` to refresh data/blueprints.json`)
     }
+    
+    // Reaction formulas cannot be researched, so they always run at ME/TE 0
+    const isReaction = bp.activityId === ACTIVITY_REACTION
+    planStep(
+      bp,
+      splitRuns(runs, bp.maxProductionLimit),
+      isReaction ? 0 : settings.componentMe,
+      isReaction ? 0 : settings.componentTe,
+      componentDemand.map(qty => qty / needed),
+      excess
+    )
   }
   
-  // Sort by relevance (exact matches first, then by name length)
-  results.sort((a, b) => {
-    const aStartsWith = a.productName.toLowerCase().startsWith(lowerQuery)
-    const bStartsWith = b.productName.toLowerCase().startsWith(lowerQuery)
-    if (aStartsWith && !bStartsWith) return -1
-    if (!aStartsWith && bStartsWith) return 1
-    return a.productName.length - b.productName.length
+  const excessMaterials = Array.from(excessTracker.entries())
+    .map(([typeId, quantity]) => ({
+      typeId,
+      name: getTypeName(typeId),
+      quantity,
+      volume: getPackagedVolume(typeId) * quantity
+    }))
+  
+  // Compare against planning one BPC and multiplying
+  const naiveMaterials: Map<number, MaterialRequirement> = new Map()
+  const naiveExcess: Map<number, number> = new Map()
+  targets.forEach(target => {
+    const naive = calculateRecursiveBuild(target.blueprintTypeId, {
+      ...settings,
+      quantity: target.quantity,
+      runs: target.runs,
+      blueprintMe: target.blueprintMe,
+      blueprintTe: target.blueprintTe
+    }, adjustedPrices)
+    addMaterials(naiveMaterials, naive.rawMaterials)
+    naive.excessMaterials.forEach(m => naiveExcess.set(m.typeId, (naiveExcess.get(m.typeId) || 0) + m.quantity))
   })
   
-  return results
+  const compare = (naive: Map<number, number>, batch: Map<number, number>): BatchSaving[] =>
+    Array.from(new Set([...naive.keys(), ...batch.keys()]))
+      .map(typeId => ({
+        typeId,
+        name: getTypeName(typeId),
+        naiveQuantity: naive.get(typeId) || 0,
+        batchQuantity: batch.get(typeId) || 0
+      }))
+      .filter(saving => saving.naiveQuantity !== saving.batchQuantity)
+  
+  const targetResults: TargetBuildResult[] = targets.map((target, i) => ({
+    target,
+    targetBlueprint: targetBlueprints[i],
+    rawMaterials: Array.from(targetRawMaterials[i].values()),
+    buildSteps: targetBuildSteps[i],
+    totalTime: targetBuildSteps[i].reduce((sum, step) => sum + step.time, 0),
+    totalJobCost: targetBuildSteps[i].reduce((sum, step) => sum + step.jobCost, 0)
+  }))
+  
+  return {
+    targets: targetResults,
+    rawMaterials: Array.from(rawMaterials.values()),
+    buildSteps,
+    totalTime: buildSteps.reduce((sum, step) => sum + step.time, 0),
+    totalJobCost: buildSteps.reduce((sum, step) => sum + step.jobCost, 0),
+    excessMaterials,
+    materialSavings: compare(
+      new Map(Array.from(naiveMaterials.values()).map(m => [m.typeId, m.adjustedQuantity])),
+      new Map(Array.from(rawMaterials.values()).map(m => [m.typeId, m.adjustedQuantity]))
+    ),
+    excessSavings: compare(naiveExcess, excessTracker)
+  }
 }
 
 /**
@@ -522,5 +1319,6 @@ export function formatDuration(seconds: number): string {
 export const industryStructures = structures.industryStructures
 export const reactionStructures = structures.reactionStructures
 export const rigs = structures.rigs
+export const rigCatalog = structures.rigCatalog
 export const securityMultipliers = structures.securityMultipliers
 
@@ -0,0 +1,45 @@
+/**
+ * Build tree cost roll-ups
+ * Prices every node of a build tree and sums each subtree's cost into its root
+ */
+
+import type { BuildTreeNode } from '@/lib/blueprints'
+
+export interface PricedBuildTreeNode extends Omit<BuildTreeNode, 'children'> {
+  unitPrice: number       // Market price per unit; 0 when the item has no price
+  marketValue: number     // What buying the consumed quantity would cost
+  materialsCost: number   // Bought inputs anywhere below this node
+  jobCosts: number        // This node's job and every job below it
+  cost: number            // materialsCost + jobCosts
+  children: PricedBuildTreeNode[]
+}
+
+/**
+ * Roll costs up a build tree
+ *
+ * Bought nodes cost what is not covered by excess at market price. Built nodes cost their
+ * job plus their children, so the first consumer of a job pays for its over-production
+ * and later consumers of that excess get it for free.
+ */
+export function priceBuildTree(
+  node: BuildTreeNode,
+  getPrice: (typeId: number) => number
+): PricedBuildTreeNode {
+  const unitPrice = getPrice(node.typeId)
+  const children = node.children.map(child => priceBuildTree(child, getPrice))
+
+  const materialsCost = node.isBuilt
+    ? children.reduce((sum, child) => sum + child.materialsCost, 0)
+    : (node.quantity - node.fromExcess) * unitPrice
+  const jobCosts = node.jobCost + children.reduce((sum, child) => sum + child.jobCosts, 0)
+
+  return {
+    ...node,
+    unitPrice,
+    marketValue: node.quantity * unitPrice,
+    materialsCost,
+    jobCosts,
+    cost: materialsCost + jobCosts,
+    children,
+  }
+}
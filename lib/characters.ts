@@ -0,0 +1,57 @@
+/**
+ * Character profile utilities
+ * Validates saved characters and turns them into the skills the calculator uses
+ */
+
+import { implants, type CharacterSkills } from '@/lib/skills'
+import type { CharacterProfile, CreateCharacterProfileRequest } from '@/types/database'
+
+function isSkillLevel(level: unknown): level is number {
+  return typeof level === 'number' && Number.isInteger(level) && level >= 0 && level <= 5
+}
+
+/**
+ * Validate a character profile request
+ * Returns an error message, or null when valid
+ */
+export function validateCharacterProfile(body: CreateCharacterProfileRequest): string | null {
+  if (!body.name?.trim()) return 'Character name is required'
+  if (!isSkillLevel(body.defaultSkillLevel)) return 'defaultSkillLevel must be an integer from 0 to 5'
+
+  if (!body.skills || typeof body.skills !== 'object') return 'skills must be an object of typeId -> level'
+  for (const [typeId, level] of Object.entries(body.skills)) {
+    if (!/^\d+$/.test(typeId)) return `Invalid skill typeId: ${typeId}`
+    if (!isSkillLevel(level)) return `Skill ${typeId} level must be an integer from 0 to 5`
+  }
+
+  for (const key of body.implants ?? []) {
+    if (!(key in implants)) return `Unknown implant: ${key}`
+  }
+
+  for (const [field, slots] of [
+    ['manufacturingSlots', body.manufacturingSlots],
+    ['reactionSlots', body.reactionSlots],
+  ] as const) {
+    if (typeof slots !== 'number' || !Number.isInteger(slots) || slots < 1) {
+      return `${field} must be a positive integer`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Convert a saved profile into calculator skills
+ */
+export function toCharacterSkills(profile: CharacterProfile): CharacterSkills {
+  const skills: Record<number, number> = {}
+  for (const [typeId, level] of Object.entries(profile.skills ?? {})) {
+    skills[Number(typeId)] = level
+  }
+
+  return {
+    skills,
+    defaultSkillLevel: profile.default_skill_level,
+    implants: profile.implants ?? [],
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Ore compression optimizer
+ * Picks the cheapest mix of compressed ores that reprocesses into a mineral list
+ */
+
+import { getTypeName } from '@/lib/blueprints'
+import { MINERAL_TYPE_IDS } from '@/lib/esi'
+import { getReprocessingData, isOre, getReprocessableTypes, type ReprocessingData } from '@/lib/reprocessing'
+
+export interface CompressionOre {
+  typeId: number
+  name: string
+  batches: number
+  quantity: number                // Units to buy (batches * portionSize)
+  price: number                   // Per unit
+  totalPrice: number
+}
+
+export interface CompressionYield {
+  typeId: number
+  name: string
+  needed: number
+  produced: number                // After rounding down each ore's yield
+  surplus: number
+}
+
+export interface CompressionPlan {
+  ores: CompressionOre[]
+  yields: CompressionYield[]
+  oreCost: number
+  uncovered: number[]             // Minerals no priced ore yields; buy these outright
+}
+
+const MINERAL_IDS = new Set<number>(Object.values(MINERAL_TYPE_IDS))
+
+const EPSILON = 1e-9
+
+/**
+ * Check if a type is one of the eight minerals
+ */
+export function isMineral(typeId: number): boolean {
+  return MINERAL_IDS.has(typeId)
+}
+
+/**
+ * Get the compressed asteroid ores that reprocess into minerals only
+ * Moon ores and ice are left out since their other yields would be wasted here.
+ */
+export function getCompressedOres(): ReprocessingData[] {
+  return getReprocessableTypes().filter(ore =>
+    isOre(ore.typeId) &&
+    getTypeName(ore.typeId).startsWith('Compressed ') &&
+    ore.materials.length > 0 &&
+    ore.materials.every(m => isMineral(m.typeId))
+  )
+}
+
+/**
+ * Minimize c.x subject to A.x >= b, x >= 0 (c >= 0)
+ *
+ * Solves the dual (maximize b.y subject to A'.y <= c, y >= 0), which starts feasible at
+ * y = 0, with Bland's rule. The primal solution is read from the slack columns of the
+ * final objective row. Returns null when the dual is unbounded (A.x >= b infeasible).
+ */
+function solveCoveringLP(costs: number[], yields: number[][], needed: number[]): number[] | null {
+  const n = costs.length          // Ores (primal variables, dual constraints)
+  const m = needed.length         // Minerals (primal constraints, dual variables)
+  const width = m + n + 1
+
+  const rows = costs.map((cost, i) => {
+    const row = new Array<number>(width).fill(0)
+    for (let j = 0; j < m; j++) row[j] = yields[i][j]
+    row[m + i] = 1
+    row[width - 1] = cost
+    return row
+  })
+  const objective = new Array<number>(width).fill(0)
+  for (let j = 0; j < m; j++) objective[j] = -needed[j]
+
+  for (let iteration = 0; iteration < 10_000; iteration++) {
+    const entering = objective.findIndex((value, col) => col < width - 1 && value < -EPSILON)
+    if (entering === -1) break
+
+    let leaving = -1
+    let bestRatio = Infinity
+    for (let i = 0; i < n; i++) {
+      if (rows[i][entering] > EPSILON) {
+        const ratio = rows[i][width - 1] / rows[i][entering]
+        if (ratio < bestRatio - EPSILON) {
+          bestRatio = ratio
+          leaving = i
+        }
+      }
+    }
+    if (leaving === -1) return null
+
+    const pivot = rows[leaving][entering]
+    for (let col = 0; col < width; col++) rows[leaving][col] /= pivot
+    for (const row of [...rows.filter((_, i) => i !== leaving), objective]) {
+      const factor = row[entering]
+      if (Math.abs(factor) > EPSILON) {
+        for (let col = 0; col < width; col++) row[col] -= factor * rows[leaving][col]
+      }
+    }
+  }
+
+  return costs.map((_, i) => Math.max(0, objective[m + i]))
+}
+
+/**
+ * Find the cheapest compressed ore mix that covers the needed minerals
+ *
+ * @param minerals - Mineral typeId -> quantity needed
+ * @param getPrice - Price per unit of a compressed ore (0 when it has no market price)
+ * @param reprocessingRate - Reprocessing yield as a decimal (e.g. 0.724)
+ */
+export function optimizeCompression(
+  minerals: Map<number, number>,
+  getPrice: (typeId: number) => number,
+  reprocessingRate: number
+): CompressionPlan {
+  const ores = getCompressedOres().filter(ore => getPrice(ore.typeId) > 0)
+  const yieldOf = (ore: ReprocessingData, mineralId: number) =>
+    ore.materials.find(m => m.typeId === mineralId)?.quantity ?? 0
+
+  // Only minerals that some priced ore yields can be covered
+  const wanted = Array.from(minerals.entries()).filter(([typeId, quantity]) => isMineral(typeId) && quantity > 0)
+  const covered = wanted.filter(([typeId]) => ores.some(ore => yieldOf(ore, typeId) > 0))
+  const uncovered = wanted.filter(([typeId]) => !covered.some(([id]) => id === typeId)).map(([typeId]) => typeId)
+
+  const batches = new Map<number, number>()
+  if (covered.length > 0 && ores.length > 0) {
+    // LP per batch, then round each ore up to whole batches
+    const solution = solveCoveringLP(
+      ores.map(ore => getPrice(ore.typeId) * ore.portionSize),
+      ores.map(ore => covered.map(([typeId]) => yieldOf(ore, typeId) * reprocessingRate)),
+      covered.map(([, quantity]) => quantity)
+    ) ?? []
+    solution.forEach((x, i) => {
+      if (x > EPSILON) batches.set(ores[i].typeId, Math.ceil(x - EPSILON))
+    })
+  }
+
+  // Reprocessing rounds each mineral down per ore stack
+  const produced = (mineralId: number) => ores.reduce((sum, ore) =>
+    sum + Math.floor((batches.get(ore.typeId) ?? 0) * yieldOf(ore, mineralId) * reprocessingRate), 0)
+
+  // Top up any mineral the rounding left short with the cheapest ore per unit of it
+  for (const [mineralId, quantity] of covered) {
+    let guard = 0
+    while (produced(mineralId) < quantity && guard++ < 1000) {
+      const best = ores
+        .filter(ore => yieldOf(ore, mineralId) > 0)
+        .reduce((a, b) =>
+          getPrice(a.typeId) * a.portionSize / yieldOf(a, mineralId) <=
+          getPrice(b.typeId) * b.portionSize / yieldOf(b, mineralId) ? a : b)
+      batches.set(best.typeId, (batches.get(best.typeId) ?? 0) + 1)
+    }
+  }
+
+  const plannedOres: CompressionOre[] = ores
+    .filter(ore => (batches.get(ore.typeId) ?? 0) > 0)
+    .map(ore => {
+      const oreBatches = batches.get(ore.typeId)!
+      const quantity = oreBatches * ore.portionSize
+      const price = getPrice(ore.typeId)
+      return {
+        typeId: ore.typeId,
+        name: getTypeName(ore.typeId),
+        batches: oreBatches,
+        quantity,
+        price,
+        totalPrice: price * quantity,
+      }
+    })
+
+  const yieldedMinerals = new Set<number>()
+  for (const ore of plannedOres) {
+    getReprocessingData(ore.typeId)?.materials.forEach(m => yieldedMinerals.add(m.typeId))
+  }
+  const yields: CompressionYield[] = Array.from(new Set([...wanted.map(([id]) => id), ...yieldedMinerals]))
+    .map(typeId => {
+      const needed = minerals.get(typeId) ?? 0
+      const total = produced(typeId)
+      return {
+        typeId,
+        name: getTypeName(typeId),
+        needed,
+        produced: total,
+        surplus: Math.max(0, total - needed),
+      }
+    })
+
+  return {
+    ores: plannedOres,
+    yields,
+    oreCost: plannedOres.reduce((sum, ore) => sum + ore.totalPrice, 0),
+    uncovered,
+  }
+}
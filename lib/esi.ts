@@ -1,193 +1,130 @@
 /**
  * EVE Online Industry API client
- * Uses eve-industry.org API for cost indices and job base costs
- * Falls back to ESI for other data
+ * ESI for system cost indices, adjusted prices (job cost EIV, reprocessing tax) and market orders
  */
 
-const EVE_INDUSTRY_API = 'http://api.eve-industry.org'
-const ESI_BASE = 'https://esi.evetech.net/latest'
+import solarSystemsData from '@/data/solar-systems.json'
+import { httpRequest, type CachePolicy } from '@/lib/http'
+import { addWarning } from '@/lib/warnings'
+
+// Overridable to point at a stand-in server
+const ESI_BASE = process.env.ESI_BASE_URL || 'https://esi.evetech.net/latest'
+
+const HOUR = 60 * 60 * 1000
+
+// ESI refreshes cost indices hourly; a week-old index is still better than none
+const COST_INDEX_CACHE: CachePolicy = { ttl: HOUR, staleTtl: 7 * 24 * HOUR }
+// CCP refreshes adjusted prices about once a day
+const ADJUSTED_PRICES_CACHE: CachePolicy = { ttl: HOUR, staleTtl: 7 * 24 * HOUR }
+// ESI caches market orders for 5 minutes
+const MARKET_ORDERS_CACHE: CachePolicy = { ttl: 5 * 60 * 1000, staleTtl: HOUR }
+
+// Fallback for callers with nothing better when no cost index is known (0.01%)
+export const DEFAULT_COST_INDEX = 0.0001
+
+// ESI names activities rather than numbering them
+const COST_INDEX_ACTIVITIES: Record<string, number> = {
+  manufacturing: 1,
+  researching_time_efficiency: 3,
+  researching_material_efficiency: 4,
+  copying: 5,
+  reverse_engineering: 7,
+  invention: 8,
+  reaction: 11,
+}
 
-// Cache for system cost indices (refreshes every hour)
-const systemCostIndexCache: Map<string, { data: Map<number, number>; time: number }> = new Map()
-const CACHE_DURATION = 60 * 60 * 1000 // 1 hour
+const solarSystemIds = new Map(solarSystemsData.map(system => [system.name.toLowerCase(), system.id]))
 
-// Cache for job base costs
-const jobBaseCostCache: Map<number, number> = new Map()
+// Parsed cost indices and adjusted prices of the cached responses they came from
+let costIndexCache: { data: Map<number, Map<number, number>>; fetchedAt: string } | null = null
+let adjustedPriceCache: { data: Map<number, number>; fetchedAt: string } | null = null
 
 /**
- * Parse XML response from eve-industry.org API
+ * Get the cost indices of every system from ESI, keyed by solar system ID and then activity ID
  */
-function parseXML(xmlText: string): Document {
-  // Simple XML parsing for Node.js/browser
-  if (typeof DOMParser !== 'undefined') {
-    return new DOMParser().parseFromString(xmlText, 'text/xml')
-  }
-  // For server-side, we'll parse manually
-  throw new Error('XML parsing not available on server')
-}
+async function getCostIndices(): Promise<Map<number, Map<number, number>>> {
+  const response = await httpRequest(`${ESI_BASE}/industry/systems/`, {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'EveIndustryTracker/1.0'
+    },
+    label: 'ESI',
+    cache: COST_INDEX_CACHE,
+  })
 
-/**
- * Parse system cost index XML manually (works on server)
- */
-function parseSystemCostIndexXML(xmlText: string): Map<number, number> {
-  const result = new Map<number, number>()
-  
-  // Match activity elements: <activity id="1" name="Manufacturing">0.057464877494819</activity>
-  const activityRegex = /<activity\s+id="(\d+)"[^>]*>([^<]+)<\/activity>/g
-  let match
-  
-  while ((match = activityRegex.exec(xmlText)) !== null) {
-    const activityId = parseInt(match[1])
-    const costIndex = parseFloat(match[2])
-    if (!isNaN(activityId) && !isNaN(costIndex)) {
-      result.set(activityId, costIndex)
-    }
+  if (!response.ok) {
+    throw new Error(`ESI error (${response.status}): Failed to fetch system cost indices`)
+  }
+  if (costIndexCache?.fetchedAt === response.fetchedAt) {
+    return costIndexCache.data
   }
-  
-  return result
-}
 
-/**
- * Parse job base cost XML manually (works on server)
- */
-function parseJobBaseCostXML(xmlText: string): Map<number, number> {
-  const result = new Map<number, number>()
-  
-  // Match job-base-cost elements: <job-base-cost id="1318" name="...">1540.3584</job-base-cost>
-  const costRegex = /<job-base-cost\s+id="(\d+)"[^>]*>([^<]+)<\/job-base-cost>/g
-  let match
-  
-  while ((match = costRegex.exec(xmlText)) !== null) {
-    const typeId = parseInt(match[1])
-    const cost = parseFloat(match[2])
-    if (!isNaN(typeId) && !isNaN(cost)) {
-      result.set(typeId, cost)
+  const systems = response.json<{ solar_system_id: number; cost_indices: { activity: string; cost_index: number }[] }[]>()
+
+  const indices = new Map<number, Map<number, number>>()
+  for (const system of systems) {
+    const byActivity = new Map<number, number>()
+    for (const { activity, cost_index } of system.cost_indices) {
+      const activityId = COST_INDEX_ACTIVITIES[activity]
+      if (activityId !== undefined) byActivity.set(activityId, cost_index)
     }
+    indices.set(system.solar_system_id, byActivity)
   }
-  
-  return result
+
+  costIndexCache = { data: indices, fetchedAt: response.fetchedAt }
+  return indices
 }
 
 /**
- * Get system cost index from eve-industry.org API
+ * Get a system's cost index from ESI
  * Activity IDs: 1=Manufacturing, 3=TE Research, 4=ME Research, 5=Copying, 7=Reverse Engineering, 8=Invention, 11=Reactions
+ * @returns The index, or null (with a warning) when it could not be fetched; callers pick their own fallback
  */
 export async function getSystemCostIndex(
   systemName: string,
   activityId: number = 1 // 1 = Manufacturing, 11 = Reactions
-): Promise<number> {
-  const cacheKey = systemName.toLowerCase()
-  const now = Date.now()
-  
-  // Check cache
-  const cached = systemCostIndexCache.get(cacheKey)
-  if (cached && (now - cached.time) < CACHE_DURATION) {
-    return cached.data.get(activityId) ?? 0.0001
+): Promise<number | null> {
+  const systemId = solarSystemIds.get(systemName.toLowerCase())
+  if (systemId === undefined) {
+    addWarning(`Unknown solar system ${systemName}, cost index unavailable`)
+    return null
   }
-  
+
   try {
-    const response = await fetch(
-      `${EVE_INDUSTRY_API}/system-cost-index.xml?name=${encodeURIComponent(systemName)}`,
-      {
-        headers: {
-          'User-Agent': 'EveIndustryTracker/1.0',
-          'Accept': 'application/xml'
-        }
-      }
-    )
-    
-    if (!response.ok) {
-      console.warn(`eve-industry.org API error (${response.status}) for system ${systemName}`)
-      return 0.0001
+    const costIndex = (await getCostIndices()).get(systemId)?.get(activityId)
+    if (costIndex === undefined) {
+      addWarning(`No cost index for activity ${activityId} in ${systemName}`)
+      return null
     }
-    
-    const xmlText = await response.text()
-    const costIndices = parseSystemCostIndexXML(xmlText)
-    
-    // Cache the result
-    systemCostIndexCache.set(cacheKey, { data: costIndices, time: now })
-    
-    return costIndices.get(activityId) ?? 0.0001
+    return costIndex
   } catch (error) {
-    console.warn(`Failed to fetch cost index for ${systemName}:`, error)
-    return 0.0001
+    addWarning(`Failed to fetch cost index for ${systemName}: ${error instanceof Error ? error.message : error}`)
+    return null
   }
 }
 
 /**
- * Get base job installation cost from eve-industry.org API
- * @param blueprintTypeIds - Array of blueprint type IDs
- */
-export async function getJobBaseCosts(blueprintTypeIds: number[]): Promise<Map<number, number>> {
-  const result = new Map<number, number>()
-  const uncachedIds: number[] = []
-  
-  // Check cache first
-  for (const id of blueprintTypeIds) {
-    if (jobBaseCostCache.has(id)) {
-      result.set(id, jobBaseCostCache.get(id)!)
-    } else {
-      uncachedIds.push(id)
-    }
-  }
-  
-  // Fetch uncached IDs
-  if (uncachedIds.length > 0) {
-    try {
-      const idsParam = uncachedIds.join(',')
-      const response = await fetch(
-        `${EVE_INDUSTRY_API}/job-base-cost.xml?ids=${idsParam}`,
-        {
-          headers: {
-            'User-Agent': 'EveIndustryTracker/1.0',
-            'Accept': 'application/xml'
-          }
-        }
-      )
-      
-      if (response.ok) {
-        const xmlText = await response.text()
-        const costs = parseJobBaseCostXML(xmlText)
-        
-        // Cache and add to result
-        for (const [id, cost] of costs) {
-          jobBaseCostCache.set(id, cost)
-          result.set(id, cost)
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to fetch job base costs:', error)
-    }
-  }
-  
-  return result
-}
-
-/**
- * Get single job base cost
- */
-export async function getJobBaseCost(blueprintTypeId: number): Promise<number> {
-  const costs = await getJobBaseCosts([blueprintTypeId])
-  return costs.get(blueprintTypeId) ?? 0
-}
-
-/**
- * Get adjusted prices for items from ESI (used as fallback for job cost calculations)
- * These are CCP's "adjusted prices" used for industry calculations
+ * Get adjusted prices for items from ESI
+ * These are CCP's "adjusted prices" used for the estimated item value of industry jobs
  */
 export async function getAdjustedPrices(): Promise<Map<number, number>> {
-  const response = await fetch(`${ESI_BASE}/markets/prices/`, {
+  const response = await httpRequest(`${ESI_BASE}/markets/prices/`, {
     headers: {
       'Accept': 'application/json',
       'User-Agent': 'EveIndustryTracker/1.0'
-    }
+    },
+    label: 'ESI',
+    cache: ADJUSTED_PRICES_CACHE,
   })
 
   if (!response.ok) {
     throw new Error(`ESI error (${response.status}): Failed to fetch market prices`)
   }
+  if (adjustedPriceCache?.fetchedAt === response.fetchedAt) {
+    return adjustedPriceCache.data
+  }
 
-  const prices: { adjusted_price?: number; average_price?: number; type_id: number }[] = await response.json()
+  const prices = response.json<{ adjusted_price?: number; average_price?: number; type_id: number }[]>()
   
   const priceMap = new Map<number, number>()
   for (const item of prices) {
@@ -196,9 +133,53 @@ export async function getAdjustedPrices(): Promise<Map<number, number>> {
     priceMap.set(item.type_id, price)
   }
   
+  adjustedPriceCache = { data: priceMap, fetchedAt: response.fetchedAt }
   return priceMap
 }
 
+export interface MarketOrder {
+  order_id: number
+  type_id: number
+  location_id: number
+  is_buy_order: boolean
+  price: number
+  volume_remain: number
+}
+
+/**
+ * Get every open buy and sell order for a type in a region
+ * ESI pages the orders; the X-Pages header says how many pages there are
+ */
+export async function getMarketOrders(regionId: number, typeId: number): Promise<MarketOrder[]> {
+  const orders: MarketOrder[] = []
+  let pages = 1
+
+  for (let page = 1; page <= pages; page++) {
+    const params = new URLSearchParams({
+      order_type: 'all',
+      type_id: typeId.toString(),
+      page: page.toString(),
+    })
+    const response = await httpRequest(`${ESI_BASE}/markets/${regionId}/orders/?${params}`, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'EveIndustryTracker/1.0'
+      },
+      label: 'ESI',
+      cache: MARKET_ORDERS_CACHE,
+    })
+
+    if (!response.ok) {
+      throw new Error(`ESI error (${response.status}): Failed to fetch market orders for type ${typeId}`)
+    }
+
+    pages = parseInt(response.headers['x-pages'] ?? '1') || 1
+    orders.push(...response.json<MarketOrder[]>())
+  }
+
+  return orders
+}
+
 // Well-known system IDs for quick lookup
 export const KNOWN_SYSTEMS = {
   JITA: 30000142,
@@ -229,98 +210,3 @@ export const MINERAL_TYPE_IDS = {
   MEGACYTE: 40,
   MORPHITE: 11399,
 } as const
-
-/**
- * Ore compression result from eve-industry.org API
- */
-export interface CompressionResult {
-  ores: Map<string, number>  // Ore name -> quantity
-}
-
-/**
- * Parse compression XML response
- */
-function parseCompressionXML(xmlText: string): Map<string, number> {
-  const result = new Map<string, number>()
-  
-  // Match ore elements like: <Kernite>12803511</Kernite>
-  const oreRegex = /<(\w+)>(\d+)<\/\1>/g
-  let match
-  
-  while ((match = oreRegex.exec(xmlText)) !== null) {
-    const oreName = match[1]
-    const quantity = parseInt(match[2])
-    // Skip the API metadata elements
-    if (oreName !== 'eve-industry-api' && !isNaN(quantity) && quantity > 0) {
-      result.set(oreName, quantity)
-    }
-  }
-  
-  return result
-}
-
-/**
- * Get optimal ore compression from eve-industry.org API
- * @param minerals - Map of mineral name -> quantity needed
- * @param reprocessRate - Effective reprocessing rate as percentage (e.g., 72.4 for 72.4%)
- * @param securityLevel - 'highsec', 'lowsec', or 'nullsec'
- */
-export async function getOreCompression(
-  minerals: Map<string, number>,
-  reprocessRate: number = 72.4,
-  securityLevel: 'highsec' | 'lowsec' | 'nullsec' = 'highsec'
-): Promise<Map<string, number>> {
-  // Build the query parameters
-  const params = new URLSearchParams()
-  params.set('rate', reprocessRate.toString())
-  
-  // Map mineral names to parameter names (lowercase)
-  const mineralMapping: Record<string, string> = {
-    'Tritanium': 'tritanium',
-    'Pyerite': 'pyerite',
-    'Mexallon': 'mexallon',
-    'Isogen': 'isogen',
-    'Nocxium': 'nocxium',
-    'Zydrine': 'zydrine',
-    'Megacyte': 'megacyte',
-    // Note: Morphite is not included in basic ore compression
-  }
-  
-  for (const [mineralName, quantity] of minerals) {
-    const paramName = mineralMapping[mineralName]
-    if (paramName && quantity > 0) {
-      params.set(paramName, Math.ceil(quantity).toString())
-    }
-  }
-  
-  // Choose the right endpoint based on security level
-  const endpoint = securityLevel === 'highsec' 
-    ? 'highsec-compression.xml'
-    : securityLevel === 'lowsec'
-    ? 'lowsec-compression.xml'
-    : 'nullsec-compression.xml'
-  
-  try {
-    const response = await fetch(
-      `${EVE_INDUSTRY_API}/${endpoint}?${params.toString()}`,
-      {
-        headers: {
-          'User-Agent': 'EveIndustryTracker/1.0',
-          'Accept': 'application/xml'
-        }
-      }
-    )
-    
-    if (!response.ok) {
-      console.warn(`eve-industry.org compression API error (${response.status})`)
-      return new Map()
-    }
-    
-    const xmlText = await response.text()
-    return parseCompressionXML(xmlText)
-  } catch (error) {
-    console.warn('Failed to fetch ore compression:', error)
-    return new Map()
-  }
-}
-
@@ -0,0 +1,78 @@
+/**
+ * Facility profile utilities
+ * Resolves saved facility profiles into the bonuses and cost index the calculator uses
+ */
+
+import {
+  getStructureBonus,
+  getReactionStructureBonus,
+  getGenericRig,
+  getCatalogRig,
+  getSecurityMultiplier,
+  industryStructures,
+  reactionStructures,
+  rigs,
+  rigCatalog,
+  securityMultipliers,
+  type Facility,
+} from '@/lib/blueprints'
+import { DEFAULT_COST_INDEX, getSystemCostIndex } from '@/lib/esi'
+import type { FacilityProfile, CreateFacilityProfileRequest } from '@/types/database'
+
+/**
+ * Validate a facility profile request against the structure data
+ * Returns an error message, or null when valid
+ */
+export function validateFacilityProfile(body: CreateFacilityProfileRequest): string | null {
+  if (!body.name?.trim()) return 'Facility name is required'
+  if (!body.systemName?.trim()) return 'System name is required'
+
+  if (body.activity === 'reaction') {
+    if (!(body.structureType in reactionStructures)) return `Unknown reaction structure: ${body.structureType}`
+  } else if (body.activity === 'manufacturing') {
+    if (!(body.structureType in industryStructures)) return `Unknown industry structure: ${body.structureType}`
+  } else {
+    return 'activity must be "manufacturing" or "reaction"'
+  }
+
+  if (!(body.rigType in rigs)) return `Unknown rig: ${body.rigType}`
+  for (const key of body.rigs ?? []) {
+    const rig = (rigCatalog as Record<string, { activity: string }>)[key]
+    if (!rig) return `Unknown rig: ${key}`
+    if (rig.activity !== body.activity) return `${key} cannot be fitted to a ${body.activity} facility`
+  }
+  if (!(body.securityType in securityMultipliers)) return `Unknown security type: ${body.securityType}`
+
+  if (typeof body.facilityTax !== 'number' || isNaN(body.facilityTax) || body.facilityTax < 0) {
+    return 'facilityTax must be a non-negative number'
+  }
+
+  return null
+}
+
+/**
+ * Resolve a saved profile into a calculator facility
+ * Fetches the cost index for the profile's system and activity
+ */
+export async function resolveFacilityProfile(profile: FacilityProfile): Promise<Facility> {
+  const isReaction = profile.activity === 'reaction'
+
+  const structureBonus = isReaction
+    ? getReactionStructureBonus(profile.structure_type as keyof typeof reactionStructures)
+    : getStructureBonus(profile.structure_type as keyof typeof industryStructures)
+
+  const costIndex = await getSystemCostIndex(profile.system_name, isReaction ? 11 : 1) ?? DEFAULT_COST_INDEX
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    activity: profile.activity,
+    structureBonus,
+    rigs: profile.rigs?.length
+      ? profile.rigs.flatMap(key => getCatalogRig(key) ?? [])
+      : [getGenericRig(profile.rig_type as keyof typeof rigs)],
+    securityMultiplier: getSecurityMultiplier(profile.security_type),
+    costIndex,
+    facilityTax: profile.facility_tax / 100, // Stored as percentage
+  }
+}
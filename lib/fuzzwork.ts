@@ -0,0 +1,84 @@
+/**
+ * Fuzzwork market API client
+ * Aggregated buy and sell order statistics per station, refreshed from ESI every 30 minutes
+ */
+
+import { httpRequest, type CachePolicy } from '@/lib/http'
+
+// Overridable to point at a stand-in server
+const FUZZWORK_API_BASE = process.env.FUZZWORK_API_BASE || 'https://market.fuzzwork.co.uk'
+
+// The API accepts long type lists, but URLs have limits
+const AGGREGATE_CHUNK_SIZE = 200
+
+// Aggregates are rebuilt every 30 minutes
+const AGGREGATES_CACHE: CachePolicy = { ttl: 30 * 60 * 1000, staleTtl: 6 * 60 * 60 * 1000 }
+
+// Fuzzwork returns every number as a string
+interface FuzzworkOrderStats {
+  weightedAverage: string
+  max: string
+  min: string
+  stddev: string
+  median: string
+  volume: string
+  orderCount: string
+  percentile: string
+}
+
+export interface MarketAggregate {
+  typeId: number
+  buyMax: number             // Highest buy order
+  sellMin: number            // Lowest sell order
+  buyPercentile: number      // Average of the best 5% of buy order volume
+  sellPercentile: number     // Average of the best 5% of sell order volume
+  buyVolume: number          // Units on buy orders
+  sellVolume: number         // Units on sell orders
+  buyOrderCount: number
+  sellOrderCount: number
+}
+
+/**
+ * Get buy and sell aggregates for types at a station
+ * @param typeIds - Types to look up
+ * @param stationId - Station or structure whose orders are aggregated (e.g. 60003760 for Jita 4-4)
+ */
+export async function getMarketAggregates(
+  typeIds: number[],
+  stationId: number
+): Promise<Map<number, MarketAggregate>> {
+  const aggregates = new Map<number, MarketAggregate>()
+
+  for (let i = 0; i < typeIds.length; i += AGGREGATE_CHUNK_SIZE) {
+    const params = new URLSearchParams({
+      station: stationId.toString(),
+      types: typeIds.slice(i, i + AGGREGATE_CHUNK_SIZE).join(','),
+    })
+    const response = await httpRequest(`${FUZZWORK_API_BASE}/aggregates/?${params}`, {
+      headers: { 'Accept': 'application/json' },
+      label: 'Fuzzwork',
+      cache: AGGREGATES_CACHE,
+    })
+
+    if (!response.ok) {
+      throw new Error(`Fuzzwork API error (${response.status}): Failed to fetch market aggregates`)
+    }
+
+    const data = response.json<Record<string, { buy: FuzzworkOrderStats; sell: FuzzworkOrderStats }>>()
+    for (const [typeId, stats] of Object.entries(data)) {
+      aggregates.set(Number(typeId), {
+        typeId: Number(typeId),
+        buyMax: parseFloat(stats.buy.max) || 0,
+        sellMin: parseFloat(stats.sell.min) || 0,
+        buyPercentile: parseFloat(stats.buy.percentile) || 0,
+        sellPercentile: parseFloat(stats.sell.percentile) || 0,
+        buyVolume: parseFloat(stats.buy.volume) || 0,
+        sellVolume: parseFloat(stats.sell.volume) || 0,
+        buyOrderCount: parseInt(stats.buy.orderCount) || 0,
+        sellOrderCount: parseInt(stats.sell.orderCount) || 0,
+      })
+    }
+  }
+
+  return aggregates
+}
@@ -0,0 +1,289 @@
+/**
+ * HTTP client for external APIs
+ * Timeouts, retries with exponential backoff, per-host rate limits, request coalescing and a
+ * persistent cache (Supabase http_cache table) that serves stale data when a source is down
+ */
+
+import { createHash } from 'node:crypto'
+import { createClient } from '@/utils/supabase/server'
+import { addWarning } from '@/lib/warnings'
+
+export interface CachePolicy {
+  ttl: number                // ms a response stays fresh
+  staleTtl?: number          // ms past ttl a response may still be served when the source fails (default 0)
+}
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  label?: string             // Name used in errors and warnings (default: the host)
+  timeout?: number           // ms per attempt (default 15s)
+  retries?: number           // Extra attempts on network errors, timeouts, 429 and 5xx (default 3, 0 for POST)
+  cache?: CachePolicy        // Only successful responses are cached
+}
+
+export interface HttpResponse {
+  ok: boolean
+  status: number
+  text: string
+  headers: Record<string, string>
+  fetchedAt: string          // When the source produced this response
+  cached: boolean            // Served from the cache instead of the source
+  stale: boolean             // Served from the cache past its ttl because the source failed
+  staleWarning?: string      // Why stale data was served; added to every caller's warnings
+  json<T>(): T
+}
+
+interface CacheEntry {
+  status: number
+  text: string
+  headers: Record<string, string>
+  fetchedAt: number
+}
+
+const DEFAULT_TIMEOUT = 15 * 1000
+const DEFAULT_RETRIES = 3
+const DEFAULT_POST_RETRIES = 0      // A POST may have side effects, so it is only retried on request
+const BACKOFF_BASE = 500            // ms before the first retry, doubled each time
+const BACKOFF_MAX = 10 * 1000
+const RETRY_AFTER_MAX = 30 * 1000   // Longest Retry-After we are willing to wait
+
+// Requests per second per host; anything else gets the default
+const HOST_RATE_LIMITS: Record<string, number> = {
+  'esi.evetech.net': 20,
+  'janice.e-351.com': 2,
+  'market.fuzzwork.co.uk': 2,
+}
+const DEFAULT_RATE_LIMIT = 10
+
+// In-process cache in front of the persistent one; oldest entries go first
+const MEMORY_CACHE_SIZE = 500
+const memoryCache = new Map<string, CacheEntry>()
+
+const inFlight = new Map<string, Promise<HttpResponse>>()
+const nextSlot = new Map<string, number>()
+
+// Turned off for the process when the table is missing or Supabase is not configured
+let persistentCacheEnabled = true
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function toResponse(entry: CacheEntry, cached: boolean, staleWarning?: string): HttpResponse {
+  return {
+    ok: entry.status >= 200 && entry.status < 300,
+    status: entry.status,
+    text: entry.text,
+    headers: entry.headers,
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    cached,
+    stale: staleWarning !== undefined,
+    staleWarning,
+    json: () => JSON.parse(entry.text),
+  }
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return 'under a minute'
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.round(minutes / 60)
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Wait for the host's next request slot
+ */
+async function acquireSlot(host: string): Promise<void> {
+  const interval = 1000 / (HOST_RATE_LIMITS[host] ?? DEFAULT_RATE_LIMIT)
+  const now = Date.now()
+  const slot = Math.max(now, nextSlot.get(host) ?? 0)
+  nextSlot.set(host, slot + interval)
+  if (slot > now) await sleep(slot - now)
+}
+
+function disablePersistentCache(reason: string) {
+  if (!persistentCacheEnabled) return
+  persistentCacheEnabled = false
+  console.warn(`HTTP cache: persistent cache disabled (${reason}), using memory only`)
+}
+
+async function readCache(key: string): Promise<CacheEntry | null> {
+  const memory = memoryCache.get(key)
+  if (memory || !persistentCacheEnabled) return memory ?? null
+
+  try {
+    const { data, error } = await createClient()
+      .from('http_cache')
+      .select('status, body, headers, fetched_at')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      disablePersistentCache(error.message)
+      return null
+    }
+    if (!data) return null
+
+    const entry: CacheEntry = {
+      status: data.status,
+      text: data.body,
+      headers: data.headers ?? {},
+      fetchedAt: new Date(data.fetched_at).getTime(),
+    }
+    memoryCache.set(key, entry)
+    return entry
+  } catch (error) {
+    disablePersistentCache(error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+async function writeCache(key: string, url: string, entry: CacheEntry, policy: CachePolicy): Promise<void> {
+  memoryCache.delete(key)
+  memoryCache.set(key, entry)
+  if (memoryCache.size > MEMORY_CACHE_SIZE) {
+    memoryCache.delete(memoryCache.keys().next().value as string)
+  }
+  if (!persistentCacheEnabled) return
+
+  try {
+    const { error } = await createClient()
+      .from('http_cache')
+      .upsert({
+        key,
+        url,
+        status: entry.status,
+        body: entry.text,
+        headers: entry.headers,
+        fetched_at: new Date(entry.fetchedAt).toISOString(),
+        expires_at: new Date(entry.fetchedAt + policy.ttl + (policy.staleTtl ?? 0)).toISOString(),
+      })
+
+    if (error) disablePersistentCache(error.message)
+  } catch (error) {
+    disablePersistentCache(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Send a request, retrying network errors, timeouts, 429 and 5xx with exponential backoff
+ * @returns The last response, or throws the last network error
+ */
+async function send(url: string, options: HttpRequestOptions, label: string): Promise<CacheEntry> {
+  const host = new URL(url).host
+  const retries = options.retries ?? (options.method === 'POST' ? DEFAULT_POST_RETRIES : DEFAULT_RETRIES)
+  let lastError: unknown = null
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const backoff = Math.min(BACKOFF_BASE * 2 ** (attempt - 1), BACKOFF_MAX)
+      await sleep(backoff + Math.random() * BACKOFF_BASE)
+    }
+    await acquireSlot(host)
+
+    try {
+      const response = await fetch(url, {
+        method: options.method ?? 'GET',
+        headers: options.headers,
+        body: options.body,
+        signal: AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT),
+      })
+      const entry: CacheEntry = {
+        status: response.status,
+        text: await response.text(),
+        headers: Object.fromEntries(response.headers.entries()),
+        fetchedAt: Date.now(),
+      }
+      if (!isRetryable(response.status) || attempt === retries) return entry
+
+      // Honor the server's Retry-After when it is reasonable
+      const retryAfter = parseFloat(response.headers.get('Retry-After') ?? '') * 1000
+      if (retryAfter > 0 && retryAfter <= RETRY_AFTER_MAX) await sleep(retryAfter)
+      lastError = new Error(`${label} error (${response.status})`)
+    } catch (error) {
+      lastError = error instanceof Error && error.name === 'TimeoutError'
+        ? new Error(`${label} timed out after ${(options.timeout ?? DEFAULT_TIMEOUT) / 1000}s`)
+        : error
+    }
+  }
+
+  throw lastError
+}
+
+async function request(url: string, options: HttpRequestOptions, key: string): Promise<HttpResponse> {
+  const label = options.label ?? new URL(url).host
+  const policy = options.cache
+  const cached = policy ? await readCache(key) : null
+
+  if (policy && cached && Date.now() - cached.fetchedAt < policy.ttl) {
+    return toResponse(cached, true)
+  }
+
+  let entry: CacheEntry | null = null
+  let failure: string
+  try {
+    entry = await send(url, options, label)
+    if (!isRetryable(entry.status)) {
+      if (policy && entry.status >= 200 && entry.status < 300) await writeCache(key, url, entry, policy)
+      return toResponse(entry, false)
+    }
+    failure = `HTTP ${entry.status}`
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error)
+  }
+
+  // The source is down: fall back to a stale copy while it is within its grace period
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity
+  if (policy && cached && age < policy.ttl + (policy.staleTtl ?? 0)) {
+    return toResponse(cached, true, `${label}: using cached data from ${formatAge(age)} ago (${failure})`)
+  }
+
+  if (entry) return toResponse(entry, false)
+  throw new Error(`${label} request failed: ${failure}`)
+}
+
+/**
+ * Request an external API
+ *
+ * Identical requests in flight share one call. Responses that are not OK are returned,
+ * not thrown, so callers can report them; network errors and timeouts that outlast the
+ * retries throw unless a stale cached copy can be served, which adds a request warning
+ * for every caller sharing the call.
+ */
+export function httpRequest(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+  const method = options.method ?? 'GET'
+  const key = `${method} ${url}${options.body ? ` ${createHash('sha256').update(options.body).digest('hex')}` : ''}`
+
+  let promise = inFlight.get(key)
+  if (!promise) {
+    promise = request(url, options, key).finally(() => inFlight.delete(key))
+    inFlight.set(key, promise)
+  }
+
+  // Warnings belong to each caller's request, not just the one that started the call
+  return promise.then(response => {
+    if (response.staleWarning) addWarning(response.staleWarning)
+    return response
+  })
+}
+
+/**
+ * Delete cached responses that are past their stale grace period
+ */
+export async function pruneHttpCache(): Promise<void> {
+  if (!persistentCacheEnabled) return
+
+  const { error } = await createClient()
+    .from('http_cache')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+
+  if (error) {
+    throw new Error(`Failed to prune HTTP cache: ${error.message}`)
+  }
+}
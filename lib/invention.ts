@@ -0,0 +1,184 @@
+/**
+ * Invention (activity 8) utilities
+ * Turns T1 blueprints into T2 BPCs: expected attempts, datacores, decryptor effects
+ */
+
+import inventionDataJson from '@/data/invention.json'
+import decryptorsData from '@/data/decryptors.json'
+import { getBlueprint, getTypeName, type BlueprintMaterial } from '@/lib/blueprints'
+
+export interface InventionData {
+  blueprintTypeId: number         // T1 blueprint the job is started from
+  productBlueprintTypeId: number  // T2 blueprint copy produced on success
+  time: number                    // Seconds per attempt
+  materials: BlueprintMaterial[]  // Datacores per attempt
+  probability: number             // Base success chance (0-1)
+  outputRuns: number              // Runs on the invented BPC
+  skills: number[]                // Required skill type IDs
+}
+
+export interface Decryptor {
+  typeId: number | null
+  name: string
+  probabilityModifier: number     // Multiplier on success chance (0.2 = +20%)
+  runModifier: number             // Extra runs on the invented BPC
+  meModifier: number              // Added to the invented BPC's base ME
+  teModifier: number              // Added to the invented BPC's base TE
+}
+
+export type DecryptorType = keyof typeof decryptorsData
+
+export interface InventionOptions {
+  decryptor?: DecryptorType
+  skillLevels?: Record<number, number>  // skill typeId -> level (0-5)
+  defaultSkillLevel?: number            // Used for any required skill not in skillLevels
+}
+
+export interface InventionMaterial {
+  typeId: number
+  name: string
+  quantity: number
+}
+
+export interface InventionResult {
+  t1BlueprintTypeId: number
+  t1BlueprintName: string
+  t2BlueprintTypeId: number
+  probability: number             // Final success chance after skills and decryptor
+  runsPerBpc: number
+  bpcsNeeded: number
+  expectedAttempts: number        // Fractional; the amortized number of jobs
+  me: number                      // ME of the invented BPC
+  te: number                      // TE of the invented BPC
+  timePerAttempt: number
+  materials: InventionMaterial[]  // Datacores (and decryptor) for all expected attempts
+  decryptor: Decryptor
+}
+
+const inventionData = inventionDataJson as Record<string, InventionData>
+const decryptors = decryptorsData as Record<DecryptorType, Decryptor>
+
+// Invented (and reverse engineered) BPCs always start at ME 2 / TE 4 before decryptor modifiers
+export const INVENTED_BASE_ME = 2
+export const INVENTED_BASE_TE = 4
+
+// Encryption Methods skills count 1/40 per level, science skills 1/30
+const ENCRYPTION_SKILL_IDS = new Set([
+  3408,  // Sleeper Encryption Methods
+  21790, // Caldari Encryption Methods
+  21791, // Minmatar Encryption Methods
+  23087, // Amarr Encryption Methods
+  23121, // Gallente Encryption Methods
+  52308, // Triglavian Encryption Methods
+  55025, // Upwell Encryption Methods
+])
+
+/**
+ * Check if invention recipes were generated (data/invention.json is written by `npm run update-sde`)
+ */
+export function hasInventionData(): boolean {
+  return Object.keys(inventionData).length > 0
+}
+
+/**
+ * Get invention data by the T2 blueprint it produces
+ */
+export function getInventionData(t2BlueprintTypeId: number): InventionData | null {
+  return inventionData[t2BlueprintTypeId.toString()] || null
+}
+
+/**
+ * Check if a blueprint is obtained through invention
+ */
+export function canBeInvented(blueprintTypeId: number): boolean {
+  return inventionData[blueprintTypeId.toString()] !== undefined
+}
+
+/**
+ * Get decryptor modifiers by decryptor type
+ */
+export function getDecryptor(decryptorType: DecryptorType = 'none'): Decryptor {
+  return decryptors[decryptorType] || decryptors.none
+}
+
+/**
+ * Calculate invention success chance
+ * Formula: base * (1 + (science1 + science2) / 30 + encryption / 40) * (1 + decryptor)
+ */
+export function calculateInventionChance(
+  invention: Pick<InventionData, 'probability' | 'skills'>,
+  decryptor: Decryptor,
+  skillLevels: Record<number, number> = {},
+  defaultSkillLevel: number = 5
+): number {
+  let skillModifier = 0
+  for (const skillId of invention.skills) {
+    const level = skillLevels[skillId] ?? defaultSkillLevel
+    skillModifier += ENCRYPTION_SKILL_IDS.has(skillId) ? level / 40 : level / 30
+  }
+
+  const chance = invention.probability * (1 + skillModifier) * (1 + decryptor.probabilityModifier)
+  return Math.min(1, chance)
+}
+
+/**
+ * Calculate the invention needed to cover a number of T2 manufacturing runs
+ * Attempts are amortized (runs / runsPerBpc / chance), so costs are expected values
+ */
+export function calculateInvention(
+  t2BlueprintTypeId: number,
+  totalRuns: number,
+  options: InventionOptions = {}
+): InventionResult {
+  const invention = getInventionData(t2BlueprintTypeId)
+  if (!invention) {
+    throw new Error(`Blueprint ${t2BlueprintTypeId} cannot be invented`)
+  }
+
+  const decryptor = getDecryptor(options.decryptor)
+  const probability = calculateInventionChance(
+    invention,
+    decryptor,
+    options.skillLevels,
+    options.defaultSkillLevel
+  )
+
+  const runsPerBpc = invention.outputRuns + decryptor.runModifier
+  const bpcsNeeded = Math.ceil(totalRuns / runsPerBpc)
+  const expectedAttempts = probability > 0 ? bpcsNeeded / probability : 0
+
+  const materials: InventionMaterial[] = invention.materials.map(mat => ({
+    typeId: mat.typeId,
+    name: getTypeName(mat.typeId),
+    quantity: mat.quantity * expectedAttempts
+  }))
+
+  // One decryptor is consumed per attempt
+  if (decryptor.typeId !== null) {
+    materials.push({
+      typeId: decryptor.typeId,
+      name: decryptor.name,
+      quantity: expectedAttempts
+    })
+  }
+
+  const t1Blueprint = getBlueprint(invention.blueprintTypeId)
+
+  return {
+    t1BlueprintTypeId: invention.blueprintTypeId,
+    t1BlueprintName: t1Blueprint?.blueprintName || getTypeName(invention.blueprintTypeId),
+    t2BlueprintTypeId: t2BlueprintTypeId,
+    probability,
+    runsPerBpc,
+    bpcsNeeded,
+    expectedAttempts,
+    me: INVENTED_BASE_ME + decryptor.meModifier,
+    te: INVENTED_BASE_TE + decryptor.teModifier,
+    timePerAttempt: invention.time,
+    materials,
+    decryptor
+  }
+}
+
+// Export decryptor data for UI dropdowns
+export { decryptors }
@@ -3,8 +3,28 @@
  * API Documentation: https://janice.e-351.com/api/rest/docs/index.html
  */
 
-const JANICE_API_BASE = 'https://janice.e-351.com/api/rest/v2'
-const JITA_MARKET_ID = 2
+import { httpRequest, type CachePolicy } from '@/lib/http'
+import { DEFAULT_MARKET, marketHubs, type MarketSide, type PriceVariant } from '@/lib/markets'
+
+// Overridable to point at a stand-in server
+const JANICE_API_BASE = process.env.JANICE_API_BASE || 'https://janice.e-351.com/api/rest/v2'
+
+// Appraising the same list again within minutes gives the same prices
+const APPRAISAL_CACHE: CachePolicy = { ttl: 5 * 60 * 1000, staleTtl: 60 * 60 * 1000 }
+// Saved appraisals do not change
+const SAVED_APPRAISAL_CACHE: CachePolicy = { ttl: 24 * 60 * 60 * 1000 }
+
+// Large appraisals can take a while
+const APPRAISAL_TIMEOUT = 30 * 1000
+// Retries for appraisals that are not persisted (persisted ones are never retried)
+const APPRAISAL_RETRIES = 3
+
+// Price set of the appraisal each variant reads
+const VARIANT_PRICES = {
+  immediate: 'immediatePrices',
+  effective: 'effectivePrices',
+  top5: 'top5AveragePrices',
+} as const satisfies Record<PriceVariant, string>
 
 export interface JaniceItemType {
   eid: number
@@ -79,6 +99,8 @@ export interface ParsedItem {
   sellPrice: number
   splitPrice: number
   volume: number
+  buyVolume: number          // Units on buy orders at the market
+  sellVolume: number         // Units on sell orders at the market
   itemType: string | null
 }
 
@@ -104,53 +126,63 @@ function getApiKey(): string {
  * Create an appraisal from raw text input (Eve Online inventory format)
  * @param input - Raw text with item names and quantities
  * @param persist - Whether to save the appraisal (default: false)
+ * @param market - Hub and price variant to read (default: Jita immediate)
  * @returns Parsed appraisal result with items and prices
  */
 export async function createAppraisal(
   input: string,
-  persist: boolean = false
+  persist: boolean = false,
+  market: MarketSide = DEFAULT_MARKET.buy
 ): Promise<AppraisalResult> {
   const apiKey = getApiKey()
+  const prices = VARIANT_PRICES[market.variant]
 
   const params = new URLSearchParams({
-    market: JITA_MARKET_ID.toString(),
+    market: marketHubs[market.hub].janiceMarketId.toString(),
     persist: persist.toString(),
     compactize: 'true',
   })
 
-  const response = await fetch(`${JANICE_API_BASE}/appraisal?${params}`, {
+  const response = await httpRequest(`${JANICE_API_BASE}/appraisal?${params}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'text/plain',
       'X-ApiKey': apiKey,
     },
     body: input,
+    label: 'Janice',
+    timeout: APPRAISAL_TIMEOUT,
+    // Retrying a persisted appraisal could store it twice; plain lookups are safe to repeat
+    retries: persist ? 0 : APPRAISAL_RETRIES,
+    // A persisted appraisal gets a new code every time, so only plain lookups are cached
+    cache: persist ? undefined : APPRAISAL_CACHE,
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Janice API error (${response.status}): ${errorText}`)
+    throw new Error(`Janice API error (${response.status}): ${response.text}`)
   }
 
-  const appraisal: JaniceAppraisal = await response.json()
+  const appraisal = response.json<JaniceAppraisal>()
 
   const items: ParsedItem[] = (appraisal.items || []).map((item) => ({
     itemName: item.itemType.name,
     typeId: item.itemType.eid,
     quantity: item.amount,
-    buyPrice: item.immediatePrices.buyPrice,
-    sellPrice: item.immediatePrices.sellPrice,
-    splitPrice: item.immediatePrices.splitPrice,
-    volume: item.itemType.volume,
+    buyPrice: item[prices].buyPrice,
+    sellPrice: item[prices].sellPrice,
+    splitPrice: item[prices].splitPrice,
+    volume: item.itemType.packagedVolume || item.itemType.volume,  // Hauled volume
+    buyVolume: item.buyVolume,
+    sellVolume: item.sellVolume,
     itemType: null, // Janice API doesn't provide category info
   }))
 
   return {
     items,
     totals: {
-      buyPrice: appraisal.immediatePrices.totalBuyPrice,
-      sellPrice: appraisal.immediatePrices.totalSellPrice,
-      splitPrice: appraisal.immediatePrices.totalSplitPrice,
+      buyPrice: appraisal[prices].totalBuyPrice,
+      sellPrice: appraisal[prices].totalSellPrice,
+      splitPrice: appraisal[prices].totalSplitPrice,
     },
     failures: appraisal.failures,
   }
@@ -165,20 +197,21 @@ export async function getAppraisal(code: string): Promise<JaniceAppraisal | null
   const apiKey = getApiKey()
 
   try {
-    const response = await fetch(`${JANICE_API_BASE}/appraisal/${code}`, {
+    const response = await httpRequest(`${JANICE_API_BASE}/appraisal/${code}`, {
       method: 'GET',
       headers: {
         'X-ApiKey': apiKey,
       },
+      label: 'Janice',
+      cache: SAVED_APPRAISAL_CACHE,
     })
 
     if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`Janice API error (${response.status}): ${errorText}`)
+      console.error(`Janice API error (${response.status}): ${response.text}`)
       return null
     }
 
-    return response.json()
+    return response.json<JaniceAppraisal>()
   } catch (err) {
     console.error('Failed to fetch appraisal:', err)
     return null
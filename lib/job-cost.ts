@@ -0,0 +1,87 @@
+/**
+ * Industry job cost utilities
+ * CCP's job installation cost: estimated item value (EIV) from ESI adjusted prices, system cost index,
+ * structure role bonus, facility tax and the SCC surcharge
+ */
+
+import type { BlueprintData } from '@/lib/blueprints'
+
+export interface JobCostFacility {
+  costIndex: number               // System cost index for the activity
+  jobCostBonus: number            // Structure role bonus (0-1), reduces the system cost only
+  facilityTax: number             // 0-1 (percentage as decimal)
+}
+
+export interface JobCostBreakdown {
+  estimatedItemValue: number      // EIV the other terms are charged on
+  systemCost: number              // EIV * cost index
+  roleBonus: number               // Discount on the system cost (positive number)
+  facilityTax: number             // EIV * facility tax
+  sccSurcharge: number            // EIV * SCC surcharge
+  total: number
+}
+
+// Secure Commerce Commission surcharge, charged on every job
+export const SCC_SURCHARGE = 0.04
+
+// Invention, copying and research are charged on 2% of the product's EIV
+export const SCIENCE_EIV_FACTOR = 0.02
+
+/**
+ * Estimated item value of a manufacturing or reaction job
+ * Sum of base (ME 0) material quantities times their adjusted prices, per run.
+ */
+export function getEstimatedItemValue(
+  blueprint: Pick<BlueprintData, 'materials'>,
+  runs: number,
+  adjustedPrices: Map<number, number>
+): number {
+  return blueprint.materials.reduce((sum, mat) =>
+    sum + (adjustedPrices.get(mat.typeId) || 0) * mat.quantity, 0) * runs
+}
+
+/**
+ * Job cost for an estimated item value
+ * Formula: EIV * index * (1 - role bonus) + EIV * facility tax + EIV * SCC surcharge
+ */
+export function calculateJobCost(estimatedItemValue: number, facility: JobCostFacility): JobCostBreakdown {
+  const systemCost = estimatedItemValue * facility.costIndex
+  const roleBonus = systemCost * facility.jobCostBonus
+  const facilityTax = estimatedItemValue * facility.facilityTax
+  const sccSurcharge = estimatedItemValue * SCC_SURCHARGE
+
+  return {
+    estimatedItemValue,
+    systemCost,
+    roleBonus,
+    facilityTax,
+    sccSurcharge,
+    total: systemCost - roleBonus + facilityTax + sccSurcharge,
+  }
+}
+
+/**
+ * Job cost of a manufacturing or reaction job
+ */
+export function calculateManufacturingJobCost(
+  blueprint: Pick<BlueprintData, 'materials'>,
+  runs: number,
+  facility: JobCostFacility,
+  adjustedPrices: Map<number, number>
+): JobCostBreakdown {
+  return calculateJobCost(getEstimatedItemValue(blueprint, runs, adjustedPrices), facility)
+}
+
+/**
+ * Job cost of invention, reverse engineering, copying or research
+ *
+ * @param productValue - EIV of one manufacturing run of the blueprint being invented, copied or researched
+ * @param multiplier - Attempts, copied runs or research level modifier
+ */
+export function calculateScienceJobCost(
+  productValue: number,
+  multiplier: number,
+  facility: JobCostFacility
+): JobCostBreakdown {
+  return calculateJobCost(productValue * SCIENCE_EIV_FACTOR * multiplier, facility)
+}
@@ -0,0 +1,145 @@
+/**
+ * Hauling and logistics utilities
+ * Splits a shopping list into courier trips by cargo capacity and collateral limit, and prices each contract
+ */
+
+import haulingData from '@/data/hauling.json'
+
+export type HaulingShip = keyof typeof haulingData.ships
+
+export interface CourierRates {
+  capacity: number          // m³ per trip
+  maxCollateral: number     // ISK per contract
+  ratePerM3: number         // Reward per m³ hauled
+  collateralRate: number    // Reward as a share of the collateral (0-1)
+  minReward: number         // Floor per contract
+}
+
+export interface HaulingItem {
+  typeId: number
+  name: string
+  quantity: number
+  unitVolume: number        // Packaged m³ per unit
+  unitValue: number         // ISK per unit, used as collateral
+}
+
+export interface HaulingTripItem {
+  typeId: number
+  name: string
+  quantity: number
+  volume: number
+  value: number
+}
+
+export interface HaulingTrip {
+  items: HaulingTripItem[]
+  volume: number
+  collateral: number
+  reward: number
+}
+
+export interface HaulingPlan {
+  ship: HaulingShip
+  shipName: string
+  rates: CourierRates
+  trips: HaulingTrip[]
+  totalVolume: number
+  totalCollateral: number
+  totalReward: number
+  oversized: HaulingItem[]  // A single unit exceeds the capacity or the collateral limit
+}
+
+export const haulingShips = haulingData.ships as Record<HaulingShip, CourierRates & { name: string }>
+
+export const HAULING_SHIPS = Object.keys(haulingShips) as HaulingShip[]
+
+/**
+ * Courier rates of a ship class, with any overrides applied
+ */
+export function getCourierRates(ship: HaulingShip, overrides: Partial<CourierRates> = {}): CourierRates {
+  const { capacity, maxCollateral, ratePerM3, collateralRate, minReward } = haulingShips[ship]
+  return { capacity, maxCollateral, ratePerM3, collateralRate, minReward, ...overrides }
+}
+
+/**
+ * Reward of one courier contract: volume and collateral terms, never below the minimum
+ */
+export function calculateCourierReward(volume: number, collateral: number, rates: CourierRates): number {
+  return Math.max(rates.minReward, volume * rates.ratePerM3 + collateral * rates.collateralRate)
+}
+
+/**
+ * Pack items into as few trips as the capacity and collateral limit allow
+ *
+ * Largest items go first and stacks are split across trips, so every trip but the last
+ * is full on one of the two limits. Items that cannot fit even one unit are left out.
+ */
+export function planHauling(
+  items: HaulingItem[],
+  ship: HaulingShip,
+  overrides: Partial<CourierRates> = {}
+): HaulingPlan {
+  const rates = getCourierRates(ship, overrides)
+  const trips: HaulingTrip[] = []
+  const oversized: HaulingItem[] = []
+
+  const newTrip = (): HaulingTrip => {
+    const trip: HaulingTrip = { items: [], volume: 0, collateral: 0, reward: 0 }
+    trips.push(trip)
+    return trip
+  }
+
+  const sorted = items
+    .filter(item => item.quantity > 0)
+    .sort((a, b) => b.unitVolume * b.quantity - a.unitVolume * a.quantity)
+
+  let trip: HaulingTrip | null = null
+  for (const item of sorted) {
+    if (item.unitVolume > rates.capacity || item.unitValue > rates.maxCollateral) {
+      oversized.push(item)
+      continue
+    }
+
+    let remaining = item.quantity
+    while (remaining > 0) {
+      trip ??= newTrip()
+      const byVolume = item.unitVolume > 0
+        ? Math.floor((rates.capacity - trip.volume) / item.unitVolume)
+        : remaining
+      const byCollateral = item.unitValue > 0
+        ? Math.floor((rates.maxCollateral - trip.collateral) / item.unitValue)
+        : remaining
+      const units = Math.min(remaining, byVolume, byCollateral)
+      if (units <= 0) {
+        trip = newTrip()
+        continue
+      }
+
+      trip.items.push({
+        typeId: item.typeId,
+        name: item.name,
+        quantity: units,
+        volume: units * item.unitVolume,
+        value: units * item.unitValue,
+      })
+      trip.volume += units * item.unitVolume
+      trip.collateral += units * item.unitValue
+      remaining -= units
+    }
+  }
+
+  for (const t of trips) {
+    t.reward = calculateCourierReward(t.volume, t.collateral, rates)
+  }
+
+  return {
+    ship,
+    shipName: haulingShips[ship].name,
+    rates,
+    trips,
+    totalVolume: trips.reduce((sum, t) => sum + t.volume, 0),
+    totalCollateral: trips.reduce((sum, t) => sum + t.collateral, 0),
+    totalReward: trips.reduce((sum, t) => sum + t.reward, 0),
+    oversized,
+  }
+}
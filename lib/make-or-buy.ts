@@ -0,0 +1,93 @@
+/**
+ * Make-or-buy optimizer
+ * Decides bottom-up whether each component in a build tree is cheaper to build or to buy
+ */
+
+import type { BuildStep } from '@/lib/blueprints'
+
+export type MakeOrBuyChoice = 'build' | 'buy'
+
+export interface MakeOrBuyDecision {
+  typeId: number
+  name: string
+  quantity: number          // Units the fully built tree produces
+  buyPrice: number          // Per unit; 0 when the item has no market price
+  buildCost: number         // Per unit, with every input at its own cheapest choice
+  decision: MakeOrBuyChoice
+  pinned: boolean           // Decision was fixed by the user
+}
+
+interface ProductTotals {
+  name: string
+  produced: number
+  jobCost: number
+  materials: Map<number, number>  // Input typeId -> quantity over all steps
+}
+
+/**
+ * Optimize buy/build decisions over the steps of a fully built tree
+ *
+ * Each component's build cost uses the cheapest choice for each of its inputs, so a
+ * decision deep in the tree feeds into every decision above it. Per-unit costs come from
+ * the steps themselves, so ME, facility bonuses and job costs are already included.
+ * The target products are never decided (they are always built).
+ */
+export function optimizeMakeOrBuy(
+  steps: BuildStep[],
+  getPrice: (typeId: number) => number,
+  pinned: Record<number, MakeOrBuyChoice> = {},
+  targetTypeIds: Set<number> = new Set()
+): MakeOrBuyDecision[] {
+  const products = new Map<number, ProductTotals>()
+  for (const step of steps) {
+    const totals = products.get(step.productTypeId) ?? {
+      name: step.productName,
+      produced: 0,
+      jobCost: 0,
+      materials: new Map<number, number>(),
+    }
+    totals.produced += step.producedQuantity
+    totals.jobCost += step.jobCost
+    for (const mat of step.materials) {
+      totals.materials.set(mat.typeId, (totals.materials.get(mat.typeId) ?? 0) + mat.adjustedQuantity)
+    }
+    products.set(step.productTypeId, totals)
+  }
+
+  const decisions = new Map<number, MakeOrBuyDecision>()
+  const unitCost = (typeId: number, visiting: Set<number>): number => {
+    const totals = products.get(typeId)
+    if (!totals || totals.produced === 0) return getPrice(typeId)
+
+    const known = decisions.get(typeId)
+    if (known) return known.decision === 'buy' ? known.buyPrice : known.buildCost
+    if (visiting.has(typeId)) return getPrice(typeId) // Cycle guard, should not happen with SDE data
+
+    visiting.add(typeId)
+    let inputsCost = totals.jobCost
+    for (const [matTypeId, quantity] of totals.materials) {
+      inputsCost += quantity * unitCost(matTypeId, visiting)
+    }
+    visiting.delete(typeId)
+
+    const buildCost = inputsCost / totals.produced
+    const buyPrice = getPrice(typeId)
+    const pin = targetTypeIds.has(typeId) ? 'build' : pinned[typeId]
+    const decision: MakeOrBuyChoice = pin ?? (buyPrice > 0 && buyPrice < buildCost ? 'buy' : 'build')
+
+    decisions.set(typeId, {
+      typeId,
+      name: totals.name,
+      quantity: totals.produced,
+      buyPrice,
+      buildCost,
+      decision,
+      pinned: pin !== undefined && !targetTypeIds.has(typeId),
+    })
+    return decision === 'buy' ? buyPrice : buildCost
+  }
+
+  for (const typeId of products.keys()) unitCost(typeId, new Set())
+
+  return Array.from(decisions.values()).filter(d => !targetTypeIds.has(d.typeId))
+}
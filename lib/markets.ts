@@ -0,0 +1,108 @@
+/**
+ * Market hubs and pricing variants
+ * Which hub and which price variant buy prices and sell prices are read from
+ */
+
+import marketHubsData from '@/data/market-hubs.json'
+
+export type MarketHub = keyof typeof marketHubsData.hubs
+
+// immediate: best order; effective: Janice's depth-adjusted price; top5: average of the best 5% of orders
+export type PriceVariant = 'immediate' | 'effective' | 'top5'
+
+export interface MarketHubInfo {
+  name: string
+  stationName: string
+  janiceMarketId: number
+  regionId: number
+  stationId: number
+}
+
+export interface MarketSide {
+  hub: MarketHub
+  variant: PriceVariant
+}
+
+export interface MarketSettings {
+  buy: MarketSide                  // Where buy prices come from (materials are valued at buy)
+  sell: MarketSide                 // Where sell prices come from (products are valued at sell)
+}
+
+// Columns of the projects table
+interface ProjectMarketColumns {
+  buy_hub: MarketHub
+  buy_price_variant: PriceVariant
+  sell_hub: MarketHub
+  sell_price_variant: PriceVariant
+}
+
+export const marketHubs = marketHubsData.hubs as Record<MarketHub, MarketHubInfo>
+
+export const MARKET_HUBS = Object.keys(marketHubs) as MarketHub[]
+
+export const PRICE_VARIANTS: PriceVariant[] = ['immediate', 'effective', 'top5']
+
+export const PRICE_VARIANT_LABELS: Record<PriceVariant, string> = {
+  immediate: 'Immediate',
+  effective: 'Effective',
+  top5: 'Top 5% average',
+}
+
+export const DEFAULT_MARKET: MarketSettings = {
+  buy: { hub: 'jita', variant: 'immediate' },
+  sell: { hub: 'jita', variant: 'immediate' },
+}
+
+/**
+ * Short label of a market side, e.g. "Amarr" or "Jita (Top 5% average)"
+ */
+export function formatMarketSide(side: MarketSide): string {
+  const hub = marketHubs[side.hub]?.name ?? side.hub
+  return side.variant === 'immediate' ? hub : `${hub} (${PRICE_VARIANT_LABELS[side.variant]})`
+}
+
+/**
+ * Market settings a project's prices were stored with
+ */
+export function getProjectMarket(project: ProjectMarketColumns): MarketSettings {
+  return {
+    buy: { hub: project.buy_hub, variant: project.buy_price_variant },
+    sell: { hub: project.sell_hub, variant: project.sell_price_variant },
+  }
+}
+
+/**
+ * Project columns storing market settings
+ */
+export function toProjectMarketColumns(market: MarketSettings): ProjectMarketColumns {
+  return {
+    buy_hub: market.buy.hub,
+    buy_price_variant: market.buy.variant,
+    sell_hub: market.sell.hub,
+    sell_price_variant: market.sell.variant,
+  }
+}
+
+export function isSameMarketSide(a: MarketSide, b: MarketSide): boolean {
+  return a.hub === b.hub && a.variant === b.variant
+}
+
+/**
+ * Check market settings from a request body
+ * @returns An error message, or null when the settings are valid
+ */
+export function validateMarketSettings(market: unknown): string | null {
+  if (typeof market !== 'object' || market === null) {
+    return 'market must be an object with buy and sell sides'
+  }
+  for (const side of ['buy', 'sell'] as const) {
+    const value = (market as Partial<MarketSettings>)[side]
+    if (!value || !MARKET_HUBS.includes(value.hub)) {
+      return `market.${side}.hub must be one of ${MARKET_HUBS.join(', ')}`
+    }
+    if (!PRICE_VARIANTS.includes(value.variant)) {
+      return `market.${side}.variant must be one of ${PRICE_VARIANTS.join(', ')}`
+    }
+  }
+  return null
+}
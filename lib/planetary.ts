@@ -0,0 +1,268 @@
+/**
+ * Planetary Industry utilities
+ * Expands P1-P4 commodities through planet schematics into P0/P1 inputs, factory counts and customs taxes
+ */
+
+import planetSchematicsJson from '@/data/planet-schematics.json'
+import structuresData from '@/data/structures.json'
+import { getTypeName } from '@/lib/blueprints'
+
+export interface PlanetSchematic {
+  schematicId: number
+  name: string
+  cycleTime: number               // Seconds per cycle
+  outputTypeId: number
+  outputQuantity: number          // Units produced per cycle
+  inputs: { typeId: number; quantity: number }[]  // Consumed per cycle
+}
+
+export type PlanetaryTier = 0 | 1 | 2 | 3 | 4
+
+export interface PlanetaryTarget {
+  typeId: number
+  quantity: number
+}
+
+export interface PlanetaryOptions {
+  inputTier?: 0 | 1               // Stop expanding at P0 (extract) or P1 (buy and import)
+  taxRate?: number                // Customs office tax (0-1)
+  hours?: number                  // Production window used for factory counts
+  singlePlanet?: boolean          // P0 chains: P1 stays on the planet instead of being hauled to the factory planet
+}
+
+export interface PlanetaryStep {
+  typeId: number
+  name: string
+  tier: PlanetaryTier
+  schematicId: number
+  facility: string                // Factory type that runs the schematic
+  quantity: number                // Units needed by the chain
+  produced: number                // Units made in whole cycles
+  excess: number
+  cycles: number
+  cycleTime: number               // Seconds
+  outputPerCycle: number
+  inputsPerCycle: { typeId: number; name: string; quantity: number }[]
+  factories: number               // Factories needed to finish within the production window
+}
+
+export interface PlanetaryInput {
+  typeId: number
+  name: string
+  tier: PlanetaryTier
+  quantity: number
+  perHour: number                 // Over the production window
+}
+
+export interface PlanetaryTax {
+  typeId: number
+  name: string
+  tier: PlanetaryTier
+  quantity: number
+  direction: 'import' | 'export'
+  cost: number
+}
+
+export interface PlanetaryPlan {
+  hours: number
+  inputTier: 0 | 1
+  taxRate: number
+  steps: PlanetaryStep[]          // Highest tier first
+  inputs: PlanetaryInput[]        // P0 extracted or P1 bought
+  taxes: PlanetaryTax[]
+  importTax: number
+  exportTax: number
+  totalTax: number
+}
+
+const planetSchematics = planetSchematicsJson as Record<string, PlanetSchematic>
+const customsOffice = structuresData.customsOffice
+
+const DEFAULT_HOURS = 24
+
+const FACILITIES: Record<number, string> = {
+  1: 'Basic Industry Facility',
+  2: 'Advanced Industry Facility',
+  3: 'Advanced Industry Facility',
+  4: 'High-Tech Production Plant',
+}
+
+const tierCache = new Map<number, PlanetaryTier>()
+
+/**
+ * Check if planet schematics were generated (data/planet-schematics.json is written by `npm run update-sde`)
+ */
+export function hasPlanetSchematics(): boolean {
+  return Object.keys(planetSchematics).length > 0
+}
+
+/**
+ * Get the planet schematic that produces a commodity
+ */
+export function getPlanetSchematic(typeId: number): PlanetSchematic | null {
+  return planetSchematics[typeId.toString()] || null
+}
+
+/**
+ * Check if a type is a P1-P4 commodity made on planets
+ */
+export function isPlanetaryCommodity(typeId: number): boolean {
+  return getPlanetSchematic(typeId) !== null
+}
+
+/**
+ * Get every commodity made on planets, optionally from a minimum tier, by tier then name
+ */
+export function getPlanetaryCommodities(minTier: PlanetaryTier = 1): { typeId: number; name: string; tier: PlanetaryTier }[] {
+  return Object.values(planetSchematics)
+    .map(schematic => ({
+      typeId: schematic.outputTypeId,
+      name: getTypeName(schematic.outputTypeId),
+      tier: getPlanetaryTier(schematic.outputTypeId),
+    }))
+    .filter(commodity => commodity.tier >= minTier)
+    .sort((a, b) => a.tier - b.tier || a.name.localeCompare(b.name))
+}
+
+/**
+ * Get the PI tier of a type: 0 for raw resources, otherwise one above its highest input
+ */
+export function getPlanetaryTier(typeId: number): PlanetaryTier {
+  const cached = tierCache.get(typeId)
+  if (cached !== undefined) return cached
+
+  const schematic = getPlanetSchematic(typeId)
+  const tier = schematic
+    ? Math.min(4, 1 + Math.max(...schematic.inputs.map(input => getPlanetaryTier(input.typeId)))) as PlanetaryTier
+    : 0
+  tierCache.set(typeId, tier)
+  return tier
+}
+
+/**
+ * Customs office tax for moving units of a tier through a customs office
+ * Export costs the tier's base value times the tax rate; import costs half of that.
+ */
+export function getCustomsTax(tier: PlanetaryTier, quantity: number, taxRate: number, direction: 'import' | 'export'): number {
+  const baseCost = customsOffice.baseCosts[`p${tier}`]
+  const multiplier = direction === 'import' ? customsOffice.importMultiplier : 1
+  return baseCost * quantity * taxRate * multiplier
+}
+
+/**
+ * Plan the production chain for a list of PI commodities
+ *
+ * Demand is expanded from the highest tier down so every commodity is produced in one
+ * batch of whole cycles. Targets are exported; bought P1 inputs are imported. Unless the
+ * chain runs on a single planet, P1 refined from extracted P0 is exported and imported
+ * again on the factory planet.
+ */
+export function planPlanetaryChain(targets: PlanetaryTarget[], options: PlanetaryOptions = {}): PlanetaryPlan {
+  const inputTier = options.inputTier ?? 0
+  const taxRate = options.taxRate ?? customsOffice.defaultTaxRate
+  const hours = options.hours ?? DEFAULT_HOURS
+
+  const targetTotals = new Map<number, number>()
+  for (const target of targets) {
+    targetTotals.set(target.typeId, (targetTotals.get(target.typeId) ?? 0) + target.quantity)
+  }
+  const demand = new Map(targetTotals)
+
+  const steps: PlanetaryStep[] = []
+  const expanded = new Set<number>()
+  const nextToExpand = () => Array.from(demand.keys())
+    .filter(typeId => !expanded.has(typeId) && isPlanetaryCommodity(typeId) && getPlanetaryTier(typeId) > inputTier)
+    .sort((a, b) => getPlanetaryTier(b) - getPlanetaryTier(a))[0]
+
+  for (let typeId = nextToExpand(); typeId !== undefined; typeId = nextToExpand()) {
+    expanded.add(typeId)
+    const schematic = getPlanetSchematic(typeId)!
+    const quantity = demand.get(typeId)!
+    const cycles = Math.ceil(quantity / schematic.outputQuantity)
+    const tier = getPlanetaryTier(typeId)
+
+    for (const input of schematic.inputs) {
+      demand.set(input.typeId, (demand.get(input.typeId) ?? 0) + input.quantity * cycles)
+    }
+    steps.push({
+      typeId,
+      name: getTypeName(typeId),
+      tier,
+      schematicId: schematic.schematicId,
+      facility: FACILITIES[tier],
+      quantity,
+      produced: cycles * schematic.outputQuantity,
+      excess: cycles * schematic.outputQuantity - quantity,
+      cycles,
+      cycleTime: schematic.cycleTime,
+      outputPerCycle: schematic.outputQuantity,
+      inputsPerCycle: schematic.inputs.map(input => ({
+        typeId: input.typeId,
+        name: getTypeName(input.typeId),
+        quantity: input.quantity,
+      })),
+      factories: hours > 0 ? Math.ceil(cycles * schematic.cycleTime / (hours * 3600)) : cycles,
+    })
+  }
+
+  const inputs: PlanetaryInput[] = Array.from(demand.entries())
+    .filter(([typeId]) => !expanded.has(typeId))
+    .map(([typeId, quantity]) => ({
+      typeId,
+      name: getTypeName(typeId),
+      tier: getPlanetaryTier(typeId),
+      quantity,
+      perHour: hours > 0 ? quantity / hours : quantity,
+    }))
+    .sort((a, b) => b.tier - a.tier || a.name.localeCompare(b.name))
+
+  const taxes: PlanetaryTax[] = []
+  const addTax = (typeId: number, quantity: number, direction: 'import' | 'export') => {
+    const tier = getPlanetaryTier(typeId)
+    taxes.push({
+      typeId,
+      name: getTypeName(typeId),
+      tier,
+      quantity,
+      direction,
+      cost: getCustomsTax(tier, quantity, taxRate, direction),
+    })
+  }
+  for (const input of inputs) {
+    if (input.tier > 0) addTax(input.typeId, input.quantity, 'import')
+  }
+  if (inputTier === 0 && !options.singlePlanet) {
+    // P1 feeding higher tiers leaves its extraction planet and lands on the factory planet
+    const hauled = new Map<number, number>()
+    for (const step of steps) {
+      if (step.tier < 2) continue
+      for (const input of step.inputsPerCycle) {
+        if (getPlanetaryTier(input.typeId) === 1) {
+          hauled.set(input.typeId, (hauled.get(input.typeId) ?? 0) + input.quantity * step.cycles)
+        }
+      }
+    }
+    for (const [typeId, quantity] of hauled) {
+      addTax(typeId, quantity, 'export')
+      addTax(typeId, quantity, 'import')
+    }
+  }
+  for (const [typeId, quantity] of targetTotals) {
+    addTax(typeId, quantity, 'export')
+  }
+
+  const importTax = taxes.filter(t => t.direction === 'import').reduce((sum, t) => sum + t.cost, 0)
+  const exportTax = taxes.filter(t => t.direction === 'export').reduce((sum, t) => sum + t.cost, 0)
+
+  return {
+    hours,
+    inputTier,
+    taxRate,
+    steps,
+    inputs,
+    taxes,
+    importTax,
+    exportTax,
+    totalTax: importTax + exportTax,
+  }
+}
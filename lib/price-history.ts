@@ -0,0 +1,77 @@
+/**
+ * Price history
+ * Per-item price snapshots of project appraisals and the value over time charted from them
+ */
+
+import type { PriceSource } from '@/lib/pricing'
+import type { PriceSnapshot, RawMaterial } from '@/types/database'
+
+export type NewPriceSnapshot = Omit<PriceSnapshot, 'id'>
+
+export type SnapshotItem = Pick<
+  RawMaterial,
+  'project_id' | 'type_id' | 'item_name' | 'quantity' | 'buy_price' | 'sell_price' | 'split_price'
+> & { source: PriceSource | null }
+
+export interface PriceHistoryPoint {
+  recordedAt: string
+  buy: number                // Project: total buy value; type: unit buy price
+  sell: number
+  split: number
+  items: number              // Items priced in the appraisal
+}
+
+/**
+ * Snapshot rows for priced items, all stamped with one time so they chart as one appraisal
+ */
+export function toPriceSnapshots(
+  items: SnapshotItem[],
+  recordedAt: string = new Date().toISOString()
+): NewPriceSnapshot[] {
+  return items.map(item => ({
+    project_id: item.project_id,
+    type_id: item.type_id,
+    item_name: item.item_name,
+    quantity: item.quantity,
+    buy_price: item.buy_price,
+    sell_price: item.sell_price,
+    split_price: item.split_price,
+    source: item.source,
+    recorded_at: recordedAt,
+  }))
+}
+
+/**
+ * Total buy, sell and split value of a project at each appraisal, oldest first
+ * Each total uses the quantities the project needed at that time.
+ */
+export function getProjectValueHistory(snapshots: PriceSnapshot[]): PriceHistoryPoint[] {
+  const points = new Map<string, PriceHistoryPoint>()
+
+  for (const snapshot of snapshots) {
+    const point = points.get(snapshot.recorded_at)
+      ?? { recordedAt: snapshot.recorded_at, buy: 0, sell: 0, split: 0, items: 0 }
+    point.buy += (snapshot.buy_price ?? 0) * snapshot.quantity
+    point.sell += (snapshot.sell_price ?? 0) * snapshot.quantity
+    point.split += (snapshot.split_price ?? 0) * snapshot.quantity
+    point.items++
+    points.set(snapshot.recorded_at, point)
+  }
+
+  return Array.from(points.values())
+    .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime())
+}
+
+/**
+ * Unit prices of one type at each appraisal across projects, oldest first
+ * Appraisals at the same time (several projects repriced together) are averaged.
+ */
+export function getTypePriceHistory(snapshots: PriceSnapshot[]): PriceHistoryPoint[] {
+  return getProjectValueHistory(snapshots.map(snapshot => ({ ...snapshot, quantity: 1 })))
+    .map(point => ({
+      ...point,
+      buy: point.buy / point.items,
+      sell: point.sell / point.items,
+      split: point.split / point.items,
+    }))
+}
@@ -0,0 +1,310 @@
+/**
+ * Market price providers
+ * Janice, ESI market orders, Fuzzwork aggregates and a manual price table behind one interface,
+ * tried in a configurable fallback order with the source of every price recorded
+ */
+
+import manualPricesData from '@/data/manual-prices.json'
+import { createAppraisal, type AppraisalResult } from '@/lib/janice'
+import { getMarketOrders, type MarketOrder } from '@/lib/esi'
+import { getMarketAggregates } from '@/lib/fuzzwork'
+import { DEFAULT_MARKET, isSameMarketSide, marketHubs, type MarketSettings, type MarketSide } from '@/lib/markets'
+import { addWarning } from '@/lib/warnings'
+
+export type PriceSource = 'manual' | 'janice' | 'fuzzwork' | 'esi'
+
+export interface PriceRequestItem {
+  typeId: number
+  name: string               // Janice prices by name
+}
+
+export interface ItemPrice {
+  buy: number
+  sell: number
+  buyVolume: number          // Units on buy orders (0 when the source does not say)
+  sellVolume: number         // Units on sell orders (0 when the source does not say)
+  source: PriceSource
+  sellSource?: PriceSource   // Set when the sell price came from a different source
+}
+
+export interface PriceProvider {
+  source: PriceSource
+  /** Prices at one hub for the items the source knows; items without a price are left out */
+  getPrices(items: PriceRequestItem[], market: MarketSide): Promise<Map<number, ItemPrice>>
+}
+
+interface ManualPrice {
+  name?: string
+  buy: number
+  sell: number
+}
+
+export const PRICE_SOURCES: PriceSource[] = ['manual', 'janice', 'fuzzwork', 'esi']
+
+// Janice appraisals are limited in size
+const JANICE_CHUNK_SIZE = 1000
+
+// ESI is queried per type; keep a few requests in flight
+const ESI_CONCURRENCY = 10
+
+// Share of order volume averaged for the top5 variant outside Janice
+const TOP_ORDER_SHARE = 0.05
+
+const manualPrices = manualPricesData.prices as Record<string, ManualPrice>
+
+/**
+ * Volume-weighted average price of the best orders making up the top share of the volume
+ * @param orders - Orders sorted best first
+ */
+function topOrdersAverage(orders: MarketOrder[]): number {
+  const target = orders.reduce((sum, order) => sum + order.volume_remain, 0) * TOP_ORDER_SHARE
+  let volume = 0
+  let value = 0
+  for (const order of orders) {
+    const units = Math.min(order.volume_remain, target - volume)
+    if (units <= 0) break
+    volume += units
+    value += units * order.price
+  }
+  return volume > 0 ? value / volume : 0
+}
+
+/**
+ * Prices entered by hand in data/manual-prices.json, keyed by type ID
+ * They apply at every hub and variant
+ */
+export const manualPriceProvider: PriceProvider = {
+  source: 'manual',
+  async getPrices(items) {
+    const prices = new Map<number, ItemPrice>()
+    for (const item of items) {
+      const price = manualPrices[item.typeId]
+      if (price) {
+        prices.set(item.typeId, { buy: price.buy, sell: price.sell, buyVolume: 0, sellVolume: 0, source: 'manual' })
+      }
+    }
+    return prices
+  },
+}
+
+/**
+ * Janice prices from an appraisal of one unit of each item
+ */
+export const janicePriceProvider: PriceProvider = {
+  source: 'janice',
+  async getPrices(items, market) {
+    const prices = new Map<number, ItemPrice>()
+    for (let i = 0; i < items.length; i += JANICE_CHUNK_SIZE) {
+      const appraisal = await createAppraisal(
+        items.slice(i, i + JANICE_CHUNK_SIZE).map(item => `${item.name} x1`).join('\n'),
+        false,
+        market
+      )
+      for (const item of appraisal.items) {
+        // Janice prices items without orders at 0; let the next source try them
+        if (!item.buyPrice && !item.sellPrice) continue
+        prices.set(item.typeId, {
+          buy: item.buyPrice,
+          sell: item.sellPrice,
+          buyVolume: item.buyVolume,
+          sellVolume: item.sellVolume,
+          source: 'janice',
+        })
+      }
+    }
+    return prices
+  },
+}
+
+/**
+ * Hub buy and sell prices from Fuzzwork's aggregates
+ * Immediate is the best order; effective and top5 use the average of the best 5% of volume
+ */
+export const fuzzworkPriceProvider: PriceProvider = {
+  source: 'fuzzwork',
+  async getPrices(items, market) {
+    const aggregates = await getMarketAggregates(items.map(item => item.typeId), marketHubs[market.hub].stationId)
+    const prices = new Map<number, ItemPrice>()
+    for (const aggregate of aggregates.values()) {
+      if (!aggregate.buyOrderCount && !aggregate.sellOrderCount) continue
+      const immediate = market.variant === 'immediate'
+      prices.set(aggregate.typeId, {
+        buy: immediate ? aggregate.buyMax : aggregate.buyPercentile,
+        sell: immediate ? aggregate.sellMin : aggregate.sellPercentile,
+        buyVolume: aggregate.buyVolume,
+        sellVolume: aggregate.sellVolume,
+        source: 'fuzzwork',
+      })
+    }
+    return prices
+  },
+}
+
+/**
+ * Hub buy and sell prices straight from ESI market orders, one request per type
+ * Immediate is the best order; effective and top5 use the average of the best 5% of volume.
+ * A type that fails is left out instead of failing the rest.
+ */
+export const esiPriceProvider: PriceProvider = {
+  source: 'esi',
+  async getPrices(items, market) {
+    const { regionId, stationId } = marketHubs[market.hub]
+    const prices = new Map<number, ItemPrice>()
+    const failed: string[] = []
+
+    const priceItem = async (typeId: number) => {
+      try {
+        const orders = (await getMarketOrders(regionId, typeId))
+          .filter(order => order.location_id === stationId)
+        if (orders.length === 0) return
+
+        const buyOrders = orders.filter(order => order.is_buy_order).sort((a, b) => b.price - a.price)
+        const sellOrders = orders.filter(order => !order.is_buy_order).sort((a, b) => a.price - b.price)
+        const immediate = market.variant === 'immediate'
+        prices.set(typeId, {
+          buy: immediate ? buyOrders[0]?.price ?? 0 : topOrdersAverage(buyOrders),
+          sell: immediate ? sellOrders[0]?.price ?? 0 : topOrdersAverage(sellOrders),
+          buyVolume: buyOrders.reduce((sum, order) => sum + order.volume_remain, 0),
+          sellVolume: sellOrders.reduce((sum, order) => sum + order.volume_remain, 0),
+          source: 'esi',
+        })
+      } catch (error) {
+        failed.push(`${typeId} (${error instanceof Error ? error.message : error})`)
+      }
+    }
+
+    for (let i = 0; i < items.length; i += ESI_CONCURRENCY) {
+      await Promise.all(items.slice(i, i + ESI_CONCURRENCY).map(item => priceItem(item.typeId)))
+    }
+    // One warning for the batch rather than one per type
+    if (failed.length > 0) {
+      addWarning(`ESI price lookup failed for ${failed.length} type${failed.length === 1 ? '' : 's'}: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', …' : ''}`)
+    }
+    return prices
+  },
+}
+
+const priceProviders: Record<PriceSource, PriceProvider> = {
+  manual: manualPriceProvider,
+  janice: janicePriceProvider,
+  fuzzwork: fuzzworkPriceProvider,
+  esi: esiPriceProvider,
+}
+
+/**
+ * Fallback order of price sources
+ * Set PRICE_SOURCES to a comma-separated list (e.g. "fuzzwork,esi") to change it;
+ * unknown names are ignored. Defaults to every source, manual overrides first.
+ */
+export function getPriceSourceOrder(): PriceSource[] {
+  const configured = (process.env.PRICE_SOURCES ?? '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is PriceSource => PRICE_SOURCES.includes(name as PriceSource))
+
+  return configured.length > 0 ? Array.from(new Set(configured)) : PRICE_SOURCES
+}
+
+/**
+ * Price items at one hub from the first source that knows them
+ */
+async function getSidePrices(
+  items: PriceRequestItem[],
+  market: MarketSide,
+  order: PriceSource[],
+  providers: Partial<Record<PriceSource, PriceProvider>>
+): Promise<Map<number, ItemPrice>> {
+  const prices = new Map<number, ItemPrice>()
+  let remaining = items
+
+  for (const source of order) {
+    if (remaining.length === 0) break
+    try {
+      const provider = providers[source] ?? priceProviders[source]
+      for (const [typeId, price] of await provider.getPrices(remaining, market)) {
+        prices.set(typeId, price)
+      }
+      remaining = remaining.filter(item => !prices.has(item.typeId))
+    } catch (error) {
+      addWarning(`Failed to fetch prices from ${source}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  return prices
+}
+
+/**
+ * Price items from the first source that knows them
+ *
+ * Each source is asked only for the items the earlier ones could not price, and a source
+ * that fails is skipped. Items no source knows are missing from the result; every price
+ * carries the source it came from. Buy prices come from the buy side of the market
+ * settings and sell prices from the sell side, which may be another hub or variant.
+ */
+export async function getPrices(
+  items: PriceRequestItem[],
+  market: MarketSettings = DEFAULT_MARKET,
+  order: PriceSource[] = getPriceSourceOrder(),
+  providers: Partial<Record<PriceSource, PriceProvider>> = {}
+): Promise<Map<number, ItemPrice>> {
+  const unique = Array.from(new Map(items.map(item => [item.typeId, item])).values())
+  const buyPrices = await getSidePrices(unique, market.buy, order, providers)
+  if (isSameMarketSide(market.buy, market.sell)) return buyPrices
+
+  const sellPrices = await getSidePrices(unique, market.sell, order, providers)
+  const prices = new Map<number, ItemPrice>()
+  for (const { typeId } of unique) {
+    const buy = buyPrices.get(typeId)
+    const sell = sellPrices.get(typeId)
+    const source = (buy ?? sell)?.source
+    if (!source) continue
+    prices.set(typeId, {
+      buy: buy?.buy ?? 0,
+      sell: sell?.sell ?? 0,
+      buyVolume: buy?.buyVolume ?? 0,
+      sellVolume: sell?.sellVolume ?? 0,
+      source,
+      sellSource: sell && sell.source !== source ? sell.source : undefined,
+    })
+  }
+  return prices
+}
+
+/**
+ * Parse a pasted item list with Janice, buy prices from the buy side and sell prices from the sell side
+ * Split prices are the midpoint of the two when the sides differ
+ */
+export async function createMarketAppraisal(
+  input: string,
+  market: MarketSettings = DEFAULT_MARKET
+): Promise<AppraisalResult> {
+  if (isSameMarketSide(market.buy, market.sell)) {
+    return createAppraisal(input, false, market.buy)
+  }
+
+  const [buyAppraisal, sellAppraisal] = await Promise.all([
+    createAppraisal(input, false, market.buy),
+    createAppraisal(input, false, market.sell),
+  ])
+  const sellPrices = new Map(sellAppraisal.items.map(item => [item.typeId, item]))
+  const items = buyAppraisal.items.map(item => {
+    const sell = sellPrices.get(item.typeId)
+    const sellPrice = sell?.sellPrice ?? 0
+    return {
+      ...item,
+      sellPrice,
+      splitPrice: (item.buyPrice + sellPrice) / 2,
+      sellVolume: sell?.sellVolume ?? 0,
+    }
+  })
+
+  return {
+    items,
+    totals: {
+      buyPrice: buyAppraisal.totals.buyPrice,
+      sellPrice: sellAppraisal.totals.sellPrice,
+      splitPrice: (buyAppraisal.totals.buyPrice + sellAppraisal.totals.sellPrice) / 2,
+    },
+    failures: buyAppraisal.failures,
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * Blueprint profitability scanner
+ * Runs the recursive build over many blueprints in a background job and ranks the products
+ * by profit, margin, ISK per hour of slot time and market volume
+ *
+ * Jobs and results live in the Supabase profitability_scans table, so whichever server
+ * instance runs a scan, any other can report its progress and results.
+ */
+
+import {
+  calculateRecursiveBuild,
+  getAllBlueprints,
+  getCategoryId,
+  getGroupName,
+  getTypeInfo,
+  PRODUCT_CATEGORIES,
+  type BlueprintData,
+  type CalculationResult,
+  type IndustrySettings,
+} from '@/lib/blueprints'
+import { calculateScienceJobCost, getEstimatedItemValue } from '@/lib/job-cost'
+import {
+  calculateInvention,
+  INVENTED_BASE_ME,
+  INVENTED_BASE_TE,
+  type InventionResult,
+} from '@/lib/invention'
+import { calculateReverseEngineering } from '@/lib/reverse-engineering'
+import { getAdjustedPrices } from '@/lib/esi'
+import { getPrices, type PriceSource } from '@/lib/pricing'
+import type { MarketSettings } from '@/lib/markets'
+import { getTechLevel, type TechLevel } from '@/lib/tech-level'
+import { createClient } from '@/utils/supabase/server'
+import type { ProfitabilityScan } from '@/types/database'
+
+export type ScanSort = 'profit' | 'margin' | 'iskPerHour' | 'volume'
+
+export type ScanStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface ScanFilters {
+  categoryIds?: number[]
+  groupIds?: number[]
+  techLevels?: TechLevel[]
+  includeReactions?: boolean      // Reaction formulas are left out unless set
+}
+
+export interface ScanOptions {
+  filters: ScanFilters
+  settings: IndustrySettings      // Facility bonuses, cost indices and T1 blueprint ME/TE
+  inventionCostIndex: number      // Invention and reverse engineering jobs
+  invention: boolean              // Charge T2/T3 products their invention or reverse engineering cost
+  market: MarketSettings          // Materials at its buy side, products at its sell side
+}
+
+export interface ScanResult {
+  blueprintTypeId: number
+  blueprintName: string
+  productTypeId: number
+  productName: string
+  groupName: string | null
+  categoryId: number | null
+  techLevel: TechLevel
+  isReaction: boolean
+  runs: number
+  producedQuantity: number
+  materialsCost: number           // Raw materials at the market's buy side
+  jobCost: number
+  inventionCost: number
+  totalCost: number
+  outputValue: number             // Products at the market's sell side
+  profit: number
+  margin: number                  // Profit / output value (0-1)
+  slotTime: number                // Seconds of job slot time, invention included
+  iskPerHour: number              // Profit per hour of slot time
+  marketVolume: number            // Units on the sell side's sell orders (0 when the price source does not say)
+  priceSource: PriceSource        // Where the product price came from
+}
+
+export interface ScanJob {
+  id: string
+  key: string                     // Filters and options the results belong to
+  status: ScanStatus
+  progress: { done: number; total: number }
+  market: MarketSettings
+  startedAt: string
+  completedAt?: string
+  skipped: number                 // Blueprints that failed to expand or lack a product or material price
+  error?: string
+  results: ScanResult[]
+}
+
+export interface ScanSummary extends Omit<ScanJob, 'key' | 'results'> {
+  total: number                   // Priced products in the scan
+  results: ScanResult[]           // Ranked and limited
+}
+
+export const SCAN_SORTS: ScanSort[] = ['profit', 'margin', 'iskPerHour', 'volume']
+
+// Finished scans are served from cache until prices get this old
+const SCAN_CACHE_DURATION = 60 * 60 * 1000 // 1 hour
+
+// A running scan whose worker has not reported progress for this long is taken over
+// (pricing thousands of items through rate-limited sources can take minutes)
+const SCAN_STALE_AFTER = 10 * 60 * 1000 // 10 minutes
+
+// Blueprints expanded between yields to the event loop and progress reports
+const SCAN_CHUNK_SIZE = 25
+
+const ACTIVITY_REACTION = 11
+
+function toScanJob(row: ProfitabilityScan): ScanJob {
+  return {
+    id: row.id,
+    key: row.key,
+    status: row.status,
+    progress: { done: row.progress_done, total: row.progress_total },
+    market: row.options.market,
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? undefined,
+    skipped: row.skipped,
+    error: row.error ?? undefined,
+    results: row.results ?? [],
+  }
+}
+
+function isFresh(row: ProfitabilityScan): boolean {
+  if (row.status === 'queued' || row.status === 'running') return true
+  return row.status === 'done' && Date.now() - new Date(row.completed_at!).getTime() < SCAN_CACHE_DURATION
+}
+
+/**
+ * Get the blueprints a scan covers
+ */
+export function getScanBlueprints(filters: ScanFilters = {}): BlueprintData[] {
+  return getAllBlueprints().filter(bp => {
+    if (bp.activityId === ACTIVITY_REACTION && !filters.includeReactions) return false
+    if (filters.techLevels?.length && !filters.techLevels.includes(getTechLevel(bp.blueprintTypeId))) return false
+    if (filters.categoryIds?.length) {
+      const categoryId = getCategoryId(bp.productTypeId)
+      if (categoryId === null || !filters.categoryIds.includes(categoryId)) return false
+    }
+    if (filters.groupIds?.length) {
+      const groupId = getTypeInfo(bp.productTypeId)?.groupId
+      if (groupId == null || !filters.groupIds.includes(groupId)) return false
+    }
+    return true
+  })
+}
+
+/**
+ * Get the categories and groups the scanner can filter on, with their blueprint counts
+ */
+export function getScanFilterOptions(): {
+  categories: { id: number; name: string; count: number }[]
+  groups: { id: number; name: string; categoryId: number; count: number }[]
+} {
+  const categories = new Map<number, { id: number; name: string; count: number }>()
+  const groups = new Map<number, { id: number; name: string; categoryId: number; count: number }>()
+
+  for (const bp of getAllBlueprints()) {
+    const groupId = getTypeInfo(bp.productTypeId)?.groupId
+    const categoryId = getCategoryId(bp.productTypeId)
+    if (groupId == null || categoryId === null) continue
+
+    const category = categories.get(categoryId) ??
+      { id: categoryId, name: PRODUCT_CATEGORIES[categoryId] ?? `Category ${categoryId}`, count: 0 }
+    category.count++
+    categories.set(categoryId, category)
+
+    const group = groups.get(groupId) ??
+      { id: groupId, name: getGroupName(bp.productTypeId) ?? `Group ${groupId}`, categoryId, count: 0 }
+    group.count++
+    groups.set(groupId, group)
+  }
+
+  return {
+    categories: Array.from(categories.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    groups: Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
+
+/**
+ * Rank scan results, best first
+ */
+export function rankScanResults(results: ScanResult[], sort: ScanSort = 'profit', limit?: number): ScanResult[] {
+  const value = (result: ScanResult) => {
+    switch (sort) {
+      case 'margin': return result.margin
+      case 'iskPerHour': return result.iskPerHour
+      case 'volume': return result.marketVolume
+      default: return result.profit
+    }
+  }
+  const ranked = [...results].sort((a, b) => value(b) - value(a) || b.profit - a.profit)
+  return limit !== undefined ? ranked.slice(0, limit) : ranked
+}
+
+/**
+ * Summarize a scan job with its results ranked and limited
+ */
+export function summarizeScan(job: ScanJob, sort: ScanSort = 'profit', limit: number = 100): ScanSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    market: job.market,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    skipped: job.skipped,
+    error: job.error,
+    total: job.results.length,
+    results: rankScanResults(job.results, sort, limit),
+  }
+}
+
+/**
+ * Get a scan job by id, or null when it does not exist or its results have expired
+ */
+export async function getScanJob(id: string): Promise<ScanJob | null> {
+  const { data, error } = await createClient()
+    .from('profitability_scans')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch scan: ${error.message}`)
+  }
+  const row = data as ProfitabilityScan | null
+  return row && (isFresh(row) || row.status === 'failed') ? toScanJob(row) : null
+}
+
+/**
+ * Queue a scan, or return the queued, running or cached scan for the same key
+ *
+ * Nothing is scanned here: run the returned job with runScan once the response is sent,
+ * and poll getScanJob for progress. Queued scans left behind are picked up by runQueuedScans.
+ */
+export async function startScan(key: string, options: ScanOptions, total: number): Promise<ScanJob> {
+  const supabase = createClient()
+
+  const { data: latest, error: findError } = await supabase
+    .from('profitability_scans')
+    .select('*')
+    .eq('key', key)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (findError) {
+    throw new Error(`Failed to look up scans: ${findError.message}`)
+  }
+  if (latest && isFresh(latest as ProfitabilityScan)) {
+    return toScanJob(latest as ProfitabilityScan)
+  }
+
+  const { data, error } = await supabase
+    .from('profitability_scans')
+    .insert({ key, options, progress_total: total })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to queue scan: ${error.message}`)
+  }
+  return toScanJob(data as ProfitabilityScan)
+}
+
+/**
+ * Run a queued scan, or take over a running one whose worker went silent
+ *
+ * Only one worker can claim a scan, so calling this for a scan another worker is running
+ * does nothing. Blueprints are expanded in small chunks that yield to the event loop and
+ * report progress, so requests keep being served while it works.
+ */
+export async function runScan(id: string): Promise<void> {
+  const supabase = createClient()
+  const staleBefore = new Date(Date.now() - SCAN_STALE_AFTER).toISOString()
+
+  const { data, error } = await supabase
+    .from('profitability_scans')
+    .update({ status: 'running', heartbeat_at: new Date().toISOString(), progress_done: 0, skipped: 0 })
+    .eq('id', id)
+    .or(`status.eq.queued,and(status.eq.running,heartbeat_at.lt."${staleBefore}")`)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Failed to claim scan ${id}:`, error.message)
+    return
+  }
+  if (!data) return
+
+  try {
+    await scan(data as ProfitabilityScan)
+  } catch (err) {
+    console.error('Profitability scan error:', err)
+    await supabase
+      .from('profitability_scans')
+      .update({
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Scan failed',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+  }
+}
+
+/**
+ * Run every queued scan and every running scan whose worker went silent, oldest first
+ * @returns The number of scans run
+ */
+export async function runQueuedScans(): Promise<number> {
+  const staleBefore = new Date(Date.now() - SCAN_STALE_AFTER).toISOString()
+  const { data, error } = await createClient()
+    .from('profitability_scans')
+    .select('id')
+    .or(`status.eq.queued,and(status.eq.running,heartbeat_at.lt."${staleBefore}")`)
+    .order('started_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch queued scans: ${error.message}`)
+  }
+
+  // One scan at a time keeps the price sources' rate limits in reach
+  for (const { id } of data as { id: string }[]) {
+    await runScan(id)
+  }
+  return data.length
+}
+
+/**
+ * Delete finished scans whose results have expired
+ */
+export async function pruneScans(): Promise<void> {
+  const { error } = await createClient()
+    .from('profitability_scans')
+    .delete()
+    .in('status', ['done', 'failed'])
+    .lt('completed_at', new Date(Date.now() - SCAN_CACHE_DURATION).toISOString())
+
+  if (error) {
+    throw new Error(`Failed to prune scans: ${error.message}`)
+  }
+}
+
+async function scan(job: ProfitabilityScan): Promise<void> {
+  const { settings, filters, market } = job.options
+  const supabase = createClient()
+  const blueprints = getScanBlueprints(filters)
+
+  let adjustedPrices = new Map<number, number>()
+  try {
+    adjustedPrices = await getAdjustedPrices()
+  } catch (error) {
+    console.warn('Failed to fetch adjusted prices, job costs will be zero:', error)
+  }
+
+  const reportProgress = async (done: number, skipped: number) => {
+    const { error } = await supabase
+      .from('profitability_scans')
+      .update({ progress_done: done, progress_total: blueprints.length, skipped, heartbeat_at: new Date().toISOString() })
+      .eq('id', job.id)
+    if (error) console.warn(`Failed to report scan ${job.id} progress:`, error.message)
+  }
+
+  // Expand every blueprint first so one set of appraisals prices the whole scan
+  let skipped = 0
+  const builds: { bp: BlueprintData; techLevel: TechLevel; science: InventionResult | null; result: CalculationResult }[] = []
+  for (let i = 0; i < blueprints.length; i++) {
+    if (i % SCAN_CHUNK_SIZE === 0) {
+      await new Promise(resolve => setImmediate(resolve))
+      if (i > 0) await reportProgress(i, skipped)
+    }
+
+    const bp = blueprints[i]
+    const techLevel = getTechLevel(bp.blueprintTypeId)
+    try {
+      const science = job.options.invention && techLevel === 3
+        ? calculateReverseEngineering(bp.blueprintTypeId, settings.runs)
+        : job.options.invention && techLevel === 2
+          ? calculateInvention(bp.blueprintTypeId, settings.runs)
+          : null
+      const buildSettings: IndustrySettings = {
+        ...settings,
+        blueprintMe: science?.me ?? (techLevel === 1 ? settings.blueprintMe : INVENTED_BASE_ME),
+        blueprintTe: science?.te ?? (techLevel === 1 ? settings.blueprintTe : INVENTED_BASE_TE),
+        quantity: 1,
+      }
+      builds.push({ bp, techLevel, science, result: calculateRecursiveBuild(bp.blueprintTypeId, buildSettings, adjustedPrices) })
+    } catch (error) {
+      // Some SDE blueprints reference each other in a loop and cannot be expanded
+      console.warn(`Scan skipped blueprint ${bp.blueprintTypeId}:`, error instanceof Error ? error.message : error)
+      skipped++
+    }
+  }
+  await reportProgress(blueprints.length, skipped)
+
+  const itemsForPricing = new Map<number, string>()
+  for (const { bp, science, result } of builds) {
+    itemsForPricing.set(bp.productTypeId, bp.productName)
+    result.rawMaterials.forEach(m => itemsForPricing.set(m.typeId, m.name))
+    science?.materials.forEach(m => itemsForPricing.set(m.typeId, m.name))
+  }
+
+  const priceMap = await getPrices(
+    Array.from(itemsForPricing, ([typeId, name]) => ({ typeId, name })),
+    market
+  )
+
+  const results: ScanResult[] = []
+  for (const { bp, techLevel, science, result } of builds) {
+    const productPrice = priceMap.get(bp.productTypeId)
+    // An unpriced input would count as free and inflate the profit, so skip those builds too
+    const inputs = [...result.rawMaterials, ...(science?.materials ?? [])]
+    if (!productPrice?.sell || inputs.some(m => !priceMap.get(m.typeId)?.buy)) {
+      skipped++
+      continue
+    }
+    const materialsCost = result.rawMaterials.reduce((sum, m) =>
+      sum + (priceMap.get(m.typeId)?.buy ?? 0) * m.adjustedQuantity, 0)
+
+    // Invention: datacores/decryptors/relics plus one job per expected attempt
+    let inventionCost = 0
+    let inventionTime = 0
+    if (science) {
+      inventionCost = science.materials.reduce((sum, m) =>
+        sum + (priceMap.get(m.typeId)?.buy ?? 0) * m.quantity, 0)
+      inventionCost += calculateScienceJobCost(
+        getEstimatedItemValue(bp, 1, adjustedPrices),
+        science.expectedAttempts,
+        {
+          costIndex: job.options.inventionCostIndex,
+          jobCostBonus: settings.structureBonus.jobCostBonus,
+          facilityTax: settings.facilityTax,
+        }
+      ).total
+      inventionTime = science.timePerAttempt * science.expectedAttempts
+    }
+
+    const producedQuantity = bp.producedQuantity * settings.runs
+    const outputValue = productPrice.sell * producedQuantity
+    const totalCost = materialsCost + result.totalJobCost + inventionCost
+    const profit = outputValue - totalCost
+    const slotTime = result.totalTime + inventionTime
+
+    results.push({
+      blueprintTypeId: bp.blueprintTypeId,
+      blueprintName: bp.blueprintName,
+      productTypeId: bp.productTypeId,
+      productName: bp.productName,
+      groupName: getGroupName(bp.productTypeId),
+      categoryId: getCategoryId(bp.productTypeId),
+      techLevel,
+      isReaction: bp.activityId === ACTIVITY_REACTION,
+      runs: settings.runs,
+      producedQuantity,
+      materialsCost,
+      jobCost: result.totalJobCost,
+      inventionCost,
+      totalCost,
+      outputValue,
+      profit,
+      margin: profit / outputValue,
+      slotTime,
+      iskPerHour: slotTime > 0 ? profit / (slotTime / 3600) : 0,
+      marketVolume: productPrice.sellVolume,
+      priceSource: productPrice.source,
+    })
+  }
+
+  const { error } = await supabase
+    .from('profitability_scans')
+    .update({ status: 'done', results, skipped, completed_at: new Date().toISOString() })
+    .eq('id', job.id)
+
+  if (error) {
+    throw new Error(`Failed to save scan results: ${error.message}`)
+  }
+}
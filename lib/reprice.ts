@@ -0,0 +1,254 @@
+/**
+ * Project repricing
+ * Re-appraises a project's items through the price layer, saves the new prices and reports what changed
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getPrices, type ItemPrice } from '@/lib/pricing'
+import { toPriceSnapshots } from '@/lib/price-history'
+import type { MarketSettings } from '@/lib/markets'
+import type { Component, ProjectWithDetails, RawMaterial } from '@/types/database'
+
+export interface RepriceOptions {
+  skipCollected?: boolean    // Keep the stored prices of collected items
+}
+
+export interface ValueTotals {
+  buy: number
+  sell: number
+  split: number
+}
+
+export interface TotalsDiff<T> {
+  before: T
+  after: T
+  change: T                  // after - before
+}
+
+export interface RepriceItemChange {
+  id: string
+  kind: 'raw_material' | 'component'
+  typeId: number
+  name: string
+  buyPrice: TotalsDiff<number>
+  sellPrice: TotalsDiff<number>
+  buildCost?: TotalsDiff<number>  // Components with a stored build cost
+}
+
+export interface RepriceDiff {
+  rawMaterials: TotalsDiff<ValueTotals>   // Price × quantity over every raw material
+  components: TotalsDiff<ValueTotals>     // Price × quantity over every component
+  buildCost: TotalsDiff<number>           // Sum of component build costs
+  items: RepriceItemChange[]              // Items whose prices or build cost changed
+  unpriced: string[]                      // Items no source could price; their prices are kept
+  skipped: number                         // Collected items left alone
+}
+
+type PricedItem = RawMaterial | Component
+
+type Side = 'before' | 'after'
+
+// Items are updated one row at a time; keep a few updates in flight
+const UPDATE_CONCURRENCY = 10
+
+function valueTotals(items: PricedItem[]): ValueTotals {
+  return items.reduce((totals, item) => ({
+    buy: totals.buy + (item.buy_price ?? 0) * item.quantity,
+    sell: totals.sell + (item.sell_price ?? 0) * item.quantity,
+    split: totals.split + (item.split_price ?? 0) * item.quantity,
+  }), { buy: 0, sell: 0, split: 0 })
+}
+
+function diffTotals(before: ValueTotals, after: ValueTotals): TotalsDiff<ValueTotals> {
+  return {
+    before,
+    after,
+    change: { buy: after.buy - before.buy, sell: after.sell - before.sell, split: after.split - before.split },
+  }
+}
+
+function diffNumbers(before: number, after: number): TotalsDiff<number> {
+  return { before, after, change: after - before }
+}
+
+function withPrice<T extends PricedItem>(item: T, price: ItemPrice | undefined): T {
+  if (!price) return item
+  return { ...item, buy_price: price.buy, sell_price: price.sell, split_price: (price.buy + price.sell) / 2 }
+}
+
+function priceColumns(item: PricedItem) {
+  return { buy_price: item.buy_price, sell_price: item.sell_price, split_price: item.split_price }
+}
+
+/**
+ * Shift each component's stored build cost by how much the cost of its inputs moved
+ *
+ * Job costs are not stored, so they stay as they were. Inputs are valued the way the
+ * make-or-buy optimizer values them: raw materials at sell price, sub-components at the
+ * cheaper of buying (sell price) and building.
+ */
+function repriceBuildCosts(
+  before: { rawMaterials: RawMaterial[]; components: Component[] },
+  after: { rawMaterials: RawMaterial[]; components: Component[] },
+  skip: (item: PricedItem) => boolean
+): Map<string, number | null> {
+  const lookup = {
+    before: {
+      raw: new Map(before.rawMaterials.map(item => [item.type_id, item])),
+      components: new Map(before.components.map(item => [item.type_id, item])),
+    },
+    after: {
+      raw: new Map(after.rawMaterials.map(item => [item.type_id, item])),
+      components: new Map(after.components.map(item => [item.type_id, item])),
+    },
+  }
+  const buildCosts = new Map<string, number | null>()
+  const visiting = new Set<string>()
+
+  const buildCost = (component: Component, side: Side): number | null => {
+    if (side === 'before' || component.build_cost === null || skip(component)) return component.build_cost
+    const known = buildCosts.get(component.id)
+    if (known !== undefined) return known
+    if (visiting.has(component.id)) return component.build_cost // Cycle guard, should not happen
+
+    visiting.add(component.id)
+    let cost = component.build_cost
+    for (const material of component.materials_breakdown ?? []) {
+      cost += material.quantity * (unitCost(material.typeId, 'after') - unitCost(material.typeId, 'before'))
+    }
+    visiting.delete(component.id)
+
+    const result = Math.max(0, cost)
+    buildCosts.set(component.id, result)
+    return result
+  }
+
+  const unitCost = (typeId: number, side: Side): number => {
+    const component = lookup[side].components.get(typeId)
+    if (component) {
+      const sell = component.sell_price ?? 0
+      const total = buildCost(component, side)
+      if (total === null || component.quantity <= 0) return sell
+      const build = total / component.quantity
+      return sell > 0 && sell < build ? sell : build
+    }
+    return lookup[side].raw.get(typeId)?.sell_price ?? 0
+  }
+
+  for (const component of after.components) {
+    buildCosts.set(component.id, buildCost(component, 'after'))
+  }
+  return buildCosts
+}
+
+/**
+ * Re-appraise a project's raw materials and components and save what changed
+ *
+ * Prices come from the price layer at the given market; items no source knows keep
+ * their stored price. Component build costs follow the new input prices, and the
+ * raw materials that were repriced are recorded as a new price snapshot.
+ * @param project - Project with its raw materials and components
+ * @returns The diff, and error messages for anything that could not be saved
+ */
+export async function repriceProject(
+  supabase: SupabaseClient,
+  project: Pick<ProjectWithDetails, 'raw_materials' | 'components'>,
+  market: MarketSettings,
+  options: RepriceOptions = {}
+): Promise<{ diff: RepriceDiff; errors: string[] }> {
+  const skip = (item: PricedItem) => Boolean(options.skipCollected && item.collected)
+  const toPrice = [...project.raw_materials, ...project.components].filter(item => !skip(item))
+  const prices = await getPrices(toPrice.map(item => ({ typeId: item.type_id, name: item.item_name })), market)
+  const priceOf = (item: PricedItem) => skip(item) ? undefined : prices.get(item.type_id)
+
+  const before = { rawMaterials: project.raw_materials, components: project.components }
+  const after = {
+    rawMaterials: project.raw_materials.map(item => withPrice(item, priceOf(item))),
+    components: project.components.map(item => withPrice(item, priceOf(item))),
+  }
+  const buildCosts = repriceBuildCosts(before, after, skip)
+  after.components = after.components.map(item => ({ ...item, build_cost: buildCosts.get(item.id) ?? item.build_cost }))
+
+  const items: RepriceItemChange[] = []
+  const rawUpdates: RawMaterial[] = []
+  const componentUpdates: Component[] = []
+  const changed = (a: number | null, b: number | null) => Math.abs((a ?? 0) - (b ?? 0)) > 1e-6
+
+  after.rawMaterials.forEach((item, i) => {
+    const old = before.rawMaterials[i]
+    if (!changed(old.buy_price, item.buy_price) && !changed(old.sell_price, item.sell_price)) return
+    rawUpdates.push(item)
+    items.push({
+      id: item.id,
+      kind: 'raw_material',
+      typeId: item.type_id,
+      name: item.item_name,
+      buyPrice: diffNumbers(old.buy_price ?? 0, item.buy_price ?? 0),
+      sellPrice: diffNumbers(old.sell_price ?? 0, item.sell_price ?? 0),
+    })
+  })
+
+  after.components.forEach((item, i) => {
+    const old = before.components[i]
+    if (
+      !changed(old.buy_price, item.buy_price) &&
+      !changed(old.sell_price, item.sell_price) &&
+      !changed(old.build_cost, item.build_cost)
+    ) return
+    componentUpdates.push(item)
+    items.push({
+      id: item.id,
+      kind: 'component',
+      typeId: item.type_id,
+      name: item.item_name,
+      buyPrice: diffNumbers(old.buy_price ?? 0, item.buy_price ?? 0),
+      sellPrice: diffNumbers(old.sell_price ?? 0, item.sell_price ?? 0),
+      buildCost: old.build_cost !== null ? diffNumbers(old.build_cost, item.build_cost ?? 0) : undefined,
+    })
+  })
+
+  const errors: string[] = []
+  const updates = [
+    ...rawUpdates.map(item => ({ table: 'raw_materials', item, values: priceColumns(item) })),
+    ...componentUpdates.map(item => ({
+      table: 'components',
+      item,
+      values: { ...priceColumns(item), build_cost: item.build_cost },
+    })),
+  ]
+  for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+    await Promise.all(updates.slice(i, i + UPDATE_CONCURRENCY).map(async ({ table, item, values }) => {
+      const { error } = await supabase
+        .from(table)
+        .update(values)
+        .eq('id', item.id)
+      if (error) errors.push(`${item.item_name}: ${error.message}`)
+    }))
+  }
+
+  // Only prices this run fetched are history; collected and unpriced items keep old prices
+  const snapshotItems = after.rawMaterials.flatMap(item => {
+    const price = priceOf(item)
+    return price ? [{ ...item, source: price.source }] : []
+  })
+  if (snapshotItems.length > 0) {
+    const { error: snapshotError } = await supabase
+      .from('price_snapshots')
+      .insert(toPriceSnapshots(snapshotItems))
+    if (snapshotError) errors.push(`Price snapshots: ${snapshotError.message}`)
+  }
+
+  const sumBuildCost = (components: Component[]) => components.reduce((sum, item) => sum + (item.build_cost ?? 0), 0)
+
+  return {
+    diff: {
+      rawMaterials: diffTotals(valueTotals(before.rawMaterials), valueTotals(after.rawMaterials)),
+      components: diffTotals(valueTotals(before.components), valueTotals(after.components)),
+      buildCost: diffNumbers(sumBuildCost(before.components), sumBuildCost(after.components)),
+      items,
+      unpriced: Array.from(new Set(toPrice.filter(item => !prices.has(item.type_id)).map(item => item.item_name))),
+      skipped: project.raw_materials.length + project.components.length - toPrice.length,
+    },
+    errors,
+  }
+}
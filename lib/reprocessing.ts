@@ -0,0 +1,149 @@
+/**
+ * Reprocessing utilities
+ * Refinery yield from structure, rig, security, implant and skills, and the materials an item reprocesses into
+ */
+
+import reprocessingDataJson from '@/data/reprocessing.json'
+import structuresData from '@/data/structures.json'
+import skillsData from '@/data/skills.json'
+import { getCategoryId, getTypeName } from '@/lib/blueprints'
+
+export interface ReprocessingData {
+  typeId: number
+  portionSize: number             // Units reprocessed per batch
+  materials: { typeId: number; quantity: number }[]  // Yield per batch at 100%
+}
+
+const refinery = structuresData.reprocessing
+
+export type RefineryStructure = keyof typeof refinery.structures
+export type RefineryRig = keyof typeof refinery.rigs
+export type RefinerySecurity = keyof typeof refinery.securityModifiers
+export type RefineryImplant = keyof typeof refinery.implants
+
+export interface RefineryProfile {
+  structure: RefineryStructure
+  rig: RefineryRig                // Ignored where the structure takes no rigs
+  security: RefinerySecurity
+  implant: RefineryImplant
+  reprocessing: number            // Skill levels (0-5)
+  reprocessingEfficiency: number
+  oreProcessing: number           // Level of the matching ore, moon ore or ice processing skill
+  scrapmetalProcessing: number
+  taxRate: number                 // 0-1, charged on the estimated value of the output
+}
+
+export interface ReprocessedMaterial {
+  typeId: number
+  name: string
+  quantity: number
+}
+
+export interface ReprocessedItem {
+  typeId: number
+  name: string
+  quantity: number
+  batches: number
+  leftover: number                // Units short of a full batch, returned unprocessed
+  yieldRate: number
+  materials: ReprocessedMaterial[]
+}
+
+const reprocessingData = reprocessingDataJson as Record<string, ReprocessingData>
+
+// Ore, moon ore and ice; everything else is reprocessed as scrapmetal
+const CATEGORY_ASTEROID = 25
+
+export const refineryStructures = refinery.structures
+export const refineryRigs = refinery.rigs
+export const refineryImplants = refinery.implants
+
+/**
+ * Check if reprocessing yields were generated (data/reprocessing.json is written by `npm run update-sde`)
+ */
+export function hasReprocessingData(): boolean {
+  return Object.keys(reprocessingData).length > 0
+}
+
+/**
+ * Get reprocessing yields by type ID
+ */
+export function getReprocessingData(typeId: number): ReprocessingData | null {
+  return reprocessingData[typeId.toString()] || null
+}
+
+/**
+ * Get every type that can be reprocessed
+ */
+export function getReprocessableTypes(): ReprocessingData[] {
+  return Object.values(reprocessingData)
+}
+
+/**
+ * Check if a type reprocesses with the ore formula (ore, moon ore, ice)
+ */
+export function isOre(typeId: number): boolean {
+  return getCategoryId(typeId) === CATEGORY_ASTEROID
+}
+
+/**
+ * Get the ore reprocessing yield for a refinery profile
+ * Formula: (50% + rig) * (1 + security) * (1 + structure) * (1 + skills) * (1 + implant)
+ * Rigs and security only count in structures that take reprocessing rigs.
+ */
+export function getOreYield(profile: RefineryProfile): number {
+  const structure = refinery.structures[profile.structure]
+  const rigYield = structure.rigs ? refinery.rigs[profile.rig].baseYield : 0
+  const securityModifier = structure.rigs && rigYield > 0 ? refinery.securityModifiers[profile.security] : 0
+  const { reprocessing, reprocessing_efficiency } = skillsData.reprocessingSkills
+
+  return (refinery.baseYield + rigYield) *
+         (1 + securityModifier) *
+         (1 + structure.yieldBonus) *
+         (1 + reprocessing.yieldBonus * profile.reprocessing) *
+         (1 + reprocessing_efficiency.yieldBonus * profile.reprocessingEfficiency) *
+         (1 + skillsData.oreProcessingYieldBonus * profile.oreProcessing) *
+         (1 + refinery.implants[profile.implant].yieldBonus)
+}
+
+/**
+ * Get the scrapmetal (modules, ships, anything but ore) reprocessing yield
+ */
+export function getScrapmetalYield(profile: RefineryProfile): number {
+  const { scrapmetal_processing } = skillsData.reprocessingSkills
+  return refinery.baseYield * (1 + scrapmetal_processing.yieldBonus * profile.scrapmetalProcessing)
+}
+
+/**
+ * Get the reprocessing yield that applies to a type
+ */
+export function getReprocessingYield(profile: RefineryProfile, typeId: number): number {
+  return isOre(typeId) ? getOreYield(profile) : getScrapmetalYield(profile)
+}
+
+/**
+ * Reprocess a stack of items in whole batches
+ * Each output material is rounded down over the whole stack. Returns null when the type
+ * cannot be reprocessed.
+ */
+export function reprocessItem(typeId: number, quantity: number, yieldRate: number): ReprocessedItem | null {
+  const data = getReprocessingData(typeId)
+  if (!data) return null
+
+  const batches = Math.floor(quantity / data.portionSize)
+  return {
+    typeId,
+    name: getTypeName(typeId),
+    quantity,
+    batches,
+    leftover: quantity - batches * data.portionSize,
+    yieldRate,
+    materials: data.materials
+      .map(m => ({
+        typeId: m.typeId,
+        name: getTypeName(m.typeId),
+        quantity: Math.floor(batches * m.quantity * yieldRate),
+      }))
+      .filter(m => m.quantity > 0),
+  }
+}
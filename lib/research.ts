@@ -0,0 +1,167 @@
+/**
+ * Research (activities 3, 4) and copying (activity 5) utilities
+ * ME/TE research time and cost per level, BPC copy jobs, and materials saved by research
+ */
+
+import researchDataJson from '@/data/research.json'
+import {
+  calculateMaterialQuantity,
+  calculateJobTime,
+  getTypeName,
+  type BlueprintData,
+} from '@/lib/blueprints'
+import { calculateScienceJobCost, type JobCostFacility } from '@/lib/job-cost'
+
+export interface ResearchData {
+  blueprintTypeId: number
+  researchTeTime: number          // Base seconds for TE research level 1
+  researchMeTime: number          // Base seconds for ME research level 1
+  copyTime: number                // Seconds per copied run
+  maxProductionLimit: number      // Max runs per copy
+}
+
+export interface ScienceFacility extends JobCostFacility {
+  timeBonus: number               // Structure job time bonus (0-1)
+}
+
+export interface ResearchLevel {
+  level: number                   // Level reached by this job (ME 1-10, TE level 1-10 = TE 2-20)
+  time: number                    // Seconds
+  jobCost: number
+}
+
+export interface ResearchResult {
+  levels: ResearchLevel[]
+  time: number
+  jobCost: number
+}
+
+export interface CopyResult {
+  copies: number
+  runsPerCopy: number
+  time: number                    // Seconds for all copies in one job
+  jobCost: number
+}
+
+export interface MaterialSaving {
+  typeId: number
+  name: string
+  quantityBefore: number
+  quantityAfter: number
+  saved: number
+}
+
+const researchData = researchDataJson as Record<string, ResearchData>
+
+// Time (and cost) of each research level relative to level 1; index 0 is level 1
+export const RESEARCH_LEVEL_MODIFIERS = [105, 250, 595, 1414, 3360, 8000, 19000, 45255, 107700, 256000]
+  .map(rank => rank / 105)
+
+export const MAX_RESEARCH_LEVEL = 10
+
+/**
+ * Check if research times were generated (data/research.json is written by `npm run update-sde`)
+ */
+export function hasResearchData(): boolean {
+  return Object.keys(researchData).length > 0
+}
+
+/**
+ * Get research and copy times by blueprint type ID
+ */
+export function getResearchData(blueprintTypeId: number): ResearchData | null {
+  return researchData[blueprintTypeId.toString()] || null
+}
+
+/**
+ * Calculate research from one level to another, one job per level
+ * Levels are 0-10 for both ME (1% each) and TE (2% each). productValue is the EIV of one
+ * manufacturing run of the blueprint.
+ */
+export function calculateResearch(
+  baseTime: number,
+  fromLevel: number,
+  toLevel: number,
+  productValue: number,
+  facility: ScienceFacility,
+  skillModifier: number = 1
+): ResearchResult {
+  const levels: ResearchLevel[] = []
+  for (let level = Math.max(0, fromLevel) + 1; level <= Math.min(toLevel, MAX_RESEARCH_LEVEL); level++) {
+    const modifier = RESEARCH_LEVEL_MODIFIERS[level - 1]
+    levels.push({
+      level,
+      time: Math.ceil(baseTime * modifier * (1 - facility.timeBonus) * skillModifier),
+      jobCost: calculateScienceJobCost(productValue, modifier, facility).total,
+    })
+  }
+
+  return {
+    levels,
+    time: levels.reduce((sum, l) => sum + l.time, 0),
+    jobCost: levels.reduce((sum, l) => sum + l.jobCost, 0),
+  }
+}
+
+/**
+ * Calculate a copy job producing several BPCs
+ * Runs per copy are capped at the blueprint's max production limit.
+ */
+export function calculateCopying(
+  data: ResearchData,
+  copies: number,
+  runsPerCopy: number,
+  productValue: number,
+  facility: ScienceFacility,
+  skillModifier: number = 1
+): CopyResult {
+  const runs = data.maxProductionLimit > 0 ? Math.min(runsPerCopy, data.maxProductionLimit) : runsPerCopy
+  const totalRuns = copies * runs
+
+  return {
+    copies,
+    runsPerCopy: runs,
+    time: Math.ceil(data.copyTime * totalRuns * (1 - facility.timeBonus) * skillModifier),
+    jobCost: calculateScienceJobCost(productValue, totalRuns, facility).total,
+  }
+}
+
+/**
+ * Compare material quantities at two ME levels over a number of runs
+ * Uses the same rounding as the build calculator (calculateMaterialQuantity).
+ */
+export function calculateMaterialSavings(
+  bp: BlueprintData,
+  meFrom: number,
+  meTo: number,
+  runs: number,
+  structureMeBonus: number,
+  rigMeBonus: number = 0,
+  securityMultiplier: number = 1.0
+): MaterialSaving[] {
+  return bp.materials.map(mat => {
+    const quantityBefore = calculateMaterialQuantity(mat.quantity, runs, meFrom, structureMeBonus, rigMeBonus, securityMultiplier)
+    const quantityAfter = calculateMaterialQuantity(mat.quantity, runs, meTo, structureMeBonus, rigMeBonus, securityMultiplier)
+    return {
+      typeId: mat.typeId,
+      name: getTypeName(mat.typeId),
+      quantityBefore,
+      quantityAfter,
+      saved: quantityBefore - quantityAfter,
+    }
+  })
+}
+
+/**
+ * Manufacturing time saved over a number of runs by researching TE
+ */
+export function calculateTimeSavings(
+  bp: BlueprintData,
+  teFrom: number,
+  teTo: number,
+  runs: number,
+  structureTeBonus: number
+): number {
+  return calculateJobTime(bp.time, runs, teFrom, structureTeBonus, 0) -
+         calculateJobTime(bp.time, runs, teTo, structureTeBonus, 0)
+}
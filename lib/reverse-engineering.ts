@@ -0,0 +1,147 @@
+/**
+ * Reverse engineering utilities
+ * Turns Sleeper relics into T3 BPCs: relic quality, expected attempts, datacores, decryptor effects
+ */
+
+import reverseEngineeringDataJson from '@/data/reverse-engineering.json'
+import { getTypeName, type BlueprintMaterial } from '@/lib/blueprints'
+import {
+  calculateInventionChance,
+  getDecryptor,
+  INVENTED_BASE_ME,
+  INVENTED_BASE_TE,
+  type InventionMaterial,
+  type InventionOptions,
+  type InventionResult,
+} from '@/lib/invention'
+
+export type RelicQuality = 'intact' | 'malfunctioning' | 'wrecked'
+
+export interface ReverseEngineeringRelic {
+  relicTypeId: number
+  quality: RelicQuality
+  time: number                    // Seconds per attempt
+  materials: BlueprintMaterial[]  // Datacores per attempt
+  probability: number             // Base success chance (0-1)
+  outputRuns: number              // Runs on the T3 BPC
+  skills: number[]                // Required skill type IDs
+}
+
+export interface ReverseEngineeringData {
+  productBlueprintTypeId: number  // T3 blueprint copy produced on success
+  relics: ReverseEngineeringRelic[]
+}
+
+export interface ReverseEngineeringOptions extends InventionOptions {
+  relicQuality?: RelicQuality
+}
+
+// Same shape as invention, so T3 BPCs plug into the manufacturing result like T2 BPCs.
+// t1BlueprintTypeId/t1BlueprintName hold the relic the job is started from.
+export interface ReverseEngineeringResult extends InventionResult {
+  relicQuality: RelicQuality
+}
+
+export const RELIC_QUALITIES: RelicQuality[] = ['intact', 'malfunctioning', 'wrecked']
+
+const reverseEngineeringData = reverseEngineeringDataJson as Record<string, ReverseEngineeringData>
+
+/**
+ * Check if relic recipes were generated (data/reverse-engineering.json is written by `npm run update-sde`)
+ */
+export function hasReverseEngineeringData(): boolean {
+  return Object.keys(reverseEngineeringData).length > 0
+}
+
+/**
+ * Get reverse engineering data by the T3 blueprint it produces
+ */
+export function getReverseEngineeringData(t3BlueprintTypeId: number): ReverseEngineeringData | null {
+  return reverseEngineeringData[t3BlueprintTypeId.toString()] || null
+}
+
+/**
+ * Check if a blueprint is obtained through reverse engineering
+ */
+export function canBeReverseEngineered(blueprintTypeId: number): boolean {
+  return reverseEngineeringData[blueprintTypeId.toString()] !== undefined
+}
+
+/**
+ * Calculate the reverse engineering needed to cover a number of T3 manufacturing runs
+ * Attempts are amortized like invention; one relic is consumed per attempt.
+ */
+export function calculateReverseEngineering(
+  t3BlueprintTypeId: number,
+  totalRuns: number,
+  options: ReverseEngineeringOptions = {}
+): ReverseEngineeringResult {
+  const data = getReverseEngineeringData(t3BlueprintTypeId)
+  const quality = options.relicQuality ?? 'intact'
+  const relic = data?.relics.find(r => r.quality === quality)
+  if (!relic) {
+    throw new Error(`Blueprint ${t3BlueprintTypeId} cannot be reverse engineered from a ${quality} relic`)
+  }
+
+  const decryptor = getDecryptor(options.decryptor)
+  const probability = calculateInventionChance(
+    relic,
+    decryptor,
+    options.skillLevels,
+    options.defaultSkillLevel
+  )
+
+  const runsPerBpc = relic.outputRuns + decryptor.runModifier
+  const bpcsNeeded = Math.ceil(totalRuns / runsPerBpc)
+  const expectedAttempts = probability > 0 ? bpcsNeeded / probability : 0
+  const relicName = getTypeName(relic.relicTypeId)
+
+  const materials: InventionMaterial[] = [
+    { typeId: relic.relicTypeId, name: relicName, quantity: expectedAttempts },
+    ...relic.materials.map(mat => ({
+      typeId: mat.typeId,
+      name: getTypeName(mat.typeId),
+      quantity: mat.quantity * expectedAttempts
+    })),
+  ]
+
+  if (decryptor.typeId !== null) {
+    materials.push({
+      typeId: decryptor.typeId,
+      name: decryptor.name,
+      quantity: expectedAttempts
+    })
+  }
+
+  return {
+    t1BlueprintTypeId: relic.relicTypeId,
+    t1BlueprintName: relicName,
+    t2BlueprintTypeId: t3BlueprintTypeId,
+    relicQuality: quality,
+    probability,
+    runsPerBpc,
+    bpcsNeeded,
+    expectedAttempts,
+    me: INVENTED_BASE_ME + decryptor.meModifier,
+    te: INVENTED_BASE_TE + decryptor.teModifier,
+    timePerAttempt: relic.time,
+    materials,
+    decryptor
+  }
+}
+
+/**
+ * Calculate reverse engineering for every relic quality available for a T3 blueprint
+ */
+export function compareRelics(
+  t3BlueprintTypeId: number,
+  totalRuns: number,
+  options: InventionOptions = {}
+): ReverseEngineeringResult[] {
+  const data = getReverseEngineeringData(t3BlueprintTypeId)
+  if (!data) return []
+
+  return RELIC_QUALITIES
+    .filter(quality => data.relics.some(r => r.quality === quality))
+    .map(quality => calculateReverseEngineering(t3BlueprintTypeId, totalRuns, { ...options, relicQuality: quality }))
+}
@@ -0,0 +1,171 @@
+/**
+ * Job slot scheduler
+ * Lays build steps out on manufacturing/reaction slots, respecting component dependencies
+ */
+
+import type { BuildStep } from '@/lib/blueprints'
+
+const ACTIVITY_REACTION = 11
+
+export interface SlotConfig {
+  characters: number
+  manufacturing: number    // Manufacturing slots per character
+  reaction: number         // Reaction slots per character
+}
+
+export interface ScheduledJob {
+  stepIndex: number        // Index into the build steps that were scheduled
+  jobIndex: number         // Which of the step's jobs this is
+  productName: string
+  isReaction: boolean
+  runs: number
+  slot: number             // Slot number within its kind (0-based)
+  start: number            // Seconds from the start of the build
+  end: number
+  isCritical: boolean
+}
+
+export interface Schedule {
+  jobs: ScheduledJob[]
+  manufacturingSlots: number
+  reactionSlots: number
+  makespan: number         // Wall-clock time until the last job finishes
+  sequentialTime: number   // Sum of all job times (one slot)
+  criticalPath: number[]   // Step indices of the longest dependency chain, first to last
+  criticalPathTime: number // Lower bound on the makespan with unlimited slots
+}
+
+// Max job slots with Mass Production/Advanced Mass Production (and the reaction equivalents) at V
+export const DEFAULT_SLOTS: SlotConfig = {
+  characters: 1,
+  manufacturing: 11,
+  reaction: 11,
+}
+
+/**
+ * For each step, the steps producing its built inputs
+ */
+function getDependencies(steps: BuildStep[]): number[][] {
+  const producers = new Map<number, number[]>()
+  steps.forEach((step, i) => {
+    producers.set(step.productTypeId, [...(producers.get(step.productTypeId) ?? []), i])
+  })
+
+  return steps.map((step, i) => {
+    const deps = new Set<number>()
+    for (const mat of step.materials) {
+      for (const producer of producers.get(mat.typeId) ?? []) {
+        if (producer !== i) deps.add(producer)
+      }
+    }
+    return Array.from(deps)
+  })
+}
+
+/**
+ * Schedule build steps onto job slots
+ *
+ * A step's jobs run in parallel when slots allow, and a step only starts once every job
+ * producing one of its inputs has finished. Jobs are placed greedily at their earliest
+ * possible start, preferring jobs with the longest chain of work still behind them.
+ */
+export function scheduleBuild(steps: BuildStep[], slots: SlotConfig = DEFAULT_SLOTS): Schedule {
+  const dependencies = getDependencies(steps)
+  const jobTime = steps.map(step => Math.ceil(step.time / (step.jobs ?? 1)))
+
+  // Longest chain of job times from each step to the end of the build
+  const consumers: number[][] = steps.map(() => [])
+  dependencies.forEach((deps, i) => deps.forEach(dep => consumers[dep].push(i)))
+  const tail = new Map<number, number>()
+  const tailFrom = (i: number, visiting: Set<number>): number => {
+    const cached = tail.get(i)
+    if (cached !== undefined) return cached
+    if (visiting.has(i)) return 0 // Dependency cycle, should not happen with SDE data
+    visiting.add(i)
+    const longest = Math.max(0, ...consumers[i].map(c => tailFrom(c, visiting)))
+    visiting.delete(i)
+    tail.set(i, jobTime[i] + longest)
+    return jobTime[i] + longest
+  }
+  steps.forEach((_, i) => tailFrom(i, new Set()))
+
+  const manufacturingSlots = Math.max(1, slots.characters * slots.manufacturing)
+  const reactionSlots = Math.max(1, slots.characters * slots.reaction)
+  const slotFree = {
+    manufacturing: new Array<number>(manufacturingSlots).fill(0),
+    reaction: new Array<number>(reactionSlots).fill(0),
+  }
+
+  const remainingJobs = steps.map(step => step.jobs ?? 1)
+  const stepEnd = steps.map(() => 0)
+  const jobs: ScheduledJob[] = []
+
+  while (remainingJobs.some(n => n > 0)) {
+    // Steps whose inputs are all finished (fall back to any step if a cycle blocks progress)
+    let ready = steps
+      .map((_, i) => i)
+      .filter(i => remainingJobs[i] > 0 && dependencies[i].every(dep => remainingJobs[dep] === 0))
+    if (ready.length === 0) {
+      ready = steps.map((_, i) => i).filter(i => remainingJobs[i] > 0)
+    }
+
+    // Pick the job that can start first, then the one with the most work behind it
+    let best = { step: -1, slot: -1, start: Infinity }
+    for (const i of ready) {
+      const free = steps[i].activityId === ACTIVITY_REACTION ? slotFree.reaction : slotFree.manufacturing
+      const slot = free.indexOf(Math.min(...free))
+      const readyAt = Math.max(0, ...dependencies[i].map(dep => stepEnd[dep]))
+      const start = Math.max(free[slot], readyAt)
+      if (start < best.start || (start === best.start && tail.get(i)! > tail.get(best.step)!)) {
+        best = { step: i, slot, start }
+      }
+    }
+
+    const step = steps[best.step]
+    const isReaction = step.activityId === ACTIVITY_REACTION
+    const jobCount = step.jobs ?? 1
+    const end = best.start + jobTime[best.step]
+    const free = isReaction ? slotFree.reaction : slotFree.manufacturing
+    free[best.slot] = end
+    stepEnd[best.step] = Math.max(stepEnd[best.step], end)
+    remainingJobs[best.step]--
+
+    jobs.push({
+      stepIndex: best.step,
+      jobIndex: jobCount - remainingJobs[best.step] - 1,
+      productName: step.productName,
+      isReaction,
+      runs: step.runs / jobCount,
+      slot: best.slot,
+      start: best.start,
+      end,
+      isCritical: false,
+    })
+  }
+
+  // Critical path: start from the step with the longest chain and follow the longest consumer
+  const criticalPath: number[] = []
+  const roots = steps.map((_, i) => i).filter(i => dependencies[i].length === 0)
+  let current = roots.length > 0
+    ? roots.reduce((a, b) => (tail.get(b)! > tail.get(a)! ? b : a))
+    : -1
+  while (current !== -1 && !criticalPath.includes(current)) {
+    criticalPath.push(current)
+    const next = consumers[current]
+    current = next.length > 0
+      ? next.reduce((a, b) => (tail.get(b)! > tail.get(a)! ? b : a))
+      : -1
+  }
+  const critical = new Set(criticalPath)
+  jobs.forEach(job => { job.isCritical = critical.has(job.stepIndex) })
+
+  return {
+    jobs,
+    manufacturingSlots,
+    reactionSlots,
+    makespan: Math.max(0, ...jobs.map(job => job.end)),
+    sequentialTime: steps.reduce((sum, step) => sum + step.time, 0),
+    criticalPath,
+    criticalPathTime: criticalPath.length > 0 ? tail.get(criticalPath[0])! : 0,
+  }
+}
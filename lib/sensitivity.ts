@@ -0,0 +1,106 @@
+/**
+ * Profit sensitivity utilities
+ * How a build's estimated profit moves with the system cost index, blueprint ME and material prices
+ */
+
+import { formatMarketSide, type MarketSettings } from '@/lib/markets'
+
+export type SensitivityVariable = 'costIndex' | 'me' | 'materialPrice'
+
+export interface SensitivityPoint {
+  x: number
+  profit: number
+}
+
+export interface SensitivitySeries {
+  variable: SensitivityVariable
+  label: string
+  current: number                 // x of the calculated build
+  points: SensitivityPoint[]
+  markers: { label: string; x: number }[]
+}
+
+export interface SensitivityJob {
+  estimatedItemValue: number
+  costIndex: number
+  jobCostBonus: number            // Structure role bonus (0-1)
+}
+
+/**
+ * Profit as every job's cost index changes to x
+ * The system cost term is linear: EIV * index * (1 - role bonus); tax and SCC do not move.
+ */
+export function costIndexSensitivity(
+  baseProfit: number,
+  jobs: SensitivityJob[],
+  indexes: number[]
+): SensitivitySeries {
+  const profitAt = (index: number) => baseProfit - jobs.reduce((sum, job) =>
+    sum + job.estimatedItemValue * (1 - job.jobCostBonus) * (index - job.costIndex), 0)
+  const weight = jobs.reduce((sum, job) => sum + job.estimatedItemValue, 0)
+  const current = weight > 0
+    ? jobs.reduce((sum, job) => sum + job.estimatedItemValue * job.costIndex, 0) / weight
+    : 0
+
+  return {
+    variable: 'costIndex',
+    label: 'System cost index',
+    current,
+    points: indexes.map(x => ({ x, profit: profitAt(x) })),
+    markers: [],
+  }
+}
+
+/**
+ * Profit as blueprint ME changes
+ *
+ * @param buildCostAt - Materials plus job cost of the build at an ME level
+ */
+export function meSensitivity(
+  baseProfit: number,
+  currentMe: number,
+  buildCostAt: (me: number) => number
+): SensitivitySeries {
+  const baseCost = buildCostAt(currentMe)
+  const levels = Array.from({ length: 11 }, (_, me) => me)
+
+  return {
+    variable: 'me',
+    label: 'Blueprint ME',
+    current: currentMe,
+    points: levels.map(me => ({ x: me, profit: baseProfit - (buildCostAt(me) - baseCost) })),
+    markers: [],
+  }
+}
+
+/**
+ * Profit as material prices move against the buy prices the build was costed at
+ * x is the price multiplier (1 = the market's buy side); its sell side is marked where it falls.
+ */
+export function materialPriceSensitivity(
+  baseProfit: number,
+  materialsCostBuy: number,
+  materialsCostSell: number,
+  multipliers: number[],
+  market: MarketSettings
+): SensitivitySeries {
+  const markers = [{ label: `${formatMarketSide(market.buy)} buy`, x: 1 }]
+  if (materialsCostBuy > 0 && materialsCostSell > 0) {
+    markers.push({ label: `${formatMarketSide(market.sell)} sell`, x: materialsCostSell / materialsCostBuy })
+  }
+
+  return {
+    variable: 'materialPrice',
+    label: 'Material prices',
+    current: 1,
+    points: multipliers.map(x => ({ x, profit: baseProfit - materialsCostBuy * (x - 1) })),
+    markers,
+  }
+}
+
+/**
+ * Evenly spaced values from min to max (inclusive)
+ */
+export function sensitivityRange(min: number, max: number, steps: number): number[] {
+  return Array.from({ length: steps + 1 }, (_, i) => min + (max - min) * i / steps)
+}
@@ -0,0 +1,133 @@
+/**
+ * Character skill utilities
+ * Turns trained skills and implants into job time modifiers, job slots and market fees
+ */
+
+import skillsData from '@/data/skills.json'
+import type { BlueprintData } from '@/lib/blueprints'
+
+export interface CharacterSkills {
+  skills: Record<number, number>   // skill typeId -> level (0-5)
+  defaultSkillLevel: number        // Used for any skill not in skills
+  implants: string[]               // Keys into skills.json implants
+}
+
+export interface MarketFees {
+  salesTax: number                 // 0-1
+  brokerFee: number                // 0-1
+}
+
+export interface SlotCounts {
+  manufacturing: number
+  reaction: number
+}
+
+export type SkillActivity = 'manufacturing' | 'reaction' | 'te_research' | 'me_research' | 'copying'
+
+interface TimeSkill {
+  typeId: number
+  name: string
+  activities: SkillActivity[]
+  timeBonus: number                // Job time reduction per level
+}
+
+interface SlotSkill {
+  typeId: number
+  name: string
+  activity: 'manufacturing' | 'reaction'
+}
+
+interface MarketSkill {
+  typeId: number
+  name: string
+  reductionPerLevel: number
+}
+
+interface Implant {
+  name: string
+  activities: SkillActivity[]
+  timeBonus: number
+}
+
+const ACTIVITY_MANUFACTURING = 1
+const ACTIVITY_REACTION = 11
+
+export const timeSkills = skillsData.timeSkills as Record<string, TimeSkill>
+export const slotSkills = skillsData.slotSkills as Record<string, SlotSkill>
+export const marketSkills = skillsData.marketSkills as Record<string, MarketSkill>
+export const implants = skillsData.implants as Record<string, Implant>
+
+/**
+ * Get a character's level in a skill, falling back to the default level
+ */
+export function getSkillLevel(character: CharacterSkills, skillTypeId: number): number {
+  return character.skills[skillTypeId] ?? character.defaultSkillLevel
+}
+
+/**
+ * Get the job time multiplier for an activity from skills and implants
+ * Bonuses stack multiplicatively. Returns 1 when no character is selected.
+ */
+export function getActivityTimeModifier(character: CharacterSkills | undefined, activity: SkillActivity): number {
+  if (!character) return 1
+
+  let modifier = 1
+  for (const skill of Object.values(timeSkills)) {
+    if (skill.activities.includes(activity)) {
+      modifier *= 1 - skill.timeBonus * getSkillLevel(character, skill.typeId)
+    }
+  }
+  for (const key of character.implants) {
+    const implant = implants[key]
+    if (implant?.activities.includes(activity)) modifier *= 1 - implant.timeBonus
+  }
+  return modifier
+}
+
+/**
+ * Get the job time multiplier for a blueprint from skills and implants
+ * Industry/Advanced Industry (or Reactions) and T2 science skills stack multiplicatively.
+ * Returns 1 when no character is selected.
+ */
+export function getJobTimeModifier(character: CharacterSkills | undefined, bp: BlueprintData): number {
+  if (!character) return 1
+
+  const activity: SkillActivity | null =
+    bp.activityId === ACTIVITY_REACTION ? 'reaction'
+      : bp.activityId === ACTIVITY_MANUFACTURING ? 'manufacturing'
+        : null
+  if (!activity) return 1
+
+  let modifier = getActivityTimeModifier(character, activity)
+  if (activity === 'manufacturing') {
+    for (const skillId of bp.scienceSkills ?? []) {
+      modifier *= 1 - skillsData.scienceTimeBonus * getSkillLevel(character, skillId)
+    }
+  }
+
+  return modifier
+}
+
+/**
+ * Get job slots per character from Mass Production/Mass Reactions skills
+ */
+export function getSlotCounts(character: CharacterSkills): SlotCounts {
+  const counts: SlotCounts = { manufacturing: 1, reaction: 1 }
+  for (const skill of Object.values(slotSkills)) {
+    counts[skill.activity] += getSkillLevel(character, skill.typeId)
+  }
+  return counts
+}
+
+/**
+ * Get sales tax and broker fee after Accounting and Broker Relations
+ */
+export function getMarketFees(character: CharacterSkills): MarketFees {
+  const { accounting, broker_relations } = marketSkills
+  return {
+    salesTax: skillsData.market.baseSalesTax
+      * (1 - accounting.reductionPerLevel * getSkillLevel(character, accounting.typeId)),
+    brokerFee: skillsData.market.baseBrokerFee
+      - broker_relations.reductionPerLevel * getSkillLevel(character, broker_relations.typeId),
+  }
+}
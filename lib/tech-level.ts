@@ -0,0 +1,18 @@
+/**
+ * Blueprint tech levels
+ * Derived from which science activity produces a blueprint: invention for T2, reverse engineering for T3
+ */
+
+import { canBeInvented } from '@/lib/invention'
+import { canBeReverseEngineered } from '@/lib/reverse-engineering'
+
+export type TechLevel = 1 | 2 | 3
+
+/**
+ * Get a blueprint's tech level: T3 if reverse engineered, T2 if invented, otherwise T1
+ */
+export function getTechLevel(blueprintTypeId: number): TechLevel {
+  if (canBeReverseEngineered(blueprintTypeId)) return 3
+  if (canBeInvented(blueprintTypeId)) return 2
+  return 1
+}
@@ -0,0 +1,32 @@
+/**
+ * Data warnings
+ * Collects warnings about degraded data (stale cache, fallback values) raised anywhere during a request
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+const scope = new AsyncLocalStorage<Set<string>>()
+
+/**
+ * Run a request handler with its own warning list
+ */
+export function runWithWarnings<T>(handler: () => Promise<T>): Promise<T> {
+  return scope.run(new Set(), handler)
+}
+
+/**
+ * Record a warning for the current request; also logged to the console
+ * Outside runWithWarnings the warning is only logged.
+ */
+export function addWarning(message: string): void {
+  console.warn(message)
+  scope.getStore()?.add(message)
+}
+
+/**
+ * Warnings recorded so far in the current request, or undefined when there are none
+ */
+export function getWarnings(): string[] | undefined {
+  const warnings = scope.getStore()
+  return warnings && warnings.size > 0 ? Array.from(warnings) : undefined
+}
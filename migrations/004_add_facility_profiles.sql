@@ -0,0 +1,19 @@
+-- Migration: Add facility_profiles table
+-- Description: Saved industry facilities (structure, rig, system, tax) that build steps can be routed to
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS facility_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  activity text NOT NULL DEFAULT 'manufacturing' CHECK (activity IN ('manufacturing', 'reaction')),
+  structure_type text NOT NULL,
+  rig_type text NOT NULL DEFAULT 'none',
+  system_name text NOT NULL,
+  security_type text NOT NULL DEFAULT 'highsec',
+  facility_tax numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON COLUMN facility_profiles.activity IS 'Which jobs the facility runs: manufacturing or reaction';
+COMMENT ON COLUMN facility_profiles.structure_type IS 'Key into structures.json (industryStructures or reactionStructures)';
+COMMENT ON COLUMN facility_profiles.facility_tax IS 'Facility tax as a percentage (e.g. 1.5 for 1.5%)';
@@ -0,0 +1,7 @@
+-- Migration: Add rigs column to facility_profiles
+-- Description: Group-specific rigs (keys into structures.json rigCatalog) fitted to a saved facility
+-- Date: 2026-10-18
+
+ALTER TABLE facility_profiles ADD COLUMN IF NOT EXISTS rigs text[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN facility_profiles.rigs IS 'Rig catalog keys (e.g. advanced_component_me_t1); when empty, rig_type applies to every product';
@@ -0,0 +1,20 @@
+-- Migration: Add character_profiles table
+-- Description: Saved character skills, implants and job slots the calculator can select
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS character_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  skills jsonb NOT NULL DEFAULT '{}',
+  default_skill_level integer NOT NULL DEFAULT 5 CHECK (default_skill_level BETWEEN 0 AND 5),
+  implants text[] NOT NULL DEFAULT '{}',
+  manufacturing_slots integer NOT NULL DEFAULT 1,
+  reaction_slots integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON COLUMN character_profiles.skills IS 'Skill levels keyed by skill typeId (e.g. {"3380": 5})';
+COMMENT ON COLUMN character_profiles.default_skill_level IS 'Level assumed for any skill not in skills (science and encryption skills included)';
+COMMENT ON COLUMN character_profiles.implants IS 'Implant keys from skills.json (e.g. industry_bx802)';
+COMMENT ON COLUMN character_profiles.manufacturing_slots IS 'Manufacturing job slots available to this character';
+COMMENT ON COLUMN character_profiles.reaction_slots IS 'Reaction job slots available to this character';
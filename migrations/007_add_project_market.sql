@@ -0,0 +1,13 @@
+-- Migration: Add market hub and price variant columns to projects
+-- Description: Hub and price variant the project's buy and sell prices were read from
+-- Date: 2026-10-18
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS buy_hub text NOT NULL DEFAULT 'jita';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS buy_price_variant text NOT NULL DEFAULT 'immediate';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS sell_hub text NOT NULL DEFAULT 'jita';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS sell_price_variant text NOT NULL DEFAULT 'immediate';
+
+COMMENT ON COLUMN projects.buy_hub IS 'Market hub of buy prices, key into market-hubs.json (e.g. amarr)';
+COMMENT ON COLUMN projects.buy_price_variant IS 'Price variant of buy prices: immediate, effective or top5';
+COMMENT ON COLUMN projects.sell_hub IS 'Market hub of sell prices, key into market-hubs.json (e.g. jita)';
+COMMENT ON COLUMN projects.sell_price_variant IS 'Price variant of sell prices: immediate, effective or top5';
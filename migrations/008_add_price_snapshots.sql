@@ -0,0 +1,30 @@
+-- Migration: Add price_snapshots table
+-- Description: Per-item prices of every project appraisal, for charting how a project's value moves over time
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS price_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type_id bigint NOT NULL,
+  item_name text NOT NULL,
+  quantity bigint NOT NULL DEFAULT 1,
+  buy_price numeric,
+  sell_price numeric,
+  split_price numeric,
+  source text,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_project_id ON price_snapshots(project_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_type_id ON price_snapshots(type_id, recorded_at);
+
+COMMENT ON COLUMN price_snapshots.quantity IS 'Quantity the project needed when the snapshot was taken';
+COMMENT ON COLUMN price_snapshots.source IS 'Price source: manual, janice, fuzzwork or esi (null when no source had a price)';
+COMMENT ON COLUMN price_snapshots.recorded_at IS 'Appraisal time; every item of one appraisal shares it';
+
+-- Seed existing projects with the prices stored when they were created
+INSERT INTO price_snapshots (project_id, type_id, item_name, quantity, buy_price, sell_price, split_price, recorded_at)
+SELECT rm.project_id, rm.type_id, rm.item_name, rm.quantity, rm.buy_price, rm.sell_price, rm.split_price, p.created_at
+FROM raw_materials rm
+JOIN projects p ON p.id = rm.project_id
+WHERE NOT EXISTS (SELECT 1 FROM price_snapshots ps WHERE ps.project_id = rm.project_id);
@@ -0,0 +1,20 @@
+-- Migration: Add http_cache table
+-- Description: Persistent cache of external API responses (ESI, Janice, Fuzzwork, eve-industry.org) shared across server instances
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS http_cache (
+  key text PRIMARY KEY,
+  url text NOT NULL,
+  status integer NOT NULL,
+  body text NOT NULL,
+  headers jsonb NOT NULL DEFAULT '{}',
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_http_cache_expires_at ON http_cache(expires_at);
+
+COMMENT ON COLUMN http_cache.key IS 'Method and URL, plus a SHA-256 of the request body for POSTs';
+COMMENT ON COLUMN http_cache.body IS 'Response body as received (JSON or XML text)';
+COMMENT ON COLUMN http_cache.headers IS 'Response headers (e.g. x-pages for paged ESI results)';
+COMMENT ON COLUMN http_cache.expires_at IS 'End of the stale grace period; the row can be deleted after it';
@@ -0,0 +1,26 @@
+-- Migration: Add profitability_scans table
+-- Description: Profitability scan jobs and their results, so any server instance can run a scan or report its progress
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS profitability_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  options jsonb NOT NULL,
+  progress_done integer NOT NULL DEFAULT 0,
+  progress_total integer NOT NULL,
+  skipped integer NOT NULL DEFAULT 0,
+  error text,
+  results jsonb,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  heartbeat_at timestamptz,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_profitability_scans_key ON profitability_scans(key, started_at);
+CREATE INDEX IF NOT EXISTS idx_profitability_scans_status ON profitability_scans(status, heartbeat_at);
+
+COMMENT ON COLUMN profitability_scans.key IS 'Filters, facilities, ME/TE, runs and market the results belong to; identical scans share a row';
+COMMENT ON COLUMN profitability_scans.options IS 'Resolved settings, cost indices and market the worker runs the scan with';
+COMMENT ON COLUMN profitability_scans.results IS 'Every priced product of the scan (unranked), set when status is done';
+COMMENT ON COLUMN profitability_scans.heartbeat_at IS 'Last progress report of the worker; a running scan silent for too long is taken over';
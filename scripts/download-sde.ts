@@ -13,8 +13,19 @@ import * as zlib from 'zlib'
 const FUZZWORK_BASE = 'https://www.fuzzwork.co.uk/dump/latest'
 const DATA_DIR = path.join(__dirname, '..', 'data')
 
+// Skills in this group cut T2 manufacturing time by 1% per level
+const GROUP_SCIENCE = 270
+
+// Sleeper relics, reverse engineered into T3 blueprint copies
+const CATEGORY_ANCIENT_RELICS = 34
+
 // Activity IDs in EVE
 const ACTIVITY_MANUFACTURING = 1
+const ACTIVITY_TE_RESEARCH = 3
+const ACTIVITY_ME_RESEARCH = 4
+const ACTIVITY_COPYING = 5
+const ACTIVITY_REVERSE_ENGINEERING = 7
+const ACTIVITY_INVENTION = 8
 const ACTIVITY_REACTION = 11
 
 interface InvType {
@@ -60,12 +71,62 @@ interface BlueprintData {
   time: number
   materials: { typeId: number; quantity: number }[]
   producedQuantity: number
+  maxProductionLimit: number  // Max runs per job (and per copy) for this blueprint
+  scienceSkills: number[]     // Required science skills (manufacturing time bonus)
+}
+
+interface InventionData {
+  blueprintTypeId: number         // T1 blueprint the job is started from
+  productBlueprintTypeId: number  // T2 blueprint copy produced on success
+  time: number
+  materials: { typeId: number; quantity: number }[]  // Datacores
+  probability: number             // Base success chance (0-1)
+  outputRuns: number              // Runs on the invented BPC
+  skills: number[]                // Required skill type IDs (science + encryption)
+}
+
+interface ReverseEngineeringRelic {
+  relicTypeId: number
+  quality: 'intact' | 'malfunctioning' | 'wrecked'
+  time: number
+  materials: { typeId: number; quantity: number }[]  // Datacores
+  probability: number             // Base success chance (0-1)
+  outputRuns: number              // Runs on the T3 BPC
+  skills: number[]                // Required skill type IDs (science + encryption)
+}
+
+interface ReverseEngineeringData {
+  productBlueprintTypeId: number  // T3 blueprint copy produced on success
+  relics: ReverseEngineeringRelic[]
+}
+
+interface ReprocessingData {
+  typeId: number
+  portionSize: number             // Units reprocessed per batch
+  materials: { typeId: number; quantity: number }[]  // Yield per batch at 100%
+}
+
+interface PlanetSchematic {
+  schematicId: number
+  name: string
+  cycleTime: number               // Seconds per cycle
+  outputTypeId: number
+  outputQuantity: number          // Units produced per cycle
+  inputs: { typeId: number; quantity: number }[]  // Consumed per cycle
+}
+
+interface ResearchData {
+  blueprintTypeId: number
+  researchTeTime: number          // Base seconds for TE research level 1
+  researchMeTime: number          // Base seconds for ME research level 1
+  copyTime: number                // Seconds per copied run
+  maxProductionLimit: number      // Max runs per copy
 }
 
 interface ProcessedData {
   blueprints: Record<number, BlueprintData>        // by blueprintTypeId
   blueprintsByProduct: Record<number, number>      // productTypeId -> blueprintTypeId
-  types: Record<number, { name: string; groupId: number | null; volume: number }>
+  types: Record<number, { name: string; groupId: number | null; volume: number; packagedVolume?: number }>
   groups: Record<number, { name: string; categoryId: number }>
 }
 
@@ -218,6 +279,12 @@ async function main() {
     console.log('Downloading invTypes...')
     const invTypesRaw = await downloadAndParseCSV('invTypes.csv')
     
+    console.log('Downloading invVolumes...')
+    const invVolumesRaw = await downloadAndParseCSV('invVolumes.csv')
+    
+    console.log('Downloading invMarketGroups...')
+    const invMarketGroupsRaw = await downloadAndParseCSV('invMarketGroups.csv')
+    
     console.log('Downloading invGroups...')
     const invGroupsRaw = await downloadAndParseCSV('invGroups.csv')
     
@@ -230,13 +297,31 @@ async function main() {
     console.log('Downloading industryActivity...')
     const activitiesRaw = await downloadAndParseCSV('industryActivity.csv')
     
+    console.log('Downloading industryBlueprints...')
+    const industryBlueprintsRaw = await downloadAndParseCSV('industryBlueprints.csv')
+    
+    console.log('Downloading industryActivityProbabilities...')
+    const probabilitiesRaw = await downloadAndParseCSV('industryActivityProbabilities.csv')
+    
+    console.log('Downloading industryActivitySkills...')
+    const skillsRaw = await downloadAndParseCSV('industryActivitySkills.csv')
+    
+    console.log('Downloading invTypeMaterials...')
+    const typeMaterialsRaw = await downloadAndParseCSV('invTypeMaterials.csv')
+    
     console.log('Downloading mapSolarSystems...')
     const solarSystemsRaw = await downloadAndParseCSV('mapSolarSystems.csv')
+    
+    console.log('Downloading planetSchematics...')
+    const schematicsRaw = await downloadAndParseCSV('planetSchematics.csv')
+    
+    console.log('Downloading planetSchematicsTypeMap...')
+    const schematicTypesRaw = await downloadAndParseCSV('planetSchematicsTypeMap.csv')
 
     console.log('\nProcessing data...')
 
     // Process invTypes (include all types, not just published, for blueprint materials)
-    const types: Record<number, { name: string; groupId: number | null; volume: number }> = {}
+    const types: Record<number, { name: string; groupId: number | null; volume: number; packagedVolume?: number }> = {}
     for (const row of invTypesRaw) {
       const typeID = parseInt(row.typeID)
       if (!isNaN(typeID)) {
@@ -249,6 +334,44 @@ async function main() {
     }
     console.log(`  Processed ${Object.keys(types).length} types`)
 
+    // Process invVolumes: packaged volume of ships and other types that repackage,
+    // kept only where it differs from the assembled volume
+    let packagedCount = 0
+    for (const row of invVolumesRaw) {
+      const typeID = parseInt(row.typeID)
+      const packagedVolume = parseFloat(row.volume)
+      if (types[typeID] && !isNaN(packagedVolume) && packagedVolume !== types[typeID].volume) {
+        types[typeID].packagedVolume = packagedVolume
+        packagedCount++
+      }
+    }
+    console.log(`  Processed ${packagedCount} packaged volumes`)
+
+    // Process invMarketGroups into each type's market group path (root first), for search filters
+    const marketGroups: Record<number, { name: string; parentId: number | null }> = {}
+    for (const row of invMarketGroupsRaw) {
+      const marketGroupID = parseInt(row.marketGroupID)
+      if (!isNaN(marketGroupID)) {
+        const parentId = parseInt(row.parentGroupID)
+        marketGroups[marketGroupID] = { name: row.marketGroupName, parentId: isNaN(parentId) ? null : parentId }
+      }
+    }
+    const typeMarketGroups: Record<number, number> = {}
+    for (const row of invTypesRaw) {
+      const marketGroupID = parseInt(row.marketGroupID)
+      if (!isNaN(marketGroupID)) typeMarketGroups[parseInt(row.typeID)] = marketGroupID
+    }
+    const getMarketGroupPath = (typeId: number): string[] => {
+      const path: string[] = []
+      let groupId: number | null = typeMarketGroups[typeId] ?? null
+      while (groupId !== null && marketGroups[groupId] && path.length < 10) {
+        path.unshift(marketGroups[groupId].name)
+        groupId = marketGroups[groupId].parentId
+      }
+      return path
+    }
+    console.log(`  Processed ${Object.keys(marketGroups).length} market groups`)
+
     // Process invGroups
     const groups: Record<number, { name: string; categoryId: number }> = {}
     for (const row of invGroupsRaw) {
@@ -273,6 +396,30 @@ async function main() {
       }
     }
 
+    // Process blueprint run limits
+    const maxProductionLimits: Record<number, number> = {}
+    for (const row of industryBlueprintsRaw) {
+      const typeID = parseInt(row.typeID)
+      const limit = parseInt(row.maxProductionLimit)
+      if (!isNaN(typeID) && !isNaN(limit)) {
+        maxProductionLimits[typeID] = limit
+      }
+    }
+
+    // Process required science skills for manufacturing (T2 time bonus)
+    const scienceSkills: Record<number, number[]> = {}
+    for (const row of skillsRaw) {
+      const typeID = parseInt(row.typeID)
+      const skillID = parseInt(row.skillID)
+      if (parseInt(row.activityID) === ACTIVITY_MANUFACTURING && !isNaN(typeID) && !isNaN(skillID) &&
+          types[skillID]?.groupId === GROUP_SCIENCE) {
+        if (!scienceSkills[typeID]) {
+          scienceSkills[typeID] = []
+        }
+        scienceSkills[typeID].push(skillID)
+      }
+    }
+
     // Process industry activity materials
     const blueprintMaterials: Record<string, { typeId: number; quantity: number }[]> = {}
     for (const row of materialsRaw) {
@@ -333,7 +480,9 @@ async function main() {
           activityId,
           time,
           materials,
-          producedQuantity: product.quantity
+          producedQuantity: product.quantity,
+          maxProductionLimit: maxProductionLimits[blueprintTypeId] || 0,
+          scienceSkills: activityId === ACTIVITY_MANUFACTURING ? scienceSkills[blueprintTypeId] || [] : []
         }
         
         // Map product to blueprint (prefer manufacturing over reaction if both exist)
@@ -345,6 +494,179 @@ async function main() {
     
     console.log(`  Processed ${Object.keys(blueprints).length} blueprints`)
 
+    // Process invention (activity 8): datacores, probabilities, output runs and skills.
+    // Relics are reverse engineered under activity 7 in older SDEs and activity 8 since
+    // Crius, so both are collected here and split by the source type's category below.
+    const isInventionActivity = (activityID: number) =>
+      activityID === ACTIVITY_INVENTION || activityID === ACTIVITY_REVERSE_ENGINEERING
+    const isRelic = (typeID: number) => {
+      const groupId = types[typeID]?.groupId
+      return groupId !== null && groupId !== undefined && groups[groupId]?.categoryId === CATEGORY_ANCIENT_RELICS
+    }
+
+    const inventionMaterials: Record<number, { typeId: number; quantity: number }[]> = {}
+    for (const row of materialsRaw) {
+      const typeID = parseInt(row.typeID)
+      const materialTypeID = parseInt(row.materialTypeID)
+      const quantity = parseInt(row.quantity)
+      if (isInventionActivity(parseInt(row.activityID)) &&
+          !isNaN(typeID) && !isNaN(materialTypeID) && !isNaN(quantity)) {
+        if (!inventionMaterials[typeID]) {
+          inventionMaterials[typeID] = []
+        }
+        inventionMaterials[typeID].push({ typeId: materialTypeID, quantity })
+      }
+    }
+
+    const inventionProbabilities: Record<string, number> = {} // key: `${typeID}-${productTypeID}`
+    for (const row of probabilitiesRaw) {
+      const probability = parseFloat(row.probability)
+      if (isInventionActivity(parseInt(row.activityID)) && !isNaN(probability)) {
+        inventionProbabilities[`${row.typeID}-${row.productTypeID}`] = probability
+      }
+    }
+
+    const inventionSkills: Record<number, number[]> = {}
+    for (const row of skillsRaw) {
+      const typeID = parseInt(row.typeID)
+      const skillID = parseInt(row.skillID)
+      if (isInventionActivity(parseInt(row.activityID)) && !isNaN(typeID) && !isNaN(skillID)) {
+        if (!inventionSkills[typeID]) {
+          inventionSkills[typeID] = []
+        }
+        inventionSkills[typeID].push(skillID)
+      }
+    }
+
+    // Keyed by the invented (T2/T3) blueprint, since that is what the calculator looks up.
+    // Several relics produce the same T3 blueprint, so they are kept as a list.
+    const invention: Record<number, InventionData> = {}
+    const reverseEngineering: Record<number, ReverseEngineeringData> = {}
+    for (const row of productsRaw) {
+      const typeID = parseInt(row.typeID)
+      const productTypeID = parseInt(row.productTypeID)
+      const activityID = parseInt(row.activityID)
+      if (!isInventionActivity(activityID) || isNaN(typeID) || isNaN(productTypeID)) {
+        continue
+      }
+      
+      if (isRelic(typeID)) {
+        const quality = types[typeID].name.split(' ')[0].toLowerCase()
+        if (quality !== 'intact' && quality !== 'malfunctioning' && quality !== 'wrecked') continue
+        
+        if (!reverseEngineering[productTypeID]) {
+          reverseEngineering[productTypeID] = { productBlueprintTypeId: productTypeID, relics: [] }
+        }
+        reverseEngineering[productTypeID].relics.push({
+          relicTypeId: typeID,
+          quality,
+          time: activityTimes[`${typeID}-${activityID}`] || 0,
+          materials: inventionMaterials[typeID] || [],
+          probability: inventionProbabilities[`${typeID}-${productTypeID}`] ?? 0,
+          outputRuns: parseInt(row.quantity) || 1,
+          skills: inventionSkills[typeID] || []
+        })
+        continue
+      }
+      
+      invention[productTypeID] = {
+        blueprintTypeId: typeID,
+        productBlueprintTypeId: productTypeID,
+        time: activityTimes[`${typeID}-${ACTIVITY_INVENTION}`] || 0,
+        materials: inventionMaterials[typeID] || [],
+        probability: inventionProbabilities[`${typeID}-${productTypeID}`] ?? 0,
+        outputRuns: parseInt(row.quantity) || 1,
+        skills: inventionSkills[typeID] || []
+      }
+    }
+    
+    console.log(`  Processed ${Object.keys(invention).length} invention recipes`)
+    console.log(`  Processed ${Object.keys(reverseEngineering).length} reverse engineering recipes`)
+
+    // Research and copying (activities 3, 4, 5) for manufacturing blueprints
+    const research: Record<number, ResearchData> = {}
+    for (const bp of Object.values(blueprints)) {
+      if (bp.activityId !== ACTIVITY_MANUFACTURING) continue
+      
+      const researchTeTime = activityTimes[`${bp.blueprintTypeId}-${ACTIVITY_TE_RESEARCH}`] || 0
+      const researchMeTime = activityTimes[`${bp.blueprintTypeId}-${ACTIVITY_ME_RESEARCH}`] || 0
+      const copyTime = activityTimes[`${bp.blueprintTypeId}-${ACTIVITY_COPYING}`] || 0
+      if (!researchTeTime && !researchMeTime && !copyTime) continue
+      
+      research[bp.blueprintTypeId] = {
+        blueprintTypeId: bp.blueprintTypeId,
+        researchTeTime,
+        researchMeTime,
+        copyTime,
+        maxProductionLimit: bp.maxProductionLimit
+      }
+    }
+    
+    console.log(`  Processed ${Object.keys(research).length} research entries`)
+
+    // Reprocessing yields (invTypeMaterials) for published types: ore, ice, moon ore, modules...
+    const portionSizes: Record<number, number> = {}
+    const publishedTypes = new Set<number>()
+    for (const row of invTypesRaw) {
+      const typeID = parseInt(row.typeID)
+      if (isNaN(typeID)) continue
+      portionSizes[typeID] = parseInt(row.portionSize) || 1
+      if (row.published === '1') publishedTypes.add(typeID)
+    }
+    
+    const reprocessing: Record<number, ReprocessingData> = {}
+    for (const row of typeMaterialsRaw) {
+      const typeID = parseInt(row.typeID)
+      const materialTypeID = parseInt(row.materialTypeID)
+      const quantity = parseInt(row.quantity)
+      if (isNaN(typeID) || isNaN(materialTypeID) || isNaN(quantity) || !publishedTypes.has(typeID)) {
+        continue
+      }
+      
+      if (!reprocessing[typeID]) {
+        reprocessing[typeID] = { typeId: typeID, portionSize: portionSizes[typeID] || 1, materials: [] }
+      }
+      reprocessing[typeID].materials.push({ typeId: materialTypeID, quantity })
+    }
+    
+    console.log(`  Processed ${Object.keys(reprocessing).length} reprocessable types`)
+
+    // Planetary Industry schematics, keyed by the commodity they produce
+    const planetSchematics: Record<number, PlanetSchematic> = {}
+    const schematicsById: Record<number, PlanetSchematic> = {}
+    for (const row of schematicsRaw) {
+      const schematicID = parseInt(row.schematicID)
+      if (isNaN(schematicID)) continue
+      schematicsById[schematicID] = {
+        schematicId: schematicID,
+        name: row.schematicName,
+        cycleTime: parseInt(row.cycleTime) || 0,
+        outputTypeId: 0,
+        outputQuantity: 0,
+        inputs: []
+      }
+    }
+    for (const row of schematicTypesRaw) {
+      const schematic = schematicsById[parseInt(row.schematicID)]
+      const typeID = parseInt(row.typeID)
+      const quantity = parseInt(row.quantity)
+      if (!schematic || isNaN(typeID) || isNaN(quantity)) continue
+      
+      if (row.isInput === '1') {
+        schematic.inputs.push({ typeId: typeID, quantity })
+      } else {
+        schematic.outputTypeId = typeID
+        schematic.outputQuantity = quantity
+      }
+    }
+    for (const schematic of Object.values(schematicsById)) {
+      if (schematic.outputTypeId && schematic.inputs.length > 0) {
+        planetSchematics[schematic.outputTypeId] = schematic
+      }
+    }
+    
+    console.log(`  Processed ${Object.keys(planetSchematics).length} planet schematics`)
+
     // Process solar systems
     const solarSystems: { id: number; name: string; security: number }[] = []
     for (const row of solarSystemsRaw) {
@@ -388,6 +710,26 @@ async function main() {
     fs.writeFileSync(groupsPath, JSON.stringify(groups, null, 2))
     console.log(`  Saved ${groupsPath}`)
 
+    const inventionPath = path.join(DATA_DIR, 'invention.json')
+    fs.writeFileSync(inventionPath, JSON.stringify(invention, null, 2))
+    console.log(`  Saved ${inventionPath}`)
+
+    const reverseEngineeringPath = path.join(DATA_DIR, 'reverse-engineering.json')
+    fs.writeFileSync(reverseEngineeringPath, JSON.stringify(reverseEngineering, null, 2))
+    console.log(`  Saved ${reverseEngineeringPath}`)
+
+    const reprocessingPath = path.join(DATA_DIR, 'reprocessing.json')
+    fs.writeFileSync(reprocessingPath, JSON.stringify(reprocessing, null, 2))
+    console.log(`  Saved ${reprocessingPath}`)
+
+    const planetSchematicsPath = path.join(DATA_DIR, 'planet-schematics.json')
+    fs.writeFileSync(planetSchematicsPath, JSON.stringify(planetSchematics, null, 2))
+    console.log(`  Saved ${planetSchematicsPath}`)
+
+    const researchPath = path.join(DATA_DIR, 'research.json')
+    fs.writeFileSync(researchPath, JSON.stringify(research, null, 2))
+    console.log(`  Saved ${researchPath}`)
+
     // Save solar systems (to both data and public for client-side loading)
     const solarSystemsPath = path.join(DATA_DIR, 'solar-systems.json')
     fs.writeFileSync(solarSystemsPath, JSON.stringify(solarSystems))
@@ -400,13 +742,19 @@ async function main() {
     console.log(`  Saved ${publicSolarSystemsPath}`)
 
     // Also save a combined smaller file with just blueprint search data
-    const blueprintSearchData = Object.values(blueprints).map(bp => ({
-      id: bp.blueprintTypeId,
-      name: bp.blueprintName,
-      productId: bp.productTypeId,
-      productName: bp.productName,
-      isReaction: bp.activityId === ACTIVITY_REACTION
-    }))
+    const blueprintSearchData = Object.values(blueprints).map(bp => {
+      const groupId = types[bp.productTypeId]?.groupId
+      return {
+        id: bp.blueprintTypeId,
+        name: bp.blueprintName,
+        productId: bp.productTypeId,
+        productName: bp.productName,
+        isReaction: bp.activityId === ACTIVITY_REACTION,
+        techLevel: reverseEngineering[bp.blueprintTypeId] ? 3 : invention[bp.blueprintTypeId] ? 2 : 1,
+        categoryId: groupId != null ? groups[groupId]?.categoryId ?? null : null,
+        marketGroupPath: getMarketGroupPath(bp.productTypeId)
+      }
+    })
     
     const searchPath = path.join(DATA_DIR, 'blueprint-search.json')
     fs.writeFileSync(searchPath, JSON.stringify(blueprintSearchData, null, 2))
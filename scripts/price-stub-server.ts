@@ -0,0 +1,117 @@
+/**
+ * Stand-in price server
+ * Serves fixed Janice, ESI and Fuzzwork responses so the price fallback order can be exercised
+ * without the real APIs: Janice always fails, ESI knows Tritanium and Fuzzwork knows Pyerite.
+ * Point the app at it with JANICE_API_BASE, ESI_BASE_URL and FUZZWORK_API_BASE.
+ *
+ * Usage: npx tsx scripts/price-stub-server.ts [port]
+ */
+
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+
+const JITA_STATION_ID = 60003760
+const AMARR_STATION_ID = 60008494
+
+export const STUB_TYPES = {
+  TRITANIUM: 34,    // ESI only
+  PYERITE: 35,      // Fuzzwork only
+  MEXALLON: 36,     // Manual prices only
+}
+
+export interface PriceStubServer {
+  url: string                // Base URL; the APIs are under /janice, /esi and /fuzzwork
+  requests: URL[]            // Requests so far, oldest first
+  close(): Promise<void>
+}
+
+// ESI market orders in The Forge; the Amarr order must be ignored for Jita prices
+const ESI_ORDERS: Record<number, object[]> = {
+  [STUB_TYPES.TRITANIUM]: [
+    { order_id: 1, type_id: 34, location_id: JITA_STATION_ID, is_buy_order: true, price: 4.1, volume_remain: 1000000 },
+    { order_id: 2, type_id: 34, location_id: JITA_STATION_ID, is_buy_order: true, price: 4.0, volume_remain: 5000000 },
+    { order_id: 3, type_id: 34, location_id: JITA_STATION_ID, is_buy_order: false, price: 4.5, volume_remain: 2000000 },
+    { order_id: 4, type_id: 34, location_id: AMARR_STATION_ID, is_buy_order: false, price: 1.0, volume_remain: 100 },
+  ],
+}
+
+function orderStats(max: number, min: number, volume: number, orderCount: number) {
+  const value = (n: number) => n.toString()
+  return {
+    weightedAverage: value(max),
+    max: value(max),
+    min: value(min),
+    stddev: '0',
+    median: value(max),
+    volume: value(volume),
+    orderCount: value(orderCount),
+    percentile: value(max),
+  }
+}
+
+// Fuzzwork answers for every requested type, with zero counts where there are no orders
+function fuzzworkAggregates(typeIds: number[]) {
+  return Object.fromEntries(typeIds.map(typeId => [
+    typeId,
+    typeId === STUB_TYPES.PYERITE
+      ? { buy: orderStats(9.5, 9.0, 300000, 12), sell: orderStats(11, 10.5, 800000, 20) }
+      : { buy: orderStats(0, 0, 0, 0), sell: orderStats(0, 0, 0, 0) },
+  ]))
+}
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse, requests: URL[]) {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  requests.push(url)
+
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  if (url.pathname.startsWith('/janice/')) {
+    return json(503, { error: 'Service unavailable' })
+  }
+
+  const esiOrders = url.pathname.match(/^\/esi\/markets\/(\d+)\/orders\/$/)
+  if (esiOrders) {
+    const typeId = Number(url.searchParams.get('type_id'))
+    return json(200, ESI_ORDERS[typeId] ?? [], { 'X-Pages': '1' })
+  }
+
+  if (url.pathname === '/fuzzwork/aggregates/') {
+    const typeIds = (url.searchParams.get('types') ?? '').split(',').filter(Boolean).map(Number)
+    return json(200, fuzzworkAggregates(typeIds))
+  }
+
+  json(404, { error: `No stub for ${url.pathname}` })
+}
+
+/**
+ * Start the stand-in server
+ * @param port - Port to listen on (default: any free port)
+ */
+export function startPriceStubServer(port = 0): Promise<PriceStubServer> {
+  const requests: URL[] = []
+  const server = http.createServer((req, res) => handle(req, res, requests))
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done())),
+      })
+    })
+  })
+}
+
+if (require.main === module) {
+  startPriceStubServer(Number(process.argv[2]) || 4000).then(({ url }) => {
+    console.log(`Price stub server listening on ${url}`)
+    console.log(`  JANICE_API_BASE=${url}/janice`)
+    console.log(`  ESI_BASE_URL=${url}/esi`)
+    console.log(`  FUZZWORK_API_BASE=${url}/fuzzwork`)
+  })
+}
@@ -2,9 +2,17 @@
  * Database types for the Eve Online Industry Tracker
  */
 
+import type { MarketHub, MarketSettings, PriceVariant } from '@/lib/markets'
+import type { PriceSource } from '@/lib/pricing'
+import type { ScanOptions, ScanResult, ScanStatus } from '@/lib/profitability'
+
 export interface Project {
   id: string
   name: string
+  buy_hub: MarketHub              // Hub and variant of the stored buy prices
+  buy_price_variant: PriceVariant
+  sell_hub: MarketHub             // Hub and variant of the stored sell prices
+  sell_price_variant: PriceVariant
   created_at: string
   updated_at: string
 }
@@ -54,6 +62,58 @@ export interface AdditionalCost {
   created_at: string
 }
 
+export interface FacilityProfile {
+  id: string
+  name: string
+  activity: 'manufacturing' | 'reaction'
+  structure_type: string
+  rig_type: string
+  rigs: string[]         // Rig catalog keys; when set, these replace rig_type
+  system_name: string
+  security_type: 'highsec' | 'lowsec' | 'nullsec' | 'wormhole'
+  facility_tax: number
+  created_at: string
+}
+
+export interface CharacterProfile {
+  id: string
+  name: string
+  skills: Record<string, number>  // skill typeId -> level (0-5)
+  default_skill_level: number     // Level assumed for skills not listed
+  implants: string[]              // Implant keys from skills.json
+  manufacturing_slots: number
+  reaction_slots: number
+  created_at: string
+}
+
+export interface PriceSnapshot {
+  id: string
+  project_id: string
+  type_id: number
+  item_name: string
+  quantity: number                // Quantity needed when the snapshot was taken
+  buy_price: number | null
+  sell_price: number | null
+  split_price: number | null
+  source: PriceSource | null
+  recorded_at: string             // Shared by every item of one appraisal
+}
+
+export interface ProfitabilityScan {
+  id: string
+  key: string                     // Inputs the results belong to
+  status: ScanStatus
+  options: ScanOptions
+  progress_done: number
+  progress_total: number
+  skipped: number
+  error: string | null
+  results: ScanResult[] | null    // Set once done
+  started_at: string
+  heartbeat_at: string | null     // Last progress report of the worker running the scan
+  completed_at: string | null
+}
+
 export interface ProjectWithDetails extends Project {
   raw_materials: RawMaterial[]
   components: Component[]
@@ -65,6 +125,7 @@ export interface CreateProjectRequest {
   name: string
   rawMaterialsInput: string
   componentsInput: string
+  market?: MarketSettings         // Default: Jita immediate for both sides
 }
 
 export interface UpdateItemRequest {
@@ -77,3 +138,22 @@ export interface CreateAdditionalCostRequest {
   amount: number
 }
 
+export interface CreateFacilityProfileRequest {
+  name: string
+  activity: 'manufacturing' | 'reaction'
+  structureType: string
+  rigType: string
+  rigs?: string[]
+  systemName: string
+  securityType: 'highsec' | 'lowsec' | 'nullsec' | 'wormhole'
+  facilityTax: number
+}
+
+export interface CreateCharacterProfileRequest {
+  name: string
+  skills: Record<string, number>
+  defaultSkillLevel: number
+  implants?: string[]
+  manufacturingSlots: number
+  reactionSlots: number
+}